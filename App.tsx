@@ -1,24 +1,121 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
 import { Icons } from './constants';
-import { AudioFile, ConversionStatus, AppStats, FolderConfig, ProgressEventPayload } from './types';
-import { FileItem } from './components/FileItem';
+import { AppStats, AudioFile, ConversionStatus, DetectedFile, FolderConfig, ProgressEventPayload, ConversionSettings, HistoryBatch, ConversionPlan, VerificationStatus, LyricsSidecar, PlaylistMode, DuplicateGroup, LibraryTrack, OverwritePolicy } from './types';
+import { FILE_ITEM_HEIGHT, FileItem } from './components/FileItem';
 import { StatusCard } from './components/StatusCard';
-import { TauriService } from './services/tauriService';
+import { BatchProgressCard } from './components/BatchProgressCard';
+import { SettingsPanel } from './components/SettingsPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { PlanPanel } from './components/PlanPanel';
+import { FailuresPanel } from './components/FailuresPanel';
+import { DuplicatesPanel } from './components/DuplicatesPanel';
+import { VirtualList } from './components/VirtualList';
+import { PreviewPlayer } from './components/PreviewPlayer';
+import { getBackend } from './services/backend';
+import { readInnerFormat, readTrackInfo } from './services/trackInfo';
+import { decryptedSource, isSupportedFile, openSource, SOURCE_EXTENSIONS, sourceFormatOf } from './services/decoders';
+import { fingerprint, HistoryStore } from './services/historyStore';
+import { loadSettings, saveSettings } from './services/settingsStore';
+import { NamingSource, planOutputStems } from './services/filenameTemplate';
+import { buildPlan, outputExtension, resolveOutputPath, settingsForFile } from './services/planner';
+import { isActive, isRetryable, QueueManager } from './services/queueManager';
+import { applyView, DEFAULT_VIEW, FileView, SORT_LABELS, SortKey, StatusFilter } from './services/fileView';
+import { BatchProgress, BatchProgressTracker } from './services/progress';
+import { buildBatchReport, reportToCsv } from './services/batchReport';
+import { saveBlob } from './services/download';
+import { lyricsFromPicked, PickedFile, pickedFromDrop, pickedFromInput, rootLabel, sourceRoots, withoutQueued } from './services/intake';
+import { folderOf, matchLyrics } from './services/lyrics';
+import { planLayout, sessionPlaylistName } from './services/playlist';
+import { albumGains, replayGainTags } from './services/loudness';
+import { describeOperation, settingsProblem, spaceNeeded, spaceShortfalls } from './services/safety';
+import { DuplicateResolution, findDuplicates, identifyAudio, libraryFolders, resolveDuplicates } from './services/duplicates';
+
+const createFileId = () => Math.random().toString(36).substr(2, 9);
+const backend = getBackend();
+
+const fromDetected = (detected: DetectedFile): AudioFile => ({
+  id: createFileId(),
+  name: detected.name,
+  path: detected.path,
+  root: detected.root,
+  size: detected.size,
+  format: sourceFormatOf(detected.name),
+  status: ConversionStatus.PENDING,
+  progress: 0,
+});
+
+const fromPicked = ({ file, path, root }: PickedFile): AudioFile => ({
+  id: createFileId(),
+  name: file.name,
+  path,
+  root,
+  size: file.size,
+  format: sourceFormatOf(file.name),
+  status: ConversionStatus.PENDING,
+  progress: 0,
+  source: file,
+});
+
+const BACKEND_BADGES: Record<typeof backend.kind, { label: string; className: string }> = {
+  tauri: { label: 'TAURI BACKEND', className: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' },
+  browser: { label: 'BROWSER DECODER', className: 'bg-amber-500/10 border-amber-500/20 text-amber-400' },
+  mock: { label: 'MOCK BACKEND', className: 'bg-sky-500/10 border-sky-500/20 text-sky-400' },
+};
+
+const FILTER_CHIPS: { filter: StatusFilter; label: string; count: (stats: AppStats) => number }[] = [
+  { filter: 'all', label: 'All', count: stats => stats.totalFiles },
+  { filter: 'converted', label: 'Done', count: stats => stats.converted },
+  { filter: 'pending', label: 'Pending', count: stats => stats.pending },
+  { filter: 'failed', label: 'Failed', count: stats => stats.failed },
+];
 
 const App: React.FC = () => {
-  const [files, setFiles] = useState<AudioFile[]>([]);
   const [folderConfig, setFolderConfig] = useState<FolderConfig>({ path: null, isWatching: false });
-  const [isProcessing, setIsProcessing] = useState(false);
   const [logs, setLogs] = useState<string[]>([]);
+  const [settings, setSettings] = useState<ConversionSettings>(() => loadSettings(backend.desktop));
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showFailures, setShowFailures] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [plan, setPlan] = useState<ConversionPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  // Groups under review, with the output path each pending file would get
+  const [duplicates, setDuplicates] = useState<{ groups: DuplicateGroup[]; outputPaths: Map<string, string> } | null>(null);
+  const [duplicateScan, setDuplicateScan] = useState<string | null>(null); // progress label while looking
   const logEndRef = useRef<HTMLDivElement>(null);
-  
-  // Stats derivation
-  const stats: AppStats = {
-    totalFiles: files.length,
-    converted: files.filter(f => f.status === ConversionStatus.COMPLETED).length,
-    failed: files.filter(f => f.status === ConversionStatus.FAILED).length,
-    pending: files.filter(f => f.status === ConversionStatus.PENDING || f.status === ConversionStatus.IDLE).length,
-  };
+  const selectionRef = useRef(0);
+  // Settings are captured when a batch starts, so edits never affect files mid-batch.
+  const batchSettingsRef = useRef(settings);
+  // The history batch of the current run; persisted with its first finished file.
+  const batchRef = useRef<{ batch: HistoryBatch; saved: boolean } | null>(null);
+  const [batchTracker] = useState(() => new BatchProgressTracker());
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [view, setView] = useState<FileView>(DEFAULT_VIEW);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const selectAnchorRef = useRef<string | null>(null); // last clicked file, where shift-click ranges start
+  // Lyrics sidecars by folder: picked along with the sources, or listed by the backend
+  const lyricsRef = useRef(new Map<string, LyricsSidecar[]>());
+  // When the first batch since the queue was last cleared started; names the session playlist
+  const sessionStartRef = useRef<number | null>(null);
+  // History lookups still running; starting waits for them so it never dispatches a file about to be skipped
+  const historyLookupsRef = useRef(new Set<Promise<void>>());
+
+  const [queue] = useState(() => new QueueManager(
+    (file, signal) => backend.convertFile(file, settingsForFile(file, batchSettingsRef.current), signal),
+    { concurrency: settings.concurrency },
+  ));
+  const { files, running: isProcessing, stats } = useSyncExternalStore(
+    (onChange) => queue.subscribe(event => { if (event.type === 'change') onChange(); }),
+    () => queue.getSnapshot(),
+  );
+
+  const visible = useMemo(() => applyView(files, view), [files, view]);
+  // Ids of removed files may linger in `selectedIds`; only queued files count
+  const selected = useMemo(() => selectedIds.size > 0 ? files.filter(f => selectedIds.has(f.id)) : [], [files, selectedIds]);
+  const roots = useMemo(() => sourceRoots(files), [files]);
+  // Gone once its file leaves the queue
+  const previewFile = previewId ? queue.getFile(previewId) : undefined;
 
   const addLog = (msg: string) => {
     const timestamp = new Date().toLocaleTimeString();
@@ -29,161 +126,617 @@ const App: React.FC = () => {
     logEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [logs]);
 
-  // --- Real-time Progress Listener (Tauri) ---
+  // --- Real-time Progress Listener ---
   useEffect(() => {
     const setupListener = async () => {
-      const unlisten = await TauriService.getInstance().listenToProgress((payload: ProgressEventPayload) => {
-        setFiles(prev => prev.map(f => {
-          if (f.id === payload.id) {
-            // Update progress or status based on event
-            const updates: Partial<AudioFile> = { progress: payload.progress };
-            if (payload.status === 'completed') updates.status = ConversionStatus.COMPLETED;
-            if (payload.status === 'error') {
-               updates.status = ConversionStatus.FAILED;
-               updates.errorMessage = payload.message;
-            }
-            return { ...f, ...updates };
-          }
-          return f;
-        }));
-      });
-      return unlisten;
+      // Progress and intermediate stages only; the final status comes from convertFile's result
+      return await backend.listenToProgress((payload: ProgressEventPayload) => queue.handleProgress(payload));
     };
     
     const unlistenPromise = setupListener();
     return () => { unlistenPromise.then(unlisten => unlisten()); };
-  }, []);
+  }, [queue]);
 
-  // --- Simulation Progress Effect (Web Only) ---
+  // Batch progress, throughput and ETA, sampled on every queue change
   useEffect(() => {
-    if (TauriService.getInstance().getIsTauri()) return; // Skip in real app
-    
-    if (!isProcessing) return;
-    
-    const interval = setInterval(() => {
-      setFiles(prevFiles => {
-        // Find converting files and increment their progress artificially
-        return prevFiles.map(f => {
-          if (f.status === ConversionStatus.CONVERTING) {
-             const newProgress = Math.min(f.progress + (Math.random() * 5), 99);
-             return { ...f, progress: newProgress };
-          }
-          return f;
-        });
-      });
-    }, 100);
+    setBatchProgress(batchTracker.update(files, Date.now()));
+  }, [batchTracker, files]);
 
-    return () => clearInterval(interval);
-  }, [isProcessing]);
+  // --- Queue lifecycle logging and history ---
+  useEffect(() => queue.subscribe(event => {
+    switch (event.type) {
+      case 'started':
+        addLog(`Starting: ${event.file.name}`);
+        break;
+      case 'finished':
+        if (event.file.status === ConversionStatus.CANCELLED) addLog(`Cancelled: ${event.file.name}`);
+        else if (event.result.skipped) addLog(`Skipped: ${event.file.name} - ${event.result.message}`);
+        else if (event.result.verification?.status === VerificationStatus.SUSPECT) addLog(`Suspect: ${event.file.name} - ${event.result.verification.reason}`);
+        else if (event.result.success) addLog(`Converted: ${event.file.name}`);
+        else addLog(`Error: ${event.file.name} - ${event.result.message}`);
+        event.result.operations?.forEach(operation => addLog(describeOperation(operation)));
+        if (event.result.success && !event.result.skipped && event.result.message) addLog(`${event.file.name} - ${event.result.message}`);
+        recordHistory(event.file);
+        break;
+      case 'drained':
+        addLog("All tasks completed.");
+        finishBatch();
+        break;
+    }
+  }), [queue]);
 
+  useEffect(() => {
+    queue.setConcurrency(settings.concurrency);
+    backend.setConcurrency(settings.concurrency);
+  }, [queue, settings.concurrency]);
 
-  const handleFolderSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files.length > 0) {
-      const selectedFiles = Array.from(event.target.files) as any[];
-      const ncmFiles = selectedFiles.filter(f => f.name.endsWith('.ncm'));
-      
-      const path = selectedFiles[0].webkitRelativePath?.split('/')[0] || "Selected Folder";
-      
-      addLog(`Selected directory: ${path}`);
-      
-      if (ncmFiles.length === 0) {
-        addLog("No .ncm files found in this selection.");
+  const handleSettingsChange = (next: ConversionSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  // Names outputs from the filename template before they start, so name
+  // collisions resolve in queue order rather than in completion order. The
+  // extension comes from the sniffed stream, as the backends name outputs.
+  const planOutputs = async (targets: AudioFile[], batchSettings: ConversionSettings): Promise<AudioFile[]> => {
+    const named: AudioFile[] = [];
+    for (const file of targets) {
+      const source = backend.sourceOf(file);
+      if ((file.metadata && file.innerFormat) || !source) {
+        named.push(file);
+        continue;
+      }
+      const metadata = file.metadata ?? await readTrackInfo(source, file.name).then(info => info?.metadata, () => null);
+      const innerFormat = file.innerFormat ?? await readInnerFormat(source, file.name).catch(() => null);
+      named.push({ ...file, metadata: metadata ?? undefined, innerFormat: innerFormat ?? undefined });
+    }
+    const extensionOf = (file: NamingSource) => outputExtension(file, batchSettings);
+    const targetIds = new Set(targets.map(f => f.id));
+    const taken = queue.getSnapshot().files
+      .filter(f => f.outputStem && !targetIds.has(f.id))
+      .map((f): [string, string] => [f.outputStem!, extensionOf(f)]);
+    const plan = planOutputStems(named, batchSettings.filenameTemplate, extensionOf, taken);
+    return named.map(f => ({ ...f, outputStem: plan.get(f.id) }));
+  };
+
+  // Dry run: resolves names, formats and conflicts for the whole queue without writing anything.
+  const openPlan = async () => {
+    setIsPlanning(true);
+    try {
+      const snapshot = queue.getSnapshot().files;
+      const planned = new Map((await planOutputs(snapshot.filter(f => f.status === ConversionStatus.PENDING), settings)).map(f => [f.id, f]));
+      setPlan(await buildPlan(snapshot.map(f => planned.get(f.id) ?? f), settings, {
+        isTauri: backend.desktop,
+        innerFormatOf: file => {
+          const source = backend.sourceOf(file);
+          return source ? readInnerFormat(source, file.name).catch(() => null) : Promise.resolve(null);
+        },
+        pathsExist: paths => backend.pathsExist(paths),
+      }));
+    } catch (error) {
+      addLog(`Planning failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  // Identifies pending sources (once each) and the outputs already in the library, then
+  // offers the copies of a track it finds for review before the batch starts.
+  const openDuplicates = async () => {
+    setDuplicateScan('Reading sources...');
+    try {
+      const pending = queue.getSnapshot().files.filter(f => f.status === ConversionStatus.PENDING);
+      for (const file of pending) {
+        const source = backend.sourceOf(file);
+        if (file.identity || !source) continue;
+        try {
+          const session = await openSource(source, file.name);
+          const musicId = session.trackInfo?.metadata?.musicId ?? file.metadata?.musicId;
+          queue.update(file.id, { identity: await identifyAudio(decryptedSource(source, session), musicId) });
+        } catch (error) {
+          console.warn(`[Duplicates] Could not identify ${file.name}:`, error);
+        }
+      }
+      let library: LibraryTrack[] = [];
+      if (backend.indexLibrary) {
+        const { folders, recursive } = libraryFolders(pending, settings);
+        library = await backend.indexLibrary(folders, recursive, (indexed, total) => setDuplicateScan(`Indexing library ${indexed}/${total}...`));
+      }
+      const identified = queue.getSnapshot().files.filter(f => f.status === ConversionStatus.PENDING);
+      const groups = findDuplicates(identified, library);
+      if (groups.length === 0) {
+        addLog(`No duplicates among ${identified.length} pending files${backend.indexLibrary ? ` and ${library.length} files in the library` : ''}.`);
         return;
       }
+      const planned = await planOutputs(identified, settings);
+      setDuplicates({ groups, outputPaths: new Map(planned.map(f => [f.id, resolveOutputPath(f, settings, backend.desktop)])) });
+    } catch (error) {
+      addLog(`Looking for duplicates failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setDuplicateScan(null);
+    }
+  };
+
+  const applyDuplicates = (resolutions: DuplicateResolution[]) => {
+    let skipped = 0;
+    let replacing = 0;
+    queue.batch(() => resolutions.forEach(resolution => {
+      if (resolution.action === 'skip') {
+        // A choice from an earlier review must not come back with Retry
+        queue.update(resolution.fileId, { overwritePolicy: undefined, replaces: undefined });
+        queue.skip(resolution.fileId, resolution.note);
+        skipped++;
+        return;
+      }
+      queue.update(resolution.fileId, { overwritePolicy: resolution.overwritePolicy, replaces: resolution.replaces });
+      if (resolution.replaces || resolution.overwritePolicy === OverwritePolicy.OVERWRITE) replacing++;
+    }));
+    setDuplicates(null);
+    addLog(`Duplicates: skipped ${skipped} files${replacing > 0 ? `; ${replacing} will replace a lower-bitrate copy in the library` : ''}.`);
+  };
 
-      const newFiles: AudioFile[] = ncmFiles.map(f => ({
-        id: Math.random().toString(36).substr(2, 9),
-        name: f.name,
-        path: f.webkitRelativePath || f.name, 
-        size: f.size,
-        status: ConversionStatus.PENDING,
-        progress: 0
+  // Nothing starts when the settings cannot be carried out or the outputs would not fit.
+  const preflight = async (pending: AudioFile[]): Promise<boolean> => {
+    const problem = settingsProblem(settings);
+    if (problem) {
+      addLog(`Not started: ${problem}.`);
+      return false;
+    }
+    if (!backend.freeSpace || pending.length === 0) return true;
+    const needs = spaceNeeded(pending, settings);
+    const available = await backend.freeSpace(needs.map(need => need.folder)).catch(() => needs.map(() => null));
+    const shortfalls = spaceShortfalls(needs, available);
+    shortfalls.forEach(shortfall => addLog(`Not started: ${shortfall}.`));
+    return shortfalls.length === 0;
+  };
+
+  // Resolves to whether the queue started.
+  const startQueue = async (stayRunning = false): Promise<boolean> => {
+    await Promise.all(historyLookupsRef.current);
+    const pending = queue.getSnapshot().files.filter(f => f.status === ConversionStatus.PENDING);
+    const planned = await planOutputs(pending, settings);
+    if (!await preflight(planned)) return false;
+    batchSettingsRef.current = settings;
+    sessionStartRef.current ??= Date.now();
+    batchRef.current = {
+      batch: { id: createFileId(), folder: folderConfig.path, startedAt: Date.now() },
+      saved: false,
+    };
+    planned.forEach(f => queue.update(f.id, { outputStem: f.outputStem, innerFormat: f.innerFormat }));
+    queue.start(stayRunning);
+    return true;
+  };
+
+  // Post-batch steps, in order: album gain goes into the outputs before they are moved
+  const finishBatch = async () => {
+    await writeAlbumGain();
+    await arrangeOutputs();
+  };
+
+  // A stopped queue never drains, so its batch is finished here once the
+  // conversions still in flight settle; a restart before then finishes it instead.
+  const stopBatch = () => {
+    queue.stop();
+    const settled = () => !queue.getSnapshot().files.some(f => isActive(f.status));
+    if (settled()) {
+      finishBatch();
+      return;
+    }
+    const unsubscribe = queue.subscribe(event => {
+      if (event.type !== 'change') return;
+      if (queue.isRunning()) {
+        unsubscribe();
+      } else if (settled()) {
+        unsubscribe();
+        finishBatch();
+      }
+    });
+  };
+
+  // Album gain needs every track of the album measured, so it waits for the batch.
+  // Albums that grew since the last batch are written again.
+  const writeAlbumGain = async () => {
+    if (!batchSettingsRef.current.analyseLoudness || !backend.addTags) return;
+    const changed = Array.from(albumGains(queue.getSnapshot().files)).filter(([id, loudness]) => {
+      const current = queue.getFile(id)?.loudness;
+      return current?.albumGainDb?.toFixed(2) !== loudness.albumGainDb?.toFixed(2) || current?.albumPeak !== loudness.albumPeak;
+    });
+    let written = 0;
+    for (const [id, loudness] of changed) {
+      const file = queue.getFile(id);
+      if (!file) continue;
+      try {
+        await backend.addTags(file, replayGainTags(loudness));
+        queue.update(id, { loudness });
+        written++;
+      } catch (error) {
+        addLog(`Album gain not written: ${file.name} - ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    if (written > 0) addLog(`Wrote album gain to ${written} outputs.`);
+  };
+
+  // Post-batch step: Artist/Album folders and playlists, as the batch settings ask
+  const arrangeOutputs = async () => {
+    const batchSettings = batchSettingsRef.current;
+    if (batchSettings.playlistMode === PlaylistMode.NONE && !batchSettings.organiseByAlbum) return;
+    const layout = planLayout(queue.getSnapshot().files, batchSettings, sessionPlaylistName(sessionStartRef.current ?? Date.now()));
+    try {
+      const { moved, failed } = await backend.arrangeOutputs(layout);
+      queue.batch(() => moved.forEach(({ id, to }) => {
+        // Desktop outputs are paths; browser outputs are names inside the zip
+        const patch = queue.getFile(id)?.outputPath ? { outputPath: to, outputName: to.split(/[\\/]/).pop() } : { outputName: to };
+        queue.update(id, patch);
       }));
+      failed.forEach(({ move, message }) => addLog(`Not moved: ${move.from} - ${message}`));
+      if (moved.length > 0) {
+        addLog(`Organised ${moved.length} outputs into Artist/Album folders.`);
+        HistoryStore.getInstance().relocateOutputs(moved).catch(error => console.warn('[History] Could not update moved outputs:', error));
+      }
+      if (batchSettings.organiseByAlbum && layout.unsorted > 0) addLog(`${layout.unsorted} outputs have no album details and stay where they are.`);
+      if (layout.playlists.length > 0) {
+        addLog(backend.downloads
+          ? `Added ${layout.playlists.length} playlists to the zip download.`
+          : `Wrote ${layout.playlists.length} playlists.`);
+      }
+    } catch (error) {
+      addLog(`Playlists could not be written: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const requireSource = (file: AudioFile) => {
+    const source = backend.sourceOf(file);
+    if (!source) throw new Error('Source file is not readable');
+    return source;
+  };
+
+  const recordHistory = async (file: AudioFile) => {
+    const current = batchRef.current;
+    if (!current) return;
+    const history = HistoryStore.getInstance();
+    try {
+      if (!current.saved) {
+        current.saved = true;
+        await history.saveBatch(current.batch);
+      }
+      await history.addRecord({
+        batchId: current.batch.id,
+        sourcePath: file.path,
+        sourceName: file.name,
+        fingerprint: file.fingerprint ?? await fingerprint(requireSource(file)),
+        status: file.status,
+        outputName: file.outputName,
+        outputPath: file.outputPath,
+        settings: batchSettingsRef.current,
+        startedAt: file.startedAt ?? Date.now(),
+        finishedAt: file.finishedAt ?? Date.now(),
+        errorMessage: file.errorMessage,
+        errorCode: file.error?.code,
+        operations: file.operations,
+      });
+    } catch (error) {
+      console.warn(`[History] Could not record ${file.name}:`, error);
+    }
+  };
+
+  // A file's fingerprint, and the note to skip it with when an earlier session
+  // converted it and the output is still there.
+  const lookUpHistory = async (file: AudioFile): Promise<{ fingerprint: string; note?: string }> => {
+    const print = await fingerprint(requireSource(file));
+    const record = await HistoryStore.getInstance().findConverted(file.path, print);
+    if (!record) return { fingerprint: print };
+    const [exists] = await backend.pathsExist([record.outputPath ?? record.outputName ?? '']);
+    return { fingerprint: print, note: exists ? `Converted ${new Date(record.finishedAt).toLocaleDateString()}` : undefined };
+  };
 
-      setFiles(newFiles);
-      setFolderConfig({ path, isWatching: false });
-      addLog(`Queued ${ncmFiles.length} files.`);
+  // Skips files converted in an earlier session whose output is still there.
+  const applyHistory = (queued: AudioFile[], selection: number) => {
+    const lookup = (async () => {
+      let skipped = 0;
+      for (const file of queued) {
+        if (selection !== selectionRef.current) return;
+        try {
+          const { fingerprint: print, note } = await lookUpHistory(file);
+          if (selection !== selectionRef.current) return;
+          queue.update(file.id, { fingerprint: print });
+          if (!note) continue;
+          queue.skip(file.id, note);
+          skipped++;
+        } catch (error) {
+          console.warn(`[History] Could not look up ${file.name}:`, error);
+        }
+      }
+      if (skipped > 0) addLog(`Skipped ${skipped} files converted before (use Retry to convert again).`);
+    })();
+    historyLookupsRef.current.add(lookup);
+    lookup.finally(() => historyLookupsRef.current.delete(lookup));
+  };
+
+  // Reads source headers one by one so metadata and covers fill in progressively.
+  const loadTrackInfo = async (queued: AudioFile[], selection: number) => {
+    for (const file of queued) {
+      if (selection !== selectionRef.current) return;
+      const source = backend.sourceOf(file);
+      if (!source) continue;
+      try {
+        const info = await readTrackInfo(source, file.name);
+        if (selection !== selectionRef.current) return;
+        if (!info) continue;
+        const { metadata, cover } = info;
+        const coverUrl = cover ? URL.createObjectURL(new Blob([cover.data.slice()], { type: cover.mimeType })) : undefined;
+        queue.update(file.id, { metadata: metadata ?? undefined, coverUrl });
+        // Sidecars named after the track rather than the file need the metadata
+        matchQueuedLyrics(file.id);
+      } catch (error) {
+        addLog(`Unreadable header: ${file.name} - ${error instanceof Error ? error.message : error}`);
+      }
     }
   };
 
-  // Processing Queue Logic
+  const addLyrics = (sidecars: LyricsSidecar[]) => {
+    sidecars.forEach(sidecar => {
+      const folder = folderOf(sidecar.path);
+      const known = lyricsRef.current.get(folder) ?? [];
+      if (!known.some(k => k.path === sidecar.path)) lyricsRef.current.set(folder, [...known, sidecar]);
+    });
+  };
+
+  const matchQueuedLyrics = (id: string) => {
+    const file = queue.getFile(id);
+    if (!file || file.lyrics) return;
+    const lyrics = matchLyrics(file, lyricsRef.current.get(folderOf(file.path)) ?? []);
+    if (lyrics) queue.update(id, { lyrics });
+  };
+
+  // Matches sidecars by file name now; by metadata once `loadTrackInfo` has read it.
+  const attachLyrics = async (queued: AudioFile[]) => {
+    if (backend.findLyrics) {
+      const folders = Array.from(new Set(queued.map(f => folderOf(f.path)))).filter(folder => !lyricsRef.current.has(folder));
+      try {
+        const found = await backend.findLyrics(folders);
+        folders.forEach(folder => { if (!lyricsRef.current.has(folder)) lyricsRef.current.set(folder, []); });
+        addLyrics(found);
+      } catch (error) {
+        console.warn('[Lyrics] Could not list sidecars:', error);
+      }
+    }
+    queue.batch(() => queued.forEach(f => matchQueuedLyrics(f.id)));
+  };
+
+  // --- Watch mode: queue files reported by the backend watcher ---
   useEffect(() => {
-    let active = true;
+    const isQueued = (path: string) => queue.getSnapshot().files.some(f => f.path === path);
+    const unlistenPromise = backend.listenToFileDetected(async (detected) => {
+      if (isQueued(detected.path)) return;
+      const [planned] = await planOutputs([fromDetected(detected)], batchSettingsRef.current);
+      // Looked up before queueing: the watching queue dispatches new files straight away
+      const history = await lookUpHistory(planned).catch(error => {
+        console.warn(`[History] Could not look up ${planned.name}:`, error);
+        return null;
+      });
+      if (isQueued(detected.path)) return;
+      const file = { ...planned, fingerprint: history?.fingerprint };
+      queue.batch(() => {
+        queue.add([file]);
+        if (history?.note) queue.skip(file.id, history.note);
+      });
+      addLog(history?.note ? `Detected: ${detected.name} (converted before, skipped)` : `Detected: ${detected.name}`);
+      attachLyrics([file]);
+      loadTrackInfo([file], selectionRef.current);
+    });
+    return () => { unlistenPromise.then(unlisten => unlisten()); };
+  }, [queue]);
+
+  // Adds files behind those already queued, leaving out paths that are queued already.
+  const enqueue = (incoming: AudioFile[], origin: string) => {
+    const fresh = withoutQueued(incoming, queue.getSnapshot().files.map(f => f.path));
+    const repeated = incoming.length - fresh.length;
+    if (fresh.length === 0) {
+      addLog(`Nothing new in ${origin}: all ${incoming.length} files are queued already.`);
+      return;
+    }
+    queue.add(fresh);
+    addLog(`Queued ${fresh.length} files from ${origin}${repeated > 0 ? ` (${repeated} already queued)` : ''}.`);
+    // The latest source is what watch mode watches
+    setFolderConfig(prev => prev.isWatching ? prev : { ...prev, path: fresh[fresh.length - 1].root ?? prev.path });
+    attachLyrics(fresh);
+    loadTrackInfo(fresh, selectionRef.current);
+    applyHistory(fresh, selectionRef.current);
+  };
 
-    const processQueue = async () => {
-      if (!isProcessing) return;
+  const enqueuePicked = (picked: PickedFile[], origin: string) => {
+    addLyrics(lyricsFromPicked(picked));
+    const supported = picked.filter(p => isSupportedFile(p.file.name));
+    if (supported.length === 0) {
+      addLog(`No supported files (${SOURCE_EXTENSIONS.map(ext => `.${ext}`).join(', ')}) found in ${origin}.`);
+      return;
+    }
+    enqueue(supported.map(fromPicked), origin);
+  };
 
-      const nextFile = files.find(f => f.status === ConversionStatus.PENDING);
-      
-      // If no pending files left
-      if (!nextFile) {
-        const anyConverting = files.some(f => f.status === ConversionStatus.CONVERTING);
-        if (!anyConverting && !folderConfig.isWatching && stats.totalFiles > 0) {
-            // Only stop if we are not waiting for async results
-            setIsProcessing(false);
-            addLog("All tasks completed.");
-        }
+  const handleFolderSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = pickedFromInput(event.target.files ?? []);
+    // Lets the same folder be picked again after it was removed
+    event.target.value = '';
+    if (picked.length === 0) return;
+    addLog(`Selected directory: ${picked[0].root}`);
+    enqueuePicked(picked, picked[0].root);
+  };
+
+  // --- Drag and drop: from the desktop shell when it takes drops, from the page otherwise ---
+  useEffect(() => {
+    if (!backend.listenToDrop) return;
+    const unlistenPromise = backend.listenToDrop(event => {
+      setIsDragging(event.type === 'enter');
+      if (event.type !== 'drop') return;
+      if (event.files.length === 0) {
+        addLog(`No supported files (${SOURCE_EXTENSIONS.map(ext => `.${ext}`).join(', ')}) found in the drop.`);
         return;
       }
+      enqueue(event.files.map(fromDetected), 'the drop');
+    });
+    return () => { unlistenPromise.then(unlisten => unlisten()); };
+  }, [queue]);
 
-      // Mark as converting
-      setFiles(prev => prev.map(f => f.id === nextFile.id ? { ...f, status: ConversionStatus.CONVERTING, progress: 0 } : f));
-      addLog(`Starting: ${nextFile.name}`);
-
-      // Invoke Service
-      const tauriService = TauriService.getInstance();
-      const result = await tauriService.convertFile(nextFile);
-
-      if (active) {
-        // If it's a synchronous return (like simulation or instant fail), handle it.
-        // For real Tauri async events, the listenToProgress effect handles completion.
-        if (!tauriService.getIsTauri()) {
-            setFiles(prev => prev.map(f => {
-            if (f.id === nextFile.id) {
-                return {
-                ...f,
-                status: result.success ? ConversionStatus.COMPLETED : ConversionStatus.FAILED,
-                errorMessage: result.message,
-                progress: 100
-                };
-            }
-            return f;
-            }));
-            if (result.success) addLog(`Converted: ${nextFile.name}`);
-            else addLog(`Error: ${nextFile.name} - ${result.message}`);
-        }
-      }
-    };
+  const handleDragOver = (event: React.DragEvent) => {
+    if (backend.listenToDrop || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Leaving for a child element is not leaving the window
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    if (backend.listenToDrop) return;
+    event.preventDefault();
+    setIsDragging(false);
+    try {
+      enqueuePicked(await pickedFromDrop(event.dataTransfer), 'the drop');
+    } catch (error) {
+      addLog(`Reading the drop failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Retrying only queues files again: starting an idle queue would also start
+  // every other pending file, so that is left to Start.
+  const retryFiles = (ids: string[]) => {
+    const retried = ids.filter(id => isRetryable(queue.getFile(id)?.status ?? ConversionStatus.COMPLETED));
+    queue.batch(() => retried.forEach(id => queue.retry(id)));
+    if (retried.length > 0 && !isProcessing) addLog(`Queued ${retried.length} files again; press Start to convert them.`);
+  };
 
-    if (isProcessing) {
-      // In a real app, we might want to process concurrently, but here we do serial for simplicity
-      // Check if we are already processing one?
-      const currentlyConverting = files.filter(f => f.status === ConversionStatus.CONVERTING).length;
-      if (currentlyConverting < 1) { // Process 1 at a time
-          processQueue();
+  const retryFile = (id: string) => retryFiles([id]);
+
+  const retryAllFailed = () => retryFiles(files.filter(f => f.status === ConversionStatus.FAILED).map(f => f.id));
+
+  const toggleFilter = (filter: StatusFilter) => {
+    setView(prev => ({ ...prev, filter: prev.filter === filter ? 'all' : filter }));
+  };
+
+  // Click toggles one file; shift-click selects every shown file between it and the last click.
+  const selectFile = (id: string, event: React.MouseEvent) => {
+    const anchor = selectAnchorRef.current;
+    selectAnchorRef.current = id;
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const ids = visible.map(f => f.id);
+      const [from, to] = [ids.indexOf(anchor ?? ''), ids.indexOf(id)].sort((a, b) => a - b);
+      if (event.shiftKey && from >= 0) {
+        ids.slice(from, to + 1).forEach(i => next.add(i));
+      } else if (!next.delete(id)) {
+        next.add(id);
       }
+      return next;
+    });
+  };
+
+  const allVisibleSelected = visible.length > 0 && visible.every(f => selectedIds.has(f.id));
+  const selectAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visible.map(f => f.id)));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    selectAnchorRef.current = null;
+  };
+
+  const releaseFiles = (released: AudioFile[]) => {
+    released.forEach(f => {
+      if (f.coverUrl) URL.revokeObjectURL(f.coverUrl);
+      backend.downloads?.removeOutput(f.id);
+    });
+  };
+
+  const bulk = (action: (id: string) => void) => queue.batch(() => selected.forEach(f => action(f.id)));
+
+  const removeSelected = () => {
+    const removed = queue.remove(selected.map(f => f.id));
+    releaseFiles(removed);
+    clearSelection();
+    addLog(`Removed ${removed.length} files from the queue.`);
+  };
+
+  const exportReport = (type: 'csv' | 'json') => {
+    const report = buildBatchReport(files, stats, batchSettingsRef.current, folderConfig.path);
+    const stamp = new Date(report.createdAt).toISOString().replace(/[:.]/g, '-');
+    const blob = type === 'csv'
+      ? new Blob([reportToCsv(report)], { type: 'text/csv' })
+      : new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    saveBlob(blob, `report-${stamp}.${type}`);
+    addLog(`Exported a report of ${report.entries.length} files as ${type.toUpperCase()}.`);
+  };
+
+  const downloadAll = async () => {
+    try {
+      await backend.downloads?.downloadAll(folderConfig.path || 'SonicTransmute');
+    } catch (error) {
+      addLog(`Download failed: ${error instanceof Error ? error.message : error}`);
     }
+  };
 
-    return () => { active = false; };
-  }, [files, isProcessing, folderConfig.isWatching]);
+  const clearCompleted = () => {
+    const cleared = queue.clearCompleted();
+    releaseFiles(cleared);
+    addLog(`Cleared ${cleared.length} completed files.`);
+  };
+
+  const removeRoot = (root: string) => {
+    const removed = queue.remove(files.filter(f => f.root === root).map(f => f.id));
+    releaseFiles(removed);
+    addLog(`Removed ${removed.length} files from ${rootLabel(root)}.`);
+  };
+
+  const clearQueue = async () => {
+    if (folderConfig.isWatching) {
+      await backend.stopWatcher();
+      addLog("Watcher Mode: Disabled");
+    }
+    queue.stop();
+    backend.downloads?.clearOutputs();
+    lyricsRef.current.clear();
+    sessionStartRef.current = null;
+    files.forEach(f => f.coverUrl && URL.revokeObjectURL(f.coverUrl));
+    // Abandons header reads and history lookups still running for the old files
+    selectionRef.current++;
+    queue.clear();
+    clearSelection();
+    setFolderConfig({ path: null, isWatching: false });
+  };
+
+  const toggleQueue = () => {
+    if (!isProcessing) {
+      startQueue();
+      return;
+    }
+    addLog("Queue stopped; files already converting will finish.");
+    stopBatch();
+  };
 
   const toggleWatcher = async () => {
-    const tauriService = TauriService.getInstance();
     if (!folderConfig.isWatching) {
-        await tauriService.startWatcher(folderConfig.path || "");
+        if (!await startQueue(true)) return;
+        await backend.startWatcher(folderConfig.path || "", settings.watchRecursive);
         setFolderConfig(prev => ({ ...prev, isWatching: true }));
-        setIsProcessing(true);
-        addLog("Watcher Mode: Enabled");
+        addLog(settings.watchRecursive ? "Watcher Mode: Enabled (including subfolders)" : "Watcher Mode: Enabled");
     } else {
-        await tauriService.stopWatcher();
+        await backend.stopWatcher();
         setFolderConfig(prev => ({ ...prev, isWatching: false }));
-        setIsProcessing(false);
         addLog("Watcher Mode: Disabled");
+        stopBatch();
     }
   };
 
   return (
-    <div className="flex h-screen bg-slate-900 text-slate-100 overflow-hidden selection:bg-indigo-500/30">
+    <div
+      className="flex h-screen bg-slate-900 text-slate-100 overflow-hidden selection:bg-indigo-500/30"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       
       {/* Sidebar / Control Panel */}
       <aside className="w-80 bg-slate-900 border-r border-slate-800 flex flex-col z-20 shadow-2xl">
@@ -200,46 +753,57 @@ const App: React.FC = () => {
         <div className="p-6 flex-1 flex flex-col gap-6 overflow-y-auto">
           {/* Action Area */}
           <div className="space-y-4">
-            <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Source</h2>
-            
-            {!folderConfig.path ? (
-               <label className="group flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-slate-700 rounded-xl hover:border-indigo-500 hover:bg-slate-800/50 transition-all cursor-pointer">
-                  <Icons.FolderOpen className="w-8 h-8 text-slate-500 group-hover:text-indigo-400 mb-2 transition-colors" />
-                  <span className="text-sm text-slate-400 group-hover:text-slate-200">Select Folder</span>
-                  <input 
-                    type="file" 
-                    className="hidden" 
-                    // @ts-ignore
-                    webkitdirectory="" 
-                    directory="" 
-                    multiple 
-                    onChange={handleFolderSelect} 
-                  />
-               </label>
-            ) : (
-                <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
-                    <div className="flex items-center gap-3 mb-2">
-                        <Icons.FolderOpen className="text-indigo-400 w-5 h-5" />
-                        <span className="font-medium truncate text-sm" title={folderConfig.path}>{folderConfig.path}</span>
-                    </div>
+            <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Sources</h2>
+
+            {roots.length > 0 && (
+                <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 space-y-2">
+                    {roots.map(({ root, count }) => (
+                        <div key={root} className="group flex items-center gap-3">
+                            <Icons.FolderOpen className="text-indigo-400 w-4 h-4 shrink-0" />
+                            <span className="font-medium truncate text-sm flex-1" title={root}>{rootLabel(root)}</span>
+                            <span className="text-xs font-mono text-slate-500">{count}</span>
+                            <button
+                                onClick={() => removeRoot(root)}
+                                title={`Remove the files from ${rootLabel(root)}`}
+                                className="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                                <Icons.X className="w-3 h-3" />
+                            </button>
+                        </div>
+                    ))}
                     <button 
-                        onClick={() => setFiles([]) && setFolderConfig({path: null, isWatching: false})}
+                        onClick={clearQueue}
                         className="text-xs text-slate-400 hover:text-red-400 underline decoration-slate-600 underline-offset-4"
                     >
-                        Change Folder
+                        Clear Queue
                     </button>
                 </div>
             )}
+
+            <label className={`group flex flex-col items-center justify-center w-full border-2 border-dashed border-slate-700 rounded-xl hover:border-indigo-500 hover:bg-slate-800/50 transition-all cursor-pointer ${roots.length > 0 ? 'h-20' : 'h-32'}`}>
+               <Icons.FolderOpen className={`text-slate-500 group-hover:text-indigo-400 transition-colors ${roots.length > 0 ? 'w-5 h-5 mb-1' : 'w-8 h-8 mb-2'}`} />
+               <span className="text-sm text-slate-400 group-hover:text-slate-200">{roots.length > 0 ? 'Add Folder' : 'Select Folder'}</span>
+               <span className="text-xs text-slate-600">or drop files and folders anywhere</span>
+               <input 
+                 type="file" 
+                 className="hidden" 
+                 // @ts-ignore
+                 webkitdirectory="" 
+                 directory="" 
+                 multiple 
+                 onChange={handleFolderSelect} 
+               />
+            </label>
           </div>
 
           <div className="space-y-4">
             <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Controls</h2>
             
             <button
-                onClick={() => setIsProcessing(!isProcessing)}
-                disabled={!folderConfig.path || folderConfig.isWatching}
+                onClick={toggleQueue}
+                disabled={files.length === 0 || folderConfig.isWatching}
                 className={`w-full py-3 px-4 rounded-lg font-medium flex items-center justify-center gap-2 transition-all ${
-                    !folderConfig.path 
+                    files.length === 0 
                     ? 'bg-slate-800 text-slate-600 cursor-not-allowed'
                     : isProcessing 
                         ? 'bg-amber-500/10 text-amber-500 border border-amber-500/20 hover:bg-amber-500/20' 
@@ -250,6 +814,24 @@ const App: React.FC = () => {
                 {isProcessing ? 'Processing Queue...' : 'Start Conversion'}
             </button>
 
+            <button
+                onClick={openPlan}
+                disabled={isProcessing || isPlanning || stats.pending === 0}
+                className="w-full py-2 px-4 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-all border bg-transparent border-slate-700 text-slate-300 hover:border-slate-500 disabled:text-slate-600 disabled:border-slate-800 disabled:cursor-not-allowed"
+            >
+                {isPlanning ? <Icons.RefreshCw className="animate-spin w-4 h-4" /> : <Icons.ListChecks className="w-4 h-4" />}
+                {isPlanning ? 'Planning...' : 'Plan (Dry Run)'}
+            </button>
+
+            <button
+                onClick={openDuplicates}
+                disabled={isProcessing || duplicateScan !== null || stats.pending === 0}
+                className="w-full py-2 px-4 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-all border bg-transparent border-slate-700 text-slate-300 hover:border-slate-500 disabled:text-slate-600 disabled:border-slate-800 disabled:cursor-not-allowed"
+            >
+                {duplicateScan ? <Icons.RefreshCw className="animate-spin w-4 h-4" /> : <Icons.Search className="w-4 h-4" />}
+                {duplicateScan ?? 'Find Duplicates'}
+            </button>
+
             <button
                 onClick={toggleWatcher}
                 disabled={!folderConfig.path}
@@ -262,15 +844,29 @@ const App: React.FC = () => {
                 {folderConfig.isWatching ? <Icons.Eye className="w-4 h-4" /> : <Icons.EyeOff className="w-4 h-4" />}
                 {folderConfig.isWatching ? 'Watch Mode Active' : 'Enable Watch Mode'}
             </button>
+
+            {backend.downloads && stats.converted > 0 && (
+              <button
+                  onClick={downloadAll}
+                  className="w-full py-3 px-4 rounded-lg font-medium flex items-center justify-center gap-2 transition-all border bg-transparent border-slate-700 text-slate-300 hover:border-emerald-500/50 hover:text-emerald-400"
+              >
+                  <Icons.Download className="w-4 h-4" />
+                  Download All (.zip)
+              </button>
+            )}
           </div>
 
           <div className="flex-1"></div>
 
+          {batchProgress && batchProgress.totalBytes > 0 && (
+            <BatchProgressCard progress={batchProgress} />
+          )}
+
           <div className="grid grid-cols-2 gap-3">
-             <StatusCard label="Total" value={stats.totalFiles} />
-             <StatusCard label="Done" value={stats.converted} colorClass="text-emerald-400" />
-             <StatusCard label="Pending" value={stats.pending} colorClass="text-indigo-400" />
-             <StatusCard label="Failed" value={stats.failed} colorClass="text-red-400" />
+             <StatusCard label="Total" value={stats.totalFiles} active={view.filter === 'all'} onClick={() => toggleFilter('all')} />
+             <StatusCard label="Done" value={stats.converted} colorClass="text-emerald-400" active={view.filter === 'converted'} onClick={() => toggleFilter('converted')} />
+             <StatusCard label="Pending" value={stats.pending} colorClass="text-indigo-400" active={view.filter === 'pending'} onClick={() => toggleFilter('pending')} />
+             <StatusCard label="Failed" value={stats.failed} colorClass="text-red-400" active={view.filter === 'failed'} onClick={() => toggleFilter('failed')} />
           </div>
         </div>
       </aside>
@@ -288,39 +884,249 @@ const App: React.FC = () => {
             <div className="flex items-center gap-2 text-sm text-slate-400">
                 <Icons.FolderOpen className="w-4 h-4" />
                 <span>/</span>
-                <span>{folderConfig.path ? folderConfig.path.split('/').pop() : 'No Selection'}</span>
+                <span>{roots.length > 1 ? `${roots.length} sources` : roots.length === 1 ? rootLabel(roots[0].root) : 'No Selection'}</span>
             </div>
             <div className="flex items-center gap-4">
-                <span className={`text-xs font-mono px-2 py-1 rounded border ${TauriService.getInstance().getIsTauri() ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' : 'bg-amber-500/10 border-amber-500/20 text-amber-400'}`}>
-                    {TauriService.getInstance().getIsTauri() ? 'TAURI BACKEND' : 'WEB SIMULATION'}
+                <span className={`text-xs font-mono px-2 py-1 rounded border ${BACKEND_BADGES[backend.kind].className}`}>
+                    {BACKEND_BADGES[backend.kind].label}
                 </span>
-                <button className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors">
+                <button
+                    onClick={() => setShowHistory(true)}
+                    title="Conversion history"
+                    className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors"
+                >
+                    <Icons.History className="w-5 h-5" />
+                </button>
+                <button
+                    onClick={() => setShowSettings(true)}
+                    title="Conversion settings"
+                    className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors"
+                >
                     <Icons.Settings className="w-5 h-5" />
                 </button>
             </div>
         </header>
 
         {/* File List */}
-        <div className="flex-1 overflow-y-auto p-6 z-10">
-            {files.length === 0 ? (
+        {files.length === 0 ? (
+            <div className="flex-1 overflow-y-auto p-6 z-10">
                 <div className="h-full flex flex-col items-center justify-center text-slate-600 text-center">
                     <div className="w-16 h-16 rounded-2xl bg-slate-900 border border-slate-800 flex items-center justify-center mb-4 mx-auto">
                         <Icons.Music className="w-8 h-8 opacity-50" />
                     </div>
                     <p className="text-lg font-medium mb-1">Waiting for Files</p>
                     <p className="text-sm max-w-sm mx-auto">
-                        Select a folder containing .ncm files.
-                        { !TauriService.getInstance().getIsTauri() && <span className="block mt-2 text-amber-500/60 text-xs">(NCM decryption requires Rust backend. This view is simulating the UI.)</span>}
+                        Select or drop folders containing encrypted downloads (NCM, QMC, KGM or KWM).
+                        { backend.kind === 'browser' && <span className="block mt-2 text-amber-500/60 text-xs">(Running in the browser: files are decrypted locally and offered as downloads.)</span>}
                     </p>
                 </div>
-            ) : (
+            </div>
+        ) : (
+            <VirtualList<AudioFile>
+              items={visible}
+              rowHeight={FILE_ITEM_HEIGHT}
+              getKey={file => file.id}
+              className="flex-1 p-6 z-10"
+              renderRow={file => (
                 <div className="max-w-4xl mx-auto">
-                    {files.map(file => (
-                        <FileItem key={file.id} file={file} />
-                    ))}
+                    <FileItem
+                      file={file}
+                      selected={selectedIds.has(file.id)}
+                      onSelect={event => selectFile(file.id, event)}
+                      onDownload={backend.downloads ? () => backend.downloads?.download(file.id) : undefined}
+                      onRetry={() => retryFile(file.id)}
+                      onCancel={() => queue.cancel(file.id)}
+                      onSkip={() => queue.skip(file.id)}
+                      onMoveToTop={() => queue.moveToTop(file.id)}
+                      onPreview={backend.openPreview ? () => setPreviewId(file.id) : undefined}
+                      previewing={file.id === previewId}
+                    />
                 </div>
-            )}
-        </div>
+              )}
+            >
+                <div className="max-w-4xl mx-auto mb-3 space-y-3">
+                    {/* Search and sorting */}
+                    <div className="flex items-center gap-2">
+                        <div className="flex-1 flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 focus-within:border-indigo-500">
+                            <Icons.Search className="w-4 h-4 text-slate-500" />
+                            <input
+                              type="search"
+                              value={view.query}
+                              onChange={e => setView(prev => ({ ...prev, query: e.target.value }))}
+                              placeholder="Search names, titles, artists and albums"
+                              className="flex-1 bg-transparent py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none"
+                            />
+                        </div>
+                        <select
+                          value={view.sort}
+                          onChange={e => setView(prev => ({ ...prev, sort: e.target.value as SortKey }))}
+                          title="Sort by"
+                          className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-300 focus:outline-none focus:border-indigo-500"
+                        >
+                            {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+                                <option key={key} value={key}>{SORT_LABELS[key]}</option>
+                            ))}
+                        </select>
+                        <button
+                          onClick={() => setView(prev => ({ ...prev, descending: !prev.descending }))}
+                          title={view.descending ? 'Descending' : 'Ascending'}
+                          className={`p-2 rounded-lg border border-slate-700 hover:border-slate-500 transition-colors ${view.descending ? 'text-indigo-400' : 'text-slate-400'}`}
+                        >
+                            <Icons.ArrowUpDown className="w-4 h-4" />
+                        </button>
+                    </div>
+
+                    {/* Status filters and list-wide actions */}
+                    <div className="flex items-center justify-between gap-4 text-xs">
+                        <div className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={allVisibleSelected}
+                              onChange={selectAllVisible}
+                              title="Select all shown"
+                              className="w-4 h-4 mr-1 accent-indigo-500 cursor-pointer"
+                            />
+                            {FILTER_CHIPS.map(({ filter, label, count }) => (
+                                <button
+                                  key={filter}
+                                  onClick={() => setView(prev => ({ ...prev, filter }))}
+                                  className={`px-2 py-1 rounded-full border transition-colors ${
+                                      view.filter === filter
+                                        ? 'bg-indigo-500/10 border-indigo-500/40 text-indigo-300'
+                                        : 'border-slate-700 text-slate-400 hover:border-slate-500'
+                                  }`}
+                                >
+                                    {label} <span className="font-mono">{count(stats)}</span>
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-4">
+                            {stats.failed > 0 && (
+                                <button onClick={retryAllFailed} className="flex items-center gap-1 text-slate-400 hover:text-indigo-400 transition-colors">
+                                    <Icons.RotateCcw className="w-3 h-3" />
+                                    Retry all failed ({stats.failed})
+                                </button>
+                            )}
+                            {stats.failed > 0 && (
+                                <button onClick={() => setShowFailures(true)} className="flex items-center gap-1 text-slate-400 hover:text-red-400 transition-colors">
+                                    <Icons.AlertCircle className="w-3 h-3" />
+                                    Failures by cause
+                                </button>
+                            )}
+                            {(stats.failed > 0 || stats.converted > 0) && (
+                                <span className="flex items-center gap-2 text-slate-500">
+                                    <Icons.Download className="w-3 h-3" />
+                                    Report
+                                    <button onClick={() => exportReport('csv')} className="text-slate-400 hover:text-indigo-400 transition-colors">CSV</button>
+                                    <button onClick={() => exportReport('json')} className="text-slate-400 hover:text-indigo-400 transition-colors">JSON</button>
+                                </span>
+                            )}
+                            {stats.converted > 0 && (
+                                <button onClick={clearCompleted} className="flex items-center gap-1 text-slate-400 hover:text-red-400 transition-colors">
+                                    <Icons.X className="w-3 h-3" />
+                                    Clear completed ({stats.converted})
+                                </button>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Bulk actions on the selection */}
+                    {selected.length > 0 && (
+                        <div className="flex items-center gap-4 px-3 py-2 rounded-lg bg-indigo-500/10 border border-indigo-500/30 text-xs">
+                            <span className="text-indigo-300 font-medium">{selected.length} selected</span>
+                            <div className="flex-1" />
+                            {selected.some(f => isRetryable(f.status)) && (
+                                <button onClick={() => retryFiles(selected.map(f => f.id))} className="flex items-center gap-1 text-slate-300 hover:text-indigo-400 transition-colors">
+                                    <Icons.RotateCcw className="w-3 h-3" /> Retry
+                                </button>
+                            )}
+                            {selected.some(f => f.status === ConversionStatus.PENDING) && (
+                                <button onClick={() => bulk(id => queue.skip(id))} className="flex items-center gap-1 text-slate-300 hover:text-slate-100 transition-colors">
+                                    <Icons.SkipForward className="w-3 h-3" /> Skip
+                                </button>
+                            )}
+                            {selected.some(f => isActive(f.status)) && (
+                                <button onClick={() => bulk(id => queue.cancel(id))} className="flex items-center gap-1 text-slate-300 hover:text-amber-400 transition-colors">
+                                    <Icons.X className="w-3 h-3" /> Cancel
+                                </button>
+                            )}
+                            <button onClick={removeSelected} className="flex items-center gap-1 text-slate-300 hover:text-red-400 transition-colors">
+                                <Icons.X className="w-3 h-3" /> Remove from queue
+                            </button>
+                            <button onClick={clearSelection} className="text-slate-500 hover:text-slate-300 transition-colors">
+                                Clear selection
+                            </button>
+                        </div>
+                    )}
+
+                    {visible.length === 0 && (
+                        <p className="py-12 text-center text-sm text-slate-500">No files match the current filter and search.</p>
+                    )}
+                </div>
+            </VirtualList>
+        )}
+
+        {isDragging && (
+            <div className="absolute inset-0 z-40 m-4 flex flex-col items-center justify-center rounded-2xl border-2 border-dashed border-indigo-500 bg-slate-950/80 backdrop-blur-sm pointer-events-none">
+                <Icons.FolderOpen className="w-12 h-12 text-indigo-400 mb-3" />
+                <p className="text-lg font-medium text-slate-200">Drop to add to the queue</p>
+                <p className="text-sm text-slate-500">Folders are searched for NCM, QMC, KGM and KWM files</p>
+            </div>
+        )}
+
+        {showSettings && (
+            <SettingsPanel
+                settings={settings}
+                preview={files.find(f => f.metadata)}
+                onChange={handleSettingsChange}
+                onClose={() => setShowSettings(false)}
+                isTauri={backend.desktop}
+                locked={isProcessing}
+            />
+        )}
+
+        {showHistory && <HistoryPanel onClose={() => setShowHistory(false)} />}
+
+        {showFailures && (
+            <FailuresPanel
+                files={files}
+                onRetry={retryFiles}
+                onClose={() => setShowFailures(false)}
+            />
+        )}
+
+        {plan && (
+            <PlanPanel
+                plan={plan}
+                onClose={() => setPlan(null)}
+                onStart={() => { setPlan(null); startQueue(); }}
+            />
+        )}
+
+        {duplicates && (
+            <DuplicatesPanel
+                groups={duplicates.groups}
+                files={files}
+                policy={settings.duplicatePolicy}
+                resolve={(group, policy) => resolveDuplicates(
+                    group,
+                    policy,
+                    new Map(files.filter(f => f.status === ConversionStatus.PENDING).map(f => [f.id, f])),
+                    file => duplicates.outputPaths.get(file.id) ?? resolveOutputPath(file, settings, backend.desktop),
+                )}
+                onPolicyChange={duplicatePolicy => handleSettingsChange({ ...settings, duplicatePolicy })}
+                onApply={applyDuplicates}
+                onClose={() => setDuplicates(null)}
+            />
+        )}
+
+        {previewFile && backend.openPreview && (
+            <PreviewPlayer
+                file={previewFile}
+                open={file => backend.openPreview!(file)}
+                onClose={() => setPreviewId(null)}
+            />
+        )}
 
         {/* Log Panel */}
         <div className="h-32 bg-slate-900 border-t border-slate-800 p-3 z-20">
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { LyricsAction, OutputFormat, OverwritePolicy, PlaylistMode, SourceAction } from '../types';
+import { parseCli, UsageError } from './args';
+
+describe('parseCli', () => {
+  it('resolves paths against the working directory and keeps the browser defaults', () => {
+    const options = parseCli(['convert', 'music', '--report', 'out/report.csv'], '/home/me')!;
+    expect(options).toMatchObject({ command: 'convert', folder: '/home/me/music', json: false, report: '/home/me/out/report.csv' });
+    expect(options.settings).toMatchObject({
+      outputFormat: OutputFormat.ORIGINAL,
+      outputDirectory: null,
+      overwritePolicy: OverwritePolicy.OVERWRITE,
+      sourceAction: SourceAction.KEEP,
+      watchRecursive: false,
+    });
+  });
+
+  it('maps options onto conversion settings', () => {
+    const options = parseCli(
+      ['watch', '/nas/in', '-r', '-o', '/nas/out', '-f', 'flac', '--overwrite', 'rename', '-t', '{artist}/{title}', '-j', '4', '--lyrics', 'both', '--source-action', 'archive', '--archive-dir', 'archive', '--organise', '--playlists', 'album', '--replaygain', '--json'],
+      '/',
+    )!;
+    expect(options.command).toBe('watch');
+    expect(options.json).toBe(true);
+    expect(options.settings).toMatchObject({
+      outputFormat: OutputFormat.FLAC,
+      outputDirectory: '/nas/out',
+      overwritePolicy: OverwritePolicy.RENAME,
+      sourceAction: SourceAction.ARCHIVE,
+      archiveDirectory: '/archive',
+      concurrency: 4,
+      watchRecursive: true,
+      filenameTemplate: '{artist}/{title}',
+      lyricsAction: LyricsAction.BOTH,
+      organiseByAlbum: true,
+      playlistMode: PlaylistMode.ALBUM,
+      analyseLoudness: true,
+    });
+  });
+
+  it('keeps --delete-source as a way to trash sources', () => {
+    expect(parseCli(['convert', 'music', '--delete-source'], '/')!.settings.sourceAction).toBe(SourceAction.TRASH);
+  });
+
+  it('returns null for --help', () => {
+    expect(parseCli(['-h'])).toBeNull();
+  });
+
+  it.each([
+    [[]],
+    [['convert']],
+    [['rip', 'music']],
+    [['convert', 'a', 'b']],
+    [['convert', 'music', '--format', 'aac']],
+    [['convert', 'music', '-j', '0']],
+    [['convert', 'music', '-t', '{nope}']],
+    [['convert', 'music', '--report', 'report.txt']],
+    [['convert', 'music', '--lyrics', 'karaoke']],
+    [['convert', 'music', '--playlists', 'none']],
+    [['convert', 'music', '--source-action', 'delete']],
+    [['convert', 'music', '--source-action', 'archive']],
+    [['convert', 'music', '--unknown']],
+  ])('rejects %j', argv => {
+    expect(() => parseCli(argv, '/')).toThrow(UsageError);
+  });
+});
@@ -0,0 +1,140 @@
+import { parseArgs } from 'node:util';
+import { resolve } from 'node:path';
+import { ConversionSettings, LyricsAction, OutputFormat, OverwritePolicy, PlaylistMode, SourceAction } from '../types';
+import { validateTemplate } from '../services/filenameTemplate';
+import { defaultSettings, MAX_CONCURRENCY } from '../services/settingsStore';
+
+export type Command = 'convert' | 'watch';
+
+export interface CliOptions {
+  command: Command;
+  folder: string; // absolute
+  settings: ConversionSettings;
+  json: boolean; // line-delimited JSON events on stdout instead of text
+  report: string | null; // where to write the batch report; .csv or .json
+}
+
+/** Bad command line; the message is printed above the usage text. */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const USAGE = `Usage: sonictransmute <convert|watch> <folder> [options]
+
+Commands:
+  convert <folder>          Convert the encrypted files in <folder>, then exit
+  watch <folder>            Keep converting files as they appear in <folder>
+
+Options:
+  -r, --recursive           Include sub-folders
+  -o, --output-dir <dir>    Write outputs here instead of next to each source
+  -f, --format <format>     flac, original, mp3_320, ogg_vorbis or wav (default: original)
+      --overwrite <policy>  overwrite, skip or rename when the output exists (default: overwrite)
+  -t, --template <template> Output name, e.g. "{artist}/{album}/{title}" (default: {originalName})
+  -j, --concurrency <n>     Files converted in parallel, 1 to ${MAX_CONCURRENCY} (default: 2)
+      --lyrics <action>     embed, sidecar, both or ignore for matching .lrc files (default: embed)
+      --source-action <action>
+                            keep, archive or trash each source once its output is
+                            written and verified (default: keep)
+      --archive-dir <dir>   Where archived sources go; needed with --source-action archive
+      --delete-source       Same as --source-action trash
+      --organise            Move outputs into Artist/Album folders when done
+      --playlists <mode>    Write M3U8 playlists when done: album or session
+      --replaygain          Measure loudness (EBU R128) and write ReplayGain tags; needs FFmpeg
+      --json                Print progress and the report as line-delimited JSON
+      --report <file>       Also write the batch report to <file> (.json or .csv)
+  -h, --help                Show this help
+
+Exit codes:
+  0  every file converted or skipped
+  1  some files failed
+  2  bad command line
+  3  every file failed
+  130 interrupted
+`;
+
+const oneOf = <T extends string>(values: T[], value: string, option: string): T => {
+  if (!values.includes(value as T)) throw new UsageError(`--${option} must be one of ${values.join(', ')}`);
+  return value as T;
+};
+
+/** Parses `argv` (without the node and script paths). Returns null when help was asked for. */
+export function parseCli(argv: string[], cwd = process.cwd()): CliOptions | null {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        recursive: { type: 'boolean', short: 'r' },
+        'output-dir': { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        overwrite: { type: 'string' },
+        template: { type: 'string', short: 't' },
+        concurrency: { type: 'string', short: 'j' },
+        lyrics: { type: 'string' },
+        'source-action': { type: 'string' },
+        'archive-dir': { type: 'string' },
+        'delete-source': { type: 'boolean' },
+        organise: { type: 'boolean' },
+        playlists: { type: 'string' },
+        replaygain: { type: 'boolean' },
+        json: { type: 'boolean' },
+        report: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+
+  const [command, folder, ...extra] = positionals;
+  if (!command) throw new UsageError('No command given');
+  if (command !== 'convert' && command !== 'watch') throw new UsageError(`Unknown command: ${command}`);
+  if (!folder) throw new UsageError(`${command} needs a folder`);
+  if (extra.length > 0) throw new UsageError(`Unexpected argument: ${extra[0]}`);
+
+  const settings = defaultSettings(false);
+  settings.watchRecursive = !!values.recursive;
+  if (values['output-dir']) settings.outputDirectory = resolve(cwd, values['output-dir']);
+  if (values.format) settings.outputFormat = oneOf(Object.values(OutputFormat), values.format, 'format');
+  if (values.overwrite) settings.overwritePolicy = oneOf(Object.values(OverwritePolicy), values.overwrite, 'overwrite');
+  if (values.lyrics) settings.lyricsAction = oneOf(Object.values(LyricsAction), values.lyrics, 'lyrics');
+  if (values['source-action']) settings.sourceAction = oneOf(Object.values(SourceAction), values['source-action'], 'source-action');
+  if (values['delete-source']) settings.sourceAction = SourceAction.TRASH;
+  if (values['archive-dir']) settings.archiveDirectory = resolve(cwd, values['archive-dir']);
+  if (settings.sourceAction === SourceAction.ARCHIVE && !settings.archiveDirectory) {
+    throw new UsageError('--source-action archive needs --archive-dir');
+  }
+  settings.organiseByAlbum = !!values.organise;
+  settings.analyseLoudness = !!values.replaygain;
+  if (values.playlists) {
+    settings.playlistMode = oneOf([PlaylistMode.ALBUM, PlaylistMode.SESSION], values.playlists, 'playlists');
+  }
+  if (values.template !== undefined) {
+    const problem = validateTemplate(values.template);
+    if (problem) throw new UsageError(`--template: ${problem}`);
+    settings.filenameTemplate = values.template;
+  }
+  if (values.concurrency !== undefined) {
+    const concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+      throw new UsageError(`--concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}`);
+    }
+    settings.concurrency = concurrency;
+  }
+  if (values.report && !/\.(csv|json)$/i.test(values.report)) throw new UsageError('--report must end in .csv or .json');
+
+  return {
+    command,
+    folder: resolve(cwd, folder),
+    settings,
+    json: !!values.json,
+    report: values.report ? resolve(cwd, values.report) : null,
+  };
+}
@@ -0,0 +1,506 @@
+import { spawn } from 'node:child_process';
+import { copyFile, FileHandle, mkdir, open, readFile, rename, stat, statfs, unlink, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, isAbsolute, join, normalize } from 'node:path';
+import {
+  AudioFile,
+  ConversionErrorCode,
+  ConversionResult,
+  ConversionSettings,
+  FileOperation,
+  InnerFormat,
+  Loudness,
+  LyricsAction,
+  OutputFormat,
+  OverwritePolicy,
+  ProgressEventPayload,
+  SourceAction,
+  TrackMetadata,
+  Verification,
+} from '../types';
+import { ConversionFailure, failureResult } from '../services/conversionErrors';
+import { decryptAudio, openSource, stripSourceExtension } from '../services/decoders';
+import { LoudnessMeter, replayGainTags } from '../services/loudness';
+import { decodeLyrics, lyricsTargets, sidecarPathFor } from '../services/lyrics';
+import { sniffInnerFormat } from '../services/ncm';
+import { ArrangeResult, OutputLayout } from '../services/playlist';
+import { formatBytes } from '../services/progress';
+import { archivePathFor, outputSizeFactor, sourceHold } from '../services/safety';
+import { isPassthrough, targetExtension } from '../services/settingsStore';
+import { tagsFromMetadata, writeTags } from '../services/tagWriter';
+import { ByteSource, readInnerFormat, readTrackInfo, TrackInfo } from '../services/trackInfo';
+import { verifyAudio } from '../services/verify';
+import { moveToTrash } from './trash';
+
+/**
+ * Conversions for the command line: the same steps as `convert.rs`, with the
+ * decryption, tagging and verification of the browser path. FFmpeg is only
+ * started when the output format differs from the decrypted stream, or to
+ * decode outputs for loudness analysis.
+ */
+
+const FFMPEG_ARGS: Record<Exclude<OutputFormat, OutputFormat.ORIGINAL>, string[]> = {
+  [OutputFormat.FLAC]: ['-c:a', 'flac'],
+  [OutputFormat.MP3_320]: ['-c:a', 'libmp3lame', '-b:a', '320k'],
+  [OutputFormat.OGG_VORBIS]: ['-c:a', 'libvorbis', '-q:a', '6'],
+  [OutputFormat.WAV]: ['-c:a', 'pcm_s16le'],
+};
+
+/** Lines of FFmpeg output kept in the details of a failed transcode. */
+const FFMPEG_LOG_LINES = 12;
+
+// Same mapping as `classify` in error.rs
+const NODE_ERROR_CODES: Record<string, ConversionErrorCode> = {
+  ENOENT: ConversionErrorCode.NOT_FOUND,
+  EACCES: ConversionErrorCode.WRITE_DENIED,
+  EPERM: ConversionErrorCode.WRITE_DENIED,
+  EROFS: ConversionErrorCode.WRITE_DENIED,
+  ENOSPC: ConversionErrorCode.DISK_FULL,
+};
+
+const fromNodeError = (error: unknown): unknown => {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  if (!code || !NODE_ERROR_CODES[code]) return error;
+  const path = (error as NodeJS.ErrnoException).path;
+  return new ConversionFailure(NODE_ERROR_CODES[code], (error as Error).message, path ? { path } : {});
+};
+
+const checkCancelled = (signal: AbortSignal) => {
+  if (signal.aborted) throw new ConversionFailure(ConversionErrorCode.CANCELLED, 'Cancelled');
+};
+
+const fileSource = (handle: FileHandle, size: number): ByteSource => ({
+  size,
+  read: async (offset, length) => {
+    const buffer = new Uint8Array(Math.max(0, Math.min(length, size - offset)));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+    return buffer.subarray(0, bytesRead);
+  },
+});
+
+/** Reads the source at `path` with `read`; undefined when it cannot be opened or `read` fails. */
+async function peekSource<T>(path: string, read: (source: ByteSource) => Promise<T>): Promise<T | undefined> {
+  const handle = await open(path, 'r').catch(() => null);
+  if (!handle) return undefined;
+  try {
+    return await read(fileSource(handle, (await handle.stat()).size));
+  } catch {
+    return undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Container tags of the source at `path`, for naming outputs; undefined when there are none or they cannot be read. */
+export async function readMetadata(path: string, name: string): Promise<TrackMetadata | undefined> {
+  return peekSource(path, async source => (await readTrackInfo(source, name))?.metadata ?? undefined);
+}
+
+/** Format of the stream inside the source at `path`, which names its output; undefined when the header cannot be read. */
+export async function readSourceFormat(path: string, name: string): Promise<InnerFormat | undefined> {
+  return peekSource(path, source => readInnerFormat(source, name));
+}
+
+const exists = (path: string) => stat(path).then(() => true, () => false);
+
+/** Text of the lyrics matched to `file`; a sidecar that cannot be read is left out. */
+async function readLyrics(file: AudioFile): Promise<string | undefined> {
+  if (!file.lyrics) return undefined;
+  return readFile(file.lyrics.path).then(decodeLyrics, () => undefined);
+}
+
+/** Adds fields to the tags of a FLAC or MP3 output, keeping the rest; see `ConversionBackend.addTags`. */
+export async function addTags(path: string, fields: Record<string, string>) {
+  if (!/\.(flac|mp3)$/i.test(path)) return;
+  await writeAtomically(path, writeTags(await readFile(path), { extra: fields }));
+}
+
+/** "Song (1).flac", "Song (2).flac", ... for the first name not taken yet. */
+async function uniquePath(directory: string, stem: string, extension: string): Promise<string> {
+  for (let n = 1; ; n++) {
+    const candidate = join(directory, `${stem} (${n}).${extension}`);
+    if (!(await exists(candidate))) return candidate;
+  }
+}
+
+/**
+ * Writes through a temporary file next to the target, so a crash never leaves
+ * half an output; `beforeRename` runs once the data is all there.
+ */
+async function writeAtomically(path: string, data: Uint8Array, beforeRename?: () => Promise<void>) {
+  const temp = `${path}.partial`;
+  try {
+    await writeFile(temp, data);
+    await beforeRename?.();
+    await rename(temp, path);
+  } catch (error) {
+    await unlink(temp).catch(() => {});
+    throw error;
+  }
+}
+
+/** Free bytes on the volume `path` is or would be created on, like `free_space` in convert.rs; null when that cannot be told. */
+export async function freeSpace(path: string): Promise<number | null> {
+  for (let directory = path; ; directory = dirname(directory)) {
+    const info = await statfs(directory).catch(() => null);
+    if (info) return info.bavail * info.bsize;
+    if (dirname(directory) === directory) return null;
+  }
+}
+
+/** Fails before anything is written when `needed` bytes do not fit in `directory`; see `process_file` in convert.rs. */
+async function checkFreeSpace(directory: string, needed: number) {
+  const available = await freeSpace(directory);
+  if (available !== null && available < needed) {
+    throw new ConversionFailure(ConversionErrorCode.DISK_FULL,
+      `Not enough free space in ${directory}: about ${formatBytes(needed)} needed, ${formatBytes(available)} free`, { path: directory });
+  }
+}
+
+/** Moves a file like `move_file` in convert.rs: folders created, nothing replaced, copied between drives. */
+async function moveFile(from: string, to: string) {
+  if (await exists(to)) throw new Error(`${to} already exists`);
+  await mkdir(dirname(to), { recursive: true });
+  try {
+    await rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    try {
+      await copyFile(from, to);
+    } catch (copyError) {
+      await unlink(to).catch(() => {});
+      throw copyError;
+    }
+    await unlink(from);
+  }
+}
+
+/** Moves outputs, with their lyrics sidecars, and writes the playlists; see `planLayout`. */
+export async function arrangeOutputs(layout: OutputLayout): Promise<ArrangeResult> {
+  const result: ArrangeResult = { moved: [], failed: [] };
+  for (const move of layout.moves) {
+    try {
+      await moveFile(move.from, move.to);
+      result.moved.push(move);
+    } catch (error) {
+      result.failed.push({ move, message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    const lyrics = sidecarPathFor(move.from);
+    if (await exists(lyrics)) await moveFile(lyrics, sidecarPathFor(move.to)).catch(() => {});
+  }
+  for (const playlist of layout.playlists) await writeFile(playlist.path, playlist.text);
+  return result;
+}
+
+function transcode(input: string, output: string, format: OutputFormat, signal: AbortSignal): Promise<void> {
+  const args = ['-y', '-i', input, '-vn', ...FFMPEG_ARGS[format as keyof typeof FFMPEG_ARGS], output];
+  return new Promise((resolve, reject) => {
+    const child = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    let log = '';
+    child.stderr.setEncoding('utf8').on('data', (text: string) => { log = (log + text).slice(-16384); });
+    const onAbort = () => child.kill();
+    signal.addEventListener('abort', onAbort, { once: true });
+    child.on('error', error => {
+      signal.removeEventListener('abort', onAbort);
+      reject((error as NodeJS.ErrnoException).code === 'ENOENT'
+        ? new ConversionFailure(ConversionErrorCode.FFMPEG_MISSING, 'FFmpeg not found. Please install FFmpeg and add to PATH.')
+        : error);
+    });
+    child.on('close', (code, killedBy) => {
+      signal.removeEventListener('abort', onAbort);
+      if (signal.aborted) return reject(new ConversionFailure(ConversionErrorCode.CANCELLED, 'Cancelled'));
+      if (code === 0) return resolve();
+      const tail = log.split(/\r?\n|\r/).map(line => line.trim()).filter(Boolean).slice(-FFMPEG_LOG_LINES).join('\n');
+      reject(new ConversionFailure(ConversionErrorCode.FFMPEG_FAILED, `FFmpeg exited with ${code ?? killedBy}`, {
+        exitStatus: String(code ?? killedBy),
+        log: tail,
+      }));
+    });
+  });
+}
+
+/** Feeds 32-bit float WAV, as FFmpeg writes it to a pipe, to a `LoudnessMeter` as it arrives. */
+class WavMeter {
+  private header = Buffer.alloc(0);
+  private meter: LoudnessMeter | null = null;
+  private channelCount = 0;
+  private rest = Buffer.alloc(0); // an incomplete frame left over from the previous chunk
+
+  public write(chunk: Buffer) {
+    if (!this.meter) {
+      this.header = Buffer.concat([this.header, chunk]);
+      const start = this.readHeader();
+      if (start === null) return;
+      chunk = this.header.subarray(start);
+      this.header = Buffer.alloc(0);
+    }
+    const data = this.rest.length > 0 ? Buffer.concat([this.rest, chunk]) : chunk;
+    const frameBytes = 4 * this.channelCount;
+    const frames = Math.floor(data.length / frameBytes);
+    this.rest = Buffer.from(data.subarray(frames * frameBytes));
+    const channels = Array.from({ length: this.channelCount }, () => new Float32Array(frames));
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < this.channelCount; c++) channels[c][i] = data.readFloatLE((i * this.channelCount + c) * 4);
+    }
+    this.meter!.add(channels);
+  }
+
+  /** Where the samples start, once the header up to the data chunk is in; the sizes of a piped WAV are placeholders. */
+  private readHeader(): number | null {
+    const header = this.header;
+    if (header.length < 12) return null;
+    if (header.toString('latin1', 0, 4) !== 'RIFF' || header.toString('latin1', 8, 12) !== 'WAVE') throw new Error('FFmpeg did not write WAV');
+    let format: { channelCount: number; sampleRate: number } | null = null;
+    for (let offset = 12; offset + 8 <= header.length;) {
+      const id = header.toString('latin1', offset, offset + 4);
+      const size = header.readUInt32LE(offset + 4);
+      if (id === 'data') {
+        if (!format) throw new Error('WAV has no format chunk');
+        this.channelCount = format.channelCount;
+        this.meter = new LoudnessMeter(format.sampleRate, format.channelCount);
+        return offset + 8;
+      }
+      if (offset + 8 + size > header.length) return null;
+      if (id === 'fmt ') format = { channelCount: header.readUInt16LE(offset + 10), sampleRate: header.readUInt32LE(offset + 12) };
+      offset += 8 + size + (size & 1);
+    }
+    return null;
+  }
+
+  public finish(): Loudness | null {
+    return this.meter?.finish() ?? null;
+  }
+}
+
+/** Loudness of the output at `path`, decoded by FFmpeg; null when it is silent. */
+function measureOutput(path: string, signal: AbortSignal): Promise<Loudness | null> {
+  const args = ['-v', 'error', '-i', path, '-vn', '-c:a', 'pcm_f32le', '-f', 'wav', '-'];
+  return new Promise((resolve, reject) => {
+    const child = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const wav = new WavMeter();
+    let log = '';
+    let failure: unknown = null;
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (failure) return;
+      try {
+        wav.write(chunk);
+      } catch (error) {
+        failure = error;
+        child.kill();
+      }
+    });
+    child.stderr.setEncoding('utf8').on('data', (text: string) => { log = (log + text).slice(-4096); });
+    const onAbort = () => child.kill();
+    signal.addEventListener('abort', onAbort, { once: true });
+    child.on('error', error => {
+      signal.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+    child.on('close', code => {
+      signal.removeEventListener('abort', onAbort);
+      if (signal.aborted) return reject(new ConversionFailure(ConversionErrorCode.CANCELLED, 'Cancelled'));
+      if (failure) return reject(failure);
+      if (code !== 0) return reject(new Error(`FFmpeg exited with ${code}: ${log.trim()}`));
+      resolve(wav.finish());
+    });
+  });
+}
+
+/** Where `file` goes for a stream of format `inner`: next to the source unless an output directory is set. */
+function outputPathFor(file: AudioFile, settings: ConversionSettings, inner: InnerFormat): { directory: string; stem: string; extension: string } {
+  const stem = file.outputStem ?? stripSourceExtension(file.name);
+  // Never let a template escape the output directory
+  if (!stem || isAbsolute(stem) || normalize(stem).split(/[\\/]/).includes('..')) {
+    throw new ConversionFailure(ConversionErrorCode.UNKNOWN, `Invalid output name: ${stem}`);
+  }
+  // The template may place the output in sub-folders
+  const target = join(settings.outputDirectory ?? dirname(file.path), stem);
+  return { directory: dirname(target), stem: basename(target), extension: targetExtension(settings.outputFormat, inner) };
+}
+
+/**
+ * Converts `file` as `settings` say. Progress is reported through
+ * `onProgress` in the stages of `ProgressEventPayload`; failures resolve
+ * to a result carrying a `ConversionError`, like every backend.
+ */
+export async function convertFile(
+  file: AudioFile,
+  settings: ConversionSettings,
+  signal: AbortSignal,
+  onProgress: (payload: ProgressEventPayload) => void,
+): Promise<ConversionResult> {
+  try {
+    return await runConversion(file, settings, signal, onProgress);
+  } catch (error) {
+    return failureResult(fromNodeError(error));
+  }
+}
+
+async function runConversion(
+  file: AudioFile,
+  settings: ConversionSettings,
+  signal: AbortSignal,
+  onProgress: (payload: ProgressEventPayload) => void,
+): Promise<ConversionResult> {
+  const emit = (stage: ProgressEventPayload['stage'], processedBytes: number, totalBytes: number) =>
+    onProgress({ id: file.id, stage, processedBytes, totalBytes });
+
+  // 1. Decrypt the whole stream; the key comes from the header or trailer
+  const handle = await open(file.path, 'r');
+  let decrypted: Uint8Array;
+  let trackInfo: TrackInfo | null;
+  try {
+    const { size } = await handle.stat();
+    const source = fileSource(handle, size);
+    emit('reading', 0, size);
+    const session = await openSource(source, file.name);
+    trackInfo = session.trackInfo;
+    emit('key', session.audioOffset, session.audioOffset);
+    let lastReported = -1;
+    decrypted = await decryptAudio(source, session, (processed, total) => {
+      const percent = Math.floor((processed / total) * 100);
+      if (percent === lastReported) return;
+      lastReported = percent;
+      emit('decrypting', processed, total);
+    });
+  } finally {
+    await handle.close();
+  }
+  checkCancelled(signal);
+
+  // 2. Resolve the output path according to the settings
+  const inner = sniffInnerFormat(decrypted);
+  const { directory, stem, extension } = outputPathFor(file, settings, inner);
+  await mkdir(directory, { recursive: true });
+  let outputPath = join(directory, `${stem}.${extension}`);
+  const outputName = () => basename(outputPath);
+  const operations: FileOperation[] = [];
+  let replacing = false;
+  if (await exists(outputPath)) {
+    if (settings.overwritePolicy === OverwritePolicy.SKIP) {
+      const { size } = await stat(outputPath);
+      return { success: true, skipped: true, outputName: outputName(), outputPath, outputSize: size, message: 'Output already exists' };
+    }
+    if (settings.overwritePolicy === OverwritePolicy.RENAME) outputPath = await uniquePath(directory, stem, extension);
+    else replacing = true;
+  }
+  // Like `trash_replaced` in convert.rs: the existing output goes to the trash
+  // only once the new one is complete, and is kept if it cannot
+  const trashReplaced = async () => {
+    if (!replacing) return;
+    try {
+      operations.push({ kind: 'replaced', path: outputPath, undoPath: await moveToTrash(outputPath) });
+    } catch (error) {
+      throw new ConversionFailure(ConversionErrorCode.WRITE_DENIED,
+        `Could not move the existing ${outputName()} to the trash: ${error instanceof Error ? error.message : error}`, { path: outputPath });
+    }
+  };
+  const passthrough = isPassthrough(settings.outputFormat, inner);
+  await checkFreeSpace(directory, passthrough ? decrypted.length : decrypted.length * (1 + outputSizeFactor(settings.outputFormat, inner)));
+
+  // 3. Passthrough when the decrypted stream already is the target format, FFmpeg otherwise.
+  // Either way the output only takes its name once it is complete.
+  if (passthrough) {
+    checkCancelled(signal);
+    await writeAtomically(outputPath, decrypted, trashReplaced);
+  } else {
+    // Next to the output, so FFmpeg reads and writes on one filesystem
+    const temp = `${outputPath}.temp.${inner}`;
+    const partial = join(directory, `${basename(outputPath, `.${extension}`)}.partial.${extension}`);
+    emit('transcoding', 0, decrypted.length);
+    try {
+      await writeFile(temp, decrypted);
+      await transcode(temp, partial, settings.outputFormat, signal);
+      await trashReplaced();
+      await rename(partial, outputPath);
+    } catch (error) {
+      await unlink(partial).catch(() => {});
+      throw error;
+    } finally {
+      await unlink(temp).catch(() => {});
+    }
+    emit('transcoding', decrypted.length, decrypted.length);
+  }
+
+  // 4. Only NCM carries tags outside the audio, and only FLAC and MP3 outputs can take them or be verified
+  checkCancelled(signal);
+  const format = extension === 'flac' || extension === 'mp3' ? extension : null;
+  const lyrics = settings.lyricsAction === LyricsAction.IGNORE ? undefined : await readLyrics(file);
+  const { embed, sidecar } = lyricsTargets(settings.lyricsAction, !!format);
+  const embedded = embed ? lyrics : undefined;
+  let audio: Uint8Array | null = null;
+  if (format) {
+    audio = passthrough ? decrypted : await readFile(outputPath);
+    if (trackInfo || embedded) {
+      emit('tagging', 0, audio.length);
+      try {
+        audio = writeTags(audio, { ...tagsFromMetadata(trackInfo?.metadata ?? null, trackInfo?.cover ?? null), lyrics: embedded });
+        await writeAtomically(outputPath, audio);
+      } catch (error) {
+        throw new ConversionFailure(ConversionErrorCode.TAGGING_FAILED, `Tagging failed: ${error instanceof Error ? error.message : error}`, { outputPath });
+      }
+      emit('tagging', audio.length, audio.length);
+    }
+  }
+
+  if (sidecar && lyrics) await writeFile(sidecarPathFor(outputPath), lyrics);
+  const verification = audio && format ? verifyAudio(audio, format, trackInfo?.metadata?.durationMs) : undefined;
+
+  // 5. Loudness of a finished FLAC or MP3 output; OGG and WAV cannot carry the gain. Without FFmpeg,
+  // or when the gain cannot be written, the output just has no track gain
+  let loudness: Loudness | undefined;
+  if (settings.analyseLoudness && audio) {
+    emit('analysing', 0, 1);
+    loudness = await measureOutput(outputPath, signal).catch(() => null) ?? undefined;
+    checkCancelled(signal);
+    if (loudness) {
+      try {
+        await writeAtomically(outputPath, writeTags(audio, { extra: replayGainTags(loudness) }));
+      } catch {
+        loudness = undefined;
+      }
+    }
+    emit('analysing', 1, 1);
+  }
+
+  // 6. Only now that the output is complete and checks out may the source go; a cancelled file keeps it
+  checkCancelled(signal);
+  const { size } = await stat(outputPath);
+  let message: string | undefined;
+  if (settings.sourceAction !== SourceAction.KEEP) {
+    const disposal = await disposeSource(file, settings, { outputPath, outputSize: size, verification });
+    if (disposal.operation) operations.push(disposal.operation);
+    message = disposal.message;
+  }
+  return { success: true, outputName: outputName(), outputPath, outputSize: size, verification, loudness, operations, message };
+}
+
+/**
+ * Archives or trashes the source of a finished conversion, like
+ * `dispose_source` in convert.rs. A source that stays says why in the
+ * message; the output is kept either way.
+ */
+async function disposeSource(
+  file: AudioFile,
+  settings: ConversionSettings,
+  result: { outputPath: string; outputSize: number; verification?: Verification },
+): Promise<{ operation?: FileOperation; message?: string }> {
+  const hold = sourceHold(result);
+  if (hold) return { message: `Source kept: ${hold}` };
+  try {
+    if (settings.sourceAction === SourceAction.TRASH) {
+      await moveToTrash(file.path);
+      return { operation: { kind: 'trashed', path: file.path } };
+    }
+    if (!settings.archiveDirectory) throw new Error('No archive folder is set');
+    let archivePath = archivePathFor(file, settings.archiveDirectory);
+    if (await exists(archivePath)) {
+      const extension = extname(archivePath);
+      archivePath = await uniquePath(dirname(archivePath), basename(archivePath, extension), extension.slice(1));
+    }
+    await moveFile(file.path, archivePath);
+    return { operation: { kind: 'archived', path: file.path, undoPath: archivePath } };
+  } catch (error) {
+    return { message: `Source kept: ${error instanceof Error ? error.message : error}` };
+  }
+}
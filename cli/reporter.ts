@@ -0,0 +1,82 @@
+import { AudioFile, BatchReport, ConversionStatus, FileOperation, VerificationStatus } from '../types';
+import { ERROR_INFO } from '../services/conversionErrors';
+import { describeOperation } from '../services/safety';
+
+/**
+ * What the CLI tells the outside world. With `--json` every event is one
+ * line of JSON on stdout, so scripts can follow a batch as it runs.
+ */
+export type CliEvent =
+  | { event: 'queued'; path: string }
+  | { event: 'started'; path: string }
+  | { event: 'progress'; path: string; stage: string; percent: number }
+  | {
+    event: 'finished';
+    path: string;
+    status: ConversionStatus;
+    outputPath: string | null;
+    outputSize: number | null;
+    error: { code: string; message: string } | null;
+    verification: { status: VerificationStatus; reason: string | null } | null;
+    loudness: { integratedLufs: number; truePeak: number; trackGainDb: number } | null;
+    operations: FileOperation[]; // what happened to the source and any previous output
+    note: string | null; // e.g. why the source was kept
+  }
+  | { event: 'album-gain'; written: number; failed: { path: string; message: string }[] }
+  | { event: 'arranged'; moved: number; failed: { path: string; message: string }[]; playlists: string[] }
+  | { event: 'report'; report: BatchReport };
+
+export type Reporter = (event: CliEvent) => void;
+
+export const finishedEvent = (file: AudioFile): CliEvent => ({
+  event: 'finished',
+  path: file.path,
+  status: file.status,
+  outputPath: file.outputPath ?? null,
+  outputSize: file.outputSize ?? null,
+  error: file.error ? { code: file.error.code, message: file.error.message } : null,
+  verification: file.verification ? { status: file.verification.status, reason: file.verification.reason ?? null } : null,
+  loudness: file.loudness
+    ? { integratedLufs: file.loudness.integratedLufs, truePeak: file.loudness.truePeak, trackGainDb: file.loudness.trackGainDb }
+    : null,
+  operations: file.operations ?? [],
+  note: file.note ?? null,
+});
+
+export const jsonReporter = (write: (text: string) => void): Reporter => event => write(`${JSON.stringify(event)}\n`);
+
+/** One line per finished file and a summary at the end; progress is left out. */
+export const textReporter = (write: (text: string) => void): Reporter => event => {
+  switch (event.event) {
+    case 'finished': {
+      const { path, status, outputPath, error, verification, operations, note } = event;
+      if (status === ConversionStatus.COMPLETED) {
+        write(`converted  ${path} -> ${outputPath}\n`);
+        if (verification?.status === VerificationStatus.SUSPECT) write(`  suspect: ${verification.reason}\n`);
+        operations.forEach(operation => write(`  ${describeOperation(operation)}\n`));
+        if (note) write(`  ${note}\n`);
+      } else if (status === ConversionStatus.SKIPPED) {
+        write(`skipped    ${path} (${outputPath ?? 'output exists'})\n`);
+      } else {
+        const code = error?.code as keyof typeof ERROR_INFO | undefined;
+        write(`failed     ${path}\n  ${code ? ERROR_INFO[code].title : 'Failed'}: ${error?.message ?? status}\n`);
+      }
+      return;
+    }
+    case 'album-gain':
+      if (event.written > 0) write(`album gain ${event.written} outputs\n`);
+      event.failed.forEach(({ path, message }) => write(`not tagged ${path}\n  ${message}\n`));
+      return;
+    case 'arranged':
+      if (event.moved > 0) write(`organised  ${event.moved} outputs into Artist/Album folders\n`);
+      event.failed.forEach(({ path, message }) => write(`not moved  ${path}\n  ${message}\n`));
+      event.playlists.forEach(path => write(`playlist   ${path}\n`));
+      return;
+    case 'report': {
+      const skipped = event.report.entries.filter(entry => entry.status === ConversionStatus.SKIPPED).length;
+      const { totalFiles, converted, failed } = event.report.stats;
+      write(`\n${totalFiles} files: ${converted} converted, ${skipped} skipped, ${failed} failed\n`);
+      return;
+    }
+  }
+};
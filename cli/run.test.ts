@@ -0,0 +1,136 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { AudioFile, ConversionStatus, OverwritePolicy } from '../types';
+import { kwmMask } from '../services/kwm';
+import { parseCli } from './args';
+import { CliEvent } from './reporter';
+import { EXIT, exitCodeFor, runConvert } from './run';
+
+const FLAC_HEAD = [0x66, 0x4c, 0x61, 0x43, 0x00, 0x00, 0x00, 0x22];
+
+const sampleAudio = (length: number) => {
+  const audio = Uint8Array.from({ length }, (_, i) => (i * 7 + 3) & 0xff);
+  audio.set(FLAC_HEAD);
+  return audio;
+};
+
+const kwmFile = (audio: Uint8Array, resourceId = 4567n) => {
+  const file = new Uint8Array(0x400 + audio.length);
+  file.set(new TextEncoder().encode('yeelion-kuwo-tme'));
+  new DataView(file.buffer).setUint32(0x10, 1, true);
+  new DataView(file.buffer).setBigUint64(0x18, resourceId, true);
+  const mask = kwmMask(resourceId);
+  audio.forEach((byte, i) => { file[0x400 + i] = byte ^ mask[i & 0x1f]; });
+  return file;
+};
+
+const files = (...statuses: ConversionStatus[]) =>
+  statuses.map((status, i) => ({ id: String(i), name: `${i}.kwm`, path: `/${i}.kwm`, size: 1, status, progress: 100 }) as AudioFile);
+
+describe('exitCodeFor', () => {
+  it('tells complete, partial and total failure apart', () => {
+    expect(exitCodeFor([])).toBe(EXIT.OK);
+    expect(exitCodeFor(files(ConversionStatus.COMPLETED, ConversionStatus.SKIPPED))).toBe(EXIT.OK);
+    expect(exitCodeFor(files(ConversionStatus.COMPLETED, ConversionStatus.FAILED))).toBe(EXIT.PARTIAL);
+    expect(exitCodeFor(files(ConversionStatus.FAILED, ConversionStatus.CANCELLED))).toBe(EXIT.FAILED);
+  });
+});
+
+describe('runConvert', () => {
+  let folder: string;
+  let events: CliEvent[];
+  const report = (event: CliEvent) => { events.push(event); };
+  const finished = () => events.filter((e): e is Extract<CliEvent, { event: 'finished' }> => e.event === 'finished');
+
+  beforeEach(async () => {
+    folder = await mkdtemp(join(tmpdir(), 'sonictransmute-'));
+    events = [];
+  });
+
+  afterEach(async () => {
+    await rm(folder, { recursive: true, force: true });
+  });
+
+  it('decrypts a folder and reports a partial failure', async () => {
+    const audio = sampleAudio(5000);
+    await mkdir(join(folder, 'sub'));
+    await writeFile(join(folder, 'good.kwm'), kwmFile(audio));
+    await writeFile(join(folder, 'sub', 'cut.kwm'), kwmFile(audio).subarray(0, 0x200));
+    const options = parseCli(['convert', folder, '-r', '--report', join(folder, 'report.json')])!;
+
+    expect(await runConvert(options, report, new AbortController().signal)).toBe(EXIT.PARTIAL);
+    expect(await readFile(join(folder, 'good.flac'))).toEqual(Buffer.from(audio));
+    // Both run at once, so they may finish in either order
+    expect(finished().map(e => [e.path, e.status, e.error?.code ?? null]).sort()).toEqual([
+      [join(folder, 'good.kwm'), ConversionStatus.COMPLETED, null],
+      [join(folder, 'sub', 'cut.kwm'), ConversionStatus.FAILED, 'TRUNCATED_AUDIO'],
+    ]);
+    expect(events.at(-1)).toMatchObject({ event: 'report', report: { stats: { totalFiles: 2, converted: 1, failed: 1 } } });
+    const saved = JSON.parse(await readFile(join(folder, 'report.json'), 'utf8'));
+    expect(saved.entries.map((e: { status: string }) => e.status)).toEqual([ConversionStatus.COMPLETED, ConversionStatus.FAILED]);
+  });
+
+  it('follows the overwrite policy and the output directory', async () => {
+    await writeFile(join(folder, 'song.kwm'), kwmFile(sampleAudio(300)));
+    await mkdir(join(folder, 'out'));
+    await writeFile(join(folder, 'out', 'song.flac'), 'existing');
+    const options = parseCli(['convert', folder, '-o', join(folder, 'out'), '--overwrite', 'skip'])!;
+    expect(options.settings.overwritePolicy).toBe(OverwritePolicy.SKIP);
+
+    expect(await runConvert(options, report, new AbortController().signal)).toBe(EXIT.OK);
+    expect(finished()[0]).toMatchObject({ status: ConversionStatus.SKIPPED, outputPath: join(folder, 'out', 'song.flac') });
+    expect(await readFile(join(folder, 'out', 'song.flac'), 'utf8')).toBe('existing');
+
+    options.settings.overwritePolicy = OverwritePolicy.RENAME;
+    await runConvert(options, report, new AbortController().signal);
+    expect(finished()[1]).toMatchObject({ status: ConversionStatus.COMPLETED, outputPath: join(folder, 'out', 'song (1).flac') });
+  });
+
+  it.runIf(process.platform === 'linux')('moves an output it overwrites to the trash first', async () => {
+    const dataHome = process.env.XDG_DATA_HOME;
+    process.env.XDG_DATA_HOME = join(folder, 'data');
+    try {
+      const audio = sampleAudio(300);
+      await writeFile(join(folder, 'song.kwm'), kwmFile(audio));
+      await writeFile(join(folder, 'song.flac'), 'existing');
+
+      expect(await runConvert(parseCli(['convert', folder])!, report, new AbortController().signal)).toBe(EXIT.OK);
+      const trashed = join(folder, 'data', 'Trash', 'files', 'song.flac');
+      expect(finished()[0].operations).toEqual([{ kind: 'replaced', path: join(folder, 'song.flac'), undoPath: trashed }]);
+      expect(await readFile(trashed, 'utf8')).toBe('existing');
+      expect(await readFile(join(folder, 'song.flac'))).toEqual(Buffer.from(audio));
+    } finally {
+      if (dataHome === undefined) delete process.env.XDG_DATA_HOME;
+      else process.env.XDG_DATA_HOME = dataHome;
+    }
+  });
+
+  it('plans names by the stream inside each source, not by optional metadata', async () => {
+    const mp3 = sampleAudio(300);
+    mp3.set([0xff, 0xfb, 0x90, 0x00]);
+    await mkdir(join(folder, 'sub'));
+    await writeFile(join(folder, 'song.kwm'), kwmFile(sampleAudio(300)));
+    await writeFile(join(folder, 'sub', 'song.kwm'), kwmFile(mp3));
+    const options = parseCli(['convert', folder, '-r', '-o', join(folder, 'out')])!;
+
+    await runConvert(options, report, new AbortController().signal);
+    expect(finished().map(e => e.outputPath).sort()).toEqual([join(folder, 'out', 'song.flac'), join(folder, 'out', 'song.mp3')]);
+  });
+
+  it('keeps sources behind outputs that do not verify', async () => {
+    await writeFile(join(folder, 'song.kwm'), kwmFile(sampleAudio(300)));
+    const options = parseCli(['convert', folder, '--source-action', 'archive', '--archive-dir', join(folder, 'archive')])!;
+
+    expect(await runConvert(options, report, new AbortController().signal)).toBe(EXIT.OK);
+    expect(finished()[0]).toMatchObject({ status: ConversionStatus.COMPLETED, operations: [], note: expect.stringMatching(/^Source kept: the output is suspect/) });
+    expect(await readFile(join(folder, 'song.kwm'))).toHaveLength(0x400 + 300);
+  });
+
+  it('fails every file when the folder holds nothing it can decrypt', async () => {
+    await writeFile(join(folder, 'empty.kwm'), new Uint8Array(0x400));
+    const options = parseCli(['convert', folder])!;
+    expect(await runConvert(options, report, new AbortController().signal)).toBe(EXIT.FAILED);
+  });
+});
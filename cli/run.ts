@@ -0,0 +1,231 @@
+import { randomUUID } from 'node:crypto';
+import { stat, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { AudioFile, ConversionResult, ConversionSettings, ConversionStatus, DetectedFile, LyricsAction, LyricsSidecar, PlaylistMode } from '../types';
+import { buildBatchReport, reportToCsv } from '../services/batchReport';
+import { sourceFormatOf } from '../services/decoders';
+import { DEFAULT_TEMPLATE, NamingSource, planOutputStems } from '../services/filenameTemplate';
+import { albumGains, replayGainTags } from '../services/loudness';
+import { folderOf, matchLyrics } from '../services/lyrics';
+import { planLayout, sessionPlaylistName } from '../services/playlist';
+import { outputExtension } from '../services/planner';
+import { stagePercent } from '../services/progress';
+import { QueueManager } from '../services/queueManager';
+import { spaceNeeded, spaceShortfalls } from '../services/safety';
+import { CliOptions, UsageError } from './args';
+import { addTags, arrangeOutputs, convertFile, freeSpace, readMetadata, readSourceFormat } from './nodeConverter';
+import { finishedEvent, Reporter } from './reporter';
+import { listLyrics, scanFolder, watchFolder } from './scan';
+
+export const EXIT = {
+  OK: 0, // every file converted or skipped
+  PARTIAL: 1, // some files failed
+  USAGE: 2,
+  FAILED: 3, // every file failed
+  INTERRUPTED: 130, // SIGINT during `convert`, as shells report it
+} as const;
+
+/** Cancelled files count as failed: their outputs were not written. */
+export function exitCodeFor(files: AudioFile[]): number {
+  const failed = files.filter(f => f.status === ConversionStatus.FAILED || f.status === ConversionStatus.CANCELLED).length;
+  if (failed === 0) return EXIT.OK;
+  return failed === files.length ? EXIT.FAILED : EXIT.PARTIAL;
+}
+
+const fromDetected = (detected: DetectedFile): AudioFile => ({
+  id: randomUUID(),
+  name: detected.name,
+  path: detected.path,
+  root: detected.root,
+  size: detected.size,
+  format: sourceFormatOf(detected.name),
+  status: ConversionStatus.PENDING,
+  progress: 0,
+});
+
+const needsMetadata = (settings: ConversionSettings) =>
+  settings.filenameTemplate !== DEFAULT_TEMPLATE
+  || settings.organiseByAlbum
+  || settings.playlistMode !== PlaylistMode.NONE
+  || settings.analyseLoudness;
+
+/**
+ * Names outputs from the filename template before they are queued, like
+ * `planOutputs` in the app. The extension comes from the sniffed stream, as
+ * `convertFile` names outputs; metadata is only read when the template, the
+ * album folders, the playlists or the album gain need it.
+ */
+async function planOutputs(targets: AudioFile[], settings: ConversionSettings, queued: AudioFile[]): Promise<AudioFile[]> {
+  const withMetadata = needsMetadata(settings);
+  const named = await Promise.all(targets.map(async file => ({
+    ...file,
+    innerFormat: file.innerFormat ?? await readSourceFormat(file.path, file.name),
+    metadata: withMetadata ? file.metadata ?? await readMetadata(file.path, file.name) : file.metadata,
+  })));
+  const extensionOf = (file: NamingSource) => outputExtension(file, settings);
+  const taken = queued.filter(f => f.outputStem).map((f): [string, string] => [f.outputStem!, extensionOf(f)]);
+  const plan = planOutputStems(named, settings.filenameTemplate, extensionOf, taken);
+  return named.map(f => ({ ...f, outputStem: plan.get(f.id) }));
+}
+
+/**
+ * Matches each file to a `.lrc` sidecar in its folder, by name or by the
+ * metadata `planOutputs` read. The folders are listed when the files are
+ * queued, so in watch mode a sidecar has to arrive with its source.
+ */
+async function attachLyrics(files: AudioFile[], settings: ConversionSettings): Promise<AudioFile[]> {
+  if (settings.lyricsAction === LyricsAction.IGNORE) return files;
+  const listed = new Map<string, LyricsSidecar[]>();
+  for (const folder of new Set(files.map(file => folderOf(file.path)))) listed.set(folder, await listLyrics(folder));
+  return files.map(file => {
+    const lyrics = matchLyrics(file, listed.get(folderOf(file.path)) ?? []);
+    return lyrics ? { ...file, lyrics } : file;
+  });
+}
+
+/**
+ * A queue that converts with `convertFile` and tells `report` about every
+ * step. `running` holds the conversions in flight, which outlive cancelling
+ * their file until they notice the abort.
+ */
+function createQueue(settings: ConversionSettings, report: Reporter): { queue: QueueManager; running: Set<Promise<ConversionResult>> } {
+  const running = new Set<Promise<ConversionResult>>();
+  const queue = new QueueManager(
+    (file, signal) => {
+      const conversion = convertFile(file, settings, signal, payload => {
+        queue.handleProgress(payload);
+        report({ event: 'progress', path: file.path, stage: payload.stage, percent: stagePercent(payload.processedBytes, payload.totalBytes) });
+      });
+      running.add(conversion);
+      return conversion.finally(() => running.delete(conversion));
+    },
+    { concurrency: settings.concurrency },
+  );
+  queue.subscribe(event => {
+    if (event.type === 'started') report({ event: 'started', path: event.file.path });
+    if (event.type === 'finished') report(finishedEvent(event.file));
+  });
+  return { queue, running };
+}
+
+/**
+ * Stops dispatching, cancels whatever is still converting and waits for those
+ * conversions to settle, so nothing is still writing when the run is summed up.
+ */
+async function halt(queue: QueueManager, running: Set<Promise<ConversionResult>>) {
+  queue.stop();
+  queue.batch(() => queue.getSnapshot().files
+    .filter(f => f.status === ConversionStatus.CONVERTING || f.status === ConversionStatus.TAGGING)
+    .forEach(f => queue.cancel(f.id)));
+  await Promise.allSettled(Array.from(running));
+}
+
+async function requireFolder(folder: string) {
+  const info = await stat(folder).catch(() => null);
+  if (!info?.isDirectory()) throw new UsageError(`Not a folder: ${folder}`);
+}
+
+/** `--replaygain`: album gain, once every track of the album has been measured. */
+async function writeAlbumGain(queue: QueueManager, settings: ConversionSettings, report: Reporter) {
+  if (!settings.analyseLoudness) return;
+  const written: string[] = [];
+  const failed: { path: string; message: string }[] = [];
+  for (const [id, loudness] of albumGains(queue.getSnapshot().files)) {
+    const file = queue.getFile(id)!;
+    try {
+      await addTags(file.outputPath!, replayGainTags(loudness));
+      queue.update(id, { loudness });
+      written.push(file.outputPath!);
+    } catch (error) {
+      failed.push({ path: file.outputPath!, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  report({ event: 'album-gain', written: written.length, failed });
+}
+
+/** `--organise` and `--playlists`: lays out what was converted since `startedAt`. */
+async function arrange(queue: QueueManager, settings: ConversionSettings, startedAt: number, report: Reporter) {
+  if (settings.playlistMode === PlaylistMode.NONE && !settings.organiseByAlbum) return;
+  const layout = planLayout(queue.getSnapshot().files, settings, sessionPlaylistName(startedAt));
+  const { moved, failed } = await arrangeOutputs(layout);
+  queue.batch(() => moved.forEach(({ id, to }) => queue.update(id, { outputPath: to, outputName: basename(to) })));
+  report({
+    event: 'arranged',
+    moved: moved.length,
+    failed: failed.map(({ move, message }) => ({ path: move.from, message })),
+    playlists: layout.playlists.map(playlist => playlist.path),
+  });
+}
+
+/** Writes the album gain, lays out the outputs, reports the batch and writes it to `--report`, if given. */
+async function finish(queue: QueueManager, options: CliOptions, report: Reporter, startedAt: number) {
+  await writeAlbumGain(queue, options.settings, report);
+  await arrange(queue, options.settings, startedAt, report);
+  const { files, stats } = queue.getSnapshot();
+  const batch = buildBatchReport(files, stats, options.settings, options.folder);
+  if (options.report) {
+    await writeFile(options.report, /\.csv$/i.test(options.report) ? reportToCsv(batch) : JSON.stringify(batch, null, 2));
+  }
+  report({ event: 'report', report: batch });
+}
+
+/** `convert`: converts everything in the folder once. Resolves to the exit code. */
+export async function runConvert(options: CliOptions, report: Reporter, signal: AbortSignal): Promise<number> {
+  const startedAt = Date.now();
+  await requireFolder(options.folder);
+  const { queue, running } = createQueue(options.settings, report);
+  const detected = await scanFolder(options.folder, options.settings.watchRecursive);
+  const planned = await planOutputs(detected.map(fromDetected), options.settings, []);
+  const files = await attachLyrics(planned, options.settings);
+  const needs = spaceNeeded(files, options.settings);
+  const shortfalls = spaceShortfalls(needs, await Promise.all(needs.map(need => freeSpace(need.folder))));
+  if (shortfalls.length > 0) throw new Error(shortfalls.join('\n'));
+  files.forEach(file => report({ event: 'queued', path: file.path }));
+
+  await new Promise<void>(resolve => {
+    const onAbort = () => {
+      halt(queue, running).then(resolve);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    queue.subscribe(event => {
+      if (event.type !== 'drained') return;
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    });
+    queue.add(files);
+    queue.start();
+  });
+
+  await finish(queue, options, report, startedAt);
+  return signal.aborted ? EXIT.INTERRUPTED : exitCodeFor(queue.getSnapshot().files);
+}
+
+/**
+ * `watch`: converts files already in the folder and then every file that
+ * appears, until `signal` is aborted (SIGINT or SIGTERM). Stopping is the
+ * normal end of a watch, so the exit code only reflects failures.
+ */
+export async function runWatch(options: CliOptions, report: Reporter, signal: AbortSignal): Promise<number> {
+  const startedAt = Date.now();
+  await requireFolder(options.folder);
+  const { queue, running } = createQueue(options.settings, report);
+  queue.start(true);
+
+  // One file at a time, so two new files never plan the same name
+  let planning = Promise.resolve();
+  const enqueue = (detected: DetectedFile) => {
+    planning = planning.then(async () => {
+      const planned = await planOutputs([fromDetected(detected)], options.settings, queue.getSnapshot().files);
+      const [file] = await attachLyrics(planned, options.settings);
+      if (signal.aborted) return;
+      report({ event: 'queued', path: file.path });
+      queue.add([file]);
+    });
+  };
+  await watchFolder(options.folder, enqueue, { recursive: options.settings.watchRecursive, signal });
+  await planning;
+  await halt(queue, running);
+
+  await finish(queue, options, report, startedAt);
+  return exitCodeFor(queue.getSnapshot().files);
+}
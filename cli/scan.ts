@@ -0,0 +1,93 @@
+import { readdir, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DetectedFile, LyricsSidecar } from '../types';
+import { isSupportedFile } from '../services/decoders';
+import { isLyricsFile } from '../services/lyrics';
+
+/** How often a watched folder is listed again. Polling also works on network shares, where change events do not. */
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Lists the supported files in `folder`, sorted by path so runs are
+ * repeatable. Unreadable entries below `folder` are left out, as in `scan` in
+ * watcher.rs; an unreadable `folder` itself rejects.
+ */
+export async function scanFolder(folder: string, recursive: boolean): Promise<DetectedFile[]> {
+  const found: DetectedFile[] = [];
+  const visit = async (directory: string) => {
+    let entries;
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      if (directory === folder) throw error;
+      return;
+    }
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (recursive) await visit(path);
+      } else if (entry.isFile() && isSupportedFile(entry.name)) {
+        const size = await stat(path).then(info => info.size, () => null);
+        if (size !== null) found.push({ path, name: entry.name, size, root: folder });
+      }
+    }
+  };
+  await visit(folder);
+  return found.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+/** The `.lrc` files directly in `folder`, like `list_lyrics` in watcher.rs; none when it cannot be read. */
+export async function listLyrics(folder: string): Promise<LyricsSidecar[]> {
+  const entries = await readdir(folder, { withFileTypes: true }).catch(() => []);
+  return entries
+    .filter(entry => entry.isFile() && isLyricsFile(entry.name))
+    .map(entry => ({ name: entry.name, path: join(folder, entry.name) }))
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+export interface WatchOptions {
+  recursive: boolean;
+  signal: AbortSignal;
+  intervalMs?: number;
+}
+
+/**
+ * Polls `folder` until `signal` is aborted and calls `onFile` once per
+ * supported file, files already there included. A file is only reported once
+ * its size is the same on two polls in a row, so downloads still being
+ * written are left alone until they finish.
+ */
+export async function watchFolder(folder: string, onFile: (file: DetectedFile) => void, options: WatchOptions): Promise<void> {
+  const { recursive, signal, intervalMs = POLL_INTERVAL_MS } = options;
+  const sizes = new Map<string, number>(); // size seen on the last poll, by path
+  const reported = new Set<string>();
+  while (!signal.aborted) {
+    // A share that drops out for a moment must not make every file look new once it is back
+    const files = await scanFolder(folder, recursive).catch(() => null);
+    for (const file of files ?? []) {
+      if (reported.has(file.path)) continue;
+      if (sizes.get(file.path) === file.size && file.size > 0) {
+        sizes.delete(file.path);
+        reported.add(file.path);
+        onFile(file);
+      } else {
+        sizes.set(file.path, file.size);
+      }
+    }
+    if (files) {
+      // Forget files that went away, so one written again under the same name is picked up
+      const present = new Set(files.map(file => file.path));
+      reported.forEach(path => { if (!present.has(path)) reported.delete(path); });
+      sizes.forEach((_, path) => { if (!present.has(path)) sizes.delete(path); });
+    }
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(done, intervalMs);
+      function done() {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      }
+      signal.addEventListener('abort', done, { once: true });
+    });
+  }
+}
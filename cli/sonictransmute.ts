@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+import { parseCli, USAGE, UsageError } from './args';
+import { jsonReporter, textReporter } from './reporter';
+import { EXIT, runConvert, runWatch } from './run';
+
+/**
+ * Command-line entry: `sonictransmute convert|watch <folder>`. Same job model
+ * as the app, decrypting in TypeScript; FFmpeg is only needed for formats
+ * other than the decrypted stream.
+ */
+async function main(): Promise<number> {
+  const controller = new AbortController();
+  const stop = () => {
+    // A second Ctrl+C does not wait for the clean-up
+    if (controller.signal.aborted) process.exit(EXIT.INTERRUPTED);
+    controller.abort();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  try {
+    const options = parseCli(process.argv.slice(2));
+    if (!options) {
+      process.stdout.write(USAGE);
+      return EXIT.OK;
+    }
+    const write = (text: string) => { process.stdout.write(text); };
+    const report = options.json ? jsonReporter(write) : textReporter(write);
+    const run = options.command === 'watch' ? runWatch : runConvert;
+    return await run(options, report, controller.signal);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}`);
+      return EXIT.USAGE;
+    }
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+    return EXIT.FAILED;
+  }
+}
+
+main().then(code => { process.exitCode = code; });
@@ -0,0 +1,68 @@
+import { mkdir, open, rename, stat, unlink } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { basename, extname, join } from 'node:path';
+
+/**
+ * Moves sources to the trash of the desktop, from where they can be restored,
+ * and returns where they went:
+ * the freedesktop.org home trash on Linux and other Unix systems, with the
+ * `.trashinfo` file managers use to put a file back, and ~/.Trash on macOS.
+ * The recycle bin on Windows is only reached through the shell API, so there
+ * sources can be archived instead.
+ *
+ * A file is renamed into the trash, never copied: one on another drive than
+ * the trash stays where it is, and the move fails.
+ */
+export async function moveToTrash(path: string): Promise<string> {
+  if (process.platform === 'win32') throw new Error('The recycle bin cannot be reached from the command line; use --source-action archive, or --overwrite rename for outputs');
+  if (process.platform === 'darwin') {
+    const trash = join(homedir(), '.Trash');
+    const name = await freeName(trash, basename(path), async candidate => !(await exists(candidate)));
+    await rename(path, name);
+    return name;
+  }
+
+  const trash = join(process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share'), 'Trash');
+  await mkdir(join(trash, 'files'), { recursive: true });
+  await mkdir(join(trash, 'info'), { recursive: true });
+  // Creating the .trashinfo exclusively is what reserves a name in the trash
+  const name = await freeName(join(trash, 'files'), basename(path), async candidate => {
+    if (await exists(candidate)) return false;
+    try {
+      const info = await open(join(trash, 'info', `${basename(candidate)}.trashinfo`), 'wx');
+      await info.writeFile(trashInfo(path, new Date()));
+      await info.close();
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+      throw error;
+    }
+  });
+  try {
+    await rename(path, name);
+  } catch (error) {
+    await unlink(join(trash, 'info', `${basename(name)}.trashinfo`)).catch(() => {});
+    throw error;
+  }
+  return name;
+}
+
+/** The `.trashinfo` of a file trashed from `path` at `date`: its percent-encoded path and local time. */
+export function trashInfo(path: string, date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const deletedAt = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    + `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  return `[Trash Info]\nPath=${path.split('/').map(encodeURIComponent).join('/')}\nDeletionDate=${deletedAt}\n`;
+}
+
+const exists = (path: string) => stat(path).then(() => true, () => false);
+
+/** "Song.ncm", then "Song (1).ncm", "Song (2).ncm", ... in `directory`, for the first that `take` accepts. */
+async function freeName(directory: string, name: string, take: (candidate: string) => Promise<boolean>): Promise<string> {
+  const extension = extname(name);
+  const stem = name.slice(0, name.length - extension.length);
+  for (let n = 0; ; n++) {
+    const candidate = join(directory, n === 0 ? name : `${stem} (${n})${extension}`);
+    if (await take(candidate)) return candidate;
+  }
+}
@@ -0,0 +1,30 @@
+import React from 'react';
+import { BatchProgress, formatBytes, formatEta } from '../services/progress';
+
+interface BatchProgressCardProps {
+  progress: BatchProgress;
+}
+
+export const BatchProgressCard: React.FC<BatchProgressCardProps> = ({ progress }) => {
+  const { processedBytes, totalBytes, bytesPerSecond, etaSeconds } = progress;
+  const percent = totalBytes > 0 ? Math.min(100, (processedBytes / totalBytes) * 100) : 0;
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 p-4 rounded-xl backdrop-blur-sm space-y-2">
+      <div className="flex items-baseline justify-between">
+        <p className="text-slate-400 text-xs uppercase tracking-wider font-semibold">Batch</p>
+        <p className="text-lg font-bold font-mono text-indigo-400">{Math.floor(percent)}%</p>
+      </div>
+      <div className="h-1.5 bg-slate-700/50 rounded-full overflow-hidden">
+        <div className="h-full bg-indigo-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="flex justify-between text-xs font-mono text-slate-500">
+        <span>{formatBytes(processedBytes)} / {formatBytes(totalBytes)}</span>
+        <span>{bytesPerSecond !== null ? `${formatBytes(bytesPerSecond)}/s` : '—'}</span>
+      </div>
+      <p className="text-xs text-slate-500">
+        {etaSeconds !== null && percent < 100 ? `About ${formatEta(etaSeconds)} left` : percent >= 100 ? 'Done' : 'Measuring speed...'}
+      </p>
+    </div>
+  );
+};
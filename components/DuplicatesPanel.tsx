@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { AudioFile, DuplicateGroup, DuplicatePolicy, OverwritePolicy } from '../types';
+import { Icons } from '../constants';
+import { DUPLICATE_POLICY_LABELS, DuplicateResolution, formatBitrate } from '../services/duplicates';
+
+interface DuplicatesPanelProps {
+  groups: DuplicateGroup[];
+  files: AudioFile[];
+  policy: DuplicatePolicy; // preselected for every group
+  resolve: (group: DuplicateGroup, policy: DuplicatePolicy) => DuplicateResolution[];
+  onPolicyChange: (policy: DuplicatePolicy) => void;
+  onApply: (resolutions: DuplicateResolution[]) => void;
+  onClose: () => void;
+}
+
+const POLICIES = Object.values(DuplicatePolicy);
+
+const MATCH_LABELS: Record<DuplicateGroup['match'], string> = {
+  'music-id': 'Same NetEase id',
+  audio: 'Same audio',
+};
+
+const outcomeOf = (resolution: DuplicateResolution | undefined): { label: string; className: string } => {
+  if (!resolution) return { label: 'No longer pending', className: 'text-slate-500' };
+  if (resolution.action === 'skip') return { label: 'Skip', className: 'text-slate-400' };
+  if (resolution.overwritePolicy === OverwritePolicy.OVERWRITE) return { label: 'Convert over the library copy', className: 'text-amber-400' };
+  if (resolution.replaces) return { label: 'Convert, then trash the library copy', className: 'text-amber-400' };
+  if (resolution.overwritePolicy === OverwritePolicy.RENAME) return { label: 'Convert under a numbered name', className: 'text-blue-400' };
+  return { label: 'Convert', className: 'text-blue-400' };
+};
+
+const PolicyButtons: React.FC<{ value: DuplicatePolicy; onChange: (policy: DuplicatePolicy) => void }> = ({ value, onChange }) => (
+  <div className="flex items-center gap-1">
+    {POLICIES.map(policy => (
+      <button
+        key={policy}
+        onClick={() => onChange(policy)}
+        className={`px-2 py-1 rounded text-xs border transition-colors ${
+          value === policy ? 'border-indigo-500 bg-indigo-500/10 text-indigo-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'
+        }`}
+      >
+        {DUPLICATE_POLICY_LABELS[policy]}
+      </button>
+    ))}
+  </div>
+);
+
+/** Copies of the same track in the queue and the library, each group with the policy it gets before the batch starts. */
+export const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({ groups, files, policy, resolve, onPolicyChange, onApply, onClose }) => {
+  const [overrides, setOverrides] = useState<Map<string, DuplicatePolicy>>(() => new Map());
+  const byId = new Map<string, AudioFile>(files.map(f => [f.id, f]));
+  const policyOf = (group: DuplicateGroup) => overrides.get(group.id) ?? policy;
+  const resolutions = new Map<string, DuplicateResolution[]>(groups.map(group => [group.id, resolve(group, policyOf(group))]));
+  const copies = groups.reduce((sum, group) => sum + group.fileIds.length, 0);
+  const inLibrary = groups.filter(group => group.library).length;
+  const skipping = Array.from(resolutions.values()).flat().filter(r => r.action === 'skip').length;
+
+  const setAll = (next: DuplicatePolicy) => {
+    setOverrides(new Map());
+    onPolicyChange(next);
+  };
+
+  const setGroup = (group: DuplicateGroup, next: DuplicatePolicy) =>
+    setOverrides(prev => new Map(prev).set(group.id, next));
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-8" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl h-full bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="h-16 px-6 border-b border-slate-800 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <h2 className="font-semibold shrink-0">Duplicates</h2>
+            <div className="flex items-center gap-3 text-xs font-mono">
+              <span className="text-slate-300">{groups.length} tracks</span>
+              <span className="text-blue-400">{copies} queued copies</span>
+              {inLibrary > 0 && <span className="text-amber-400">{inLibrary} already in the library</span>}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-xs text-slate-400 hover:text-white">Close</button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-slate-800 flex items-center gap-3 text-xs text-slate-400">
+          <span>For every track:</span>
+          <PolicyButtons value={policy} onChange={setAll} />
+        </div>
+
+        <div className="flex-1 overflow-auto divide-y divide-slate-800">
+          {groups.map(group => {
+            const resolved = new Map<string, DuplicateResolution>(resolutions.get(group.id)!.map(r => [r.fileId, r]));
+            const replaced = Array.from(resolved.values()).some(r => r.action === 'convert' && (r.replaces || r.overwritePolicy === OverwritePolicy.OVERWRITE));
+            return (
+              <section key={group.id} className="px-6 py-3 space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-xs text-slate-500 uppercase tracking-wider">{MATCH_LABELS[group.match]}</span>
+                  <PolicyButtons value={policyOf(group)} onChange={next => setGroup(group, next)} />
+                </div>
+                <table className="w-full text-xs">
+                  <tbody className="divide-y divide-slate-800/50">
+                    {group.fileIds.map(id => {
+                      const file = byId.get(id);
+                      const resolution = resolved.get(id);
+                      const outcome = outcomeOf(resolution);
+                      return (
+                        <tr key={id} className="hover:bg-slate-800/40">
+                          <td className="py-1.5 pr-4 text-slate-200 max-w-[16rem] truncate" title={file?.path}>{file?.name ?? id}</td>
+                          <td className="py-1.5 pr-4 text-slate-400 font-mono w-28">{formatBitrate(file?.identity?.bitrate ?? 0)}</td>
+                          <td className={`py-1.5 ${outcome.className}`} title={resolution?.action === 'skip' ? resolution.note : undefined}>{outcome.label}</td>
+                        </tr>
+                      );
+                    })}
+                    {group.library && (
+                      <tr className="hover:bg-slate-800/40">
+                        <td className="py-1.5 pr-4 text-slate-400 font-mono max-w-[16rem] truncate" title={group.library.path}>
+                          <span className="mr-2 px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 font-sans">Library</span>
+                          {group.library.path}
+                        </td>
+                        <td className="py-1.5 pr-4 text-slate-400 font-mono w-28">{formatBitrate(group.library.bitrate)}</td>
+                        <td className={`py-1.5 ${replaced ? 'text-amber-400' : 'text-slate-400'}`}>{replaced ? 'Replaced' : 'Kept'}</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </section>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-3 border-t border-slate-800 flex items-center justify-between gap-4">
+          <p className="text-xs text-slate-500">
+            {skipping} copies will be skipped; Retry puts one back. A library copy goes to the trash, as its replacement overwrites it or once the replacement checks out.
+          </p>
+          <button
+            onClick={() => onApply(Array.from(resolutions.values()).flat())}
+            className="px-4 py-2 rounded-lg text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-500 flex items-center gap-1 shrink-0"
+          >
+            <Icons.CheckCircle className="w-3 h-3" /> Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
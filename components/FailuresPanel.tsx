@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { AudioFile, ConversionErrorCode } from '../types';
+import { Icons } from '../constants';
+import { groupFailures } from '../services/conversionErrors';
+
+interface FailuresPanelProps {
+  files: AudioFile[];
+  onRetry: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+const FailedFile: React.FC<{ file: AudioFile }> = ({ file }) => {
+  const details = Object.entries(file.error?.details ?? {});
+  return (
+    <li className="px-3 py-2 text-xs space-y-0.5">
+      <p className="text-slate-200 truncate" title={file.path}>{file.name}</p>
+      <p className="text-red-400/80 break-words">{file.errorMessage}</p>
+      {details.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-2 font-mono text-slate-500">
+          {details.map(([key, value]) => (
+            <React.Fragment key={key}>
+              <dt>{key}</dt>
+              <dd className="whitespace-pre-wrap break-all">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </li>
+  );
+};
+
+/** Failed files of the current queue, grouped by cause with a hint on how to fix each. */
+export const FailuresPanel: React.FC<FailuresPanelProps> = ({ files, onRetry, onClose }) => {
+  const groups = groupFailures(files);
+  const [expanded, setExpanded] = useState<ConversionErrorCode | null>(null);
+
+  return (
+    <div className="absolute inset-0 z-30 flex justify-end bg-slate-950/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-96 h-full bg-slate-900 border-l border-slate-800 shadow-2xl flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="h-16 px-6 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="font-semibold">Failures</h2>
+          <button onClick={onClose} className="text-xs text-slate-400 hover:text-white">Close</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {groups.length === 0 ? (
+            <p className="text-sm text-slate-500">No failed files in the queue.</p>
+          ) : groups.map(group => (
+            <div key={group.code} className="rounded-lg border border-slate-800 bg-slate-800/30 overflow-hidden">
+              <div className="px-3 py-2 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-red-400 truncate">{group.title}</p>
+                  <span className="shrink-0 text-xs text-slate-500 font-mono">{group.files.length}</span>
+                </div>
+                <p className="text-xs text-slate-400">{group.hint}</p>
+                <div className="flex items-center gap-4 pt-1 text-xs">
+                  <button
+                    onClick={() => setExpanded(expanded === group.code ? null : group.code)}
+                    className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+                  >
+                    <Icons.AlertCircle className="w-3 h-3" />
+                    {expanded === group.code ? 'Hide files' : 'Show files'}
+                  </button>
+                  <button
+                    onClick={() => onRetry(group.files.map(f => f.id))}
+                    className="flex items-center gap-1 text-slate-400 hover:text-indigo-400 transition-colors"
+                  >
+                    <Icons.RotateCcw className="w-3 h-3" />
+                    Retry
+                  </button>
+                </div>
+              </div>
+              {expanded === group.code && (
+                <ul className="border-t border-slate-800 divide-y divide-slate-800/50">
+                  {group.files.map(file => <FailedFile key={file.id} file={file} />)}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
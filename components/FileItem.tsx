@@ -1,20 +1,72 @@
 import React from 'react';
-import { AudioFile, ConversionStatus } from '../types';
+import { AudioFile, ConversionStatus, Loudness, VerificationStatus } from '../types';
 import { Icons } from '../constants';
+import { isActive, isRetryable } from '../services/queueManager';
+import { STAGE_LABELS } from '../services/progress';
+import { ERROR_INFO } from '../services/conversionErrors';
+import { rootLabel } from '../services/intake';
+import { formatGain, truePeakDb } from '../services/loudness';
 
 interface FileItemProps {
   file: AudioFile;
+  onDownload?: () => void;
+  onRetry?: () => void;
+  onCancel?: () => void;
+  onSkip?: () => void;
+  onMoveToTop?: () => void;
+  onPreview?: () => void;
+  previewing?: boolean; // open in the preview player
+  selected?: boolean;
+  onSelect?: (event: React.MouseEvent) => void; // shift-click selects a range
 }
 
-export const FileItem: React.FC<FileItemProps> = ({ file }) => {
+/** Height of one row including its margin, for `VirtualList`. */
+export const FILE_ITEM_HEIGHT = 88;
+
+const ActionButton: React.FC<{ title: string; onClick: () => void; className: string; children: React.ReactNode }> = ({ title, onClick, className, children }) => (
+  <button
+    onClick={onClick}
+    title={title}
+    className={`p-2 rounded-full text-slate-400 hover:bg-slate-700/50 transition-colors ${className}`}
+  >
+    {children}
+  </button>
+);
+
+/** "-11.5 LUFS, true peak -0.4 dBTP, album gain -6.80 dB" */
+const loudnessTitle = (loudness: Loudness) => [
+  `${loudness.integratedLufs.toFixed(1)} LUFS`,
+  `true peak ${truePeakDb(loudness).toFixed(1)} dBTP`,
+  `track gain ${formatGain(loudness.trackGainDb)}`,
+  loudness.albumGainDb !== undefined ? `album gain ${formatGain(loudness.albumGainDb)}` : null,
+].filter(Boolean).join(', ');
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+export const FileItem: React.FC<FileItemProps> = ({ file, onDownload, onRetry, onCancel, onSkip, onMoveToTop, onPreview, previewing = false, selected = false, onSelect }) => {
+  const { metadata } = file;
+  const suspect = file.status === ConversionStatus.COMPLETED && file.verification?.status === VerificationStatus.SUSPECT;
+  const title = metadata?.title || file.name;
+  const subtitle = metadata ? [metadata.artists.join(' / '), metadata.album].filter(Boolean).join(' — ') : '';
+
   const getStatusIcon = () => {
     switch (file.status) {
       case ConversionStatus.CONVERTING:
+      case ConversionStatus.TAGGING:
         return <Icons.RefreshCw className="w-5 h-5 text-blue-400 animate-spin" />;
       case ConversionStatus.COMPLETED:
-        return <Icons.CheckCircle className="w-5 h-5 text-emerald-400" />;
+        return suspect
+          ? <Icons.AlertCircle className="w-5 h-5 text-amber-400" />
+          : <Icons.CheckCircle className="w-5 h-5 text-emerald-400" />;
       case ConversionStatus.FAILED:
         return <Icons.AlertCircle className="w-5 h-5 text-red-500" />;
+      case ConversionStatus.CANCELLED:
+        return <Icons.X className="w-5 h-5 text-amber-500" />;
+      case ConversionStatus.SKIPPED:
+        return <Icons.SkipForward className="w-5 h-5 text-slate-500" />;
       default:
         return <Icons.Lock className="w-5 h-5 text-slate-500" />;
     }
@@ -25,51 +77,165 @@ export const FileItem: React.FC<FileItemProps> = ({ file }) => {
       case ConversionStatus.PENDING:
         return <span className="text-slate-400 text-xs uppercase tracking-wider">Pending</span>;
       case ConversionStatus.CONVERTING:
-        return <span className="text-blue-400 text-xs uppercase tracking-wider animate-pulse">Decrypting...</span>;
+        return (
+          <span className="text-blue-400 text-xs uppercase tracking-wider">
+            {file.stage ? `${STAGE_LABELS[file.stage]} ${Math.floor(file.progress)}%` : 'Starting...'}
+          </span>
+        );
+      case ConversionStatus.TAGGING:
+        return <span className="text-violet-400 text-xs uppercase tracking-wider">Tagging {Math.floor(file.progress)}%</span>;
       case ConversionStatus.COMPLETED:
-        return <span className="text-emerald-400 text-xs uppercase tracking-wider">Flac Ready</span>;
+        if (suspect) return <span className="text-amber-400 text-xs uppercase tracking-wider">Suspect</span>;
+        return <span className="text-emerald-400 text-xs uppercase tracking-wider">{file.verification ? 'Verified' : 'Flac Ready'}</span>;
       case ConversionStatus.FAILED:
         return <span className="text-red-400 text-xs uppercase tracking-wider">Error</span>;
+      case ConversionStatus.CANCELLED:
+        return <span className="text-amber-400 text-xs uppercase tracking-wider">Cancelled</span>;
+      case ConversionStatus.SKIPPED:
+        return <span className="text-slate-400 text-xs uppercase tracking-wider">Skipped</span>;
       default:
         return <span className="text-slate-500 text-xs uppercase tracking-wider">Waiting</span>;
     }
   };
 
   return (
-    <div className="group flex items-center justify-between p-3 mb-2 bg-slate-800/50 hover:bg-slate-800 border border-slate-700/50 hover:border-slate-600 rounded-lg transition-all duration-200">
+    <div className={`group relative overflow-hidden flex items-center justify-between h-20 p-3 mb-2 hover:bg-slate-800 border rounded-lg transition-all duration-200 ${
+      selected ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-slate-800/50 border-slate-700/50 hover:border-slate-600'
+    }`}>
       <div className="flex items-center gap-4 overflow-hidden">
-        <div className={`p-2 rounded-full ${file.status === ConversionStatus.COMPLETED ? 'bg-emerald-500/10' : 'bg-slate-700/50'}`}>
-           {file.status === ConversionStatus.COMPLETED ? (
-              <Icons.Unlock className="w-5 h-5 text-emerald-400" />
-           ) : (
-              <Icons.Music className="w-5 h-5 text-slate-400" />
-           )}
-        </div>
+        {onSelect && (
+          <input
+            type="checkbox"
+            checked={selected}
+            readOnly
+            onClick={onSelect}
+            title="Select (shift-click for a range)"
+            className={`w-4 h-4 shrink-0 accent-indigo-500 cursor-pointer transition-opacity ${selected ? '' : 'opacity-30 group-hover:opacity-100'}`}
+          />
+        )}
+        {file.coverUrl ? (
+          <img src={file.coverUrl} alt="" className="w-10 h-10 rounded-md object-cover shrink-0 border border-slate-700/50" />
+        ) : (
+          <div className={`p-2 rounded-full ${file.status === ConversionStatus.COMPLETED ? 'bg-emerald-500/10' : 'bg-slate-700/50'}`}>
+             {file.status === ConversionStatus.COMPLETED ? (
+                <Icons.Unlock className="w-5 h-5 text-emerald-400" />
+             ) : (
+                <Icons.Music className="w-5 h-5 text-slate-400" />
+             )}
+          </div>
+        )}
         
         <div className="flex flex-col min-w-0">
           <span className="text-sm font-medium text-slate-200 truncate pr-4" title={file.name}>
-            {file.name}
+            {title}
           </span>
+          {subtitle && (
+            <span className="text-xs text-slate-400 truncate pr-4" title={subtitle}>{subtitle}</span>
+          )}
           <div className="flex items-center gap-2">
             {getStatusText()}
+            {file.format && (
+              <>
+                <span className="text-slate-600 text-xs">•</span>
+                <span className="text-slate-400 text-[10px] font-mono uppercase px-1 rounded border border-slate-700">{file.format}</span>
+              </>
+            )}
+            {file.lyrics && (
+              <span className="flex items-center gap-0.5 text-sky-400 text-[10px] font-mono uppercase px-1 rounded border border-sky-500/30" title={`Lyrics: ${file.lyrics.name}`}>
+                <Icons.MicVocal className="w-3 h-3" />
+                LRC
+              </span>
+            )}
+            {file.loudness && (
+              <span className="flex items-center gap-0.5 text-teal-400 text-[10px] font-mono uppercase px-1 rounded border border-teal-500/30" title={loudnessTitle(file.loudness)}>
+                <Icons.AudioLines className="w-3 h-3" />
+                RG {formatGain(file.loudness.albumGainDb ?? file.loudness.trackGainDb)}
+              </span>
+            )}
             <span className="text-slate-600 text-xs">•</span>
             <span className="text-slate-500 text-xs font-mono">{(file.size / 1024 / 1024).toFixed(2)} MB</span>
+            {metadata && metadata.durationMs > 0 && (
+              <>
+                <span className="text-slate-600 text-xs">•</span>
+                <span className="text-slate-500 text-xs font-mono">{formatDuration(metadata.durationMs)}</span>
+              </>
+            )}
+            {file.root && (
+              <>
+                <span className="text-slate-600 text-xs">•</span>
+                <span className="flex items-center gap-1 min-w-0 text-slate-500 text-xs" title={file.path}>
+                  <Icons.FolderOpen className="w-3 h-3 shrink-0" />
+                  <span className="truncate">{rootLabel(file.root)}</span>
+                </span>
+              </>
+            )}
           </div>
         </div>
       </div>
 
       <div className="flex items-center gap-4 shrink-0">
         {file.errorMessage && (
-           <span className="text-red-400 text-xs mr-2">{file.errorMessage}</span>
+           <span className="text-red-400 text-xs mr-2" title={file.errorMessage}>
+             {file.error ? ERROR_INFO[file.error.code].title : file.errorMessage}
+           </span>
+        )}
+        {suspect && (
+           <span className="text-amber-400 text-xs mr-2">{file.verification?.reason}</span>
+        )}
+        {file.note && (
+           <span className="text-slate-500 text-xs mr-2">{file.note}</span>
+        )}
+        {onPreview && (
+          <ActionButton
+            title={file.status === ConversionStatus.COMPLETED ? 'Listen to the output' : 'Listen to the source'}
+            onClick={onPreview}
+            className={previewing ? 'text-indigo-400' : 'opacity-0 group-hover:opacity-100 hover:text-indigo-400'}
+          >
+            <Icons.Headphones className="w-4 h-4" />
+          </ActionButton>
+        )}
+        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+          {onMoveToTop && file.status === ConversionStatus.PENDING && (
+            <ActionButton title="Convert next" onClick={onMoveToTop} className="hover:text-indigo-400">
+              <Icons.ArrowUpToLine className="w-4 h-4" />
+            </ActionButton>
+          )}
+          {onSkip && file.status === ConversionStatus.PENDING && (
+            <ActionButton title="Skip" onClick={onSkip} className="hover:text-slate-200">
+              <Icons.SkipForward className="w-4 h-4" />
+            </ActionButton>
+          )}
+          {onCancel && isActive(file.status) && (
+            <ActionButton title="Cancel" onClick={onCancel} className="hover:text-amber-400">
+              <Icons.X className="w-4 h-4" />
+            </ActionButton>
+          )}
+          {onRetry && isRetryable(file.status) && (
+            <ActionButton title="Retry" onClick={onRetry} className="hover:text-indigo-400">
+              <Icons.RotateCcw className="w-4 h-4" />
+            </ActionButton>
+          )}
+        </div>
+        {onDownload && file.status === ConversionStatus.COMPLETED && (
+           <button
+             onClick={onDownload}
+             title={file.outputName ? `Download ${file.outputName}` : 'Download'}
+             className="p-2 rounded-full text-slate-400 hover:text-emerald-400 hover:bg-slate-700/50 transition-colors"
+           >
+             <Icons.Download className="w-4 h-4" />
+           </button>
         )}
         <div className="w-8 h-8 flex items-center justify-center">
           {getStatusIcon()}
         </div>
       </div>
       
-      {/* Progress Bar background for converting state */}
-      {file.status === ConversionStatus.CONVERTING && (
-        <div className="absolute bottom-0 left-0 h-[2px] bg-blue-500/50 transition-all duration-500" style={{ width: `${file.progress}%` }} />
+      {/* Progress of the current stage */}
+      {isActive(file.status) && (
+        <div
+          className={`absolute bottom-0 left-0 h-[2px] transition-all duration-500 ${file.status === ConversionStatus.TAGGING ? 'bg-violet-500/60' : 'bg-blue-500/60'}`}
+          style={{ width: `${file.progress}%` }}
+        />
       )}
     </div>
   );
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { ConversionStatus, HistoryBatch, HistoryRecord } from '../types';
+import { Icons } from '../constants';
+import { HistoryStore } from '../services/historyStore';
+import { OUTPUT_FORMAT_LABELS } from '../services/settingsStore';
+import { ERROR_INFO } from '../services/conversionErrors';
+import { describeOperation } from '../services/safety';
+
+interface HistoryPanelProps {
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Partial<Record<ConversionStatus, { label: string; className: string }>> = {
+  [ConversionStatus.COMPLETED]: { label: 'Done', className: 'text-emerald-400' },
+  [ConversionStatus.FAILED]: { label: 'Error', className: 'text-red-400' },
+  [ConversionStatus.SKIPPED]: { label: 'Skipped', className: 'text-slate-400' },
+  [ConversionStatus.CANCELLED]: { label: 'Cancelled', className: 'text-amber-400' },
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const BatchRecords: React.FC<{ batchId: string }> = ({ batchId }) => {
+  const [records, setRecords] = useState<HistoryRecord[] | null>(null);
+
+  useEffect(() => {
+    HistoryStore.getInstance().listRecords(batchId).then(setRecords).catch(() => setRecords([]));
+  }, [batchId]);
+
+  if (!records) return <p className="px-3 py-2 text-xs text-slate-500">Loading...</p>;
+  if (records.length === 0) return <p className="px-3 py-2 text-xs text-slate-500">No files were finished in this batch.</p>;
+
+  return (
+    <ul className="divide-y divide-slate-800/50">
+      {records.map(record => {
+        const style = STATUS_STYLES[record.status];
+        return (
+          <li key={record.id} className="px-3 py-2 text-xs space-y-0.5">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-slate-200 truncate" title={record.sourcePath}>{record.sourceName}</span>
+              <span className={`shrink-0 uppercase tracking-wider ${style?.className ?? 'text-slate-500'}`}>{style?.label ?? record.status}</span>
+            </div>
+            {record.errorMessage ? (
+              <p className="text-red-400/80 truncate" title={record.errorMessage}>
+                {record.errorCode ? `${ERROR_INFO[record.errorCode].title}: ${record.errorMessage}` : record.errorMessage}
+              </p>
+            ) : record.outputName && (
+              <p className="text-slate-500 font-mono truncate" title={record.outputPath ?? record.outputName}>
+                {record.outputName} · {OUTPUT_FORMAT_LABELS[record.settings.outputFormat]}
+              </p>
+            )}
+            {record.operations?.map(operation => (
+              <p key={operation.kind} className="text-amber-400/70 truncate" title={describeOperation(operation)}>
+                {describeOperation(operation)}
+              </p>
+            ))}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ onClose }) => {
+  const [batches, setBatches] = useState<HistoryBatch[] | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    HistoryStore.getInstance().listBatches().then(setBatches).catch(() => setBatches([]));
+  }, []);
+
+  const clearHistory = async () => {
+    await HistoryStore.getInstance().clear();
+    setBatches([]);
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex justify-end bg-slate-950/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-96 h-full bg-slate-900 border-l border-slate-800 shadow-2xl flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="h-16 px-6 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="font-semibold">Conversion History</h2>
+          <div className="flex items-center gap-4">
+            {batches && batches.length > 0 && (
+              <button onClick={clearHistory} className="text-xs text-slate-400 hover:text-red-400">Clear</button>
+            )}
+            <button onClick={onClose} className="text-xs text-slate-400 hover:text-white">Close</button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {!batches ? (
+            <p className="text-sm text-slate-500">Loading...</p>
+          ) : batches.length === 0 ? (
+            <p className="text-sm text-slate-500">No conversions yet. Finished files are recorded here across restarts.</p>
+          ) : batches.map(batch => (
+            <div key={batch.id} className="rounded-lg border border-slate-800 bg-slate-800/30 overflow-hidden">
+              <button
+                onClick={() => setExpanded(expanded === batch.id ? null : batch.id)}
+                className="w-full px-3 py-2 flex items-center justify-between text-left hover:bg-slate-800/60 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-slate-200 truncate">{batch.folder ?? 'Unknown folder'}</p>
+                  <p className="text-xs text-slate-500 font-mono">{formatTime(batch.startedAt)}</p>
+                </div>
+                <Icons.History className="w-4 h-4 text-slate-500 shrink-0" />
+              </button>
+              {expanded === batch.id && <BatchRecords batchId={batch.id} />}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
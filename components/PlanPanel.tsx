@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ConversionPlan, PlanAction } from '../types';
+import { Icons } from '../constants';
+import { saveBlob } from '../services/download';
+import { planToCsv } from '../services/planner';
+
+interface PlanPanelProps {
+  plan: ConversionPlan;
+  onClose: () => void;
+  onStart: () => void;
+}
+
+const ACTION_STYLES: Record<PlanAction, { label: string; className: string }> = {
+  convert: { label: 'Convert', className: 'text-blue-400' },
+  passthrough: { label: 'Passthrough', className: 'text-emerald-400' },
+  overwrite: { label: 'Overwrite', className: 'text-amber-400' },
+  skip: { label: 'Skip', className: 'text-slate-400' },
+};
+
+const fileName = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+export const PlanPanel: React.FC<PlanPanelProps> = ({ plan, onClose, onStart }) => {
+  const [conflictsOnly, setConflictsOnly] = useState(false);
+  const rows = conflictsOnly ? plan.entries.filter(e => e.conflicts.length > 0) : plan.entries;
+  const conflictCount = plan.entries.filter(e => e.conflicts.length > 0).length;
+  const counts: Partial<Record<PlanAction, number>> = {};
+  plan.entries.forEach(e => { counts[e.action] = (counts[e.action] ?? 0) + 1; });
+  const stamp = new Date(plan.createdAt).toISOString().replace(/[:.]/g, '-');
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-8" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl h-full bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="h-16 px-6 border-b border-slate-800 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <h2 className="font-semibold shrink-0">Conversion Plan</h2>
+            <div className="flex items-center gap-3 text-xs font-mono">
+              {(Object.keys(ACTION_STYLES) as PlanAction[]).filter(action => counts[action]).map(action => (
+                <span key={action} className={ACTION_STYLES[action].className}>
+                  {counts[action]} {ACTION_STYLES[action].label.toLowerCase()}
+                </span>
+              ))}
+              {conflictCount > 0 && <span className="text-red-400">{conflictCount} with conflicts</span>}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-xs text-slate-400 hover:text-white">Close</button>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-slate-900 text-slate-500 uppercase tracking-wider">
+              <tr className="border-b border-slate-800">
+                <th className="text-left font-semibold px-4 py-2">Source</th>
+                <th className="text-left font-semibold px-4 py-2">Output</th>
+                <th className="text-left font-semibold px-4 py-2">Format</th>
+                <th className="text-left font-semibold px-4 py-2">Action</th>
+                <th className="text-left font-semibold px-4 py-2">Conflicts</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/50">
+              {rows.map(entry => (
+                <tr key={entry.fileId} className="hover:bg-slate-800/40">
+                  <td className="px-4 py-2 text-slate-200 max-w-[14rem] truncate" title={entry.sourcePath}>{fileName(entry.sourcePath)}</td>
+                  <td className="px-4 py-2 text-slate-400 font-mono max-w-[22rem] truncate" title={entry.outputPath}>{entry.outputPath}</td>
+                  <td className="px-4 py-2 text-slate-400 font-mono uppercase">{entry.innerFormat ?? '?'}</td>
+                  <td className={`px-4 py-2 ${ACTION_STYLES[entry.action].className}`}>{ACTION_STYLES[entry.action].label}</td>
+                  <td className="px-4 py-2 text-amber-400/90">{entry.conflicts.join('; ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length === 0 && <p className="p-6 text-sm text-slate-500 text-center">Nothing to show.</p>}
+        </div>
+
+        <div className="px-6 py-3 border-t border-slate-800 flex items-center justify-between gap-4">
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={conflictsOnly} onChange={e => setConflictsOnly(e.target.checked)} className="accent-indigo-500" />
+            Only rows with conflicts
+          </label>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => saveBlob(new Blob([planToCsv(plan)], { type: 'text/csv' }), `plan-${stamp}.csv`)}
+              className="px-3 py-2 rounded-lg text-xs border border-slate-700 text-slate-300 hover:border-slate-500 flex items-center gap-1"
+            >
+              <Icons.Download className="w-3 h-3" /> CSV
+            </button>
+            <button
+              onClick={() => saveBlob(new Blob([JSON.stringify(plan, null, 2)], { type: 'application/json' }), `plan-${stamp}.json`)}
+              className="px-3 py-2 rounded-lg text-xs border border-slate-700 text-slate-300 hover:border-slate-500 flex items-center gap-1"
+            >
+              <Icons.Download className="w-3 h-3" /> JSON
+            </button>
+            <button
+              onClick={onStart}
+              className="px-4 py-2 rounded-lg text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-500 flex items-center gap-1"
+            >
+              <Icons.Play className="w-3 h-3" /> Start Conversion
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioFile, ConversionStatus } from '../types';
+import { Icons } from '../constants';
+import type { PreviewSource } from '../services/backendContract';
+import { loadWaveform } from '../services/waveform';
+
+interface PreviewPlayerProps {
+  file: AudioFile;
+  open: (file: AudioFile) => Promise<PreviewSource>;
+  onClose: () => void;
+}
+
+const BARS = 120;
+
+const formatClock = (seconds: number) => {
+  const total = Number.isFinite(seconds) ? Math.floor(seconds) : 0;
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Player docked under the file list for auditioning one file: its output
+ * once converted, its source decrypted on the fly before that. The waveform
+ * is computed once the audio is ready and doubles as the seek bar.
+ */
+export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ file, open, onClose }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [source, setSource] = useState<PreviewSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [waveform, setWaveform] = useState<number[] | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const converted = file.status === ConversionStatus.COMPLETED;
+
+  // Switches to the output when the file finishes converting while it is open
+  useEffect(() => {
+    let closed = false;
+    let opened: PreviewSource | null = null;
+    setSource(null);
+    setError(null);
+    setWaveform(null);
+    setPlaying(false);
+    setPosition(0);
+    setDuration(0);
+    open(file).then(
+      preview => {
+        if (closed) return preview.release();
+        opened = preview;
+        setSource(preview);
+      },
+      reason => { if (!closed) setError(reason instanceof Error ? reason.message : String(reason)); },
+    );
+    return () => {
+      closed = true;
+      opened?.release();
+    };
+  }, [file.id, converted]);
+
+  useEffect(() => {
+    if (!source) return;
+    const controller = new AbortController();
+    loadWaveform(source.url, BARS, controller.signal).then(setWaveform, () => {
+      // Formats the Web Audio API cannot decode still play; they just have no overview
+    });
+    return () => controller.abort();
+  }, [source]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(reason => setError(reason instanceof Error ? reason.message : String(reason)));
+    else audio.pause();
+  };
+
+  const seek = (event: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    audio.currentTime = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const seekBy = (seconds: number) => {
+    const audio = audioRef.current;
+    if (audio && duration) audio.currentTime = Math.min(duration, Math.max(0, audio.currentTime + seconds));
+  };
+
+  const played = duration ? position / duration : 0;
+  const bars = waveform ?? new Array(BARS).fill(0.08);
+  const subtitle = file.metadata?.artists.join(' / ');
+
+  return (
+    <div className="h-20 bg-slate-900 border-t border-slate-800 px-4 flex items-center gap-4 z-20">
+      {file.coverUrl ? (
+        <img src={file.coverUrl} alt="" className="w-12 h-12 rounded-md object-cover shrink-0 border border-slate-700/50" />
+      ) : (
+        <div className="w-12 h-12 rounded-md bg-slate-800 flex items-center justify-center shrink-0">
+          <Icons.Music className="w-5 h-5 text-slate-500" />
+        </div>
+      )}
+
+      <div className="w-48 min-w-0 shrink-0">
+        <p className="text-sm font-medium text-slate-200 truncate" title={file.name}>{file.metadata?.title || file.name}</p>
+        {subtitle && <p className="text-xs text-slate-400 truncate">{subtitle}</p>}
+        <p className="text-[10px] uppercase tracking-wider text-slate-500">
+          {error ? <span className="text-red-400" title={error}>Cannot play</span>
+            : !source ? (converted ? 'Loading...' : 'Decrypting...')
+            : source.kind === 'output' ? 'Converted output' : 'Decrypted source'}
+        </p>
+      </div>
+
+      <button
+        onClick={togglePlay}
+        disabled={!source}
+        title={playing ? 'Pause' : 'Play'}
+        className="w-10 h-10 shrink-0 rounded-full bg-indigo-600 text-white flex items-center justify-center hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-600 transition-colors"
+      >
+        {source || error ? (playing ? <Icons.Pause className="w-4 h-4" /> : <Icons.Play className="w-4 h-4" />) : <Icons.RefreshCw className="w-4 h-4 animate-spin" />}
+      </button>
+
+      <span className="text-xs font-mono text-slate-400 w-10 text-right">{formatClock(position)}</span>
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={Math.floor(duration)}
+        aria-valuenow={Math.floor(position)}
+        onClick={seek}
+        onKeyDown={event => {
+          if (event.key === 'ArrowLeft') seekBy(-5);
+          if (event.key === 'ArrowRight') seekBy(5);
+        }}
+        className="flex-1 h-12 flex items-center gap-px cursor-pointer focus:outline-none"
+      >
+        {bars.map((peak, i) => (
+          <div
+            key={i}
+            className={`flex-1 rounded-sm ${i / bars.length < played ? 'bg-indigo-400' : 'bg-slate-700'}`}
+            style={{ height: `${Math.max(4, peak * 100)}%` }}
+          />
+        ))}
+      </div>
+      <span className="text-xs font-mono text-slate-500 w-10">{formatClock(duration)}</span>
+
+      <button onClick={onClose} title="Close player" className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
+        <Icons.X className="w-4 h-4" />
+      </button>
+
+      {source && (
+        <audio
+          ref={audioRef}
+          src={source.url}
+          autoPlay
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onTimeUpdate={event => setPosition(event.currentTarget.currentTime)}
+          onLoadedMetadata={event => setDuration(event.currentTarget.duration)}
+          onError={() => setError('The audio could not be decoded')}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import { ConversionSettings, LyricsAction, OutputFormat, OverwritePolicy, PlaylistMode, SourceAction } from '../types';
+import { Icons } from '../constants';
+import { MAX_CONCURRENCY, OUTPUT_FORMAT_LABELS, targetExtension } from '../services/settingsStore';
+import { NamingSource, renderTemplate, SAMPLE_SOURCE, TEMPLATE_FIELDS, validateTemplate } from '../services/filenameTemplate';
+
+interface SettingsPanelProps {
+  settings: ConversionSettings;
+  preview?: NamingSource; // a loaded file to preview the filename template with
+  onChange: (settings: ConversionSettings) => void;
+  onClose: () => void;
+  isTauri: boolean;
+  locked: boolean; // a batch is running with the current settings
+}
+
+// Formats the browser can produce without FFmpeg (passthrough only).
+const BROWSER_FORMATS = [OutputFormat.ORIGINAL, OutputFormat.FLAC, OutputFormat.MP3_320];
+
+const OVERWRITE_LABELS: Record<OverwritePolicy, string> = {
+  [OverwritePolicy.OVERWRITE]: 'Overwrite',
+  [OverwritePolicy.SKIP]: 'Skip file',
+  [OverwritePolicy.RENAME]: 'Keep both',
+};
+
+const SOURCE_ACTION_LABELS: Record<SourceAction, string> = {
+  [SourceAction.KEEP]: 'Keep',
+  [SourceAction.ARCHIVE]: 'Archive',
+  [SourceAction.TRASH]: 'Trash',
+};
+
+const LYRICS_LABELS: Record<LyricsAction, string> = {
+  [LyricsAction.EMBED]: 'Embed in tags',
+  [LyricsAction.SIDECAR]: 'Copy as .lrc',
+  [LyricsAction.BOTH]: 'Both',
+  [LyricsAction.IGNORE]: 'Ignore',
+};
+
+const PLAYLIST_LABELS: Record<PlaylistMode, string> = {
+  [PlaylistMode.NONE]: 'No playlist',
+  [PlaylistMode.ALBUM]: 'One per album',
+  [PlaylistMode.SESSION]: 'One for the session',
+};
+
+const Section: React.FC<{ title: string; hint?: string; children: React.ReactNode }> = ({ title, hint, children }) => (
+  <div className="space-y-2">
+    <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">{title}</h3>
+    {children}
+    {hint && <p className="text-xs text-slate-500">{hint}</p>}
+  </div>
+);
+
+const optionClass = (active: boolean, disabled: boolean) =>
+  `px-3 py-2 rounded-lg text-sm border transition-all ${
+    disabled
+      ? 'border-slate-800 text-slate-600 cursor-not-allowed'
+      : active
+        ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-300'
+        : 'border-slate-700 text-slate-300 hover:border-slate-500'
+  }`;
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, preview, onChange, onClose, isTauri, locked }) => {
+  const update = (patch: Partial<ConversionSettings>) => onChange({ ...settings, ...patch });
+  // Edited locally; only valid templates reach the settings.
+  const [template, setTemplate] = useState(settings.filenameTemplate);
+  const templateError = validateTemplate(template);
+  const sample = preview ?? SAMPLE_SOURCE;
+  const previewName = `${renderTemplate(template, sample)}.${targetExtension(settings.outputFormat, sample.metadata?.format ?? 'mp3')}`;
+
+  const changeTemplate = (value: string) => {
+    setTemplate(value);
+    if (validateTemplate(value) === null) update({ filenameTemplate: value });
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex justify-end bg-slate-950/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-96 h-full bg-slate-900 border-l border-slate-800 shadow-2xl flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="h-16 px-6 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="font-semibold">Conversion Settings</h2>
+          <button onClick={onClose} className="text-xs text-slate-400 hover:text-white">Close</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {locked && (
+            <div className="flex items-center gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3">
+              <Icons.Lock className="w-4 h-4 shrink-0" />
+              Settings are locked while a batch is running.
+            </div>
+          )}
+
+          <Section
+            title="Output Format"
+            hint={isTauri ? undefined : 'The browser cannot transcode: FLAC and MP3 targets only apply to sources already in that format.'}
+          >
+            <div className="grid grid-cols-2 gap-2">
+              {Object.values(OutputFormat).map(format => {
+                const disabled = locked || (!isTauri && !BROWSER_FORMATS.includes(format));
+                return (
+                  <button
+                    key={format}
+                    disabled={disabled}
+                    onClick={() => update({ outputFormat: format })}
+                    className={optionClass(settings.outputFormat === format, disabled)}
+                  >
+                    {OUTPUT_FORMAT_LABELS[format]}
+                  </button>
+                );
+              })}
+            </div>
+          </Section>
+
+          <Section
+            title="Output Directory"
+            hint={isTauri ? 'Leave empty to write next to each source file.' : 'Outputs are offered as downloads in the browser.'}
+          >
+            <input
+              type="text"
+              value={settings.outputDirectory ?? ''}
+              disabled={locked || !isTauri}
+              placeholder="Next to source file"
+              onChange={e => update({ outputDirectory: e.target.value.trim() ? e.target.value : null })}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm font-mono placeholder:text-slate-600 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+            />
+          </Section>
+
+          <Section title="File Names">
+            <input
+              type="text"
+              value={template}
+              disabled={locked}
+              spellCheck={false}
+              onChange={e => changeTemplate(e.target.value)}
+              className={`w-full bg-slate-800 border rounded-lg px-3 py-2 text-sm font-mono focus:outline-none disabled:opacity-50 ${
+                templateError ? 'border-red-500/60 focus:border-red-500' : 'border-slate-700 focus:border-indigo-500'
+              }`}
+            />
+            {templateError ? (
+              <p className="text-xs text-red-400">{templateError}</p>
+            ) : (
+              <p className="text-xs text-slate-300 font-mono break-all" title="Preview">{previewName}</p>
+            )}
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(TEMPLATE_FIELDS).map(([field, description]) => (
+                <button
+                  key={field}
+                  title={description}
+                  disabled={locked}
+                  onClick={() => changeTemplate(`${template}{${field}}`)}
+                  className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-[11px] font-mono text-slate-400 hover:text-slate-200 disabled:opacity-50"
+                >
+                  {`{${field}}`}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">Use / for sub-folders and {'{track:02}'} to zero-pad numbers. Clashing names get " (2)", " (3)" in queue order.</p>
+          </Section>
+
+          <Section title="Parallel Conversions" hint="Files converted at the same time. Higher values use more CPU and memory.">
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min={1}
+                max={MAX_CONCURRENCY}
+                value={settings.concurrency}
+                onChange={e => update({ concurrency: Number(e.target.value) })}
+                className="flex-1 accent-indigo-500"
+              />
+              <span className="w-6 text-right font-mono text-sm text-slate-300">{settings.concurrency}</span>
+            </div>
+          </Section>
+
+          <Section title="If Output Exists">
+            <div className="grid grid-cols-3 gap-2">
+              {Object.values(OverwritePolicy).map(policy => (
+                <button
+                  key={policy}
+                  disabled={locked || !isTauri}
+                  onClick={() => update({ overwritePolicy: policy })}
+                  className={optionClass(settings.overwritePolicy === policy, locked || !isTauri)}
+                >
+                  {OVERWRITE_LABELS[policy]}
+                </button>
+              ))}
+            </div>
+          </Section>
+
+          <Section
+            title="Source Files"
+            hint={settings.sourceAction === SourceAction.KEEP
+              ? undefined
+              : 'A source only goes once its output is written and verified; suspect outputs, and Ogg and WAV outputs, which cannot be verified, keep theirs. Trashed sources can be restored from the system trash.'}
+          >
+            <div className="grid grid-cols-3 gap-2">
+              {Object.values(SourceAction).map(action => (
+                <button
+                  key={action}
+                  disabled={locked || !isTauri}
+                  onClick={() => update({ sourceAction: action })}
+                  className={optionClass(settings.sourceAction === action, locked || !isTauri)}
+                >
+                  {SOURCE_ACTION_LABELS[action]}
+                </button>
+              ))}
+            </div>
+            {settings.sourceAction === SourceAction.ARCHIVE && (
+              <input
+                type="text"
+                value={settings.archiveDirectory ?? ''}
+                disabled={locked || !isTauri}
+                placeholder="Archive folder"
+                onChange={e => update({ archiveDirectory: e.target.value.trim() ? e.target.value : null })}
+                className="mt-2 w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm font-mono placeholder:text-slate-600 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+              />
+            )}
+          </Section>
+
+          <Section
+            title="Lyrics"
+            hint={settings.lyricsAction === LyricsAction.IGNORE
+              ? undefined
+              : '.lrc files next to a source are matched by file name or by artist and title. Ogg Vorbis and WAV outputs get a copy instead of tags.'}
+          >
+            <div className="grid grid-cols-2 gap-2">
+              {Object.values(LyricsAction).map(action => (
+                <button
+                  key={action}
+                  disabled={locked}
+                  onClick={() => update({ lyricsAction: action })}
+                  className={optionClass(settings.lyricsAction === action, locked)}
+                >
+                  {LYRICS_LABELS[action]}
+                </button>
+              ))}
+            </div>
+          </Section>
+
+          <Section
+            title="After the Batch"
+            hint={isTauri
+              ? 'M3U8 playlists use relative paths. Files without NCM album details stay where they are.'
+              : 'Playlists and folders are added to the zip download.'}
+          >
+            <div className="grid grid-cols-3 gap-2">
+              {Object.values(PlaylistMode).map(mode => (
+                <button
+                  key={mode}
+                  disabled={locked}
+                  onClick={() => update({ playlistMode: mode })}
+                  className={optionClass(settings.playlistMode === mode, locked)}
+                >
+                  {PLAYLIST_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {[false, true].map(organise => (
+                <button
+                  key={String(organise)}
+                  disabled={locked}
+                  onClick={() => update({ organiseByAlbum: organise })}
+                  className={optionClass(settings.organiseByAlbum === organise, locked)}
+                >
+                  {organise ? 'Artist/Album folders' : 'Leave in place'}
+                </button>
+              ))}
+            </div>
+          </Section>
+
+          <Section
+            title="Loudness"
+            hint="Measures each output after EBU R128 and writes ReplayGain tags to FLAC and MP3 outputs. Album gain is written once the batch has finished."
+          >
+            <div className="grid grid-cols-2 gap-2">
+              {[false, true].map(analyse => (
+                <button
+                  key={String(analyse)}
+                  disabled={locked}
+                  onClick={() => update({ analyseLoudness: analyse })}
+                  className={optionClass(settings.analyseLoudness === analyse, locked)}
+                >
+                  {analyse ? 'ReplayGain tags' : 'Off'}
+                </button>
+              ))}
+            </div>
+          </Section>
+
+          <Section
+            title="Watch Mode"
+            hint={isTauri ? 'New files are queued once the download client has finished writing them.' : 'Watching folders requires the desktop app.'}
+          >
+            <div className="grid grid-cols-2 gap-2">
+              {[false, true].map(recursive => (
+                <button
+                  key={String(recursive)}
+                  disabled={locked || !isTauri}
+                  onClick={() => update({ watchRecursive: recursive })}
+                  className={optionClass(settings.watchRecursive === recursive, locked || !isTauri)}
+                >
+                  {recursive ? 'Include subfolders' : 'Top folder only'}
+                </button>
+              ))}
+            </div>
+          </Section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -5,16 +5,25 @@ interface StatusCardProps {
   value: number;
   icon?: React.ReactNode;
   colorClass?: string;
+  active?: boolean;
+  onClick?: () => void; // makes the card a filter toggle
 }
 
-export const StatusCard: React.FC<StatusCardProps> = ({ label, value, icon, colorClass = "text-slate-100" }) => {
+export const StatusCard: React.FC<StatusCardProps> = ({ label, value, icon, colorClass = "text-slate-100", active = false, onClick }) => {
   return (
-    <div className="bg-slate-800/50 border border-slate-700/50 p-4 rounded-xl flex items-center justify-between backdrop-blur-sm">
+    <button
+      onClick={onClick}
+      disabled={!onClick}
+      aria-pressed={onClick ? active : undefined}
+      className={`bg-slate-800/50 border p-4 rounded-xl flex items-center justify-between text-left backdrop-blur-sm transition-colors disabled:cursor-default ${
+        active ? 'border-indigo-500/60 bg-indigo-500/10' : 'border-slate-700/50 enabled:hover:border-slate-500'
+      }`}
+    >
       <div>
         <p className="text-slate-400 text-xs uppercase tracking-wider font-semibold mb-1">{label}</p>
         <p className={`text-2xl font-bold font-mono ${colorClass}`}>{value}</p>
       </div>
       {icon && <div className="opacity-80">{icon}</div>}
-    </div>
+    </button>
   );
 };
\ No newline at end of file
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  rowHeight: number; // every row is exactly this tall, margins included
+  getKey: (item: T) => string;
+  renderRow: (item: T, index: number) => React.ReactNode;
+  className?: string;
+  children?: React.ReactNode; // rendered above the rows, scrolling with them
+}
+
+const OVERSCAN = 6; // rows rendered beyond each edge of the viewport
+
+/**
+ * Scrolling list that only mounts the rows in view, so queues of thousands of
+ * files render as fast as a handful.
+ */
+export function VirtualList<T>({ items, rowHeight, getKey, renderRow, className = '', children }: VirtualListProps<T>) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(0);
+  const [headerHeight, setHeaderHeight] = useState(0);
+
+  useEffect(() => {
+    const observer = new ResizeObserver(() => {
+      setViewport(scrollRef.current?.clientHeight ?? 0);
+      setHeaderHeight(headerRef.current?.offsetHeight ?? 0);
+    });
+    if (scrollRef.current) observer.observe(scrollRef.current);
+    if (headerRef.current) observer.observe(headerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  const top = Math.max(0, scrollTop - headerHeight);
+  const first = Math.max(0, Math.floor(top / rowHeight) - OVERSCAN);
+  const last = Math.min(items.length, Math.ceil((top + viewport) / rowHeight) + OVERSCAN);
+
+  return (
+    <div ref={scrollRef} className={`overflow-y-auto ${className}`} onScroll={event => setScrollTop(event.currentTarget.scrollTop)}>
+      <div ref={headerRef}>{children}</div>
+      <div className="relative" style={{ height: items.length * rowHeight }}>
+        {items.slice(first, last).map((item, offset) => (
+          <div key={getKey(item)} className="absolute inset-x-0" style={{ top: (first + offset) * rowHeight, height: rowHeight }}>
+            {renderRow(item, first + offset)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * Minimal AES-128 (ECB, PKCS#7) decryption.
+ *
+ * WebCrypto does not expose ECB mode, and NCM only ever uses it on small
+ * blocks (the RC4 key and the metadata JSON), so a table-free software
+ * implementation is fast enough and keeps the decoder dependency-free.
+ */
+
+const SBOX = new Uint8Array(256);
+const INV_SBOX = new Uint8Array(256);
+const RCON = [0x01, 0x02, 0x04, 0x08, 0x10, 0x20, 0x40, 0x80, 0x1b, 0x36];
+
+// Generate the S-box from GF(2^8) inverses instead of shipping a 512 byte table.
+(() => {
+  const rotl = (x: number, shift: number) => ((x << shift) | (x >> (8 - shift))) & 0xff;
+  let p = 1;
+  let q = 1;
+  do {
+    p = (p ^ (p << 1) ^ (p & 0x80 ? 0x1b : 0)) & 0xff;
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+    const value = q ^ rotl(q, 1) ^ rotl(q, 2) ^ rotl(q, 3) ^ rotl(q, 4) ^ 0x63;
+    SBOX[p] = value;
+    INV_SBOX[value] = p;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+  INV_SBOX[0x63] = 0;
+})();
+
+const gmul = (a: number, b: number): number => {
+  let result = 0;
+  while (b) {
+    if (b & 1) result ^= a;
+    a = (a << 1) ^ (a & 0x80 ? 0x11b : 0);
+    b >>= 1;
+  }
+  return result;
+};
+
+const expandKey = (key: Uint8Array): Uint8Array => {
+  if (key.length !== 16) {
+    throw new Error(`AES-128 key must be 16 bytes, got ${key.length}`);
+  }
+  const roundKeys = new Uint8Array(176);
+  roundKeys.set(key);
+  for (let i = 16, round = 0; i < 176; i += 4) {
+    let t0 = roundKeys[i - 4], t1 = roundKeys[i - 3], t2 = roundKeys[i - 2], t3 = roundKeys[i - 1];
+    if (i % 16 === 0) {
+      // RotWord + SubWord + Rcon
+      const tmp = t0;
+      t0 = SBOX[t1] ^ RCON[round++];
+      t1 = SBOX[t2];
+      t2 = SBOX[t3];
+      t3 = SBOX[tmp];
+    }
+    roundKeys[i] = roundKeys[i - 16] ^ t0;
+    roundKeys[i + 1] = roundKeys[i - 15] ^ t1;
+    roundKeys[i + 2] = roundKeys[i - 14] ^ t2;
+    roundKeys[i + 3] = roundKeys[i - 13] ^ t3;
+  }
+  return roundKeys;
+};
+
+const decryptBlock = (state: Uint8Array, roundKeys: Uint8Array) => {
+  const addRoundKey = (round: number) => {
+    for (let i = 0; i < 16; i++) state[i] ^= roundKeys[round * 16 + i];
+  };
+  const invShiftSub = () => {
+    const copy = state.slice();
+    for (let c = 0; c < 4; c++) {
+      for (let r = 0; r < 4; r++) {
+        state[r + 4 * c] = INV_SBOX[copy[r + 4 * ((c - r + 4) % 4)]];
+      }
+    }
+  };
+  const invMixColumns = () => {
+    for (let c = 0; c < 16; c += 4) {
+      const a0 = state[c], a1 = state[c + 1], a2 = state[c + 2], a3 = state[c + 3];
+      state[c] = gmul(a0, 14) ^ gmul(a1, 11) ^ gmul(a2, 13) ^ gmul(a3, 9);
+      state[c + 1] = gmul(a0, 9) ^ gmul(a1, 14) ^ gmul(a2, 11) ^ gmul(a3, 13);
+      state[c + 2] = gmul(a0, 13) ^ gmul(a1, 9) ^ gmul(a2, 14) ^ gmul(a3, 11);
+      state[c + 3] = gmul(a0, 11) ^ gmul(a1, 13) ^ gmul(a2, 9) ^ gmul(a3, 14);
+    }
+  };
+
+  addRoundKey(10);
+  for (let round = 9; round > 0; round--) {
+    invShiftSub();
+    addRoundKey(round);
+    invMixColumns();
+  }
+  invShiftSub();
+  addRoundKey(0);
+};
+
+/**
+ * Decrypts AES-128-ECB data and strips PKCS#7 padding.
+ * Throws if the input is not block aligned or the padding is invalid,
+ * which in practice means the key or the input is wrong.
+ */
+export function aes128EcbDecrypt(data: Uint8Array, key: Uint8Array): Uint8Array {
+  if (data.length === 0 || data.length % 16 !== 0) {
+    throw new Error('AES input is not a multiple of the block size');
+  }
+  const roundKeys = expandKey(key);
+  const out = data.slice();
+  for (let offset = 0; offset < out.length; offset += 16) {
+    decryptBlock(out.subarray(offset, offset + 16), roundKeys);
+  }
+
+  const pad = out[out.length - 1];
+  if (pad < 1 || pad > 16) {
+    throw new Error('AES padding check failed');
+  }
+  for (let i = out.length - pad; i < out.length; i++) {
+    if (out[i] !== pad) throw new Error('AES padding check failed');
+  }
+  return out.subarray(0, out.length - pad);
+}
@@ -0,0 +1,23 @@
+import { ConversionBackend, isTauriAvailable } from './backendContract';
+import { BrowserBackend } from './browserBackend';
+import { MockBackend } from './mockBackend';
+import { TauriBackend } from './tauriBackend';
+
+let instance: ConversionBackend | undefined;
+
+/**
+ * The backend for this session: Tauri inside the desktop app, the mock when
+ * the page is opened with `?backend=mock`, the in-browser decoder otherwise.
+ */
+export function getBackend(): ConversionBackend {
+  if (!instance) {
+    if (isTauriAvailable()) {
+      instance = new TauriBackend();
+    } else if (new URLSearchParams(window.location.search).get('backend') === 'mock') {
+      instance = new MockBackend();
+    } else {
+      instance = new BrowserBackend();
+    }
+  }
+  return instance;
+}
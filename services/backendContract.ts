@@ -0,0 +1,205 @@
+import type { AudioFile, ConversionResult, ConversionSettings, DetectedFile, DropEvent, LibraryTrack, LyricsSidecar, ProgressEventPayload, SourceAction } from '../types';
+import type { LibraryFile } from './duplicates';
+import type { ArrangeResult, OutputLayout } from './playlist';
+import type { ByteSource } from './trackInfo';
+
+/** What `convert_file` answers with; mirrors `ConversionOutcome` in convert.rs. */
+export interface ConversionOutcome {
+  outputPath: string;
+  outputSize: number; // bytes, before the frontend tags the output
+  skipped: boolean; // the output already existed and the overwrite policy is "skip"
+  replaced: boolean; // the output already existed and was overwritten
+}
+
+/**
+ * Commands of the Rust backend (see `main.rs`), by name: their arguments and result.
+ * Tauri converts argument keys to snake_case on the Rust side.
+ */
+export interface BackendCommands {
+  convert_file: {
+    args: { id: string; filePath: string; outputStem: string | null; settings: ConversionSettings };
+    result: ConversionOutcome;
+  };
+  cancel_conversion: { args: { id: string }; result: void };
+  /** Answers with a raw binary response. */
+  read_file: { args: { path: string; offset?: number; length?: number }; result: ArrayBuffer };
+  /** Takes the bytes as the raw request body; the target path travels in the `x-path` header. */
+  write_file: { args: Uint8Array; result: void };
+  paths_exist: { args: { paths: string[] }; result: boolean[] };
+  /** Moves a file, creating the folders of `to`; refuses to replace an existing file. */
+  move_file: { args: { from: string; to: string }; result: void };
+  /**
+   * Archives (to `archivePath`, or a free name next to it) or trashes a source,
+   * or a library copy the output replaces, refusing while `outputPath` is
+   * missing or empty. Answers with where an archived source went.
+   */
+  dispose_source: {
+    args: { path: string; outputPath: string; action: SourceAction; archivePath: string | null };
+    result: string | null;
+  };
+  /** Free bytes on the volume of each path, or null where that cannot be told. */
+  free_space: { args: { paths: string[] }; result: (number | null)[] };
+  /** Expands files and folders into the supported files inside them, recursively. */
+  scan_paths: { args: { paths: string[] }; result: DetectedFile[] };
+  /** The `.lrc` files directly inside each folder. */
+  list_lyrics: { args: { folders: string[] }; result: LyricsSidecar[] };
+  /** The FLAC and MP3 files in each folder, and in its subfolders when `recursive`. */
+  list_outputs: { args: { folders: string[]; recursive: boolean }; result: LibraryFile[] };
+  /** Decrypts a source into a temporary file for the preview player; answers with its path. */
+  decrypt_preview: { args: { filePath: string }; result: string };
+  remove_preview: { args: { path: string }; result: void };
+  start_folder_watcher: { args: { path: string; recursive: boolean }; result: void };
+  stop_folder_watcher: { args: Record<string, never>; result: void };
+}
+
+/** Events emitted by the Rust backend or by Tauri itself, by name: their payload. */
+export interface BackendEvents {
+  'app:conversion-progress': ProgressEventPayload;
+  'app:file-detected': DetectedFile;
+  // The webview swallows DOM drops; Tauri reports them with absolute paths instead
+  'tauri://drag-enter': { paths: string[] };
+  'tauri://drag-leave': null;
+  'tauri://drag-drop': { paths: string[] };
+}
+
+export type CommandName = keyof BackendCommands;
+export type EventName = keyof BackendEvents;
+
+// Declare global window types for Tauri
+declare global {
+  interface Window {
+    __TAURI__?: {
+      core: {
+        invoke: (cmd: string, args?: unknown, options?: { headers?: Record<string, string> }) => Promise<unknown>;
+        convertFileSrc: (filePath: string, protocol?: string) => string;
+      };
+      event: {
+        listen: (event: string, handler: (event: { payload: unknown }) => void) => Promise<() => void>;
+      };
+    };
+  }
+}
+
+export const isTauriAvailable = () => typeof window !== 'undefined' && !!window.__TAURI__;
+
+const tauri = () => {
+  if (!window.__TAURI__) throw new Error('The Tauri backend is not available');
+  return window.__TAURI__;
+};
+
+/** Calls a backend command with arguments and result typed by `BackendCommands`. */
+export const invoke = <C extends CommandName>(
+  command: C,
+  args: BackendCommands[C]['args'],
+  options?: { headers?: Record<string, string> },
+): Promise<BackendCommands[C]['result']> =>
+  tauri().core.invoke(command, args, options) as Promise<BackendCommands[C]['result']>;
+
+/** Subscribes to a backend event with its payload typed by `BackendEvents`. */
+export const listen = <E extends EventName>(
+  event: E,
+  handler: (payload: BackendEvents[E]) => void,
+): Promise<() => void> =>
+  tauri().event.listen(event, ({ payload }) => handler(payload as BackendEvents[E]));
+
+/** URL the webview can load a file on disk from, through Tauri's asset protocol. */
+export const assetUrl = (path: string): string => tauri().core.convertFileSrc(path);
+
+/** Audio the preview player can load; see `ConversionBackend.openPreview`. */
+export interface PreviewSource {
+  url: string;
+  kind: 'output' | 'source'; // the converted output, or the source decrypted for listening
+  release(): void; // frees whatever holds the audio once the player is done with it
+}
+
+/** Outputs kept in memory and offered as downloads, for backends that cannot write to disk. */
+export interface DownloadStore {
+  download(id: string): void;
+  downloadAll(archiveName: string): Promise<void>;
+  removeOutput(id: string): void;
+  clearOutputs(): void;
+}
+
+/**
+ * Everything the UI needs from whatever does the conversions. One
+ * implementation is chosen at startup (see `getBackend`); nothing outside
+ * the implementations checks which one is running.
+ */
+export interface ConversionBackend {
+  readonly kind: 'tauri' | 'browser' | 'mock';
+  /** Outputs are written to disk next to the sources or in the output directory, and FFmpeg is available. */
+  readonly desktop: boolean;
+  /** Set when outputs stay in memory until downloaded. */
+  readonly downloads?: DownloadStore;
+
+  /** Converts a single file. Aborting `signal` cancels the conversion (see `cancelConversion`). */
+  convertFile(file: AudioFile, settings: ConversionSettings, signal?: AbortSignal): Promise<ConversionResult>;
+  cancelConversion(id: string): Promise<void>;
+  /** Number of files converted in parallel, for backends that size a worker pool to it. */
+  setConcurrency(concurrency: number): void;
+  listenToProgress(callback: (payload: ProgressEventPayload) => void): Promise<() => void>;
+  /** Files found by the folder watcher, once per file after its size has settled. */
+  listenToFileDetected(callback: (file: DetectedFile) => void): Promise<() => void>;
+  /**
+   * Files and folders dropped onto the window, expanded to the supported files
+   * inside. Only set where the shell takes drops away from the page; elsewhere
+   * the page reads them from the DOM drop event (see `intake.ts`).
+   */
+  listenToDrop?(callback: (event: DropEvent) => void): Promise<() => void>;
+  /**
+   * Lyrics sidecars in `folders`, for backends that reach the folders of
+   * their sources; elsewhere they come with the picked files (see `intake.ts`).
+   */
+  findLyrics?(folders: string[]): Promise<LyricsSidecar[]>;
+  /** Reads the source of `file`, or null when this backend cannot reach it. */
+  sourceOf(file: AudioFile): ByteSource | null;
+  /**
+   * Makes `file` playable: its output once converted, otherwise its source
+   * decrypted on the fly. Absent where there is no audio to play (the mock).
+   */
+  openPreview?(file: AudioFile): Promise<PreviewSource>;
+  /**
+   * Moves outputs and writes playlists once a batch has finished (see
+   * playlist.ts). A move that fails leaves its output where it was; failing
+   * to write a playlist rejects.
+   */
+  arrangeOutputs(layout: OutputLayout): Promise<ArrangeResult>;
+  /**
+   * Adds free-form fields (Vorbis comments, ID3 TXXX frames) to the tags of
+   * the output of `file`, keeping everything else, as the album gain once a
+   * batch has finished. Outputs without tags are left alone. Absent where
+   * nothing is written (the mock).
+   */
+  addTags?(file: AudioFile, fields: Record<string, string>): Promise<void>;
+  /**
+   * Identifies the FLAC and MP3 files already in `folders` (and their
+   * subfolders when `recursive`) for duplicate detection; see duplicates.ts.
+   * Files that cannot be read are left out. Absent where outputs are not
+   * written to disk.
+   */
+  indexLibrary?(folders: string[], recursive: boolean, onProgress?: (indexed: number, total: number) => void): Promise<LibraryTrack[]>;
+  /** Which of `paths` still exist. Backends without filesystem access report `false`. */
+  pathsExist(paths: string[]): Promise<boolean[]>;
+  /**
+   * Free bytes on the volume of each of `paths` (folders that may not exist
+   * yet), null where it cannot be told. Absent where outputs are not written
+   * to disk.
+   */
+  freeSpace?(paths: string[]): Promise<(number | null)[]>;
+  startWatcher(path: string, recursive: boolean): Promise<void>;
+  stopWatcher(): Promise<void>;
+}
+
+/** Callbacks registered with a backend, called in registration order. */
+export class ListenerSet<T> {
+  private listeners = new Set<(value: T) => void>();
+
+  public add(listener: (value: T) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public emit(value: T) {
+    this.listeners.forEach(listener => listener(value));
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFile, ConversionErrorCode, ConversionStatus } from '../types';
+import { buildBatchReport, reportToCsv } from './batchReport';
+import { defaultSettings } from './settingsStore';
+
+const files: AudioFile[] = [
+  {
+    id: 'a',
+    name: 'a.ncm',
+    path: '/music/a.ncm',
+    size: 4000,
+    format: 'ncm',
+    status: ConversionStatus.COMPLETED,
+    progress: 100,
+    outputPath: '/music/a.flac',
+    outputSize: 3900,
+    metadata: { title: 'A', artists: ['X'], album: 'Y', durationMs: 180000, bitrate: 0, format: 'flac' },
+    startedAt: Date.UTC(2024, 0, 1, 12, 0, 0),
+    finishedAt: Date.UTC(2024, 0, 1, 12, 0, 2),
+  },
+  {
+    id: 'b',
+    name: 'b, "live".qmcflac',
+    path: '/music/b, "live".qmcflac',
+    size: 10,
+    format: 'qmc',
+    status: ConversionStatus.FAILED,
+    progress: 100,
+    errorMessage: 'Unexpected end of file',
+    error: { code: ConversionErrorCode.TRUNCATED_AUDIO, message: 'Unexpected end of file' },
+  },
+];
+const stats = { totalFiles: 2, converted: 1, failed: 1, pending: 0 };
+
+describe('buildBatchReport', () => {
+  it('records every file with its outcome and timing', () => {
+    const report = buildBatchReport(files, stats, defaultSettings(true), '/music', 1);
+
+    expect(report).toMatchObject({ createdAt: 1, folder: '/music', stats });
+    expect(report.entries[0]).toMatchObject({
+      sourceFormat: 'ncm',
+      innerFormat: 'flac',
+      sizeIn: 4000,
+      sizeOut: 3900,
+      durationMs: 180000,
+      outputPath: '/music/a.flac',
+      elapsedMs: 2000,
+      errorCode: null,
+    });
+    expect(report.entries[1]).toMatchObject({
+      status: ConversionStatus.FAILED,
+      errorCode: ConversionErrorCode.TRUNCATED_AUDIO,
+      sizeOut: null,
+      startedAt: null,
+      elapsedMs: null,
+    });
+  });
+});
+
+describe('reportToCsv', () => {
+  it('writes one quoted row per file with ISO times', () => {
+    const lines = reportToCsv(buildBatchReport(files, stats, defaultSettings(true), '/music')).split('\r\n');
+
+    expect(lines[0]).toMatch(/^sourcePath,sourceName,sourceFormat,/);
+    expect(lines[1]).toBe(
+      '/music/a.ncm,a.ncm,ncm,flac,4000,3900,180000,/music/a.flac,COMPLETED,,,,,2024-01-01T12:00:00.000Z,2024-01-01T12:00:02.000Z,2000',
+    );
+    expect(lines[2]).toBe(
+      '"/music/b, ""live"".qmcflac","b, ""live"".qmcflac",qmc,,10,,,,FAILED,TRUNCATED_AUDIO,Unexpected end of file,,,,,',
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { AppStats, AudioFile, BatchReport, ConversionSettings, ReportEntry } from '../types';
+import { toCsv } from './csv';
+
+/** Everything known about `files` after a batch, for auditing and for handing on failures. */
+export function buildBatchReport(
+  files: AudioFile[],
+  stats: AppStats,
+  settings: ConversionSettings,
+  folder: string | null,
+  now = Date.now(),
+): BatchReport {
+  const entries = files.map((file): ReportEntry => ({
+    sourcePath: file.path,
+    sourceName: file.name,
+    sourceFormat: file.format ?? null,
+    innerFormat: file.innerFormat ?? file.metadata?.format ?? null,
+    sizeIn: file.size,
+    sizeOut: file.outputSize ?? null,
+    durationMs: file.metadata?.durationMs || null,
+    outputPath: file.outputPath ?? file.outputName ?? null,
+    status: file.status,
+    errorCode: file.error?.code ?? null,
+    errorMessage: file.errorMessage ?? null,
+    verification: file.verification?.status ?? null,
+    verificationReason: file.verification?.reason ?? null,
+    startedAt: file.startedAt ?? null,
+    finishedAt: file.finishedAt ?? null,
+    elapsedMs: file.startedAt !== undefined && file.finishedAt !== undefined ? file.finishedAt - file.startedAt : null,
+  }));
+  return { createdAt: now, folder, settings, stats, entries };
+}
+
+const COLUMNS: (keyof ReportEntry)[] = [
+  'sourcePath',
+  'sourceName',
+  'sourceFormat',
+  'innerFormat',
+  'sizeIn',
+  'sizeOut',
+  'durationMs',
+  'outputPath',
+  'status',
+  'errorCode',
+  'errorMessage',
+  'verification',
+  'verificationReason',
+  'startedAt',
+  'finishedAt',
+  'elapsedMs',
+];
+
+const TIMESTAMPS = new Set<keyof ReportEntry>(['startedAt', 'finishedAt']);
+
+/**
+ * One row per file; empty cells for missing values and ISO 8601 times.
+ * Stats and settings go in the JSON export only: they do not fit the table.
+ */
+export function reportToCsv(report: BatchReport): string {
+  const rows = report.entries.map(entry => COLUMNS.map(column => {
+    const value = entry[column];
+    if (value === null) return '';
+    return TIMESTAMPS.has(column) ? new Date(value as number).toISOString() : String(value);
+  }));
+  return toCsv([COLUMNS, ...rows]);
+}
@@ -0,0 +1,139 @@
+import { AudioFile, ConversionErrorCode, ConversionResult, ConversionSettings, ConversionStatus, Loudness, ProgressEventPayload } from '../types';
+import { ConversionBackend, ListenerSet, PreviewSource } from './backendContract';
+import { ConversionFailure, failureResult } from './conversionErrors';
+import { BrowserConverter, DecodedOutput, OutputLyrics } from './browserConverter';
+import { replayGainTags } from './loudness';
+import { LoudnessAnalyzer } from './loudnessAnalyzer';
+import { decodeLyrics, lyricsTargets } from './lyrics';
+import { ArrangeResult, OutputLayout } from './playlist';
+import { blobSource, ByteSource } from './trackInfo';
+
+/**
+ * Conversions without the desktop app: files are decrypted in Web Workers
+ * (see `BrowserConverter`) and offered as downloads. There is no filesystem
+ * to watch or check, and no FFmpeg, so only passthrough outputs are possible.
+ */
+export class BrowserBackend implements ConversionBackend {
+  public readonly kind = 'browser';
+  public readonly desktop = false;
+  public readonly downloads = BrowserConverter.getInstance();
+  private progressListeners = new ListenerSet<ProgressEventPayload>();
+
+  public async listenToProgress(callback: (payload: ProgressEventPayload) => void): Promise<() => void> {
+    return this.progressListeners.add(callback);
+  }
+
+  public async listenToFileDetected(): Promise<() => void> {
+    return () => {};
+  }
+
+  public setConcurrency(concurrency: number) {
+    BrowserConverter.getInstance().setPoolSize(concurrency);
+  }
+
+  public async convertFile(file: AudioFile, settings: ConversionSettings, signal?: AbortSignal): Promise<ConversionResult> {
+    if (!file.source) {
+      return failureResult(new ConversionFailure(ConversionErrorCode.NOT_FOUND, 'Source file is no longer available, re-select the folder'));
+    }
+    const onAbort = () => { this.cancelConversion(file.id); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      console.log(`[Web] Decrypting ${file.name} in worker...`);
+      const output = await BrowserConverter.getInstance().convert(
+        file.id,
+        file.source,
+        settings.outputFormat,
+        file.outputStem,
+        (stage, processedBytes, totalBytes) => this.progressListeners.emit({ id: file.id, stage, processedBytes, totalBytes }),
+        await this.lyricsOf(file, settings),
+      );
+      const loudness = settings.analyseLoudness && !signal?.aborted ? await this.analyseOutput(file.id, output) : undefined;
+      return {
+        success: true,
+        outputName: output.name,
+        outputSize: this.downloads.getOutput(file.id)?.blob.size ?? output.blob.size,
+        verification: output.verification,
+        loudness,
+      };
+    } catch (error) {
+      console.error('[Web] Conversion failed:', error);
+      return failureResult(error);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /** Measures the loudness of an output and writes the track gain into it; a failure only costs the measurement. */
+  private async analyseOutput(id: string, output: DecodedOutput): Promise<Loudness | undefined> {
+    try {
+      this.progressListeners.emit({ id, stage: 'analysing', processedBytes: 0, totalBytes: 1 });
+      const loudness = await LoudnessAnalyzer.getInstance().analyse(
+        new Uint8Array(await output.blob.arrayBuffer()),
+        (processedBytes, totalBytes) => this.progressListeners.emit({ id, stage: 'analysing', processedBytes, totalBytes }),
+      );
+      if (!loudness) return undefined;
+      await this.downloads.addTags(id, replayGainTags(loudness));
+      return loudness;
+    } catch (error) {
+      console.warn(`[Web] Loudness of ${output.name} not measured:`, error);
+      return undefined;
+    }
+  }
+
+  /** Every browser output is FLAC or MP3, so lyrics can always be embedded. A sidecar that cannot be read is left out. */
+  private async lyricsOf(file: AudioFile, settings: ConversionSettings): Promise<OutputLyrics | undefined> {
+    const { embed, sidecar } = lyricsTargets(settings.lyricsAction, true);
+    if (!file.lyrics?.source || (!embed && !sidecar)) return undefined;
+    try {
+      return { text: decodeLyrics(new Uint8Array(await file.lyrics.source.arrayBuffer())), embed, sidecar };
+    } catch (error) {
+      console.warn(`[Web] Lyrics of ${file.name} could not be read:`, error);
+      return undefined;
+    }
+  }
+
+  /** Stops the decoder worker running `id`. */
+  public async cancelConversion(id: string): Promise<void> {
+    BrowserConverter.getInstance().cancel(id);
+  }
+
+  /** Plays the output kept in memory, or decrypts the source in a worker without keeping it. */
+  public async openPreview(file: AudioFile): Promise<PreviewSource> {
+    const output = file.status === ConversionStatus.COMPLETED ? this.downloads.getOutput(file.id) : undefined;
+    if (!output && !file.source) {
+      throw new ConversionFailure(ConversionErrorCode.NOT_FOUND, 'Source file is no longer available, re-select the folder');
+    }
+    const url = URL.createObjectURL(output?.blob ?? await this.downloads.decrypt(file.source!));
+    return { url, kind: output ? 'output' : 'source', release: () => URL.revokeObjectURL(url) };
+  }
+
+  /** Renames the outputs inside the zip and adds the playlists to it. */
+  public async arrangeOutputs(layout: OutputLayout): Promise<ArrangeResult> {
+    return this.downloads.arrange(layout);
+  }
+
+  /** Rewrites the tags of the output kept for download. */
+  public async addTags(file: AudioFile, fields: Record<string, string>): Promise<void> {
+    await this.downloads.addTags(file.id, fields);
+  }
+
+  public sourceOf(file: AudioFile): ByteSource | null {
+    return file.source ? blobSource(file.source) : null;
+  }
+
+  /**
+   * Outputs kept for download live in memory and are gone after a reload, so
+   * no path is reported as present.
+   */
+  public async pathsExist(paths: string[]): Promise<boolean[]> {
+    return paths.map(() => false);
+  }
+
+  public async startWatcher(path: string): Promise<void> {
+    console.log(`[Web] Watcher is not available in the browser (${path})`);
+  }
+
+  public async stopWatcher(): Promise<void> {
+    console.log(`[Web] Watcher stopped`);
+  }
+}
@@ -0,0 +1,272 @@
+import { ConversionError, ConversionStage, InnerFormat, OutputFormat, Verification } from '../types';
+import { ConversionFailure } from './conversionErrors';
+import { stripSourceExtension } from './decoders';
+import { sidecarPathFor } from './lyrics';
+import { saveBlob } from './download';
+import { ArrangeResult, OutputLayout } from './playlist';
+import { writeTags } from './tagWriter';
+import { createZip } from './zip';
+
+export type WorkerRequest = {
+  id: string;
+  file: Blob;
+  name: string;
+  outputFormat: OutputFormat;
+  preview?: boolean; // decrypt only, for listening: no format check, tagging or verification
+  lyrics?: string; // LRC text to embed
+};
+
+export type WorkerResponse =
+  | { type: 'progress'; id: string; stage: ConversionStage; processed: number; total: number }
+  | { type: 'done'; id: string; format: InnerFormat; audio: ArrayBuffer; verification?: Verification }
+  | { type: 'error'; id: string; error: ConversionError };
+
+export interface DecodedOutput {
+  name: string;
+  format: InnerFormat;
+  blob: Blob;
+  verification?: Verification; // unset for previews
+  lyrics?: Blob; // `.lrc` sidecar downloaded along with the audio
+}
+
+/** Lyrics matched to a source, and where they go; see `lyricsTargets`. */
+export interface OutputLyrics {
+  text: string;
+  embed: boolean;
+  sidecar: boolean;
+}
+
+interface PendingJob {
+  name: string;
+  outputStem?: string;
+  request: WorkerRequest;
+  worker: Worker;
+  keep: boolean; // store the output for download; previews are handed over and forgotten
+  lyrics?: OutputLyrics;
+  resolve: (output: DecodedOutput) => void;
+  reject: (error: Error) => void;
+  onProgress?: (stage: ConversionStage, processed: number, total: number) => void;
+}
+
+const MIME_TYPES: Record<InnerFormat, string> = {
+  flac: 'audio/flac',
+  mp3: 'audio/mpeg',
+};
+
+/** `outputStem` is the planned relative path from the filename template, if any. */
+export const outputNameFor = (sourceName: string, format: InnerFormat, outputStem?: string) =>
+  `${outputStem ?? stripSourceExtension(sourceName)}.${format}`;
+
+/**
+ * In-browser conversion path used when the Tauri backend is not available.
+ *
+ * Decryption runs in a pool of Web Workers (see `decoderWorker.ts`), one job per
+ * worker at a time when the pool matches the queue concurrency. Decrypted outputs
+ * are kept in memory as Blobs until the user downloads them or starts a new selection.
+ */
+export class BrowserConverter {
+  private static instance: BrowserConverter;
+  private workers: Worker[] = [];
+  private poolSize = 1;
+  private pending = new Map<string, PendingJob>();
+  private outputs = new Map<string, DecodedOutput>();
+  private playlists = new Map<string, string>(); // M3U8 text by its path in the zip
+  private previews = 0;
+
+  public static getInstance(): BrowserConverter {
+    if (!BrowserConverter.instance) {
+      BrowserConverter.instance = new BrowserConverter();
+    }
+    return BrowserConverter.instance;
+  }
+
+  /** Resizes the pool. Surplus workers are retired once their jobs finish. */
+  public setPoolSize(size: number) {
+    this.poolSize = Math.max(1, Math.floor(size));
+    this.workers.slice(this.poolSize).forEach(worker => {
+      if (this.jobCount(worker) === 0) this.retire(worker);
+    });
+  }
+
+  private jobCount(worker: Worker): number {
+    let count = 0;
+    this.pending.forEach(job => { if (job.worker === worker) count++; });
+    return count;
+  }
+
+  private retire(worker: Worker) {
+    worker.terminate();
+    this.workers = this.workers.filter(w => w !== worker);
+  }
+
+  private spawnWorker(): Worker {
+    const worker = new Worker(new URL('./decoderWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+    worker.onerror = (event) => {
+      // A crashed worker takes its in-flight jobs with it; the rest of the pool carries on.
+      const error = new Error(event.message || 'Decoder worker crashed');
+      this.pending.forEach((job, id) => {
+        if (job.worker !== worker) return;
+        this.pending.delete(id);
+        job.reject(error);
+      });
+      this.retire(worker);
+    };
+    this.workers.push(worker);
+    return worker;
+  }
+
+  /** Least busy worker among the first `poolSize`, spawning one while the pool is not full. */
+  private pickWorker(): Worker {
+    const active = this.workers.slice(0, this.poolSize);
+    const idle = active.find(worker => this.jobCount(worker) === 0);
+    if (idle) return idle;
+    if (active.length < this.poolSize) return this.spawnWorker();
+    return active.reduce((best, worker) => (this.jobCount(worker) < this.jobCount(best) ? worker : best));
+  }
+
+  private handleMessage(message: WorkerResponse) {
+    const job = this.pending.get(message.id);
+    if (!job) return;
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.stage, message.processed, message.total);
+        break;
+      case 'done': {
+        this.pending.delete(message.id);
+        const output: DecodedOutput = {
+          name: outputNameFor(job.name, message.format, job.outputStem),
+          format: message.format,
+          blob: new Blob([message.audio], { type: MIME_TYPES[message.format] }),
+          verification: message.verification,
+          lyrics: job.lyrics?.sidecar ? new Blob([job.lyrics.text], { type: 'text/plain;charset=utf-8' }) : undefined,
+        };
+        if (job.keep) this.outputs.set(message.id, output);
+        job.resolve(output);
+        this.releaseIfSurplus(job.worker);
+        break;
+      }
+      case 'error':
+        this.pending.delete(message.id);
+        job.reject(new ConversionFailure(message.error.code, message.error.message, message.error.details));
+        this.releaseIfSurplus(job.worker);
+        break;
+    }
+  }
+
+  private releaseIfSurplus(worker: Worker) {
+    if (this.workers.indexOf(worker) >= this.poolSize && this.jobCount(worker) === 0) this.retire(worker);
+  }
+
+  public convert(
+    id: string,
+    file: File,
+    outputFormat: OutputFormat,
+    outputStem?: string,
+    onProgress?: PendingJob['onProgress'],
+    lyrics?: OutputLyrics,
+  ): Promise<DecodedOutput> {
+    const request: WorkerRequest = { id, file, name: file.name, outputFormat, lyrics: lyrics?.embed ? lyrics.text : undefined };
+    return this.submit(request, { outputStem, onProgress, keep: true, lyrics });
+  }
+
+  /** Decrypts `file` for listening. The audio comes back untagged and is not kept as an output. */
+  public async decrypt(file: File): Promise<Blob> {
+    const id = `preview-${this.previews++}`;
+    const request: WorkerRequest = { id, file, name: file.name, outputFormat: OutputFormat.ORIGINAL, preview: true };
+    return (await this.submit(request, { keep: false })).blob;
+  }
+
+  private submit(request: WorkerRequest, job: Pick<PendingJob, 'outputStem' | 'onProgress' | 'keep' | 'lyrics'>): Promise<DecodedOutput> {
+    return new Promise((resolve, reject) => {
+      const worker = this.pickWorker();
+      this.pending.set(request.id, { ...job, name: request.name, request, worker, resolve, reject });
+      worker.postMessage(request);
+    });
+  }
+
+  /** Stops a job. A worker cannot be interrupted mid-file, so it is replaced. */
+  public cancel(id: string) {
+    const job = this.pending.get(id);
+    if (!job) return;
+    this.pending.delete(id);
+    this.retire(job.worker);
+    job.reject(new Error('Cancelled'));
+    // Jobs that shared the worker start over on another one.
+    this.pending.forEach(other => {
+      if (other.worker !== job.worker) return;
+      other.worker = this.pickWorker();
+      other.worker.postMessage(other.request);
+    });
+  }
+
+  public getOutput(id: string): DecodedOutput | undefined {
+    return this.outputs.get(id);
+  }
+
+  public hasOutputs(): boolean {
+    return this.outputs.size > 0;
+  }
+
+  public clearOutputs() {
+    this.outputs.clear();
+    this.playlists.clear();
+  }
+
+  /** Adds fields to the tags of a kept output, keeping the rest. Resolves to the new size, if it is still kept. */
+  public async addTags(id: string, fields: Record<string, string>): Promise<number | undefined> {
+    const output = this.outputs.get(id);
+    if (!output) return undefined;
+    const audio = writeTags(new Uint8Array(await output.blob.arrayBuffer()), { extra: fields });
+    output.blob = new Blob([audio], { type: MIME_TYPES[output.format] });
+    return output.blob.size;
+  }
+
+  public removeOutput(id: string) {
+    this.outputs.delete(id);
+  }
+
+  public download(id: string) {
+    const output = this.outputs.get(id);
+    if (!output) return;
+    // Template sub-folders only survive inside the zip; a single download gets the file name.
+    const name = output.name.split('/').pop()!;
+    saveBlob(output.blob, name);
+    if (output.lyrics) saveBlob(output.lyrics, sidecarPathFor(name));
+  }
+
+  /** Moves outputs to other folders of the zip and adds playlists to it; see `planLayout`. */
+  public arrange(layout: OutputLayout): ArrangeResult {
+    const result: ArrangeResult = { moved: [], failed: [] };
+    layout.moves.forEach(move => {
+      const output = this.outputs.get(move.id);
+      if (output?.name !== move.from) {
+        result.failed.push({ move, message: 'The output is no longer kept for download' });
+        return;
+      }
+      output.name = move.to;
+      result.moved.push(move);
+    });
+    layout.playlists.forEach(playlist => this.playlists.set(playlist.path, playlist.text));
+    return result;
+  }
+
+  /** Bundles every decrypted output, and the playlists, into a single zip download. */
+  public async downloadAll(archiveName: string) {
+    const used = new Set<string>();
+    const entries = await Promise.all(
+      Array.from(this.outputs.values()).map(async output => {
+        // Files from different sub-folders can share a name; keep both.
+        let name = output.name;
+        for (let n = 2; used.has(name); n++) name = output.name.replace(/(\.\w+)$/, ` (${n})$1`);
+        used.add(name);
+        const audio = { name, data: new Uint8Array(await output.blob.arrayBuffer()) };
+        if (!output.lyrics) return [audio];
+        return [audio, { name: sidecarPathFor(name), data: new Uint8Array(await output.lyrics.arrayBuffer()) }];
+      }),
+    );
+    const playlists = Array.from(this.playlists, ([name, text]) => ({ name, data: new TextEncoder().encode(text) }));
+    saveBlob(createZip([...entries.flat(), ...playlists]), `${archiveName}.zip`);
+  }
+}
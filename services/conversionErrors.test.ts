@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFile, ConversionErrorCode, ConversionStatus } from '../types';
+import { ConversionFailure, groupFailures, toConversionError } from './conversionErrors';
+import { openSource } from './decoders';
+import { blobSource } from './trackInfo';
+
+const failed = (id: string, code?: ConversionErrorCode): AudioFile => ({
+  id,
+  name: `${id}.ncm`,
+  path: `/music/${id}.ncm`,
+  size: 1,
+  status: ConversionStatus.FAILED,
+  progress: 0,
+  error: code && { code, message: code },
+});
+
+describe('toConversionError', () => {
+  it('keeps the code and details of a ConversionFailure', () => {
+    const error = toConversionError(new ConversionFailure(ConversionErrorCode.TRUNCATED_AUDIO, 'short', { offset: '12' }));
+    expect(error).toEqual({ code: ConversionErrorCode.TRUNCATED_AUDIO, message: 'short', details: { offset: '12' } });
+  });
+
+  it('accepts the error objects the Rust backend rejects with', () => {
+    const rejected = { code: 'FFMPEG_FAILED', message: 'FFmpeg exited with 1', details: { exitStatus: '1' } };
+    expect(toConversionError(rejected)).toEqual(rejected);
+  });
+
+  it('maps cancellations and anything else', () => {
+    expect(toConversionError(new Error('Cancelled')).code).toBe(ConversionErrorCode.CANCELLED);
+    expect(toConversionError('boom')).toEqual({ code: ConversionErrorCode.UNKNOWN, message: 'boom' });
+    expect(toConversionError({ code: 'NOT_A_CODE', message: 'x' }).code).toBe(ConversionErrorCode.UNKNOWN);
+  });
+
+  it('classifies decoder errors', async () => {
+    const zeros = blobSource(new Blob([new Uint8Array(64)]));
+    await expect(openSource(zeros, 'a.ncm')).rejects.toMatchObject({ code: ConversionErrorCode.BAD_MAGIC });
+    await expect(openSource(zeros, 'a.wav')).rejects.toMatchObject({ code: ConversionErrorCode.UNSUPPORTED_FORMAT });
+  });
+});
+
+describe('groupFailures', () => {
+  it('groups failed files by code, largest group first', () => {
+    const files = [
+      failed('a', ConversionErrorCode.NOT_FOUND),
+      failed('b', ConversionErrorCode.FFMPEG_MISSING),
+      failed('c', ConversionErrorCode.FFMPEG_MISSING),
+      failed('d'),
+      { ...failed('e', ConversionErrorCode.NOT_FOUND), status: ConversionStatus.COMPLETED },
+    ];
+    const groups = groupFailures(files);
+
+    expect(groups.map(g => [g.code, g.files.map(f => f.id)])).toEqual([
+      [ConversionErrorCode.FFMPEG_MISSING, ['b', 'c']],
+      [ConversionErrorCode.NOT_FOUND, ['a']],
+      [ConversionErrorCode.UNKNOWN, ['d']],
+    ]);
+    expect(groups[0].hint).toMatch(/FFmpeg/);
+  });
+});
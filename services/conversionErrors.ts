@@ -0,0 +1,111 @@
+import { AudioFile, ConversionError, ConversionErrorCode, ConversionResult, ConversionStatus } from '../types';
+
+/** An error with a known cause. Decoders and backends throw these; anything else ends up as UNKNOWN. */
+export class ConversionFailure extends Error {
+  constructor(
+    public readonly code: ConversionErrorCode,
+    message: string,
+    public readonly details: Record<string, string> = {},
+  ) {
+    super(message);
+  }
+}
+
+export const ERROR_INFO: Record<ConversionErrorCode, { title: string; hint: string }> = {
+  [ConversionErrorCode.NOT_FOUND]: {
+    title: 'Source file not found',
+    hint: 'The file was moved, renamed or deleted after it was queued. Re-select the folder to pick it up again.',
+  },
+  [ConversionErrorCode.UNSUPPORTED_FORMAT]: {
+    title: 'Unsupported format',
+    hint: 'This file or this variant of its format cannot be decrypted. Files protected by the music client itself need that client to play.',
+  },
+  [ConversionErrorCode.BAD_MAGIC]: {
+    title: 'Not a valid encrypted download',
+    hint: 'The header does not match the file extension. The file may be damaged or renamed from another format.',
+  },
+  [ConversionErrorCode.KEY_DECRYPT_FAILED]: {
+    title: 'Key could not be decrypted',
+    hint: 'The key stored in the file is damaged or uses an unknown scheme. Download the track again from the music client.',
+  },
+  [ConversionErrorCode.TRUNCATED_AUDIO]: {
+    title: 'File is incomplete',
+    hint: 'The file ends early, usually because its download was interrupted. Download it again.',
+  },
+  [ConversionErrorCode.FFMPEG_MISSING]: {
+    title: 'FFmpeg is not installed',
+    hint: 'Converting to another format needs FFmpeg. Install it and add it to PATH, or choose "Original" as the output format.',
+  },
+  [ConversionErrorCode.FFMPEG_FAILED]: {
+    title: 'FFmpeg could not convert the audio',
+    hint: 'The decrypted audio may be damaged. Try "Original" as the output format, or check the FFmpeg log in the details.',
+  },
+  [ConversionErrorCode.NEEDS_DESKTOP]: {
+    title: 'Needs the desktop app',
+    hint: 'The browser can only keep the decrypted stream as it is. Choose "Original" as the output format, or use the desktop app.',
+  },
+  [ConversionErrorCode.TAGGING_FAILED]: {
+    title: 'Tags could not be written',
+    hint: 'The audio was converted, but copying the title, artist and cover failed. The output is still playable.',
+  },
+  [ConversionErrorCode.WRITE_DENIED]: {
+    title: 'No permission to write the output',
+    hint: 'Choose an output directory you can write to, or check the folder permissions.',
+  },
+  [ConversionErrorCode.DISK_FULL]: {
+    title: 'Disk is full',
+    hint: 'Free up space on the output drive or choose an output directory on another drive, then retry.',
+  },
+  [ConversionErrorCode.CANCELLED]: {
+    title: 'Cancelled',
+    hint: 'The conversion was stopped. Retry to convert the file.',
+  },
+  [ConversionErrorCode.UNKNOWN]: {
+    title: 'Unexpected error',
+    hint: 'See the message in the details. Retrying may help if the cause was temporary.',
+  },
+};
+
+const CODES = new Set<string>(Object.values(ConversionErrorCode));
+
+/**
+ * Turns whatever a conversion threw into a `ConversionError`. Understands
+ * `ConversionFailure`s and the error objects the Rust backend rejects with
+ * (see `error.rs`).
+ */
+export function toConversionError(error: unknown): ConversionError {
+  if (error instanceof ConversionFailure) {
+    return { code: error.code, message: error.message, details: error.details };
+  }
+  if (typeof error === 'object' && error !== null && CODES.has((error as ConversionError).code)) {
+    const { code, message, details } = error as ConversionError;
+    return { code, message: String(message ?? ''), details };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { code: message === 'Cancelled' ? ConversionErrorCode.CANCELLED : ConversionErrorCode.UNKNOWN, message };
+}
+
+/** The result of a conversion that threw `error`. */
+export function failureResult(error: unknown): ConversionResult {
+  const failure = toConversionError(error);
+  return { success: false, message: failure.message, error: failure };
+}
+
+export interface FailureGroup {
+  code: ConversionErrorCode;
+  title: string;
+  hint: string;
+  files: AudioFile[];
+}
+
+/** Failed files grouped by cause, largest group first. */
+export function groupFailures(files: AudioFile[]): FailureGroup[] {
+  const groups = new Map<ConversionErrorCode, AudioFile[]>();
+  for (const file of files) {
+    if (file.status !== ConversionStatus.FAILED) continue;
+    const code = file.error?.code ?? ConversionErrorCode.UNKNOWN;
+    groups.set(code, [...(groups.get(code) ?? []), file]);
+  }
+  return Array.from(groups, ([code, grouped]) => ({ code, ...ERROR_INFO[code], files: grouped }))
+    .sort((a, b) => b.files.length - a.files.length);
+}
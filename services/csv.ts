@@ -0,0 +1,6 @@
+const field = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** RFC 4180 CSV: fields quoted only where needed, CRLF line endings. */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(field).join(',')).join('\r\n');
+}
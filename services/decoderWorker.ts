@@ -0,0 +1,59 @@
+/// <reference lib="webworker" />
+import { ConversionErrorCode } from '../types';
+import { ConversionFailure, toConversionError } from './conversionErrors';
+import { decryptAudio, openSource } from './decoders';
+import { sniffInnerFormat } from './ncm';
+import { isPassthrough, OUTPUT_FORMAT_LABELS } from './settingsStore';
+import { tagsFromMetadata, writeTags } from './tagWriter';
+import { blobSource } from './trackInfo';
+import { verifyAudio } from './verify';
+import type { WorkerRequest, WorkerResponse } from './browserConverter';
+
+/**
+ * Web Worker entry: decrypts, tags and verifies source files off the UI thread.
+ * The finished audio buffer is transferred back, not copied.
+ */
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, file, name, outputFormat, preview, lyrics } = event.data;
+  try {
+    const source = blobSource(file);
+    post({ type: 'progress', id, stage: 'reading', processed: 0, total: file.size });
+    const session = await openSource(source, name);
+    post({ type: 'progress', id, stage: 'key', processed: session.audioOffset, total: session.audioOffset });
+    let lastReported = -1;
+    const decrypted = await decryptAudio(source, session, (processed, total) => {
+      const progress = Math.floor((processed / total) * 100);
+      if (progress > lastReported) {
+        lastReported = progress;
+        post({ type: 'progress', id, stage: 'decrypting', processed, total });
+      }
+    });
+    const format = sniffInnerFormat(decrypted);
+    if (preview) {
+      const audio = decrypted.buffer as ArrayBuffer;
+      post({ type: 'done', id, format, audio }, [audio]);
+      return;
+    }
+    if (!isPassthrough(outputFormat, format)) {
+      throw new ConversionFailure(ConversionErrorCode.NEEDS_DESKTOP, `Converting ${format.toUpperCase()} to ${OUTPUT_FORMAT_LABELS[outputFormat]} needs the desktop app (FFmpeg)`);
+    }
+
+    // Only NCM carries tags outside the audio; other formats already have theirs in place, lyrics aside.
+    let output = decrypted;
+    if (session.trackInfo || lyrics) {
+      const { metadata = null, cover = null } = session.trackInfo ?? {};
+      post({ type: 'progress', id, stage: 'tagging', processed: 0, total: decrypted.length });
+      output = writeTags(decrypted, { ...tagsFromMetadata(metadata, cover), lyrics });
+      post({ type: 'progress', id, stage: 'tagging', processed: decrypted.length, total: decrypted.length });
+    }
+    const verification = verifyAudio(output, format, session.trackInfo?.metadata?.durationMs);
+    const audio = output.buffer as ArrayBuffer;
+    post({ type: 'done', id, format, audio, verification }, [audio]);
+  } catch (error) {
+    post({ type: 'error', id, error: toConversionError(error) });
+  }
+};
@@ -0,0 +1,158 @@
+import { createHash } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { decryptAudio, decoderForName, openSource, stripSourceExtension } from './decoders';
+import { kwmMask } from './kwm';
+import { md5 } from './md5';
+import { deriveQmcKey, qmcKeystream } from './qmc';
+import { ByteSource, readInnerFormat } from './trackInfo';
+
+const bytesSource = (data: Uint8Array): ByteSource => ({
+  size: data.length,
+  read: async (offset, length) => data.slice(offset, offset + length),
+});
+
+const FLAC_HEAD = [0x66, 0x4c, 0x61, 0x43, 0x00, 0x00, 0x00, 0x22];
+
+const sampleAudio = (length: number) => {
+  const audio = Uint8Array.from({ length }, (_, i) => (i * 7 + 3) & 0xff);
+  audio.set(FLAC_HEAD);
+  return audio;
+};
+
+// Encrypting side of Tencent's TEA-CBC, to build key trailers the way QQ Music does.
+const teaEncryptBlock = (block: Uint8Array, key: Uint8Array) => {
+  const k = new DataView(key.buffer, key.byteOffset, 16);
+  const view = new DataView(block.buffer, block.byteOffset, 8);
+  let v0 = view.getUint32(0);
+  let v1 = view.getUint32(4);
+  let sum = 0;
+  for (let round = 0; round < 16; round++) {
+    sum = (sum + 0x9e3779b9) >>> 0;
+    v0 = (v0 + ((((v1 << 4) + k.getUint32(0)) ^ (v1 + sum) ^ ((v1 >>> 5) + k.getUint32(4))) >>> 0)) >>> 0;
+    v1 = (v1 + ((((v0 << 4) + k.getUint32(8)) ^ (v0 + sum) ^ ((v0 >>> 5) + k.getUint32(12))) >>> 0)) >>> 0;
+  }
+  view.setUint32(0, v0);
+  view.setUint32(4, v1);
+};
+
+const makeEkey = (key: Uint8Array): string => {
+  const teaKey = new Uint8Array(16);
+  [0x69, 0x56, 0x46, 0x38, 0x2b, 0x20, 0x15, 0x0b].forEach((byte, i) => {
+    teaKey[i * 2] = byte;
+    teaKey[i * 2 + 1] = key[i];
+  });
+  const payload = key.subarray(8);
+  const padLength = (8 - ((payload.length + 10) % 8)) % 8;
+  const plain = new Uint8Array(1 + padLength + 2 + payload.length + 7);
+  plain[0] = 0xf8 | padLength;
+  plain.set(payload, 3 + padLength);
+  const cipher = new Uint8Array(plain.length);
+  const state = new Uint8Array(8);
+  for (let offset = 0; offset < plain.length; offset += 8) {
+    const previous = state.slice();
+    for (let i = 0; i < 8; i++) state[i] = plain[offset + i] ^ (offset > 0 ? cipher[offset - 8 + i] : 0);
+    const block = state.slice();
+    teaEncryptBlock(block, teaKey);
+    for (let i = 0; i < 8; i++) cipher[offset + i] = block[i] ^ previous[i];
+  }
+  const raw = new Uint8Array(8 + cipher.length);
+  raw.set(key.subarray(0, 8));
+  raw.set(cipher, 8);
+  return btoa(String.fromCharCode(...raw));
+};
+
+describe('decoder registry', () => {
+  it('picks decoders by extension and strips it from output names', () => {
+    expect(decoderForName('a.NCM')?.format).toBe('ncm');
+    expect(decoderForName('a.qmcflac')?.format).toBe('qmc');
+    expect(decoderForName('a.vpr')?.format).toBe('kgm');
+    expect(decoderForName('a.mp3')).toBeUndefined();
+    expect(stripSourceExtension('Song.v2.mflac')).toBe('Song.v2');
+    expect(stripSourceExtension('notes.txt')).toBe('notes.txt');
+  });
+
+  it('trusts magic bytes over the extension and rejects files missing theirs', async () => {
+    const kwm = new Uint8Array(0x400 + 8);
+    kwm.set(new TextEncoder().encode('yeelion-kuwo-tme'));
+    await expect(openSource(bytesSource(kwm), 'renamed.ncm')).resolves.toMatchObject({ audioOffset: 0x400 });
+    await expect(openSource(bytesSource(new Uint8Array(64)), 'fake.kgm')).rejects.toThrow('Invalid KGM file format');
+    await expect(openSource(bytesSource(new Uint8Array(64)), 'song.wav')).rejects.toThrow('Unsupported file type');
+  });
+});
+
+describe('QMC', () => {
+  it('decrypts header-less QMCv1 files with the static table', async () => {
+    const audio = sampleAudio(40000);
+    const encrypted = audio.slice();
+    qmcKeystream(null)(encrypted, 0);
+
+    const source = bytesSource(encrypted);
+    expect(await readInnerFormat(source, 'song.qmcflac')).toBe('flac');
+    expect(await decryptAudio(source, await openSource(source, 'song.qmcflac'))).toEqual(audio);
+  });
+
+  it.each([['map', 256], ['rc4', 704]])('decrypts mflac with a %s key from the trailer', async (_, keyLength) => {
+    const key = Uint8Array.from({ length: keyLength }, (_, i) => (i * 31 + 17) & 0xff || 1);
+    expect(deriveQmcKey(makeEkey(key))).toEqual(key);
+
+    const audio = sampleAudio(12000);
+    const ekey = new TextEncoder().encode(makeEkey(key));
+    const file = new Uint8Array(audio.length + ekey.length + 4);
+    file.set(audio);
+    qmcKeystream(key)(file.subarray(0, audio.length), 0);
+    file.set(ekey, audio.length);
+    new DataView(file.buffer).setUint32(file.length - 4, ekey.length, true);
+
+    const source = bytesSource(file);
+    expect(await decryptAudio(source, await openSource(source, 'song.mflac'))).toEqual(audio);
+  });
+
+  it('requires a key trailer for mflac', async () => {
+    await expect(openSource(bytesSource(new Uint8Array(64)), 'song.mflac')).rejects.toThrow('No decryption key');
+  });
+
+  it.each([['map', 256], ['rc4', 512]])('gives the same %s keystream however the audio is chunked', (_, keyLength) => {
+    const key = Uint8Array.from({ length: keyLength }, (_, i) => (i * 31 + 17) & 0xff);
+    const whole = new Uint8Array(3 * 5120 + 700);
+    qmcKeystream(key)(whole, 0);
+
+    const chunked = new Uint8Array(whole.length);
+    const decrypt = qmcKeystream(key);
+    for (const [start, end] of [[0, 100], [100, 5200], [5200, 5201], [5201, whole.length]]) {
+      decrypt(chunked.subarray(start, end), start);
+    }
+    expect(chunked).toEqual(whole);
+  });
+});
+
+describe('KWM', () => {
+  it('repeats the resource id across the 32-byte mask', () => {
+    const preset = new TextEncoder().encode('MoOtOiTvINGwd2E6n0E1i7L5t2IoOoNk');
+    const mask = kwmMask(123n);
+    expect(mask[0] ^ preset[0]).toBe('1'.charCodeAt(0));
+    expect(mask[4] ^ preset[4]).toBe('2'.charCodeAt(0));
+  });
+
+  it('decrypts the audio after the 0x400 byte header', async () => {
+    const audio = sampleAudio(100);
+    const file = new Uint8Array(0x400 + audio.length);
+    file.set(new TextEncoder().encode('yeelion-kuwo-tme'));
+    new DataView(file.buffer).setUint32(0x10, 1, true);
+    new DataView(file.buffer).setBigUint64(0x18, 4567n, true);
+    const mask = kwmMask(4567n);
+    audio.forEach((byte, i) => { file[0x400 + i] = byte ^ mask[i & 0x1f]; });
+
+    const source = bytesSource(file);
+    expect(await decryptAudio(source, await openSource(source, 'song.kwm'))).toEqual(audio);
+  });
+});
+
+describe('md5', () => {
+  it('matches Node for short and multi-block inputs', () => {
+    for (const length of [0, 4, 55, 56, 64, 200]) {
+      const data = Uint8Array.from({ length }, (_, i) => i & 0xff);
+      const expected = createHash('md5').update(data).digest('hex');
+      expect(Buffer.from(md5(data)).toString('hex')).toBe(expected);
+    }
+  });
+});
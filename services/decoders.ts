@@ -0,0 +1,119 @@
+import { ConversionErrorCode, SourceFormat } from '../types';
+import { ConversionFailure } from './conversionErrors';
+import { kgmDecoder } from './kgm';
+import { kwmDecoder } from './kwm';
+import { ncmDecoder } from './ncm';
+import { qmcDecoder } from './qmc';
+import type { ByteSource, TrackInfo } from './trackInfo';
+
+/**
+ * Registry of the encrypted download formats we can decrypt.
+ *
+ * Each decoder recognises its files by extension and, where the format has
+ * one, by magic bytes; opening a file reads whatever the cipher needs (header,
+ * key trailer) and hands back the location of the audio plus a keystream that
+ * can be applied chunk by chunk. Mirrors `decoder.rs` on the Tauri side.
+ */
+
+export interface DecryptSession {
+  audioOffset: number;
+  audioLength: number;
+  /**
+   * Decrypts `data` in place. `position` is the offset of `data[0]` from the
+   * start of the audio, so the audio can be processed in chunks.
+   */
+  decrypt(data: Uint8Array, position: number): void;
+  /** Tags carried by the container itself (NCM only); other formats keep theirs inside the audio. */
+  trackInfo: TrackInfo | null;
+}
+
+export interface Decoder {
+  format: SourceFormat;
+  label: string;
+  /** Lower case, without the dot. */
+  extensions: string[];
+  /** Recognises the format from the first `MAGIC_LENGTH` bytes; absent for formats without a magic (QMC). */
+  matchesMagic?(head: Uint8Array): boolean;
+  open(source: ByteSource, name: string): Promise<DecryptSession>;
+}
+
+const DECODERS: Decoder[] = [ncmDecoder, qmcDecoder, kgmDecoder, kwmDecoder];
+
+export const MAGIC_LENGTH = 16;
+const CHUNK_SIZE = 1024 * 1024;
+
+export const SOURCE_EXTENSIONS = DECODERS.flatMap(decoder => decoder.extensions);
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+export function decoderForName(name: string): Decoder | undefined {
+  const extension = extensionOf(name);
+  return DECODERS.find(decoder => decoder.extensions.includes(extension));
+}
+
+export const isSupportedFile = (name: string) => decoderForName(name) !== undefined;
+
+export const sourceFormatOf = (name: string): SourceFormat | undefined => decoderForName(name)?.format;
+
+/** File name without its encrypted extension ("Song.qmcflac" -> "Song"). */
+export function stripSourceExtension(name: string): string {
+  return isSupportedFile(name) ? name.slice(0, name.lastIndexOf('.')) : name;
+}
+
+/**
+ * Opens `source` with the decoder its magic bytes point to, falling back to
+ * the extension of `name` for formats without a magic. A file whose extension
+ * promises a magic it does not have is rejected up front.
+ */
+export async function openSource(source: ByteSource, name: string): Promise<DecryptSession> {
+  const head = await source.read(0, Math.min(MAGIC_LENGTH, source.size));
+  const byMagic = DECODERS.find(decoder => decoder.matchesMagic?.(head));
+  if (byMagic) return byMagic.open(source, name);
+
+  const byName = decoderForName(name);
+  if (!byName) throw new ConversionFailure(ConversionErrorCode.UNSUPPORTED_FORMAT, `Unsupported file type: ${name}`);
+  if (byName.matchesMagic) throw new ConversionFailure(ConversionErrorCode.BAD_MAGIC, `Invalid ${byName.label} file format`);
+  return byName.open(source, name);
+}
+
+/**
+ * Reads and decrypts the whole audio stream of an opened source. `onProgress`
+ * is called after every chunk with the number of audio bytes processed so far.
+ */
+export async function decryptAudio(
+  source: ByteSource,
+  session: DecryptSession,
+  onProgress?: (processed: number, total: number) => void,
+): Promise<Uint8Array> {
+  if (session.audioLength <= 0) {
+    throw new ConversionFailure(ConversionErrorCode.TRUNCATED_AUDIO, 'File contains no audio data');
+  }
+  const audio = await source.read(session.audioOffset, session.audioLength);
+  if (audio.length < session.audioLength) {
+    throw new ConversionFailure(ConversionErrorCode.TRUNCATED_AUDIO, 'Unexpected end of file');
+  }
+  for (let position = 0; position < audio.length; position += CHUNK_SIZE) {
+    const end = Math.min(position + CHUNK_SIZE, audio.length);
+    session.decrypt(audio.subarray(position, end), position);
+    onProgress?.(end, audio.length);
+  }
+  return audio;
+}
+
+/**
+ * The decrypted audio of an opened source, read range by range without
+ * decrypting the rest, e.g. to look at its tags or fingerprint it.
+ */
+export function decryptedSource(source: ByteSource, session: DecryptSession): ByteSource {
+  return {
+    size: session.audioLength,
+    read: async (offset, length) => {
+      const data = await source.read(session.audioOffset + offset, Math.min(length, session.audioLength - offset));
+      session.decrypt(data, offset);
+      return data;
+    },
+  };
+}
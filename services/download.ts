@@ -0,0 +1,10 @@
+/** Offers `blob` to the user as a file download named `name`. */
+export const saveBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = name;
+  anchor.click();
+  // Give the browser a moment to start the download before revoking.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
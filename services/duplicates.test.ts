@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFile, AudioIdentity, ConversionStatus, DuplicateGroup, DuplicatePolicy, LibraryTrack, OutputFormat, OverwritePolicy } from '../types';
+import { findDuplicates, identifyAudio, resolveDuplicates } from './duplicates';
+import { resolveOutputPath } from './planner';
+import { defaultSettings } from './settingsStore';
+import { MUSIC_ID_FIELD, writeTags } from './tagWriter';
+import { blobSource } from './trackInfo';
+
+const SAMPLE_RATE = 44100;
+
+/** Bytes that differ from one `seed` to the next, standing in for audio frames. */
+const noise = (length: number, seed: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + seed * 17 + (i >> 8)) & 0xff);
+
+/** A FLAC stream of `seconds` whose frames are `frames`. */
+const flac = (frames: Uint8Array, seconds: number): Uint8Array => {
+  const info = new Uint8Array(34);
+  const samples = seconds * SAMPLE_RATE;
+  info.set([SAMPLE_RATE >> 12, (SAMPLE_RATE >> 4) & 0xff, (SAMPLE_RATE & 0x0f) << 4, 0xf0], 10);
+  info.set([(samples >>> 24) & 0xff, (samples >> 16) & 0xff, (samples >> 8) & 0xff, samples & 0xff], 14);
+  return new Uint8Array([0x66, 0x4c, 0x61, 0x43, 0x80, 0, 0, 34, ...info, ...frames]);
+};
+
+/** MPEG-1 layer III frames at 320 kbit/s, 44.1 kHz: 1044 bytes each, with `seed` in their bodies. */
+const mp3 = (count: number, seed: number): Uint8Array => {
+  const bytes = noise(count * 1044, seed);
+  for (let i = 0; i < count; i++) bytes.set([0xff, 0xfb, 0xe0, 0x00], i * 1044);
+  return bytes;
+};
+
+const identify = (bytes: Uint8Array, musicId?: number) => identifyAudio(blobSource(new Blob([bytes])), musicId);
+
+const queued = (id: string, identity: AudioIdentity): AudioFile => ({
+  id,
+  name: `${id}.ncm`,
+  path: `/in/${id}.ncm`,
+  size: 1024,
+  status: ConversionStatus.PENDING,
+  progress: 0,
+  identity,
+});
+
+const track = (path: string, identity: AudioIdentity): LibraryTrack => ({ path, size: 1024, ...identity });
+
+describe('identifyAudio', () => {
+  it('fingerprints FLAC frames whatever the tags around them, and reads the id from the tags', async () => {
+    const frames = noise(300 * 1024, 1);
+    const source = await identify(flac(frames, 10), 42);
+    const output = await identify(writeTags(flac(frames, 10), { title: 'Song', extra: { [MUSIC_ID_FIELD]: '42' } }));
+    expect(output).toEqual(source);
+    expect(output.musicId).toBe(42);
+    expect(output.bitrate).toBe(Math.round((frames.length * 8) / 10));
+    expect((await identify(flac(noise(300 * 1024, 2), 10))).fingerprint).not.toBe(source.fingerprint);
+  });
+
+  it('reads MP3 frames past the ID3v2 tag and before an ID3v1 tag', async () => {
+    const frames = mp3(200, 3);
+    const id3v1 = new Uint8Array(128);
+    id3v1.set([0x54, 0x41, 0x47]);
+    const source = await identify(new Uint8Array([...frames, ...id3v1]));
+    const output = await identify(writeTags(frames, { extra: { [MUSIC_ID_FIELD]: '7' } }));
+    expect(source).toEqual({ musicId: undefined, fingerprint: output.fingerprint, bitrate: 320000 });
+    expect(output.musicId).toBe(7);
+  });
+});
+
+describe('findDuplicates', () => {
+  it('groups copies by id or audio, through one another, with a matching library track', () => {
+    const files = [
+      queued('a', { musicId: 1, fingerprint: 'x', bitrate: 128000 }),
+      queued('b', { musicId: 2, fingerprint: 'y', bitrate: 0 }),
+      queued('c', { fingerprint: 'x', bitrate: 320000 }),
+      queued('d', { musicId: 1, fingerprint: 'z', bitrate: 0 }),
+      queued('e', { musicId: 3, fingerprint: 'w', bitrate: 0 }),
+      { ...queued('f', { fingerprint: null, bitrate: 0 }), identity: undefined },
+    ];
+    const library = [track('/out/e.flac', { musicId: 3, fingerprint: 'v', bitrate: 900000 }), track('/out/y.flac', { fingerprint: 'q', bitrate: 0 })];
+    expect(findDuplicates(files, library)).toEqual<DuplicateGroup[]>([
+      { id: 'a', match: 'music-id', fileIds: ['a', 'c', 'd'], library: null },
+      { id: 'e', match: 'music-id', fileIds: ['e'], library: library[0] },
+    ]);
+    expect(findDuplicates(files.slice(1, 3), [track('/out/x.flac', { fingerprint: 'x', bitrate: 0 })])[0].match).toBe('audio');
+  });
+});
+
+describe('resolveDuplicates', () => {
+  const files = new Map([
+    ['low', queued('low', { musicId: 1, fingerprint: 'a', bitrate: 128000 })],
+    ['high', queued('high', { musicId: 1, fingerprint: 'b', bitrate: 320000 })],
+  ]);
+  const group = (library: LibraryTrack | null): DuplicateGroup => ({ id: 'low', match: 'music-id', fileIds: ['low', 'high'], library });
+  const mp3Copy = track('/out/Song.mp3', { musicId: 1, fingerprint: 'c', bitrate: 192000 });
+  const outputPathOf = (file: AudioFile) => `/out/${file.id}.flac`;
+  const resolve = (policy: DuplicatePolicy, library: LibraryTrack | null, pathOf = outputPathOf) =>
+    resolveDuplicates(group(library), policy, files, pathOf);
+
+  it('skips all but the first copy, and every copy of a track in the library', () => {
+    expect(resolve(DuplicatePolicy.SKIP, null)).toEqual([
+      { fileId: 'low', action: 'convert' },
+      { fileId: 'high', action: 'skip', note: 'Duplicate of low.ncm' },
+    ]);
+    expect(resolve(DuplicatePolicy.SKIP, mp3Copy).map(r => r.action)).toEqual(['skip', 'skip']);
+  });
+
+  it('keeps both under numbered names when the library has the track', () => {
+    expect(resolve(DuplicatePolicy.KEEP_BOTH, mp3Copy)).toEqual([
+      { fileId: 'low', action: 'convert', overwritePolicy: OverwritePolicy.RENAME },
+      { fileId: 'high', action: 'convert', overwritePolicy: OverwritePolicy.RENAME },
+    ]);
+  });
+
+  it('converts the best copy only, replacing a worse library copy in place or through the trash', () => {
+    expect(resolve(DuplicatePolicy.REPLACE_LOWER_BITRATE, mp3Copy)).toEqual([
+      { fileId: 'low', action: 'skip', note: 'Duplicate of high.ncm (320 kbps)' },
+      { fileId: 'high', action: 'convert', replaces: '/out/Song.mp3' },
+    ]);
+    expect(resolve(DuplicatePolicy.REPLACE_LOWER_BITRATE, mp3Copy, () => '/out/Song.mp3')[1])
+      .toEqual({ fileId: 'high', action: 'convert', overwritePolicy: OverwritePolicy.OVERWRITE });
+    expect(resolve(DuplicatePolicy.REPLACE_LOWER_BITRATE, { ...mp3Copy, bitrate: 900000 })[1])
+      .toEqual({ fileId: 'high', action: 'skip', note: 'Already in the library at 900 kbps: /out/Song.mp3' });
+  });
+
+  it('overwrites the library copy a non-NCM FLAC source is planned onto', () => {
+    const kgm = { ...queued('kgm', { fingerprint: 'd', bitrate: 900000 }), name: 'Song.kgm', path: '/out/Song.kgm', innerFormat: 'flac' as const };
+    const library = track('/out/Song.flac', { fingerprint: 'd', bitrate: 320000 });
+    const settings = { ...defaultSettings(true), outputFormat: OutputFormat.ORIGINAL };
+    expect(resolveDuplicates({ id: 'kgm', match: 'audio', fileIds: ['kgm'], library }, DuplicatePolicy.REPLACE_LOWER_BITRATE, new Map([['kgm', kgm]]),
+      file => resolveOutputPath(file, settings, true))).toEqual([{ fileId: 'kgm', action: 'convert', overwritePolicy: OverwritePolicy.OVERWRITE }]);
+  });
+});
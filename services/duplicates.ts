@@ -0,0 +1,222 @@
+import { AudioFile, AudioIdentity, ConversionSettings, DuplicateGroup, DuplicatePolicy, LibraryTrack, OverwritePolicy } from '../types';
+import { folderOf } from './lyrics';
+import { sniffInnerFormat } from './ncm';
+import { id3UserTextField, id3v2Length, MUSIC_ID_FIELD, vorbisCommentField } from './tagWriter';
+import type { ByteSource } from './trackInfo';
+import { mp3Bitrate, readStreamInfo } from './verify';
+
+/**
+ * Finds copies of the same track among queued sources and in the output
+ * library: a song downloaded twice under different names, or one that was
+ * converted before.
+ *
+ * Copies are recognised by their NetEase song id, which NCM sources carry in
+ * their metadata and outputs in a tag (see `MUSIC_ID_FIELD`), and by a
+ * fingerprint of their audio frames, which a passthrough output shares with
+ * its decrypted source whatever tags surround them. An output transcoded to
+ * another format is only recognised by its id.
+ */
+
+/** A FLAC or MP3 file in the output library; mirrors `LibraryFile` in watcher.rs. */
+export interface LibraryFile {
+  path: string;
+  size: number;
+  modifiedAt: number; // ms since the epoch, 0 when unknown
+}
+
+/** What happens to one queued copy of a track. */
+export type DuplicateResolution =
+  | { fileId: string; action: 'skip'; note: string }
+  | { fileId: string; action: 'convert'; overwritePolicy?: OverwritePolicy; replaces?: string };
+
+export const DUPLICATE_POLICY_LABELS: Record<DuplicatePolicy, string> = {
+  [DuplicatePolicy.SKIP]: 'Skip',
+  [DuplicatePolicy.KEEP_BOTH]: 'Keep both',
+  [DuplicatePolicy.REPLACE_LOWER_BITRATE]: 'Replace lower bitrate',
+};
+
+// Two windows of the audio frames, at the start and in the middle: enough to
+// tell tracks apart without reading whole files across a library.
+const WINDOW_BYTES = 64 * 1024;
+const FLAC_STREAMINFO = 0;
+const FLAC_VORBIS_COMMENT = 4;
+// Text frames come before the cover in the tags we write, so the id is near the start
+const ID3_READ_LIMIT = 256 * 1024;
+const ID3V1_LENGTH = 128;
+
+/** Where the audio frames of a FLAC or MP3 stream are, and what its tags and headers tell. */
+interface AudioLayout {
+  start: number;
+  end: number;
+  taggedId?: string;
+  bitrate: (firstWindow: Uint8Array) => number;
+}
+
+const readFlacLayout = async (source: ByteSource): Promise<AudioLayout> => {
+  let offset = 4;
+  let seconds = 0;
+  let taggedId: string | undefined;
+  for (;;) {
+    if (offset + 4 > source.size) return { start: source.size, end: source.size, bitrate: () => 0 };
+    const header = await source.read(offset, 4);
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    const type = header[0] & 0x7f;
+    if (type === FLAC_STREAMINFO || type === FLAC_VORBIS_COMMENT) {
+      const body = await source.read(offset + 4, length);
+      if (type === FLAC_STREAMINFO) {
+        const { sampleRate, totalSamples } = readStreamInfo(body);
+        seconds = sampleRate > 0 ? totalSamples / sampleRate : 0;
+      } else {
+        taggedId = vorbisCommentField(body, MUSIC_ID_FIELD) ?? undefined;
+      }
+    }
+    offset += 4 + length;
+    if (header[0] & 0x80) break;
+  }
+  const frames = source.size - offset;
+  return { start: offset, end: source.size, taggedId, bitrate: () => (seconds > 0 ? Math.round((frames * 8) / seconds) : 0) };
+};
+
+const readMp3Layout = async (source: ByteSource, head: Uint8Array): Promise<AudioLayout> => {
+  const start = Math.min(id3v2Length(head), source.size);
+  const tag = start > 0 ? await source.read(0, Math.min(start, ID3_READ_LIMIT)) : null;
+  const tail = source.size - ID3V1_LENGTH >= start ? await source.read(source.size - ID3V1_LENGTH, 3) : null;
+  const hasId3v1 = !!tail && tail[0] === 0x54 && tail[1] === 0x41 && tail[2] === 0x47;
+  return {
+    start,
+    end: hasId3v1 ? source.size - ID3V1_LENGTH : source.size,
+    taggedId: tag ? id3UserTextField(tag, MUSIC_ID_FIELD) ?? undefined : undefined,
+    bitrate: firstWindow => mp3Bitrate(firstWindow, 0),
+  };
+};
+
+const parseMusicId = (value?: string): number | undefined => {
+  const id = Number(value?.trim());
+  return Number.isSafeInteger(id) && id > 0 ? id : undefined;
+};
+
+/**
+ * Identifies a FLAC or MP3 stream: a decrypted source (see `decryptedSource`),
+ * or an output in the library. `musicId` comes from the NCM metadata of a
+ * source; outputs carry theirs in their tags.
+ */
+export async function identifyAudio(source: ByteSource, musicId?: number): Promise<AudioIdentity> {
+  const head = await source.read(0, Math.min(10, source.size));
+  const layout = sniffInnerFormat(head) === 'flac' ? await readFlacLayout(source) : await readMp3Layout(source, head);
+  const frames = layout.end - layout.start;
+  if (frames <= 0) return { musicId: musicId ?? parseMusicId(layout.taggedId), fingerprint: null, bitrate: 0 };
+
+  const first = await source.read(layout.start, Math.min(WINDOW_BYTES, frames));
+  const windows = [first];
+  if (frames > 2 * WINDOW_BYTES) windows.push(await source.read(layout.start + Math.floor(frames / 2), WINDOW_BYTES));
+  const hashed = new Uint8Array(windows.reduce((sum, window) => sum + window.length, 0));
+  windows.reduce((offset, window) => { hashed.set(window, offset); return offset + window.length; }, 0);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', hashed));
+  const hex = Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+  return {
+    musicId: musicId ?? parseMusicId(layout.taggedId),
+    fingerprint: `${hex}:${frames}`,
+    bitrate: layout.bitrate(first),
+  };
+}
+
+/**
+ * Where the library of `files` is: the output directory with its subfolders,
+ * or the folders of the sources themselves, whose outputs land next to them.
+ */
+export function libraryFolders(files: AudioFile[], settings: ConversionSettings): { folders: string[]; recursive: boolean } {
+  if (settings.outputDirectory) return { folders: [settings.outputDirectory], recursive: true };
+  return { folders: Array.from(new Set(files.map(file => folderOf(file.path)))), recursive: false };
+}
+
+const keysOf = (identity: AudioIdentity): string[] => [
+  ...(identity.musicId ? [`id:${identity.musicId}`] : []),
+  ...(identity.fingerprint ? [`audio:${identity.fingerprint}`] : []),
+];
+
+/**
+ * Groups `files` that share an id or a fingerprint, directly or through one
+ * another, with the first library track matching any of them. Files without
+ * an `identity` are left out; so are groups of one file with no library copy.
+ * Groups come in the queue order of their first file.
+ */
+export function findDuplicates(files: AudioFile[], library: LibraryTrack[]): DuplicateGroup[] {
+  const identified = files.filter(file => file.identity);
+  const parent = identified.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const firstWithKey = new Map<string, number>();
+  identified.forEach((file, i) => keysOf(file.identity!).forEach(key => {
+    const first = firstWithKey.get(key);
+    if (first === undefined) firstWithKey.set(key, i);
+    else parent[root(i)] = root(first);
+  }));
+
+  const libraryByKey = new Map<string, LibraryTrack>();
+  library.forEach(track => keysOf(track).forEach(key => { if (!libraryByKey.has(key)) libraryByKey.set(key, track); }));
+
+  const members = new Map<number, number[]>();
+  identified.forEach((_, i) => members.set(root(i), [...(members.get(root(i)) ?? []), i]));
+  const groups: DuplicateGroup[] = [];
+  members.forEach(indices => {
+    const keys = indices.flatMap(i => keysOf(identified[i].identity!));
+    const libraryTrack = keys.map(key => libraryByKey.get(key)).find(track => track) ?? null;
+    if (indices.length < 2 && !libraryTrack) return;
+    const ids = keys.filter(key => key.startsWith('id:'));
+    const sharedId = new Set(ids).size < ids.length || (!!libraryTrack?.musicId && ids.includes(`id:${libraryTrack.musicId}`));
+    groups.push({
+      id: identified[indices[0]].id,
+      match: sharedId ? 'music-id' : 'audio',
+      fileIds: indices.map(i => identified[i].id),
+      library: libraryTrack,
+    });
+  });
+  return groups;
+}
+
+export const formatBitrate = (bitrate: number) => (bitrate > 0 ? `${Math.round(bitrate / 1000)} kbps` : 'unknown bitrate');
+
+/**
+ * What `policy` does with the queued copies of `group`; `files` holds them by id.
+ *
+ * - Skip: converts the first copy, or none when the library has the track.
+ * - Keep both: converts every copy; one that would land on a file already on
+ *   disk gets a numbered name instead of replacing it.
+ * - Replace lower bitrate: converts the copy with the highest bitrate (the
+ *   first of equals), and only when it beats the library copy, which is then
+ *   replaced: overwritten where `outputPathOf` puts the output on it, trashed
+ *   once the output checks out otherwise.
+ */
+export function resolveDuplicates(
+  group: DuplicateGroup,
+  policy: DuplicatePolicy,
+  files: Map<string, AudioFile>,
+  outputPathOf: (file: AudioFile) => string,
+): DuplicateResolution[] {
+  const copies = group.fileIds.map(id => files.get(id)).filter((file): file is AudioFile => !!file);
+  const { library } = group;
+  switch (policy) {
+    case DuplicatePolicy.SKIP:
+      return copies.map((file, i) => {
+        if (library) return { fileId: file.id, action: 'skip', note: `Already in the library: ${library.path}` };
+        return i === 0 ? { fileId: file.id, action: 'convert' } : { fileId: file.id, action: 'skip', note: `Duplicate of ${copies[0].name}` };
+      });
+    case DuplicatePolicy.KEEP_BOTH:
+      return copies.map(file => (library
+        ? { fileId: file.id, action: 'convert', overwritePolicy: OverwritePolicy.RENAME }
+        : { fileId: file.id, action: 'convert' }));
+    case DuplicatePolicy.REPLACE_LOWER_BITRATE: {
+      const bitrateOf = (file: AudioFile) => file.identity?.bitrate ?? 0;
+      const best = copies.reduce<AudioFile | undefined>((kept, file) => (!kept || bitrateOf(file) > bitrateOf(kept) ? file : kept), undefined);
+      return copies.map(file => {
+        if (file !== best) return { fileId: file.id, action: 'skip', note: `Duplicate of ${best!.name} (${formatBitrate(bitrateOf(best!))})` };
+        if (!library) return { fileId: file.id, action: 'convert' };
+        if (bitrateOf(file) > library.bitrate) {
+          return outputPathOf(file) === library.path
+            ? { fileId: file.id, action: 'convert', overwritePolicy: OverwritePolicy.OVERWRITE }
+            : { fileId: file.id, action: 'convert', replaces: library.path };
+        }
+        return { fileId: file.id, action: 'skip', note: `Already in the library at ${formatBitrate(library.bitrate)}: ${library.path}` };
+      });
+    }
+  }
+}
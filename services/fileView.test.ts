@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFile, ConversionStatus, TrackMetadata } from '../types';
+import { applyView, DEFAULT_VIEW, FileView, matchesQuery } from './fileView';
+
+const makeFile = (name: string, size: number, status: ConversionStatus, artists?: string[]): AudioFile => ({
+  id: name,
+  name,
+  path: `music/${name}`,
+  size,
+  status,
+  progress: 0,
+  metadata: artists && {
+    title: name.replace(/\.ncm$/, ''),
+    artists,
+    album: 'Greatest Hits',
+    durationMs: 180000,
+    bitrate: 320000,
+    format: 'flac',
+  } satisfies TrackMetadata,
+});
+
+const files = [
+  makeFile('Track 10.ncm', 300, ConversionStatus.COMPLETED, ['Zed']),
+  makeFile('Track 2.ncm', 100, ConversionStatus.FAILED),
+  makeFile('Track 1.ncm', 200, ConversionStatus.PENDING, ['Abba', 'Queen']),
+  makeFile('Intro.ncm', 200, ConversionStatus.IDLE, ['Muse']),
+];
+
+const names = (view: Partial<FileView>) => applyView(files, { ...DEFAULT_VIEW, ...view }).map(f => f.name);
+
+describe('applyView', () => {
+  it('keeps queue order by default', () => {
+    expect(names({})).toEqual(files.map(f => f.name));
+    expect(names({ descending: true })).toEqual(files.map(f => f.name).reverse());
+  });
+
+  it('sorts names naturally and sizes with ties in queue order', () => {
+    expect(names({ sort: 'name' })).toEqual(['Intro.ncm', 'Track 1.ncm', 'Track 2.ncm', 'Track 10.ncm']);
+    expect(names({ sort: 'size' })).toEqual(['Track 2.ncm', 'Track 1.ncm', 'Intro.ncm', 'Track 10.ncm']);
+    expect(names({ sort: 'size', descending: true })).toEqual(['Track 10.ncm', 'Track 1.ncm', 'Intro.ncm', 'Track 2.ncm']);
+  });
+
+  it('puts failures before pending and finished files', () => {
+    expect(names({ sort: 'status' })).toEqual(['Track 2.ncm', 'Track 1.ncm', 'Intro.ncm', 'Track 10.ncm']);
+  });
+
+  it('sorts by artist with untagged files last in both directions', () => {
+    expect(names({ sort: 'artist' })).toEqual(['Track 1.ncm', 'Intro.ncm', 'Track 10.ncm', 'Track 2.ncm']);
+    expect(names({ sort: 'artist', descending: true })).toEqual(['Track 10.ncm', 'Intro.ncm', 'Track 1.ncm', 'Track 2.ncm']);
+  });
+
+  it('filters by the groups the status cards count', () => {
+    expect(names({ filter: 'pending' })).toEqual(['Track 1.ncm', 'Intro.ncm']);
+    expect(names({ filter: 'failed' })).toEqual(['Track 2.ncm']);
+    expect(names({ filter: 'converted', query: 'track' })).toEqual(['Track 10.ncm']);
+  });
+});
+
+describe('matchesQuery', () => {
+  it('needs every term somewhere in the name or metadata', () => {
+    expect(matchesQuery(files[2], 'queen track')).toBe(true);
+    expect(matchesQuery(files[2], 'GREATEST')).toBe(true);
+    expect(matchesQuery(files[2], 'queen muse')).toBe(false);
+    expect(matchesQuery(files[1], 'hits')).toBe(false);
+    expect(matchesQuery(files[1], '  ')).toBe(true);
+  });
+});
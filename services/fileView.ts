@@ -0,0 +1,82 @@
+import { AudioFile, ConversionStatus } from '../types';
+
+export type SortKey = 'queue' | 'name' | 'size' | 'status' | 'artist';
+
+/** The same groups the status cards count; see `AppStats`. */
+export type StatusFilter = 'all' | 'converted' | 'pending' | 'failed';
+
+export interface FileView {
+  sort: SortKey;
+  descending: boolean;
+  filter: StatusFilter;
+  query: string;
+}
+
+export const DEFAULT_VIEW: FileView = { sort: 'queue', descending: false, filter: 'all', query: '' };
+
+export const SORT_LABELS: Record<SortKey, string> = {
+  queue: 'Queue order',
+  name: 'Name',
+  size: 'Size',
+  status: 'Status',
+  artist: 'Artist',
+};
+
+const FILTERS: Record<StatusFilter, (status: ConversionStatus) => boolean> = {
+  all: () => true,
+  converted: status => status === ConversionStatus.COMPLETED,
+  pending: status => status === ConversionStatus.PENDING || status === ConversionStatus.IDLE,
+  failed: status => status === ConversionStatus.FAILED,
+};
+
+// Files that need attention come first
+const STATUS_RANK: Record<ConversionStatus, number> = {
+  [ConversionStatus.CONVERTING]: 0,
+  [ConversionStatus.TAGGING]: 0,
+  [ConversionStatus.FAILED]: 1,
+  [ConversionStatus.PENDING]: 2,
+  [ConversionStatus.IDLE]: 2,
+  [ConversionStatus.CANCELLED]: 3,
+  [ConversionStatus.SKIPPED]: 4,
+  [ConversionStatus.COMPLETED]: 5,
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const artistOf = (file: AudioFile) => file.metadata?.artists.join(', ') ?? '';
+
+const COMPARATORS: Record<Exclude<SortKey, 'queue'>, (a: AudioFile, b: AudioFile) => number> = {
+  name: (a, b) => collator.compare(a.name, b.name),
+  size: (a, b) => a.size - b.size,
+  status: (a, b) => STATUS_RANK[a.status] - STATUS_RANK[b.status],
+  // Files without an artist sort last
+  artist: (a, b) => {
+    const [left, right] = [artistOf(a), artistOf(b)];
+    if (!left || !right) return Number(!left) - Number(!right);
+    return collator.compare(left, right);
+  },
+};
+
+/** True when every whitespace-separated term of `query` occurs in the name, title, artists or album. */
+export function matchesQuery(file: AudioFile, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const { metadata } = file;
+  const haystack = [file.name, metadata?.title, ...(metadata?.artists ?? []), metadata?.album]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return terms.every(term => haystack.includes(term));
+}
+
+/** The files to show for `view`, in display order. Ties keep queue order. */
+export function applyView(files: AudioFile[], view: FileView): AudioFile[] {
+  const matches = FILTERS[view.filter];
+  const shown = files.filter(file => matches(file.status) && matchesQuery(file, view.query));
+  if (view.sort === 'queue') return view.descending ? shown.reverse() : shown;
+  const compare = COMPARATORS[view.sort];
+  const ordered = view.descending ? (a: AudioFile, b: AudioFile) => compare(b, a) : compare;
+  if (view.sort !== 'artist') return shown.sort(ordered);
+  // Files without an artist stay last when descending too
+  return shown.sort((a, b) => (artistOf(a) && artistOf(b) ? ordered(a, b) : compare(a, b)));
+}
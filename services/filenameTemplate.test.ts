@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { TrackMetadata } from '../types';
+import { NamingSource, planOutputStems, renderTemplate, sanitizeSegment, validateTemplate } from './filenameTemplate';
+
+const metadata = (patch: Partial<TrackMetadata> = {}): TrackMetadata => ({
+  musicId: 42,
+  title: 'Song',
+  artists: ['A', 'B'],
+  album: 'Album',
+  durationMs: 1000,
+  bitrate: 320000,
+  format: 'mp3',
+  ...patch,
+});
+
+const source = (name: string, meta?: Partial<TrackMetadata> | null, id = name): NamingSource => ({
+  id,
+  name,
+  metadata: meta === null ? null : metadata(meta),
+});
+
+describe('renderTemplate', () => {
+  it('fills fields from the metadata and joins multiple artists', () => {
+    expect(renderTemplate('{artists} - {title}', source('x.ncm'))).toBe('A, B - Song');
+    expect(renderTemplate('{artist} - {title}', source('x.ncm'))).toBe('A - Song');
+    expect(renderTemplate('{originalName}', source('My File.ncm'))).toBe('My File');
+  });
+
+  it('creates sub-folders from the template but not from field values', () => {
+    expect(renderTemplate('{album}/{title}', source('x.ncm', { album: 'AC/DC Live' }))).toBe('AC_DC Live/Song');
+  });
+
+  it('zero-pads numeric fields and drops the left-overs of empty ones', () => {
+    expect(renderTemplate('{musicId:08}', source('x.ncm'))).toBe('00000042');
+    expect(renderTemplate('{album}/{track:02} {title}', source('x.ncm'))).toBe('Album/Song');
+    expect(renderTemplate('{artists} - {title}', source('x.ncm', { artists: [] }))).toBe('Song');
+  });
+
+  it('falls back to the source name when nothing renders', () => {
+    expect(renderTemplate('{title}', source('Fallback.ncm', null))).toBe('Fallback');
+  });
+});
+
+describe('sanitizeSegment', () => {
+  it('replaces characters that are illegal on any platform', () => {
+    expect(sanitizeSegment('What? <Live>: "A|B"*')).toBe('What_ _Live__ _A_B__');
+    expect(sanitizeSegment('tab\there\u0001')).toBe('tab_here_');
+  });
+
+  it('avoids names Windows rejects or silently changes', () => {
+    expect(sanitizeSegment('CON')).toBe('_CON');
+    expect(sanitizeSegment('nul.txt')).toBe('_nul.txt');
+    expect(sanitizeSegment('Ends with dots...')).toBe('Ends with dots');
+    expect(sanitizeSegment('..')).toBe('');
+  });
+
+  it('caps a segment below 255 bytes without splitting characters', () => {
+    const long = sanitizeSegment('歌'.repeat(200));
+    expect(new TextEncoder().encode(long).length).toBeLessThanOrEqual(255 - 16);
+    expect(long).toBe('歌'.repeat(79));
+  });
+});
+
+describe('validateTemplate', () => {
+  it('accepts known fields and reports the first problem otherwise', () => {
+    expect(validateTemplate('{album}/{track:02} {title}')).toBeNull();
+    expect(validateTemplate('{year}')).toBe('Unknown field {year}');
+    expect(validateTemplate('{title:abc}')).toBe('Unsupported format "abc" for {title}');
+    expect(validateTemplate('{title')).toBe('Unbalanced braces');
+    expect(validateTemplate('/{title}')).toBe('Template must be a relative path');
+    expect(validateTemplate('  ')).toBe('Template is empty');
+  });
+});
+
+describe('planOutputStems', () => {
+  const files = [source('1.ncm'), source('2.ncm', { title: 'SONG' }), source('3.ncm'), source('4.ncm', { title: 'Other' })];
+
+  it('numbers clashing names in the order given, case-insensitively', () => {
+    const plan = planOutputStems(files, '{title}', () => 'mp3');
+    expect(Array.from(plan.values())).toEqual(['Song', 'SONG (2)', 'Song (3)', 'Other']);
+  });
+
+  it('does not treat different extensions as a clash', () => {
+    const plan = planOutputStems(files.slice(0, 2), '{title}', file => (file.id === '1.ncm' ? 'flac' : 'mp3'));
+    expect(Array.from(plan.values())).toEqual(['Song', 'SONG']);
+  });
+
+  it('avoids names already taken by other files', () => {
+    const plan = planOutputStems([files[0]], '{title}', () => 'mp3', [['song', 'mp3']]);
+    expect(plan.get('1.ncm')).toBe('Song (2)');
+  });
+});
@@ -0,0 +1,158 @@
+import { InnerFormat, TrackMetadata } from '../types';
+import { stripSourceExtension } from './decoders';
+
+/**
+ * Output file names built from track metadata.
+ *
+ * A template is literal text with `{field}` placeholders; `/` in the literal
+ * text starts a sub-folder. Numeric fields take a zero-padding width, as in
+ * `{track:02}`. Rendering yields a relative path without extension, sanitised
+ * for Windows, macOS and Linux alike.
+ */
+
+export const DEFAULT_TEMPLATE = '{originalName}';
+
+export const TEMPLATE_FIELDS: Record<string, string> = {
+  originalName: 'Source file name without extension',
+  title: 'Track title',
+  artists: 'All artists, comma separated',
+  artist: 'First artist',
+  album: 'Album',
+  track: 'Track number (NCM files do not carry one)',
+  musicId: 'NetEase song id',
+  format: 'flac or mp3',
+};
+
+export interface NamingSource {
+  id: string;
+  name: string;
+  metadata?: TrackMetadata | null;
+  innerFormat?: InnerFormat;
+}
+
+type FieldValues = Record<string, string | number | undefined>;
+
+const PLACEHOLDER = /\{(\w+)(?::([^}]*))?\}/g;
+const ARTIST_SEPARATOR = ', ';
+// Characters Windows rejects (a superset of what macOS and Linux reject), plus control characters.
+const ILLEGAL_CHARS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+// Most filesystems cap a single name at 255 bytes. Leave room for the
+// extension and a " (n)" collision suffix. The whole path depends on the
+// output folder, so `buildPlan` checks that.
+const MAX_NAME_BYTES = 255 - 16;
+
+const fieldValues = (file: NamingSource): FieldValues => {
+  const metadata = file.metadata ?? undefined;
+  return {
+    originalName: stripSourceExtension(file.name),
+    title: metadata?.title,
+    artists: metadata?.artists.join(ARTIST_SEPARATOR),
+    artist: metadata?.artists[0],
+    album: metadata?.album,
+    track: undefined,
+    musicId: metadata?.musicId,
+    format: file.innerFormat ?? metadata?.format,
+  };
+};
+
+/** Returns a description of the first problem in `template`, or null when it is usable. */
+export function validateTemplate(template: string): string | null {
+  if (!template.trim()) return 'Template is empty';
+  if (/^[\\/]/.test(template.trim())) return 'Template must be a relative path';
+  for (const [, field, spec] of template.matchAll(PLACEHOLDER)) {
+    if (!(field in TEMPLATE_FIELDS)) return `Unknown field {${field}}`;
+    if (spec !== undefined && !/^0\d+$/.test(spec)) return `Unsupported format "${spec}" for {${field}}`;
+  }
+  if (/[{}]/.test(template.replace(PLACEHOLDER, ''))) return 'Unbalanced braces';
+  return null;
+}
+
+const truncateBytes = (text: string, maxBytes: number) => {
+  const encoder = new TextEncoder();
+  let bytes = 0;
+  let out = '';
+  // Iterate by code point so surrogate pairs are never split.
+  for (const char of text) {
+    bytes += encoder.encode(char).length;
+    if (bytes > maxBytes) break;
+    out += char;
+  }
+  return out;
+};
+
+/** Makes one path segment safe on every platform; may return an empty string. */
+export function sanitizeSegment(segment: string): string {
+  let clean = segment
+    .normalize('NFC')
+    .replace(ILLEGAL_CHARS, '_')
+    .replace(/\s+/g, ' ')
+    // Left-overs of empty fields ("- Title", "Artist -") and dots Windows drops silently
+    .replace(/^[\s\-–—.]+/, '')
+    .replace(/[\s\-–—.]+$/, '');
+  clean = truncateBytes(clean, MAX_NAME_BYTES).trimEnd().replace(/\.+$/, '');
+  return RESERVED_NAMES.test(clean) ? `_${clean}` : clean;
+}
+
+const formatValue = (value: string | number | undefined, spec: string | undefined): string => {
+  if (value === undefined || value === '') return '';
+  if (spec && typeof value === 'number') return String(value).padStart(Number(spec), '0');
+  // Separators inside values must not create folders ("AC/DC").
+  return String(value).replace(/[\\/]/g, '_');
+};
+
+/**
+ * Renders `template` for `file` into a relative output path without extension.
+ * Falls back to the source name when the template renders empty (e.g. no metadata).
+ */
+export function renderTemplate(template: string, file: NamingSource): string {
+  const values = fieldValues(file);
+  const rendered = template.replace(PLACEHOLDER, (_, field: string, spec?: string) => formatValue(values[field], spec));
+  const segments = rendered.split(/[\\/]/).map(sanitizeSegment).filter(Boolean);
+  if (segments.length > 0) return segments.join('/');
+  return sanitizeSegment(stripSourceExtension(file.name)) || 'untitled';
+}
+
+const collisionKey = (stem: string, extension: string) => `${stem}.${extension}`.normalize('NFC').toLowerCase();
+
+/**
+ * Plans output paths (without extension) for a batch.
+ *
+ * Files are named in the order given; when two would end up with the same
+ * path (compared case-insensitively, as on Windows and macOS), later ones get
+ * " (2)", " (3)", ... so the outcome never depends on conversion timing.
+ * `taken` lists `[stem, extension]` pairs already claimed by other files.
+ */
+export function planOutputStems(
+  files: NamingSource[],
+  template: string,
+  extensionOf: (file: NamingSource) => string,
+  taken: [string, string][] = [],
+): Map<string, string> {
+  const used = new Set(taken.map(([stem, extension]) => collisionKey(stem, extension)));
+  const plan = new Map<string, string>();
+  for (const file of files) {
+    const base = renderTemplate(template, file);
+    const extension = extensionOf(file);
+    let stem = base;
+    for (let n = 2; used.has(collisionKey(stem, extension)); n++) stem = `${base} (${n})`;
+    used.add(collisionKey(stem, extension));
+    plan.set(file.id, stem);
+  }
+  return plan;
+}
+
+/** Sample used for the settings preview when no file with metadata is loaded. */
+export const SAMPLE_SOURCE: NamingSource = {
+  id: 'sample',
+  name: 'Sample Song.ncm',
+  metadata: {
+    musicId: 1234567,
+    title: 'Sample Song',
+    artists: ['First Artist', 'Second Artist'],
+    album: 'Sample Album',
+    durationMs: 215000,
+    bitrate: 999000,
+    format: 'flac',
+  },
+};
@@ -0,0 +1,129 @@
+import { ConversionStatus, HistoryBatch, HistoryRecord } from '../types';
+import { ByteSource } from './trackInfo';
+
+const DB_NAME = 'sonictransmute';
+const DB_VERSION = 1;
+const BATCHES = 'batches';
+const RECORDS = 'records';
+
+// Encrypted downloads differ from their first bytes on (the NCM key block, or
+// audio under a per-file key), so the first 64 KB and the size identify the
+// content well enough.
+const FINGERPRINT_BYTES = 64 * 1024;
+
+/** Content fingerprint of a source file: SHA-256 of its first 64 KB, plus its size. */
+export async function fingerprint(source: ByteSource): Promise<string> {
+  const head = await source.read(0, Math.min(FINGERPRINT_BYTES, source.size));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', head));
+  const hex = Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex}:${source.size}`;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Conversion history, persisted in IndexedDB so it survives restarts in the
+ * browser and in the Tauri webview alike.
+ *
+ * Every finished file adds a record; records are looked up by source path plus
+ * content fingerprint, so a file that was replaced by a new download under the
+ * same name is not mistaken for one converted before.
+ */
+export class HistoryStore {
+  private static instance: HistoryStore;
+  private db: Promise<IDBDatabase> | null = null;
+
+  public static getInstance(): HistoryStore {
+    if (!HistoryStore.instance) {
+      HistoryStore.instance = new HistoryStore();
+    }
+    return HistoryStore.instance;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(BATCHES, { keyPath: 'id' });
+        const records = db.createObjectStore(RECORDS, { keyPath: 'id', autoIncrement: true });
+        records.createIndex('batchId', 'batchId');
+        records.createIndex('source', ['sourcePath', 'fingerprint']);
+      };
+      this.db = promisify(request);
+      // Let a later call try again instead of caching the failure.
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  public async saveBatch(batch: HistoryBatch): Promise<void> {
+    const tx = (await this.open()).transaction(BATCHES, 'readwrite');
+    tx.objectStore(BATCHES).put(batch);
+    await transactionDone(tx);
+  }
+
+  public async addRecord(record: HistoryRecord): Promise<void> {
+    const tx = (await this.open()).transaction(RECORDS, 'readwrite');
+    tx.objectStore(RECORDS).add(record);
+    await transactionDone(tx);
+  }
+
+  /** The most recent successful conversion of this exact source, if any. */
+  public async findConverted(sourcePath: string, fingerprint: string): Promise<HistoryRecord | undefined> {
+    const tx = (await this.open()).transaction(RECORDS, 'readonly');
+    const records: HistoryRecord[] = await promisify(
+      tx.objectStore(RECORDS).index('source').getAll([sourcePath, fingerprint]),
+    );
+    return records
+      .filter(r => r.status === ConversionStatus.COMPLETED)
+      .reduce<HistoryRecord | undefined>((latest, r) => (!latest || r.finishedAt > latest.finishedAt ? r : latest), undefined);
+  }
+
+  /** All batches, newest first. */
+  public async listBatches(): Promise<HistoryBatch[]> {
+    const tx = (await this.open()).transaction(BATCHES, 'readonly');
+    const batches: HistoryBatch[] = await promisify(tx.objectStore(BATCHES).getAll());
+    return batches.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  public async listRecords(batchId: string): Promise<HistoryRecord[]> {
+    const tx = (await this.open()).transaction(RECORDS, 'readonly');
+    const records: HistoryRecord[] = await promisify(tx.objectStore(RECORDS).index('batchId').getAll(batchId));
+    return records.sort((a, b) => a.finishedAt - b.finishedAt);
+  }
+
+  /** Points records at outputs that were moved since (see playlist.ts), by old and new path. */
+  public async relocateOutputs(moves: { from: string; to: string }[]): Promise<void> {
+    const destinations = new Map(moves.map(move => [move.from, move.to]));
+    const tx = (await this.open()).transaction(RECORDS, 'readwrite');
+    const request = tx.objectStore(RECORDS).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const record: HistoryRecord = cursor.value;
+      const to = record.outputPath && destinations.get(record.outputPath);
+      if (to) cursor.update({ ...record, outputPath: to, outputName: to.split(/[\\/]/).pop() });
+      cursor.continue();
+    };
+    await transactionDone(tx);
+  }
+
+  public async clear(): Promise<void> {
+    const tx = (await this.open()).transaction([BATCHES, RECORDS], 'readwrite');
+    tx.objectStore(BATCHES).clear();
+    tx.objectStore(RECORDS).clear();
+    await transactionDone(tx);
+  }
+}
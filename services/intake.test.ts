@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFile, ConversionStatus } from '../types';
+import { DROPPED_ROOT, pickedFromEntries, pickedFromInput, rootLabel, sourceRoots, withoutQueued } from './intake';
+
+const fileEntry = (fullPath: string): FileSystemEntry => {
+  const name = fullPath.split('/').pop()!;
+  return { isFile: true, isDirectory: false, name, fullPath, file: (resolve: (file: File) => void) => resolve(new File(['x'], name)) } as unknown as FileSystemEntry;
+};
+
+/** A folder whose reader hands out its children two at a time, like browsers do in batches. */
+const folderEntry = (fullPath: string, children: FileSystemEntry[]): FileSystemEntry => ({
+  isFile: false,
+  isDirectory: true,
+  name: fullPath.split('/').pop()!,
+  fullPath,
+  createReader: () => {
+    let offset = 0;
+    return {
+      readEntries: (resolve: (entries: FileSystemEntry[]) => void) => {
+        resolve(children.slice(offset, offset + 2));
+        offset += 2;
+      },
+    };
+  },
+}) as unknown as FileSystemEntry;
+
+describe('pickedFromEntries', () => {
+  it('walks dropped folders recursively, each one its own root', async () => {
+    const picked = await pickedFromEntries([
+      folderEntry('/Downloads', [
+        fileEntry('/Downloads/a.ncm'),
+        folderEntry('/Downloads/Album', [fileEntry('/Downloads/Album/b.ncm')]),
+        fileEntry('/Downloads/c.kgm'),
+      ]),
+      fileEntry('/loose.qmcflac'),
+    ]);
+
+    expect(picked.map(({ path, root }) => [path, root])).toEqual([
+      ['Downloads/a.ncm', 'Downloads'],
+      ['Downloads/Album/b.ncm', 'Downloads'],
+      ['Downloads/c.kgm', 'Downloads'],
+      ['loose.qmcflac', DROPPED_ROOT],
+    ]);
+  });
+});
+
+describe('pickedFromInput', () => {
+  it('roots picked folders at the selected folder', () => {
+    const file = new File(['x'], 'a.ncm');
+    Object.defineProperty(file, 'webkitRelativePath', { value: 'Music/Album/a.ncm' });
+
+    expect(pickedFromInput([file])).toEqual([{ file, path: 'Music/Album/a.ncm', root: 'Music' }]);
+  });
+});
+
+describe('withoutQueued', () => {
+  it('drops paths already queued or repeated', () => {
+    const files = [{ path: 'a' }, { path: 'b' }, { path: 'a' }, { path: 'c' }];
+    expect(withoutQueued(files, ['b'])).toEqual([{ path: 'a' }, { path: 'c' }]);
+  });
+});
+
+describe('sourceRoots', () => {
+  it('counts files per root in the order roots were added', () => {
+    const file = (root?: string) => ({ id: '', name: '', path: '', size: 0, status: ConversionStatus.PENDING, progress: 0, root }) as AudioFile;
+    expect(sourceRoots([file('/b'), file('/a'), file('/b'), file()])).toEqual([
+      { root: '/b', count: 2 },
+      { root: '/a', count: 1 },
+    ]);
+    expect(rootLabel('C:\\Users\\me\\Music\\')).toBe('Music');
+  });
+});
@@ -0,0 +1,90 @@
+import { AudioFile, LyricsSidecar } from '../types';
+import { isLyricsFile } from './lyrics';
+
+/** A file picked or dropped in the browser, with where it came from. */
+export interface PickedFile {
+  file: File;
+  path: string; // relative, starting with the picked or dropped folder, like `webkitRelativePath`
+  root: string;
+}
+
+/** Root of files dropped on their own, outside any folder; the browser never sees their real folder. */
+export const DROPPED_ROOT = 'Dropped files';
+
+/** Files from a `webkitdirectory` input. The selected folder is their root. */
+export function pickedFromInput(files: ArrayLike<File>): PickedFile[] {
+  return Array.from(files, file => {
+    const path = file.webkitRelativePath || file.name;
+    return { file, path, root: path.includes('/') ? path.split('/')[0] : DROPPED_ROOT };
+  });
+}
+
+/**
+ * Files from a DOM drop, with dropped folders searched recursively. The
+ * entries are taken before the first await: the browser empties the
+ * `DataTransfer` once the drop handler returns.
+ */
+export function pickedFromDrop(dataTransfer: DataTransfer): Promise<PickedFile[]> {
+  const entries = Array.from(dataTransfer.items, item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.some(entry => !entry)) {
+    // No entries API: only top-level files come through
+    return Promise.resolve(pickedFromInput(dataTransfer.files));
+  }
+  return pickedFromEntries(entries as FileSystemEntry[]);
+}
+
+/** Walks dropped entries in order; each top-level folder becomes the root of the files inside it. */
+export async function pickedFromEntries(entries: FileSystemEntry[]): Promise<PickedFile[]> {
+  const picked: PickedFile[] = [];
+  for (const entry of entries) {
+    const root = entry.isDirectory ? entry.name : DROPPED_ROOT;
+    for await (const file of walk(entry)) {
+      picked.push({ file: file.file, path: root === DROPPED_ROOT ? file.file.name : file.path, root });
+    }
+  }
+  return picked;
+}
+
+async function* walk(entry: FileSystemEntry): AsyncGenerator<{ file: File; path: string }> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    yield { file, path: entry.fullPath.replace(/^\//, '') };
+    return;
+  }
+  if (!entry.isDirectory) return;
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // Directory readers hand out entries in batches until one comes back empty
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return;
+    for (const child of batch) yield* walk(child);
+  }
+}
+
+/** The `.lrc` files among `picked`, to match against the sources picked with them. */
+export function lyricsFromPicked(picked: PickedFile[]): LyricsSidecar[] {
+  return picked.filter(p => isLyricsFile(p.file.name)).map(p => ({ name: p.file.name, path: p.path, source: p.file }));
+}
+
+/** Leaves out files whose path is already queued or came earlier in `files`. */
+export function withoutQueued<T extends { path: string }>(files: T[], queuedPaths: Iterable<string>): T[] {
+  const seen = new Set(queuedPaths);
+  return files.filter(file => !seen.has(file.path) && !!seen.add(file.path));
+}
+
+export interface SourceRoot {
+  root: string;
+  count: number; // files queued from it
+}
+
+/** The roots files were queued from, in the order they were first added. */
+export function sourceRoots(files: AudioFile[]): SourceRoot[] {
+  const counts = new Map<string, number>();
+  files.forEach(file => {
+    if (file.root) counts.set(file.root, (counts.get(file.root) ?? 0) + 1);
+  });
+  return Array.from(counts, ([root, count]) => ({ root, count }));
+}
+
+/** Last segment of a root, for display; desktop roots are absolute paths. */
+export const rootLabel = (root: string) => root.split(/[\\/]/).filter(Boolean).pop() ?? root;
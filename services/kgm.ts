@@ -0,0 +1,89 @@
+import { ConversionErrorCode } from '../types';
+import { ConversionFailure } from './conversionErrors';
+import type { Decoder } from './decoders';
+import { md5 } from './md5';
+
+/**
+ * Kugou decoder (.kgm, .kgma, .vpr).
+ *
+ * Header layout (integers little endian):
+ *   magic (16) | audio offset (4) | crypto version (4) | key slot (4)
+ *   test data (16) | file key (16)
+ * Version 3 XORs the audio with two MD5-derived boxes, one from the file key
+ * and one from a fixed per-slot key, plus a byte folded from the position.
+ * VPR files (Kugou's "Viper" sound effects) add one more fixed mask on top.
+ * Mirrors `kgm.rs`.
+ */
+
+const KGM_MAGIC = [0x7c, 0xd5, 0x32, 0xeb, 0x86, 0x02, 0x7f, 0x4b, 0xa8, 0xaf, 0xa6, 0x8e, 0x0f, 0xff, 0x99, 0x14];
+const VPR_MAGIC = [0x05, 0x28, 0xbc, 0x96, 0xe9, 0xe4, 0x5a, 0x43, 0x91, 0xaa, 0xbd, 0xd0, 0x7a, 0xf5, 0x36, 0x31];
+const VPR_MASK = [0x25, 0xdf, 0xe8, 0xa6, 0x75, 0x1e, 0x75, 0x0e, 0x2f, 0x80, 0xf3, 0x2d, 0xb8, 0xb6, 0xe3, 0x11, 0x00];
+const SLOT_KEYS: Record<number, number[]> = {
+  1: [0x6c, 0x2c, 0x2f, 0x27],
+};
+const HEADER_LENGTH = 0x3c;
+const FILE_KEY_OFFSET = 0x2c;
+const SUPPORTED_VERSION = 3;
+
+const startsWith = (head: Uint8Array, magic: number[]) =>
+  head.length >= magic.length && magic.every((byte, i) => head[i] === byte);
+
+/** MD5 with its 16-bit words in reverse order, as Kugou uses it. */
+const kugouMd5 = (data: Uint8Array): Uint8Array => {
+  const digest = md5(data);
+  const out = new Uint8Array(16);
+  for (let i = 0; i < 16; i += 2) {
+    out[i] = digest[14 - i];
+    out[i + 1] = digest[15 - i];
+  }
+  return out;
+};
+
+/** Builds the version 3 keystream from the key slot and the 16-byte file key. */
+export function kgmKeystream(slot: number, fileKey: Uint8Array, isVpr: boolean) {
+  const slotKey = SLOT_KEYS[slot];
+  if (!slotKey) {
+    throw new ConversionFailure(ConversionErrorCode.UNSUPPORTED_FORMAT, `Unknown KGM key slot ${slot}`);
+  }
+  const slotBox = kugouMd5(new Uint8Array(slotKey));
+  const fileBox = new Uint8Array(17);
+  fileBox.set(kugouMd5(fileKey));
+  fileBox[16] = 0x6b;
+
+  return (data: Uint8Array, position: number) => {
+    for (let i = 0; i < data.length; i++) {
+      const offset = position + i;
+      let byte = data[i] ^ fileBox[offset % 17];
+      byte ^= (byte << 4) & 0xff;
+      byte ^= slotBox[offset % 16];
+      byte ^= (offset ^ (offset >>> 8) ^ (offset >>> 16) ^ (offset >>> 24)) & 0xff;
+      if (isVpr) byte ^= VPR_MASK[offset % 17];
+      data[i] = byte;
+    }
+  };
+}
+
+export const kgmDecoder: Decoder = {
+  format: 'kgm',
+  label: 'KGM',
+  extensions: ['kgm', 'kgma', 'vpr'],
+  matchesMagic: head => startsWith(head, KGM_MAGIC) || startsWith(head, VPR_MAGIC),
+  async open(source) {
+    const header = await source.read(0, HEADER_LENGTH);
+    if (header.length < HEADER_LENGTH) {
+      throw new ConversionFailure(ConversionErrorCode.TRUNCATED_AUDIO, 'Unexpected end of KGM file');
+    }
+    const view = new DataView(header.buffer, header.byteOffset, HEADER_LENGTH);
+    const audioOffset = view.getUint32(0x10, true);
+    const version = view.getUint32(0x14, true);
+    if (version !== SUPPORTED_VERSION) {
+      throw new ConversionFailure(ConversionErrorCode.UNSUPPORTED_FORMAT, `KGM encryption version ${version} is not supported`);
+    }
+    const decrypt = kgmKeystream(
+      view.getUint32(0x18, true),
+      header.slice(FILE_KEY_OFFSET, FILE_KEY_OFFSET + 16),
+      startsWith(header, VPR_MAGIC),
+    );
+    return { audioOffset, audioLength: source.size - audioOffset, decrypt, trackInfo: null };
+  },
+};
@@ -0,0 +1,57 @@
+import { ConversionErrorCode } from '../types';
+import { ConversionFailure } from './conversionErrors';
+import type { Decoder } from './decoders';
+
+/**
+ * Kuwo decoder (.kwm).
+ *
+ * A 0x400 byte header precedes the audio:
+ *   magic (16) | cipher version (4) | unused (4) | resource id (8, little endian) ...
+ * Version 1 XORs the audio with a 32-byte mask: a fixed key XORed with the
+ * decimal resource id, repeated or cut to 32 characters. Version 2 files need
+ * a key from the Kuwo client. Mirrors `kwm.rs`.
+ */
+
+const MAGICS = ['yeelion-kuwo-tme', 'yeelion-kuwo\0\0\0\0'];
+const PRESET_KEY = 'MoOtOiTvINGwd2E6n0E1i7L5t2IoOoNk';
+const HEADER_LENGTH = 0x400;
+const CLIENT_KEY_VERSION = 2;
+
+const matchesMagic = (head: Uint8Array) =>
+  MAGICS.some(magic => head.length >= magic.length && Array.from(magic).every((char, i) => head[i] === char.charCodeAt(0)));
+
+/** The 32-byte version 1 mask for a resource id. */
+export function kwmMask(resourceId: bigint): Uint8Array {
+  const digits = resourceId.toString();
+  const mask = new Uint8Array(PRESET_KEY.length);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = PRESET_KEY.charCodeAt(i) ^ digits.charCodeAt(i % digits.length);
+  }
+  return mask;
+}
+
+export const kwmDecoder: Decoder = {
+  format: 'kwm',
+  label: 'KWM',
+  extensions: ['kwm'],
+  matchesMagic,
+  async open(source) {
+    const header = await source.read(0, HEADER_LENGTH);
+    if (header.length < HEADER_LENGTH) {
+      throw new ConversionFailure(ConversionErrorCode.TRUNCATED_AUDIO, 'Unexpected end of KWM file');
+    }
+    const view = new DataView(header.buffer, header.byteOffset, HEADER_LENGTH);
+    if (view.getUint32(0x10, true) === CLIENT_KEY_VERSION) {
+      throw new ConversionFailure(ConversionErrorCode.UNSUPPORTED_FORMAT, 'This KWM file needs a key from the Kuwo client');
+    }
+    const mask = kwmMask(view.getBigUint64(0x18, true));
+    return {
+      audioOffset: HEADER_LENGTH,
+      audioLength: source.size - HEADER_LENGTH,
+      decrypt: (data, position) => {
+        for (let i = 0; i < data.length; i++) data[i] ^= mask[(position + i) & 0x1f];
+      },
+      trackInfo: null,
+    };
+  },
+};
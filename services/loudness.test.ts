@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFile, ConversionStatus, Loudness, TrackMetadata } from '../types';
+import { albumGains, albumLoudness, LoudnessMeter, measureLoudness, replayGainTags } from './loudness';
+
+const RATE = 48000;
+
+const sine = (seconds: number, amplitude: number, frequency = 1000, phase = 0) =>
+  Float32Array.from({ length: Math.round(seconds * RATE) }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / RATE + phase));
+
+const stereo = (channel: Float32Array) => [channel, channel.slice()];
+
+const metadata = (album: string): TrackMetadata =>
+  ({ title: 'Song', artists: ['Band'], album, durationMs: 1000, bitrate: 320_000, format: 'flac' });
+
+const measured = (id: string, loudness: Loudness, album?: string): AudioFile => ({
+  id,
+  name: `${id}.ncm`,
+  path: `/music/${id}.ncm`,
+  size: 1024,
+  status: ConversionStatus.COMPLETED,
+  progress: 100,
+  metadata: album ? metadata(album) : undefined,
+  loudness,
+});
+
+describe('measureLoudness', () => {
+  it('reads a full-scale 1 kHz sine in both channels as 0 LUFS', () => {
+    const loudness = measureLoudness(stereo(sine(3, 1)), RATE)!;
+    expect(loudness.integratedLufs).toBeCloseTo(0, 1);
+    expect(loudness.trackGainDb).toBeCloseTo(-18, 1);
+  });
+
+  it('follows the level and the channel count', () => {
+    expect(measureLoudness(stereo(sine(3, 0.5)), RATE)!.integratedLufs).toBeCloseTo(-6.02, 1);
+    expect(measureLoudness([sine(3, 0.5)], RATE)!.integratedLufs).toBeCloseTo(-9.03, 1);
+  });
+
+  it('gets the same result at 44.1 kHz', () => {
+    const rate = 44100;
+    const channel = Float32Array.from({ length: 3 * rate }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 1000 * i) / rate));
+    expect(measureLoudness(stereo(channel), rate)!.integratedLufs).toBeCloseTo(-6.02, 1);
+  });
+
+  it('leaves quiet passages out through the relative gate', () => {
+    const loud = sine(3, 0.5);
+    const track = new Float32Array(loud.length * 2);
+    track.set(loud);
+    track.set(sine(3, 0.005), loud.length); // 40 dB down
+    expect(measureLoudness(stereo(track), RATE)!.integratedLufs).toBeCloseTo(-6.02, 0);
+  });
+
+  it('has no loudness for silence or audio shorter than a block', () => {
+    expect(measureLoudness(stereo(new Float32Array(RATE)), RATE)).toBeNull();
+    expect(measureLoudness(stereo(sine(0.3, 0.5)), RATE)).toBeNull();
+  });
+
+  it('finds peaks between the samples', () => {
+    // A quarter of the sample rate, sampled 45 degrees off its crests: every sample is at 0.707
+    const channel = sine(1, 1, RATE / 4, Math.PI / 4);
+    const loudness = measureLoudness([channel], RATE)!;
+    expect(Math.max(...channel.map(Math.abs))).toBeCloseTo(Math.SQRT1_2, 3);
+    expect(loudness.truePeak).toBeGreaterThan(0.95);
+  });
+
+  it('measures the same in chunks as at once', () => {
+    const channels = stereo(sine(2, 0.25, 440));
+    const meter = new LoudnessMeter(RATE, 2);
+    for (let start = 0; start < channels[0].length; start += 1234) {
+      meter.add(channels.map(channel => channel.subarray(start, start + 1234)));
+    }
+    const chunked = meter.finish()!;
+    const whole = measureLoudness(channels, RATE)!;
+    expect(chunked.integratedLufs).toBeCloseTo(whole.integratedLufs, 6);
+    expect(chunked.truePeak).toBeCloseTo(whole.truePeak, 6);
+  });
+});
+
+describe('albumLoudness', () => {
+  it('gates the blocks of every track together', () => {
+    const loud = measureLoudness(stereo(sine(3, 0.5)), RATE)!;
+    const quiet = measureLoudness(stereo(sine(3, 0.125)), RATE)!;
+    const album = albumLoudness([loud, quiet])!;
+    // 12 dB apart: both pass the gate, and (0.25² + 0.0625²) / 2 of the energy is -8.77 LUFS
+    expect(album.albumGainDb).toBeCloseTo(-18 + 8.77, 1);
+    expect(album.albumPeak).toBe(loud.truePeak);
+  });
+});
+
+describe('albumGains', () => {
+  it('groups converted tracks by album and skips those without album details', () => {
+    const loud = measureLoudness(stereo(sine(1, 0.5)), RATE)!;
+    const gains = albumGains([
+      measured('a', loud, 'Album'),
+      measured('b', loud, 'Album'),
+      measured('c', loud, 'Other'),
+      measured('d', loud),
+    ]);
+    expect([...gains.keys()].sort()).toEqual(['a', 'b', 'c']);
+    expect(gains.get('a')!.albumGainDb).toBeCloseTo(loud.trackGainDb, 6);
+  });
+});
+
+describe('replayGainTags', () => {
+  it('writes the track pair, and the album pair once known', () => {
+    const loudness: Loudness = { integratedLufs: -11.48, truePeak: 0.98765432, trackGainDb: -6.52, blocks: new Float64Array() };
+    expect(replayGainTags(loudness)).toEqual({ REPLAYGAIN_TRACK_GAIN: '-6.52 dB', REPLAYGAIN_TRACK_PEAK: '0.987654' });
+    expect(replayGainTags({ ...loudness, albumGainDb: 1.5, albumPeak: 1.02 })).toEqual({
+      REPLAYGAIN_TRACK_GAIN: '-6.52 dB',
+      REPLAYGAIN_TRACK_PEAK: '0.987654',
+      REPLAYGAIN_ALBUM_GAIN: '1.50 dB',
+      REPLAYGAIN_ALBUM_PEAK: '1.020000',
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { AudioFile, ConversionStatus, Loudness } from '../types';
+import { albumKeyOf } from './playlist';
+
+/**
+ * Loudness of converted tracks after EBU R128 (ITU-R BS.1770-4), and the
+ * ReplayGain 2.0 tags derived from it.
+ *
+ * The audio is K-weighted and cut into 400 ms blocks, overlapping by 75%.
+ * Blocks below -70 LUFS are dropped, then those more than 10 LU below the
+ * loudness of the rest; what remains is the integrated loudness. Album
+ * loudness gates the blocks of all its tracks together, which is why the
+ * blocks are kept with each track.
+ *
+ * The true peak is found by interpolating to four times the sample rate.
+ */
+
+/** ReplayGain 2.0 plays every track at this loudness. */
+export const REFERENCE_LUFS = -18;
+
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const SEGMENTS_PER_BLOCK = 4; // 100 ms steps of a 400 ms block
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+const energyToLufs = (energy: number) => -0.691 + 10 * Math.log10(energy);
+const lufsToEnergy = (lufs: number) => 10 ** ((lufs + 0.691) / 10);
+
+const ABSOLUTE_GATE_ENERGY = lufsToEnergy(ABSOLUTE_GATE_LUFS);
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/** The two stages of the K-weighting filter for `sampleRate`: a high shelf for the head, then a high-pass. */
+const kWeighting = (sampleRate: number): [Biquad, Biquad] => {
+  // The BS.1770 coefficients are given for 48 kHz; these are the analogue filters behind them
+  let f0 = 1681.974450955533;
+  const gainDb = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = 10 ** (gainDb / 20);
+  const vb = vh ** 0.4996667741545416;
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = { b0: 1, b1: -2, b2: 1, a1: (2 * (k * k - 1)) / a0, a2: (1 - k / q + k * k) / a0 };
+  return [shelf, highPass];
+};
+
+/** Surround channels count 1.41 times, the LFE not at all; in the 5.1 order of Web Audio and FFmpeg. */
+const channelWeights = (channelCount: number): number[] =>
+  channelCount === 6 ? [1, 1, 1, 0, 1.41, 1.41] : Array.from({ length: channelCount }, () => 1);
+
+/**
+ * Windowed-sinc interpolation filter for 4x oversampling, split into its
+ * phases. The phase that lands on the original samples is left out: those
+ * are covered by the sample peak.
+ */
+const INTERPOLATION_PHASES: Float64Array[] = (() => {
+  const length = OVERSAMPLING * TAPS_PER_PHASE;
+  const centre = length / 2;
+  const taps = Array.from({ length: length + 1 }, (_, n) => {
+    const x = (n - centre) / OVERSAMPLING;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 + 0.5 * Math.cos((Math.PI * (n - centre)) / (centre + 1));
+    return sinc * window;
+  });
+  return Array.from({ length: OVERSAMPLING - 1 }, (_, i) =>
+    Float64Array.from({ length: TAPS_PER_PHASE }, (_, k) => taps[i + 1 + OVERSAMPLING * k]));
+})();
+
+/**
+ * Measures one track as its audio comes in, in chunks of any length, so a
+ * long track never has to be held whole.
+ */
+export class LoudnessMeter {
+  private readonly filters: [Biquad, Biquad];
+  private readonly weights: number[];
+  private readonly state: Float64Array[]; // per channel: the two delay values of each biquad
+  private readonly history: Float64Array[]; // per channel: the latest samples, twice over, for interpolation
+  private historyPosition = 0;
+  private readonly segmentLength: number;
+  private segmentEnergy = 0;
+  private segmentSamples = 0;
+  private segments: number[] = [];
+  private blocks: number[] = [];
+  private peak = 0;
+
+  constructor(sampleRate: number, private readonly channelCount: number) {
+    this.filters = kWeighting(sampleRate);
+    this.weights = channelWeights(channelCount);
+    this.state = Array.from({ length: channelCount }, () => new Float64Array(4));
+    this.history = Array.from({ length: channelCount }, () => new Float64Array(2 * TAPS_PER_PHASE));
+    this.segmentLength = Math.round(sampleRate / 10);
+  }
+
+  /** Adds planar audio: one array per channel, all of the same length. */
+  public add(channels: Float32Array[]) {
+    if (channels.length !== this.channelCount) throw new Error(`Expected ${this.channelCount} channels, got ${channels.length}`);
+    const [shelf, highPass] = this.filters;
+    const length = channels[0]?.length ?? 0;
+    for (let i = 0; i < length; i++) {
+      let energy = 0;
+      const position = this.historyPosition;
+      for (let c = 0; c < this.channelCount; c++) {
+        const x = channels[c][i];
+        const s = this.state[c];
+        // Transposed direct form II, shelf then high-pass
+        const y1 = shelf.b0 * x + s[0];
+        s[0] = shelf.b1 * x - shelf.a1 * y1 + s[1];
+        s[1] = shelf.b2 * x - shelf.a2 * y1;
+        const y2 = highPass.b0 * y1 + s[2];
+        s[2] = highPass.b1 * y1 - highPass.a1 * y2 + s[3];
+        s[3] = highPass.b2 * y1 - highPass.a2 * y2;
+        energy += this.weights[c] * y2 * y2;
+        this.trackPeak(this.history[c], position, x);
+      }
+      this.historyPosition = (position + 1) % TAPS_PER_PHASE;
+      this.segmentEnergy += energy;
+      if (++this.segmentSamples === this.segmentLength) this.closeSegment();
+    }
+  }
+
+  private trackPeak(history: Float64Array, position: number, x: number) {
+    history[position] = x;
+    history[position + TAPS_PER_PHASE] = x;
+    const magnitude = Math.abs(x);
+    if (magnitude > this.peak) this.peak = magnitude;
+    // history[position + 1 ...] runs from the oldest sample to `x`
+    for (const phase of INTERPOLATION_PHASES) {
+      let y = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) y += phase[k] * history[position + TAPS_PER_PHASE - k];
+      if (Math.abs(y) > this.peak) this.peak = Math.abs(y);
+    }
+  }
+
+  private closeSegment() {
+    this.segments.push(this.segmentEnergy / this.segmentLength);
+    this.segmentEnergy = 0;
+    this.segmentSamples = 0;
+    if (this.segments.length < SEGMENTS_PER_BLOCK) return;
+    const block = this.segments.reduce((sum, energy) => sum + energy, 0) / SEGMENTS_PER_BLOCK;
+    this.segments.shift();
+    if (block > ABSOLUTE_GATE_ENERGY) this.blocks.push(block);
+  }
+
+  /** The loudness of everything added; null for silence or audio shorter than one block. */
+  public finish(): Loudness | null {
+    const blocks = Float64Array.from(this.blocks);
+    const integratedLufs = gatedLoudness([blocks]);
+    if (integratedLufs === null) return null;
+    return { integratedLufs, truePeak: this.peak, trackGainDb: REFERENCE_LUFS - integratedLufs, blocks };
+  }
+}
+
+/** Measures a whole track at once; see `LoudnessMeter`. */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): Loudness | null {
+  const meter = new LoudnessMeter(sampleRate, channels.length);
+  meter.add(channels);
+  return meter.finish();
+}
+
+/** Integrated loudness of the blocks of one or more tracks, gated together; null when nothing is above the gates. */
+function gatedLoudness(tracks: Float64Array[]): number | null {
+  let sum = 0;
+  let count = 0;
+  tracks.forEach(blocks => blocks.forEach(block => { sum += block; count++; }));
+  if (count === 0) return null;
+  const threshold = lufsToEnergy(energyToLufs(sum / count) + RELATIVE_GATE_LU);
+  sum = 0;
+  count = 0;
+  tracks.forEach(blocks => blocks.forEach(block => {
+    if (block <= threshold) return;
+    sum += block;
+    count++;
+  }));
+  return count === 0 ? null : energyToLufs(sum / count);
+}
+
+/** Album gain and peak of tracks measured one by one. */
+export function albumLoudness(tracks: Loudness[]): Pick<Loudness, 'albumGainDb' | 'albumPeak'> | null {
+  const integratedLufs = gatedLoudness(tracks.map(track => track.blocks));
+  if (integratedLufs === null) return null;
+  return { albumGainDb: REFERENCE_LUFS - integratedLufs, albumPeak: Math.max(...tracks.map(track => track.truePeak)) };
+}
+
+/**
+ * Album loudness of the converted files, by the album they belong to (the
+ * same grouping as the album playlists). Files without album details or
+ * without a measurement have no album gain.
+ */
+export function albumGains(files: AudioFile[]): Map<string, Loudness> {
+  const albums = new Map<string, AudioFile[]>();
+  files
+    .filter(file => file.status === ConversionStatus.COMPLETED && file.loudness)
+    .forEach(file => {
+      const key = albumKeyOf(file);
+      if (key !== null) albums.set(key, [...(albums.get(key) ?? []), file]);
+    });
+  const measured = new Map<string, Loudness>();
+  albums.forEach(album => {
+    const gain = albumLoudness(album.map(file => file.loudness!));
+    if (gain) album.forEach(file => measured.set(file.id, { ...file.loudness!, ...gain }));
+  });
+  return measured;
+}
+
+const formatPeak = (peak: number) => peak.toFixed(6);
+
+/** REPLAYGAIN_* fields for Vorbis comments and ID3 TXXX frames; the album pair only once it is known. */
+export function replayGainTags(loudness: Loudness): Record<string, string> {
+  const tags: Record<string, string> = {
+    REPLAYGAIN_TRACK_GAIN: `${loudness.trackGainDb.toFixed(2)} dB`,
+    REPLAYGAIN_TRACK_PEAK: formatPeak(loudness.truePeak),
+  };
+  if (loudness.albumGainDb !== undefined && loudness.albumPeak !== undefined) {
+    tags.REPLAYGAIN_ALBUM_GAIN = `${loudness.albumGainDb.toFixed(2)} dB`;
+    tags.REPLAYGAIN_ALBUM_PEAK = formatPeak(loudness.albumPeak);
+  }
+  return tags;
+}
+
+/** "+1.25 dB" or "-6.52 dB", for display. */
+export const formatGain = (db: number) => `${db >= 0 ? '+' : ''}${db.toFixed(2)} dB`;
+
+/** True peak in dBTP, for display. */
+export const truePeakDb = (loudness: Loudness) => 20 * Math.log10(loudness.truePeak);
@@ -0,0 +1,109 @@
+import { Loudness } from '../types';
+
+export type LoudnessRequest =
+  | { type: 'start'; id: string; sampleRate: number; channelCount: number }
+  | { type: 'chunk'; id: string; channels: Float32Array[] }
+  | { type: 'finish'; id: string };
+
+export type LoudnessResponse =
+  | { type: 'measured'; id: string; samples: number } // one chunk is through
+  | { type: 'done'; id: string; loudness: Loudness | null }
+  | { type: 'error'; id: string; message: string };
+
+/** Outputs are decoded at this rate whatever theirs is; loudness does not depend on it. */
+const ANALYSIS_RATE = 48000;
+/** Audio handed to the worker at a time, so a long track is never copied whole. */
+const CHUNK_SECONDS = 10;
+
+interface PendingAnalysis {
+  total: number; // samples per channel
+  processed: number;
+  resolve: (loudness: Loudness | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: (processed: number, total: number) => void;
+}
+
+/**
+ * Measures the loudness of finished outputs (see loudness.ts) for the
+ * desktop app and the browser.
+ *
+ * The webview decodes the output with Web Audio, which does its work off the
+ * UI thread; the decoded audio then goes to a Web Worker (see
+ * `loudnessWorker.ts`) in chunks, since measuring is the slow part.
+ */
+export class LoudnessAnalyzer {
+  private static instance: LoudnessAnalyzer;
+  private worker: Worker | null = null;
+  private pending = new Map<string, PendingAnalysis>();
+  private analyses = 0;
+
+  public static getInstance(): LoudnessAnalyzer {
+    if (!LoudnessAnalyzer.instance) {
+      LoudnessAnalyzer.instance = new LoudnessAnalyzer();
+    }
+    return LoudnessAnalyzer.instance;
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL('./loudnessWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<LoudnessResponse>) => this.handleMessage(event.data);
+    worker.onerror = (event) => {
+      const error = new Error(event.message || 'Loudness worker crashed');
+      this.pending.forEach(analysis => analysis.reject(error));
+      this.pending.clear();
+      worker.terminate();
+      this.worker = null;
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleMessage(message: LoudnessResponse) {
+    const analysis = this.pending.get(message.id);
+    if (!analysis) return;
+    switch (message.type) {
+      case 'measured':
+        analysis.processed += message.samples;
+        analysis.onProgress?.(analysis.processed, analysis.total);
+        break;
+      case 'done':
+        this.pending.delete(message.id);
+        analysis.resolve(message.loudness);
+        break;
+      case 'error':
+        this.pending.delete(message.id);
+        analysis.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  /**
+   * Loudness of an encoded output (FLAC, MP3, Ogg Vorbis or WAV); null when
+   * it is silent. Rejects when the webview cannot decode it.
+   */
+  public async analyse(audio: Uint8Array, onProgress?: (processed: number, total: number) => void): Promise<Loudness | null> {
+    if (typeof OfflineAudioContext === 'undefined') throw new Error('Web Audio is not available');
+    // decodeAudioData takes the buffer over, so it gets a copy
+    const decoded = await new OfflineAudioContext(1, 1, ANALYSIS_RATE).decodeAudioData(audio.slice().buffer);
+    const id = `loudness-${this.analyses++}`;
+    const worker = this.getWorker();
+    const result = new Promise<Loudness | null>((resolve, reject) => {
+      this.pending.set(id, { total: decoded.length, processed: 0, resolve, reject, onProgress });
+    });
+    const post = (request: LoudnessRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+    post({ type: 'start', id, sampleRate: decoded.sampleRate, channelCount: decoded.numberOfChannels });
+    const chunkLength = CHUNK_SECONDS * decoded.sampleRate;
+    for (let start = 0; start < decoded.length; start += chunkLength) {
+      const length = Math.min(chunkLength, decoded.length - start);
+      const channels = Array.from({ length: decoded.numberOfChannels }, (_, c) => {
+        const channel = new Float32Array(length);
+        decoded.copyFromChannel(channel, c, start);
+        return channel;
+      });
+      post({ type: 'chunk', id, channels }, channels.map(channel => channel.buffer));
+    }
+    post({ type: 'finish', id });
+    return result;
+  }
+}
@@ -0,0 +1,40 @@
+/// <reference lib="webworker" />
+import { LoudnessMeter } from './loudness';
+import type { LoudnessRequest, LoudnessResponse } from './loudnessAnalyzer';
+
+/**
+ * Web Worker entry: measures decoded outputs off the UI thread, one chunk at
+ * a time. The gating blocks of the result are transferred back, not copied.
+ */
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+const meters = new Map<string, LoudnessMeter>();
+
+const post = (message: LoudnessResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+ctx.onmessage = (event: MessageEvent<LoudnessRequest>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'start':
+        meters.set(request.id, new LoudnessMeter(request.sampleRate, request.channelCount));
+        break;
+      case 'chunk': {
+        const meter = meters.get(request.id);
+        if (!meter) return;
+        meter.add(request.channels);
+        post({ type: 'measured', id: request.id, samples: request.channels[0]?.length ?? 0 });
+        break;
+      }
+      case 'finish': {
+        const loudness = meters.get(request.id)?.finish() ?? null;
+        meters.delete(request.id);
+        post({ type: 'done', id: request.id, loudness }, loudness ? [loudness.blocks.buffer] : []);
+        break;
+      }
+    }
+  } catch (error) {
+    meters.delete(request.id);
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
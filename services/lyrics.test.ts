@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { LyricsAction, LyricsSidecar, TrackMetadata } from '../types';
+import { decodeLyrics, lyricsByFolder, lyricsTargets, matchLyrics, parseLrc, sidecarPathFor } from './lyrics';
+
+const sidecar = (path: string): LyricsSidecar => ({ name: path.split(/[\\/]/).pop()!, path });
+
+const metadata = (title: string, artists: string[]): TrackMetadata => ({ title, artists, album: '', durationMs: 0, bitrate: 0, format: 'flac' });
+
+describe('matchLyrics', () => {
+  const candidates = [
+    sidecar('/music/Song.lrc'),
+    sidecar('/music/Artist A - Other Song.lrc'),
+    sidecar('/music/Intro.lrc'),
+    sidecar('/other/Track.lrc'),
+  ];
+
+  it('matches by base name in the same folder first', () => {
+    expect(matchLyrics({ name: 'Song.ncm', path: '/music/Song.ncm' }, candidates)?.path).toBe('/music/Song.lrc');
+    expect(matchLyrics({ name: 'song.NCM', path: '/music/song.NCM' }, candidates)?.path).toBe('/music/Song.lrc');
+    expect(matchLyrics({ name: 'Track.ncm', path: '/music/Track.ncm' }, candidates)).toBeUndefined();
+  });
+
+  it('falls back to artist and title, ignoring case and punctuation', () => {
+    const file = { name: '12345.ncm', path: '/music/12345.ncm', metadata: metadata('Other song', ['artist a', 'B']) };
+    expect(matchLyrics(file, candidates)?.path).toBe('/music/Artist A - Other Song.lrc');
+  });
+
+  it('only matches a bare title when one sidecar has it', () => {
+    const file = { name: '1.ncm', path: 'C:\\music\\1.ncm', metadata: metadata('Intro', ['Someone']) };
+    expect(matchLyrics(file, [sidecar('C:\\music\\Intro.lrc')])?.name).toBe('Intro.lrc');
+    expect(matchLyrics(file, [sidecar('C:\\music\\Intro.lrc'), sidecar('C:\\music\\intro!.lrc')])).toBeUndefined();
+  });
+});
+
+describe('lyricsByFolder', () => {
+  it('groups sidecars by the folder they are in', () => {
+    const folders = lyricsByFolder([sidecar('/a/1.lrc'), sidecar('/b/2.lrc'), sidecar('/a/3.lrc')]);
+    expect(folders.get('/a')?.map(s => s.name)).toEqual(['1.lrc', '3.lrc']);
+    expect(folders.get('/b')?.map(s => s.name)).toEqual(['2.lrc']);
+  });
+});
+
+describe('decodeLyrics', () => {
+  it('reads UTF-8 with and without BOM, UTF-16 and GB18030', () => {
+    const text = '[00:01.00]你好';
+    expect(decodeLyrics(new TextEncoder().encode(text))).toBe(text);
+    expect(decodeLyrics(new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode(text)]))).toBe(text);
+    const utf16 = new Uint8Array([0xff, 0xfe, ...Array.from(text).flatMap(c => [c.charCodeAt(0) & 0xff, c.charCodeAt(0) >> 8])]);
+    expect(decodeLyrics(utf16)).toBe(text);
+    // 你好 in GB18030
+    expect(decodeLyrics(new Uint8Array([0xc4, 0xe3, 0xba, 0xc3]))).toBe('你好');
+  });
+});
+
+describe('parseLrc', () => {
+  it('sorts timed lines, expands repeated timestamps and applies the offset', () => {
+    const parsed = parseLrc('[ar:Artist]\r\n[offset:500]\n[00:10.50][01:00]Chorus\n[00:05.2]Verse\n[00:20.005]\n');
+    expect(parsed.lines).toEqual([
+      { timeMs: 4700, text: 'Verse' },
+      { timeMs: 10000, text: 'Chorus' },
+      { timeMs: 19505, text: '' },
+      { timeMs: 59500, text: 'Chorus' },
+    ]);
+    expect(parsed.text).toBe('Verse\nChorus\n\nChorus');
+  });
+
+  it('keeps unsynced lyrics as plain text', () => {
+    expect(parseLrc('[ti:Song]\nFirst line\nSecond line\n')).toEqual({ lines: [], text: 'First line\nSecond line' });
+  });
+});
+
+describe('sidecarPathFor', () => {
+  it('swaps the output extension for .lrc', () => {
+    expect(sidecarPathFor('/out/v1.0/Song.flac')).toBe('/out/v1.0/Song.lrc');
+    expect(sidecarPathFor('C:\\out\\Song.mp3')).toBe('C:\\out\\Song.lrc');
+  });
+});
+
+describe('lyricsTargets', () => {
+  it('copies lyrics that cannot be embedded', () => {
+    expect(lyricsTargets(LyricsAction.EMBED, true)).toEqual({ embed: true, sidecar: false });
+    expect(lyricsTargets(LyricsAction.EMBED, false)).toEqual({ embed: false, sidecar: true });
+    expect(lyricsTargets(LyricsAction.BOTH, true)).toEqual({ embed: true, sidecar: true });
+    expect(lyricsTargets(LyricsAction.SIDECAR, true)).toEqual({ embed: false, sidecar: true });
+    expect(lyricsTargets(LyricsAction.IGNORE, false)).toEqual({ embed: false, sidecar: false });
+  });
+});
@@ -0,0 +1,127 @@
+import { LyricsAction, LyricsSidecar, TrackMetadata } from '../types';
+import { stripSourceExtension } from './decoders';
+
+/**
+ * Lyrics sidecars: `.lrc` files that music clients save next to downloads.
+ *
+ * A sidecar belongs to a source in the same folder with the same base name
+ * ("Song.ncm" and "Song.lrc"), or failing that to the track its name spells
+ * out ("Artist - Title.lrc"). LRC text is kept as found for Vorbis comments
+ * and parsed into timed lines for ID3 SYLT frames.
+ */
+
+export const LYRICS_EXTENSION = 'lrc';
+
+export const isLyricsFile = (name: string) => name.toLowerCase().endsWith(`.${LYRICS_EXTENSION}`);
+
+/** Folder part of a path, in the form the path uses; empty for a bare name. */
+export const folderOf = (path: string) => path.replace(/[\\/]?[^\\/]*$/, '');
+
+const stemOf = (name: string) => name.slice(0, name.lastIndexOf('.'));
+
+// Case, punctuation and spacing differ between clients; letters and digits do not.
+const nameKey = (text: string) => text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+const metadataKeys = (metadata: TrackMetadata): string[] => {
+  const artists = metadata.artists.join(' ');
+  return [`${artists} ${metadata.title}`, `${metadata.title} ${artists}`, `${metadata.artists[0] ?? ''} ${metadata.title}`].map(nameKey);
+};
+
+/**
+ * Finds the sidecar of `file` among `candidates`; only those in the same
+ * folder are considered. A bare title only counts when it is unambiguous.
+ */
+export function matchLyrics(
+  file: { name: string; path: string; metadata?: TrackMetadata | null },
+  candidates: LyricsSidecar[],
+): LyricsSidecar | undefined {
+  const folder = folderOf(file.path);
+  const nearby = candidates.filter(candidate => folderOf(candidate.path) === folder);
+  const stem = stripSourceExtension(file.name).toLowerCase();
+  const byName = nearby.find(candidate => stemOf(candidate.name).toLowerCase() === stem);
+  if (byName || !file.metadata?.title) return byName;
+
+  const keys = new Set(metadataKeys(file.metadata));
+  const byArtistAndTitle = nearby.find(candidate => keys.has(nameKey(stemOf(candidate.name))));
+  if (byArtistAndTitle) return byArtistAndTitle;
+  const byTitle = nearby.filter(candidate => nameKey(stemOf(candidate.name)) === nameKey(file.metadata!.title));
+  return byTitle.length === 1 ? byTitle[0] : undefined;
+}
+
+/** Sidecars grouped by folder, so matching a large queue does not rescan every candidate. */
+export function lyricsByFolder(sidecars: LyricsSidecar[]): Map<string, LyricsSidecar[]> {
+  const folders = new Map<string, LyricsSidecar[]>();
+  sidecars.forEach(sidecar => {
+    const folder = folderOf(sidecar.path);
+    folders.set(folder, [...(folders.get(folder) ?? []), sidecar]);
+  });
+  return folders;
+}
+
+/**
+ * Text of an `.lrc` file. Most are UTF-8, with or without BOM; older
+ * Chinese clients write GB18030, which is tried when UTF-8 does not fit.
+ */
+export function decodeLyrics(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  try {
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(bytes);
+  } catch {
+    return new TextDecoder('gb18030').decode(bytes);
+  }
+}
+
+export interface LyricLine {
+  timeMs: number;
+  text: string;
+}
+
+export interface ParsedLyrics {
+  lines: LyricLine[]; // timed lines in playback order; empty for unsynced lyrics
+  text: string; // the lyrics without timestamps or ID tags
+}
+
+const TIMESTAMP = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const ID_TAG = /^\[([a-z]+):(.*)\]$/i;
+
+/**
+ * Parses LRC: `[mm:ss.xx]` timestamps, several per line allowed, and ID tags
+ * such as `[ar:Artist]`. `[offset:+500]` shows every line 500 ms sooner.
+ */
+export function parseLrc(lrc: string): ParsedLyrics {
+  const timed: LyricLine[] = [];
+  const plain: string[] = [];
+  let offset = 0;
+  for (const raw of lrc.split(/\r\n|\r|\n/)) {
+    const line = raw.trim();
+    const times = Array.from(line.matchAll(TIMESTAMP));
+    if (times.length === 0) {
+      const tag = line.match(ID_TAG);
+      if (tag?.[1].toLowerCase() === 'offset') offset = Number.parseInt(tag[2], 10) || 0;
+      else if (!tag) plain.push(line);
+      continue;
+    }
+    const text = line.replace(TIMESTAMP, '').trim();
+    for (const [, minutes, seconds, fraction = '0'] of times) {
+      // "5" is 500 ms, "05" is 50 ms and "005" is 5 ms
+      const ms = Number(fraction.padEnd(3, '0'));
+      timed.push({ timeMs: (Number(minutes) * 60 + Number(seconds)) * 1000 + ms, text });
+    }
+  }
+  const lines = timed
+    .map(line => ({ ...line, timeMs: Math.max(0, line.timeMs - offset) }))
+    .sort((a, b) => a.timeMs - b.timeMs);
+  const text = (lines.length > 0 ? lines.map(line => line.text) : plain).join('\n').replace(/^\n+|\n+$/g, '');
+  return { lines, text };
+}
+
+/** Path of the sidecar written next to an output: same name, `.lrc` extension. */
+export const sidecarPathFor = (outputPath: string) => outputPath.replace(/\.[^.\\/]*$/, '') + `.${LYRICS_EXTENSION}`;
+
+/** Where lyrics go for an output that can (`taggable`) or cannot carry tags. */
+export function lyricsTargets(action: LyricsAction, taggable: boolean): { embed: boolean; sidecar: boolean } {
+  const embed = action === LyricsAction.EMBED || action === LyricsAction.BOTH;
+  const sidecar = action === LyricsAction.SIDECAR || action === LyricsAction.BOTH;
+  return { embed: embed && taggable, sidecar: sidecar || (embed && !taggable) };
+}
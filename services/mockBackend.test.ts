@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import {
+  AudioFile,
+  ConversionErrorCode,
+  ConversionStatus,
+  OutputFormat,
+  OverwritePolicy,
+  ProgressEventPayload,
+  SourceAction,
+  VerificationStatus,
+} from '../types';
+import { MockBackend } from './mockBackend';
+import { QueueManager } from './queueManager';
+import { defaultSettings } from './settingsStore';
+
+const makeFile = (name: string): AudioFile => ({
+  id: name,
+  name,
+  path: `/music/${name}`,
+  size: 4000,
+  status: ConversionStatus.IDLE,
+  progress: 0,
+});
+
+const settings = { ...defaultSettings(true), outputFormat: OutputFormat.ORIGINAL };
+
+describe('MockBackend', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('walks through the stages on a fixed schedule', async () => {
+    const backend = new MockBackend({ durationMs: 900 });
+    const stages: string[] = [];
+    await backend.listenToProgress(payload => stages.push(payload.stage));
+
+    const result = backend.convertFile(makeFile('a.ncm'), settings);
+    // 9 steps of 100ms: reading, key, 5 decrypting updates, then tagging twice
+    await vi.advanceTimersByTimeAsync(700);
+    expect(stages).not.toContain('tagging');
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(await result).toEqual({
+      success: true,
+      outputName: 'a.mp3',
+      outputPath: '/music/a.mp3',
+      outputSize: 4000,
+      verification: { status: VerificationStatus.VERIFIED },
+      operations: [],
+    });
+    expect([...new Set(stages)]).toEqual(['reading', 'key', 'decrypting', 'tagging']);
+  });
+
+  it('fails scripted files in the scripted stage', async () => {
+    const backend = new MockBackend({
+      files: { 'bad.ncm': { fail: 'Invalid NCM file format', failCode: ConversionErrorCode.BAD_MAGIC, failStage: 'key' } },
+    });
+    const progress: ProgressEventPayload[] = [];
+    await backend.listenToProgress(payload => progress.push(payload));
+
+    const result = backend.convertFile(makeFile('bad.ncm'), settings);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual({
+      success: false,
+      message: 'Invalid NCM file format',
+      error: { code: ConversionErrorCode.BAD_MAGIC, message: 'Invalid NCM file format', details: {} },
+    });
+    expect(progress.map(p => p.stage)).toEqual(['reading']);
+  });
+
+  it('reports scripted outputs as suspect', async () => {
+    const backend = new MockBackend({ files: { 'a.ncm': { suspect: 'The last FLAC frame is cut off' } } });
+    const result = backend.convertFile(makeFile('a.ncm'), settings);
+    await vi.runAllTimersAsync();
+
+    expect((await result).verification).toEqual({ status: VerificationStatus.SUSPECT, reason: 'The last FLAC frame is cut off' });
+  });
+
+  it('skips outputs that exist when the policy says so', async () => {
+    const backend = new MockBackend({ existingPaths: ['/music/a.mp3'] });
+    const result = backend.convertFile(makeFile('a.ncm'), { ...settings, overwritePolicy: OverwritePolicy.SKIP });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toMatchObject({ success: true, skipped: true, outputPath: '/music/a.mp3' });
+    expect(await backend.pathsExist(['/music/a.mp3', '/music/b.mp3'])).toEqual([true, false]);
+    // Browser downloads do not outlive the page, so history never counts them as still there
+    expect(await new MockBackend({ desktop: false, existingPaths: ['a.mp3'] }).pathsExist(['a.mp3'])).toEqual([false]);
+  });
+
+  it('archives sources only behind outputs that verify', async () => {
+    const backend = new MockBackend({ files: { 'b.ncm': { suspect: 'Noise' } } });
+    const archiving = { ...settings, sourceAction: SourceAction.ARCHIVE, archiveDirectory: '/archive' };
+    const results = Promise.all([
+      backend.convertFile({ ...makeFile('a.ncm'), root: '/music' }, archiving),
+      backend.convertFile(makeFile('b.ncm'), archiving),
+    ]);
+    await vi.runAllTimersAsync();
+    const [archived, kept] = await results;
+
+    expect(archived.operations).toEqual([{ kind: 'archived', path: '/music/a.ncm', undoPath: '/archive/a.ncm' }]);
+    expect(kept).toMatchObject({ success: true, operations: [], message: 'Source kept: the output is suspect: Noise' });
+  });
+
+  it('trashes the library copy a duplicate replaces only behind an output that verifies', async () => {
+    const backend = new MockBackend({ files: { 'b.ncm': { suspect: 'Noise' } } });
+    const results = Promise.all([
+      backend.convertFile({ ...makeFile('a.ncm'), replaces: '/library/a.mp3' }, settings),
+      backend.convertFile({ ...makeFile('b.ncm'), replaces: '/library/b.mp3' }, settings),
+    ]);
+    await vi.runAllTimersAsync();
+    const [replaced, kept] = await results;
+
+    expect(replaced.operations).toEqual([{ kind: 'trashed', path: '/library/a.mp3' }]);
+    expect(kept).toMatchObject({ operations: [], message: 'Library copy kept: the output is suspect: Noise' });
+  });
+
+  it('stops when cancelled', async () => {
+    const backend = new MockBackend();
+    const result = backend.convertFile(makeFile('a.ncm'), settings);
+    await vi.advanceTimersByTimeAsync(200);
+    await backend.cancelConversion('a.ncm');
+
+    expect(await result).toMatchObject({ success: false, message: 'Cancelled', error: { code: ConversionErrorCode.CANCELLED } });
+  });
+
+  it('measures loudness only for outputs that can carry ReplayGain tags', async () => {
+    const backend = new MockBackend();
+    const measuring = { ...settings, analyseLoudness: true };
+    const flac = backend.convertFile(makeFile('a.ncm'), measuring);
+    const ogg = backend.convertFile(makeFile('b.ncm'), { ...measuring, outputFormat: OutputFormat.OGG_VORBIS });
+    await vi.runAllTimersAsync();
+
+    expect((await flac).loudness).toBeDefined();
+    expect((await ogg).loudness).toBeUndefined();
+  });
+
+  it('fails transcodes like the browser when not desktop', async () => {
+    const backend = new MockBackend({ desktop: false });
+    const result = await backend.convertFile(makeFile('a.ncm'), { ...settings, outputFormat: OutputFormat.FLAC });
+
+    expect(result.error?.code).toBe(ConversionErrorCode.NEEDS_DESKTOP);
+  });
+
+  it('reports watched files only while watching', async () => {
+    const backend = new MockBackend();
+    const detected: string[] = [];
+    await backend.listenToFileDetected(file => detected.push(file.name));
+
+    backend.detect({ path: '/music/x.ncm', name: 'x.ncm', size: 1, root: '/music' });
+    await backend.startWatcher('/music');
+    backend.detect({ path: '/music/y.ncm', name: 'y.ncm', size: 1, root: '/music' });
+
+    expect(detected).toEqual(['y.ncm']);
+  });
+
+  it('drives the queue reproducibly', async () => {
+    const backend = new MockBackend({ durationMs: 100, files: { 'b.ncm': { fail: 'boom' } } });
+    const queue = new QueueManager((file, signal) => backend.convertFile(file, settings, signal), { concurrency: 2 });
+    await backend.listenToProgress(payload => queue.handleProgress(payload));
+    queue.add(['a.ncm', 'b.ncm', 'c.ncm'].map(makeFile));
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(queue.getSnapshot().stats).toMatchObject({ converted: 1, failed: 1, pending: 0 });
+    expect(queue.getFile('c.ncm')?.status).toBe(ConversionStatus.CONVERTING);
+
+    await vi.runAllTimersAsync();
+    expect(queue.getSnapshot().stats).toMatchObject({ converted: 2, failed: 1 });
+  });
+});
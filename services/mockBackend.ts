@@ -0,0 +1,220 @@
+import {
+  AudioFile,
+  ConversionErrorCode,
+  ConversionResult,
+  ConversionSettings,
+  ConversionStage,
+  DetectedFile,
+  FileOperation,
+  LibraryTrack,
+  Loudness,
+  OverwritePolicy,
+  ProgressEventPayload,
+  SourceAction,
+  Verification,
+  VerificationStatus,
+} from '../types';
+import { ConversionBackend, ListenerSet } from './backendContract';
+import { ConversionFailure, failureResult } from './conversionErrors';
+import { REFERENCE_LUFS } from './loudness';
+import { ArrangeResult, OutputLayout } from './playlist';
+import { outputExtension, resolveOutputPath } from './planner';
+import { archivePathFor, sourceHold } from './safety';
+import { isPassthrough, OUTPUT_FORMAT_LABELS } from './settingsStore';
+import { blobSource, ByteSource } from './trackInfo';
+
+/** How the mock treats one file, looked up by file name. */
+export interface MockFileScript {
+  durationMs?: number; // overrides `MockBackendOptions.durationMs`
+  fail?: string; // error message the conversion fails with
+  failCode?: ConversionErrorCode; // default UNKNOWN
+  failStage?: ConversionStage; // stage it fails in, default 'decrypting'
+  suspect?: string; // verification reason; the output verifies when unset
+  loudnessLufs?: number; // measured loudness when analysis is on, default -10
+}
+
+export interface MockBackendOptions {
+  desktop?: boolean; // behave like the desktop app (default) or like the browser
+  durationMs?: number; // time one conversion takes, spread evenly over its progress steps
+  files?: Record<string, MockFileScript>;
+  existingPaths?: string[]; // outputs reported as already on disk
+  freeBytes?: number; // free space reported for every folder; unknown when unset
+  library?: LibraryTrack[]; // outputs reported as already in the library, whatever folders are indexed
+}
+
+const DEFAULT_DURATION_MS = 1500;
+const DECRYPT_STEPS = 4;
+const DEFAULT_LOUDNESS_LUFS = -10;
+const MOCK_BLOCKS = 10;
+
+/** A measurement as `measureLoudness` would give for a track that keeps the same level throughout. */
+const mockLoudness = (lufs: number): Loudness => ({
+  integratedLufs: lufs,
+  truePeak: 0.95,
+  trackGainDb: REFERENCE_LUFS - lufs,
+  blocks: new Float64Array(MOCK_BLOCKS).fill(10 ** ((lufs + 0.691) / 10)),
+});
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) return reject(new Error('Cancelled'));
+  const onAbort = () => { clearTimeout(timer); reject(new Error('Cancelled')); };
+  const timer = setTimeout(() => { signal.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Deterministic stand-in for a real backend, for trying out and testing UI
+ * flows. Every conversion walks through the same stages as the real ones on a
+ * fixed schedule; failures, timings and existing outputs come from the script
+ * given to the constructor, as does the output library. Nothing is read,
+ * written, archived or trashed; the operations are only reported.
+ */
+export class MockBackend implements ConversionBackend {
+  public readonly kind = 'mock';
+  public readonly desktop: boolean;
+  private progressListeners = new ListenerSet<ProgressEventPayload>();
+  private detectedListeners = new ListenerSet<DetectedFile>();
+  private running = new Map<string, AbortController>();
+  private watching: string | null = null;
+
+  constructor(private options: MockBackendOptions = {}) {
+    this.desktop = options.desktop ?? true;
+  }
+
+  public async listenToProgress(callback: (payload: ProgressEventPayload) => void): Promise<() => void> {
+    return this.progressListeners.add(callback);
+  }
+
+  public async listenToFileDetected(callback: (file: DetectedFile) => void): Promise<() => void> {
+    return this.detectedListeners.add(callback);
+  }
+
+  /** Reports `file` as found by the watcher. Ignored while the watcher is off. */
+  public detect(file: DetectedFile) {
+    if (this.watching !== null) this.detectedListeners.emit(file);
+  }
+
+  public isWatching(): boolean {
+    return this.watching !== null;
+  }
+
+  public setConcurrency() {
+    // Conversions are timers; any number can run at once.
+  }
+
+  public async convertFile(file: AudioFile, settings: ConversionSettings, signal?: AbortSignal): Promise<ConversionResult> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    this.running.set(file.id, controller);
+    try {
+      return await this.simulate(file, settings, controller.signal);
+    } catch (error) {
+      return failureResult(error);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (this.running.get(file.id) === controller) this.running.delete(file.id);
+    }
+  }
+
+  private async simulate(file: AudioFile, settings: ConversionSettings, signal: AbortSignal): Promise<ConversionResult> {
+    const script = this.options.files?.[file.name] ?? {};
+    const inner = file.innerFormat ?? file.metadata?.format ?? 'mp3';
+    const transcode = !isPassthrough(settings.outputFormat, inner);
+    if (transcode && !this.desktop) {
+      throw new ConversionFailure(ConversionErrorCode.NEEDS_DESKTOP, `Converting ${inner.toUpperCase()} to ${OUTPUT_FORMAT_LABELS[settings.outputFormat]} needs the desktop app (FFmpeg)`);
+    }
+
+    // Like the real backends, only FLAC and MP3 outputs are verified and, as they can carry ReplayGain tags, measured
+    const verifiable = ['flac', 'mp3'].includes(outputExtension(file, settings));
+    const measured = settings.analyseLoudness && verifiable;
+    const steps: [ConversionStage, number, number][] = [
+      ['reading', 0, file.size],
+      ['key', 1, 1],
+      ...Array.from({ length: DECRYPT_STEPS + 1 }, (_, i): [ConversionStage, number, number] =>
+        ['decrypting', Math.round((file.size * i) / DECRYPT_STEPS), file.size]),
+      ...(transcode ? [['transcoding', 0, file.size], ['transcoding', file.size, file.size]] as [ConversionStage, number, number][] : []),
+      ['tagging', 0, file.size],
+      ['tagging', file.size, file.size],
+      ...(measured ? [['analysing', 0, file.size], ['analysing', file.size, file.size]] as [ConversionStage, number, number][] : []),
+    ];
+    const outputPath = resolveOutputPath(file, settings, this.desktop);
+    const outputName = outputPath.split(/[\\/]/).pop();
+    const delay = (script.durationMs ?? this.options.durationMs ?? DEFAULT_DURATION_MS) / steps.length;
+    const failStage = script.failStage ?? 'decrypting';
+
+    for (const [stage, processedBytes, totalBytes] of steps) {
+      await sleep(delay, signal);
+      if (script.fail && stage === failStage) throw new ConversionFailure(script.failCode ?? ConversionErrorCode.UNKNOWN, script.fail);
+      this.progressListeners.emit({ id: file.id, stage, processedBytes, totalBytes });
+      if (stage === 'key' && this.options.existingPaths?.includes(outputPath) && settings.overwritePolicy === OverwritePolicy.SKIP) {
+        return { success: true, skipped: true, outputName, outputPath, outputSize: file.size, message: 'Output already exists' };
+      }
+    }
+    const verification: Verification | undefined = !verifiable ? undefined : script.suspect
+      ? { status: VerificationStatus.SUSPECT, reason: script.suspect }
+      : { status: VerificationStatus.VERIFIED, durationMs: file.metadata?.durationMs };
+    const loudness = measured ? mockLoudness(script.loudnessLufs ?? DEFAULT_LOUDNESS_LUFS) : undefined;
+    if (!this.desktop) return { success: true, outputName, outputSize: file.size, verification, loudness };
+
+    const operations: FileOperation[] = this.options.existingPaths?.includes(outputPath) && settings.overwritePolicy === OverwritePolicy.OVERWRITE
+      ? [{ kind: 'replaced', path: outputPath }]
+      : [];
+    const messages: string[] = [];
+    const hold = sourceHold({ outputPath, outputSize: file.size, verification });
+    if (settings.sourceAction !== SourceAction.KEEP) {
+      if (hold) {
+        messages.push(`Source kept: ${hold}`);
+      } else if (settings.sourceAction === SourceAction.ARCHIVE && settings.archiveDirectory) {
+        operations.push({ kind: 'archived', path: file.path, undoPath: archivePathFor(file, settings.archiveDirectory) });
+      } else if (settings.sourceAction === SourceAction.TRASH) {
+        operations.push({ kind: 'trashed', path: file.path });
+      } else {
+        messages.push('Source kept: No archive folder is set');
+      }
+    }
+    if (file.replaces && file.replaces !== outputPath) {
+      if (hold) messages.push(`Library copy kept: ${hold}`);
+      else operations.push({ kind: 'trashed', path: file.replaces });
+    }
+    const message = messages.join('; ') || undefined;
+    return { success: true, outputName, outputPath, outputSize: file.size, verification, loudness, operations, message };
+  }
+
+  public async cancelConversion(id: string): Promise<void> {
+    this.running.get(id)?.abort();
+  }
+
+  public sourceOf(file: AudioFile): ByteSource | null {
+    return file.source ? blobSource(file.source) : null;
+  }
+
+  public async pathsExist(paths: string[]): Promise<boolean[]> {
+    return paths.map(path => this.desktop && (this.options.existingPaths ?? []).includes(path));
+  }
+
+  public async freeSpace(paths: string[]): Promise<(number | null)[]> {
+    return paths.map(() => this.options.freeBytes ?? null);
+  }
+
+  public async indexLibrary(): Promise<LibraryTrack[]> {
+    return this.options.library ?? [];
+  }
+
+  /** Reports every move as done; moving onto one of `existingPaths` fails, as it does on disk. */
+  public async arrangeOutputs(layout: OutputLayout): Promise<ArrangeResult> {
+    const existing = this.options.existingPaths ?? [];
+    return {
+      moved: layout.moves.filter(move => !existing.includes(move.to)),
+      failed: layout.moves.filter(move => existing.includes(move.to)).map(move => ({ move, message: `${move.to} already exists` })),
+    };
+  }
+
+  public async startWatcher(path: string): Promise<void> {
+    this.watching = path;
+  }
+
+  public async stopWatcher(): Promise<void> {
+    this.watching = null;
+  }
+}
@@ -0,0 +1,173 @@
+import { createCipheriv } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { ConversionErrorCode } from '../types';
+import { aes128EcbDecrypt } from './aes';
+import { decryptAudio, openSource } from './decoders';
+import { parseNcmHeader, parseNcmMetadata } from './ncm';
+import { ByteSource, readInnerFormat } from './trackInfo';
+
+const bytesSource = (data: Uint8Array): ByteSource => ({
+  size: data.length,
+  read: async (offset, length) => data.slice(offset, offset + length),
+});
+
+const CORE_KEY = 'hzHRAmso5kInbaxW';
+const META_KEY = String.raw`#14ljk_!\]&0U<'(`;
+const RC4_KEY = 'E7fT49x7dof9OKCgg9cdvhEuezy3iZCL1nFvBFd1T4uSktAJKmwZXsijPbijliionVUXXg9plTbXEclAE9Lb';
+const FLAC_HEAD = [0x66, 0x4c, 0x61, 0x43, 0x00, 0x00, 0x00, 0x22];
+
+const sampleAudio = (length: number) => {
+  const audio = Uint8Array.from({ length }, (_, i) => (i * 7 + 3) & 0xff);
+  audio.set(FLAC_HEAD);
+  return audio;
+};
+
+const aesEncrypt = (data: Uint8Array, key: string) => {
+  const cipher = createCipheriv('aes-128-ecb', Buffer.from(key, 'latin1'), null);
+  return new Uint8Array(Buffer.concat([cipher.update(data), cipher.final()]));
+};
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+};
+
+/** The NCM audio key stream, written out independently of `decryptNcmAudio`. */
+const ncmKeystream = (key: Uint8Array, length: number) => {
+  const box = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + box[i] + key[i % key.length]) & 0xff;
+    [box[i], box[j]] = [box[j], box[i]];
+  }
+  return Uint8Array.from({ length }, (_, i) => {
+    const n = (i + 1) & 0xff;
+    return box[(box[n] + box[(box[n] + n) & 0xff]) & 0xff];
+  });
+};
+
+/** A "163 key" block holding `json`, XORed whole like the client writes it. */
+const metaBlock = (json: string) => {
+  const encrypted = Buffer.from(aesEncrypt(new TextEncoder().encode(json), META_KEY)).toString('base64');
+  return new TextEncoder().encode(`163 key(Don't modify):${encrypted}`).map(b => b ^ 0x63);
+};
+
+/** Builds an NCM file the way the NetEase client lays it out. */
+const makeNcm = (audio: Uint8Array, { meta = new Uint8Array(0), image = new Uint8Array(0) } = {}) => {
+  const key = new TextEncoder().encode(`neteasecloudmusic${RC4_KEY}`);
+  const keyBlock = aesEncrypt(key, CORE_KEY).map(b => b ^ 0x64);
+  const stream = ncmKeystream(new TextEncoder().encode(RC4_KEY), audio.length);
+  const parts = [
+    new TextEncoder().encode('CTENFDAM'),
+    new Uint8Array(2),
+    uint32(keyBlock.length), keyBlock,
+    uint32(meta.length), meta,
+    new Uint8Array(5), // CRC32 and gap
+    uint32(image.length), uint32(image.length), image,
+    audio.map((b, i) => b ^ stream[i]),
+  ];
+  const file = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => { file.set(part, offset); return offset + part.length; }, 0);
+  return file;
+};
+
+describe('AES-128-ECB', () => {
+  it('decrypts what node:crypto encrypts and strips the padding', () => {
+    const plain = new TextEncoder().encode('an NCM key block, 33 bytes long!!');
+    expect(aes128EcbDecrypt(aesEncrypt(plain, CORE_KEY), new TextEncoder().encode(CORE_KEY))).toEqual(plain);
+  });
+});
+
+describe('NCM', () => {
+  it('decrypts the audio with the key from the header, past the cover', async () => {
+    const audio = sampleAudio(70000);
+    const image = Uint8Array.from({ length: 300 }, (_, i) => i & 0xff);
+    const file = makeNcm(audio, { image });
+
+    const source = bytesSource(file);
+    const session = await openSource(source, 'song.ncm');
+    expect(session.audioOffset).toBe(file.length - audio.length);
+    expect(session.trackInfo?.cover?.data).toEqual(image);
+    expect(await readInnerFormat(source, 'song.ncm')).toBe('flac');
+    expect(await decryptAudio(source, session)).toEqual(audio);
+  });
+
+  it('rejects files without the CTENFDAM magic', async () => {
+    const file = makeNcm(sampleAudio(100));
+    file[0] = 0x00;
+    await expect(openSource(bytesSource(file), 'song.ncm')).rejects.toMatchObject({ code: ConversionErrorCode.BAD_MAGIC });
+    expect(() => parseNcmHeader(file)).toThrow('Invalid NCM file format');
+  });
+
+  it('reports a key block that does not decrypt', async () => {
+    const file = makeNcm(sampleAudio(100));
+    const keyEnd = 14 + new DataView(file.buffer).getUint32(10, true);
+    file[keyEnd - 1] ^= 0xff; // garbles the padding
+    await expect(openSource(bytesSource(file), 'song.ncm')).rejects.toMatchObject({ code: ConversionErrorCode.KEY_DECRYPT_FAILED });
+  });
+
+  it('reports truncated headers and files without audio', async () => {
+    const audio = sampleAudio(100);
+    const file = makeNcm(audio);
+    const headerLength = file.length - audio.length;
+
+    await expect(openSource(bytesSource(file.subarray(0, 40)), 'song.ncm')).rejects.toMatchObject({ code: ConversionErrorCode.TRUNCATED_AUDIO });
+    expect(() => parseNcmHeader(file.subarray(0, 40))).toThrow('Unexpected end of NCM file');
+    const headerOnly = bytesSource(file.subarray(0, headerLength));
+    await expect(decryptAudio(headerOnly, await openSource(headerOnly, 'song.ncm'))).rejects.toMatchObject({ code: ConversionErrorCode.TRUNCATED_AUDIO });
+  });
+});
+
+describe('NCM metadata', () => {
+  const song = {
+    musicId: '1234567',
+    musicName: 'Song',
+    artist: [['Artist A', 11], ['Artist B', 12]],
+    album: 'Album',
+    duration: 215000,
+    bitrate: 999000,
+    format: 'flac',
+  };
+
+  it('decrypts the 163 key block into track details', async () => {
+    const file = makeNcm(sampleAudio(100), { meta: metaBlock(`music:${JSON.stringify(song)}`) });
+    const session = await openSource(bytesSource(file), 'song.ncm');
+    expect(session.trackInfo?.metadata).toEqual({
+      musicId: 1234567,
+      title: 'Song',
+      artists: ['Artist A', 'Artist B'],
+      album: 'Album',
+      durationMs: 215000,
+      bitrate: 999000,
+      format: 'flac',
+    });
+  });
+
+  it('unwraps radio programmes and fills in what the block leaves out', () => {
+    const dj = parseNcmMetadata(metaBlock(`dj:${JSON.stringify({ programName: 'Episode', mainMusic: { ...song, format: 'mp3' } })}`));
+    expect(dj).toMatchObject({ musicId: 1234567, title: 'Song', format: 'mp3' });
+    expect(parseNcmMetadata(metaBlock('music:{"format":"ogg"}'))).toEqual({
+      musicId: undefined,
+      title: '',
+      artists: [],
+      album: '',
+      durationMs: 0,
+      bitrate: 0,
+      format: 'mp3',
+    });
+  });
+
+  it('leaves the metadata out when the block is missing or corrupt, and still decrypts', async () => {
+    expect(parseNcmMetadata(null)).toBeNull();
+    expect(() => parseNcmMetadata(metaBlock('not metadata'))).toThrow('Unrecognised NCM metadata block');
+
+    const audio = sampleAudio(100);
+    const corrupt = metaBlock(`music:${JSON.stringify(song)}`).subarray(0, 40);
+    for (const meta of [new Uint8Array(0), corrupt]) {
+      const source = bytesSource(makeNcm(audio, { meta }));
+      const session = await openSource(source, 'song.ncm');
+      expect(session.trackInfo?.metadata).toBeNull();
+      expect(await decryptAudio(source, session)).toEqual(audio);
+    }
+  });
+});
@@ -0,0 +1,255 @@
+import { aes128EcbDecrypt } from './aes';
+import { ConversionErrorCode, InnerFormat, TrackMetadata } from '../types';
+import { ConversionFailure } from './conversionErrors';
+import type { Decoder } from './decoders';
+import type { ByteSource, TrackInfo } from './trackInfo';
+
+/**
+ * Pure TypeScript NCM decoder.
+ *
+ * NCM layout (all integers little endian):
+ *   magic "CTENFDAM" (8) | gap (2)
+ *   key length (4) | key data, XOR 0x64 then AES-128-ECB with CORE_KEY
+ *   metadata length (4) | metadata, XOR 0x63 ("163 key" block)
+ *   CRC32 (4) | gap (1) | cover frame length (4)
+ *   image length (4) | image data | padding up to the cover frame length
+ *   audio data, XORed with a key stream derived from the RC4 S-box
+ *
+ * Reads the same layout as `ncm.rs` on the Tauri side.
+ * Registered as `ncmDecoder` in `decoders.ts`.
+ */
+
+const MAGIC = 'CTENFDAM';
+const CORE_KEY = new Uint8Array([
+  0x68, 0x7a, 0x48, 0x52, 0x41, 0x6d, 0x73, 0x6f, 0x35, 0x6b, 0x49, 0x6e, 0x62, 0x61, 0x78, 0x57,
+]);
+const META_KEY = new Uint8Array([
+  0x23, 0x31, 0x34, 0x6c, 0x6a, 0x6b, 0x5f, 0x21, 0x5c, 0x5d, 0x26, 0x30, 0x55, 0x3c, 0x27, 0x28,
+]);
+const KEY_PREFIX_LENGTH = 17; // "neteasecloudmusic"
+const META_PREFIX_LENGTH = 22; // "163 key(Don't modify):"
+// Songs are "music:{...}"; radio (DJ) programmes are "dj:{...}" and wrap the song in `mainMusic`
+const META_JSON_PREFIX = /^(music|dj):/;
+
+export interface NcmHeader {
+  keyBox: Uint8Array;
+  metadata: Uint8Array | null;
+  image: Uint8Array | null;
+  audioOffset: number;
+}
+
+const readUint32 = (buffer: Uint8Array, offset: number): number => {
+  if (offset + 4 > buffer.length) {
+    throw new ConversionFailure(ConversionErrorCode.TRUNCATED_AUDIO, 'Unexpected end of NCM file');
+  }
+  return new DataView(buffer.buffer, buffer.byteOffset + offset, 4).getUint32(0, true);
+};
+
+const readBlock = (buffer: Uint8Array, offset: number, length: number): Uint8Array => {
+  if (offset + length > buffer.length) {
+    throw new ConversionFailure(ConversionErrorCode.TRUNCATED_AUDIO, 'Unexpected end of NCM file');
+  }
+  return buffer.subarray(offset, offset + length);
+};
+
+export function isNcm(buffer: Uint8Array): boolean {
+  if (buffer.length < MAGIC.length) return false;
+  for (let i = 0; i < MAGIC.length; i++) {
+    if (buffer[i] !== MAGIC.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/** Standard RC4 key scheduling; NCM only changes how the stream is drawn from it. */
+const buildKeyBox = (key: Uint8Array): Uint8Array => {
+  const box = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) box[i] = i;
+  let last = 0;
+  for (let i = 0; i < 256; i++) {
+    const swap = box[i];
+    const c = (swap + last + key[i % key.length]) & 0xff;
+    box[i] = box[c];
+    box[c] = swap;
+    last = c;
+  }
+  return box;
+};
+
+const decryptKey = (keyData: Uint8Array): Uint8Array => {
+  try {
+    const key = aes128EcbDecrypt(keyData, CORE_KEY);
+    if (key.length > KEY_PREFIX_LENGTH) return key;
+  } catch {
+    // Reported below
+  }
+  throw new ConversionFailure(ConversionErrorCode.KEY_DECRYPT_FAILED, 'NCM key could not be decrypted');
+};
+
+/**
+ * Parses everything up to the start of the audio data.
+ * The metadata block is returned still encrypted; callers that do not need it never pay for it.
+ */
+export function parseNcmHeader(buffer: Uint8Array): NcmHeader {
+  if (!isNcm(buffer)) {
+    throw new ConversionFailure(ConversionErrorCode.BAD_MAGIC, 'Invalid NCM file format');
+  }
+  let offset = MAGIC.length + 2;
+
+  const keyLength = readUint32(buffer, offset);
+  offset += 4;
+  const keyData = readBlock(buffer, offset, keyLength).map(b => b ^ 0x64);
+  offset += keyLength;
+  const decryptedKey = decryptKey(keyData);
+  const keyBox = buildKeyBox(decryptedKey.subarray(KEY_PREFIX_LENGTH));
+
+  const metaLength = readUint32(buffer, offset);
+  offset += 4;
+  const metadata = metaLength > 0 ? readBlock(buffer, offset, metaLength) : null;
+  offset += metaLength;
+
+  // CRC32 (4) + gap (1)
+  offset += 5;
+  const coverFrameLength = readUint32(buffer, offset);
+  offset += 4;
+  const imageLength = readUint32(buffer, offset);
+  offset += 4;
+  const image = imageLength > 0 ? readBlock(buffer, offset, imageLength) : null;
+  offset += Math.max(coverFrameLength, imageLength);
+
+  return { keyBox, metadata, image, audioOffset: offset };
+}
+
+/**
+ * Walks the length fields only, returning the offset where the audio starts,
+ * or null if `prefix` is too short to tell. Lets callers read just the header
+ * of a large file instead of the whole thing.
+ */
+export function measureNcmHeader(prefix: Uint8Array): number | null {
+  if (!isNcm(prefix)) {
+    throw new ConversionFailure(ConversionErrorCode.BAD_MAGIC, 'Invalid NCM file format');
+  }
+  let offset = MAGIC.length + 2;
+  // Key block, then metadata block.
+  for (let block = 0; block < 2; block++) {
+    if (offset + 4 > prefix.length) return null;
+    offset += 4 + readUint32(prefix, offset);
+  }
+  offset += 5;
+  if (offset + 8 > prefix.length) return null;
+  const coverFrameLength = readUint32(prefix, offset);
+  const imageLength = readUint32(prefix, offset + 4);
+  return offset + 8 + Math.max(coverFrameLength, imageLength);
+}
+
+interface RawNcmMetadata {
+  musicId?: number | string;
+  musicName?: string;
+  artist?: [string, number | string][];
+  album?: string;
+  duration?: number;
+  bitrate?: number;
+  format?: string;
+}
+
+const decodeBase64 = (text: string): Uint8Array => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Decrypts the "163 key" block into typed track metadata.
+ * Returns null when the block is absent; throws if it is present but unreadable.
+ */
+export function parseNcmMetadata(block: Uint8Array | null): TrackMetadata | null {
+  if (!block || block.length <= META_PREFIX_LENGTH) return null;
+
+  const encoded = new TextDecoder().decode(block.subarray(META_PREFIX_LENGTH).map(b => b ^ 0x63));
+  const json = new TextDecoder().decode(aes128EcbDecrypt(decodeBase64(encoded), META_KEY));
+  const prefix = META_JSON_PREFIX.exec(json);
+  if (!prefix) {
+    throw new Error('Unrecognised NCM metadata block');
+  }
+
+  const parsed = JSON.parse(json.slice(prefix[0].length));
+  const raw: RawNcmMetadata = parsed.mainMusic ?? parsed;
+  return {
+    musicId: raw.musicId !== undefined ? Number(raw.musicId) : undefined,
+    title: raw.musicName ?? '',
+    artists: (raw.artist ?? []).map(([name]) => name),
+    album: raw.album ?? '',
+    durationMs: raw.duration ?? 0,
+    bitrate: raw.bitrate ?? 0,
+    format: raw.format === 'flac' ? 'flac' : 'mp3',
+  };
+}
+
+/** Sniffs JPEG vs PNG so the cover can be labelled with the right MIME type. */
+export function coverMimeType(image: Uint8Array): string {
+  return image[0] === 0x89 && image[1] === 0x50 ? 'image/png' : 'image/jpeg';
+}
+
+/**
+ * De-XORs `data` in place. `position` is the offset of `data[0]` from the start
+ * of the audio stream, so the audio can be processed in chunks.
+ */
+export function decryptNcmAudio(data: Uint8Array, keyBox: Uint8Array, position = 0): void {
+  for (let i = 0; i < data.length; i++) {
+    const j = (position + i + 1) & 0xff;
+    data[i] ^= keyBox[(keyBox[j] + keyBox[(keyBox[j] + j) & 0xff]) & 0xff];
+  }
+}
+
+export function sniffInnerFormat(audio: Uint8Array): InnerFormat {
+  return audio.length >= 4 && audio[0] === 0x66 && audio[1] === 0x4c && audio[2] === 0x61 && audio[3] === 0x43
+    ? 'flac'
+    : 'mp3';
+}
+
+const INITIAL_READ = 64 * 1024;
+
+/** Reads only the NCM header of `source` (not the audio) and parses it. */
+export async function readNcmHeader(source: ByteSource): Promise<NcmHeader> {
+  let size = INITIAL_READ;
+  for (;;) {
+    const prefix = await source.read(0, size);
+    const headerLength = measureNcmHeader(prefix);
+    if (headerLength !== null) {
+      return parseNcmHeader(headerLength > prefix.length ? await source.read(0, headerLength) : prefix);
+    }
+    if (size >= source.size) {
+      throw new ConversionFailure(ConversionErrorCode.TRUNCATED_AUDIO, 'Unexpected end of NCM file');
+    }
+    size *= 4;
+  }
+}
+
+/** Extracts typed metadata and the cover image from an already parsed header. */
+export function trackInfoFromHeader(header: NcmHeader): TrackInfo {
+  let metadata: TrackMetadata | null = null;
+  try {
+    metadata = parseNcmMetadata(header.metadata);
+  } catch (error) {
+    // A damaged metadata block does not stop the audio from being converted.
+    console.warn('[NCM] Unreadable metadata:', error);
+  }
+  const cover = header.image ? { data: header.image, mimeType: coverMimeType(header.image) } : null;
+  return { metadata, cover };
+}
+
+export const ncmDecoder: Decoder = {
+  format: 'ncm',
+  label: 'NCM',
+  extensions: ['ncm'],
+  matchesMagic: isNcm,
+  async open(source) {
+    const header = await readNcmHeader(source);
+    return {
+      audioOffset: header.audioOffset,
+      audioLength: source.size - header.audioOffset,
+      decrypt: (data, position) => decryptNcmAudio(data, header.keyBox, position),
+      trackInfo: trackInfoFromHeader(header),
+    };
+  },
+};
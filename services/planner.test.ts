@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFile, ConversionSettings, ConversionStatus, InnerFormat, OutputFormat, OverwritePolicy } from '../types';
+import { defaultSettings } from './settingsStore';
+import { buildPlan, planToCsv, PlanProbe, resolveOutputPath } from './planner';
+
+const settings = (patch: Partial<ConversionSettings> = {}): ConversionSettings => ({ ...defaultSettings(true), ...patch });
+
+const makeFile = (id: string, patch: Partial<AudioFile> = {}): AudioFile => ({
+  id,
+  name: `${id}.ncm`,
+  path: `/music/${id}.ncm`,
+  size: 1024,
+  status: ConversionStatus.PENDING,
+  progress: 0,
+  ...patch,
+});
+
+const probe = (formats: Record<string, InnerFormat | null>, existing: string[] = [], isTauri = true): PlanProbe => ({
+  isTauri,
+  innerFormatOf: async file => formats[file.id] ?? null,
+  pathsExist: async paths => paths.map(path => existing.includes(path)),
+});
+
+describe('resolveOutputPath', () => {
+  it('mirrors the backend: output directory or the source folder, keeping the path style', () => {
+    const file = makeFile('a', { outputStem: 'Album/Song' });
+    expect(resolveOutputPath(file, settings(), true)).toBe('/music/Album/Song.flac');
+    expect(resolveOutputPath(file, settings({ outputDirectory: 'D:\\Out' }), true)).toBe('D:\\Out\\Album\\Song.flac');
+    expect(resolveOutputPath(file, settings(), false)).toBe('Album/Song.flac');
+  });
+});
+
+describe('buildPlan', () => {
+  it('tells passthrough from conversion by the detected inner format', async () => {
+    const plan = await buildPlan([makeFile('a'), makeFile('b')], settings(), probe({ a: 'flac', b: 'mp3' }));
+    expect(plan.entries.map(e => [e.innerFormat, e.action])).toEqual([['flac', 'passthrough'], ['mp3', 'convert']]);
+  });
+
+  it('names outputs after the sniffed stream when the metadata has no format', async () => {
+    const files = [makeFile('a'), makeFile('b', { innerFormat: 'flac' })];
+    const plan = await buildPlan(files, settings({ outputFormat: OutputFormat.ORIGINAL, overwritePolicy: OverwritePolicy.SKIP }), probe({ a: 'flac' }, ['/music/a.flac']));
+    expect(plan.entries.map(e => [e.outputPath, e.innerFormat, e.action])).toEqual([
+      ['/music/a.flac', 'flac', 'skip'],
+      ['/music/b.flac', 'flac', 'passthrough'],
+    ]);
+  });
+
+  it('plans QMC, KGM and KWM FLAC streams as FLAC although they carry no metadata', async () => {
+    const names = ['a.qmcflac', 'b.mflac', 'c.kgm', 'd.kwm'];
+    const files = names.map(name => makeFile(name, { name, path: `/music/${name}` }));
+    const plan = await buildPlan(files, settings({ outputFormat: OutputFormat.ORIGINAL }), probe(Object.fromEntries(names.map(name => [name, 'flac']))));
+    expect(plan.entries.map(e => e.outputPath)).toEqual(['/music/a.flac', '/music/b.flac', '/music/c.flac', '/music/d.flac']);
+  });
+
+  it('applies the overwrite policy to outputs that already exist', async () => {
+    const files = [makeFile('a')];
+    const existing = ['/music/a.flac'];
+    const run = (overwritePolicy: OverwritePolicy) => buildPlan(files, settings({ overwritePolicy }), probe({ a: 'flac' }, existing));
+
+    expect((await run(OverwritePolicy.SKIP)).entries[0].action).toBe('skip');
+    expect((await run(OverwritePolicy.OVERWRITE)).entries[0].action).toBe('overwrite');
+    const renamed = (await run(OverwritePolicy.RENAME)).entries[0];
+    expect(renamed.action).toBe('passthrough');
+    expect(renamed.conflicts).toEqual(['Output already exists; a numbered copy will be written']);
+  });
+
+  it('lets the policy chosen for a duplicate override the batch setting', async () => {
+    const files = [makeFile('a', { overwritePolicy: OverwritePolicy.OVERWRITE }), makeFile('b', { replaces: '/library/b.mp3' })];
+    const plan = await buildPlan(files, settings({ overwritePolicy: OverwritePolicy.SKIP }), probe({ a: 'flac', b: 'flac' }, ['/music/a.flac']));
+    expect(plan.entries.map(e => e.action)).toEqual(['overwrite', 'passthrough']);
+    expect(plan.entries[1].conflicts).toEqual(['Replaces the lower-bitrate copy /library/b.mp3']);
+  });
+
+  it('reports name clashes, unreadable headers and files that will not run', async () => {
+    const files = [
+      makeFile('a', { outputStem: 'a (2)' }),
+      makeFile('b'),
+      makeFile('c', { status: ConversionStatus.SKIPPED, note: 'Converted 1/2/2026' }),
+    ];
+    const plan = await buildPlan(files, settings(), probe({ a: 'flac', c: 'flac' }));
+    expect(plan.entries.map(e => e.conflicts)).toEqual([
+      ['Name clashes with another file in this batch'],
+      ['Header is unreadable'],
+      ['Converted 1/2/2026'],
+    ]);
+    expect(plan.entries[2].action).toBe('skip');
+  });
+
+  it('reports Windows output paths that are too long', async () => {
+    const long = makeFile('a', { name: `${'Song '.repeat(48)}.ncm` });
+    const files = [long, makeFile('b')];
+    const plan = await buildPlan(files, settings({ outputDirectory: 'C:\\Music\\Converted' }), probe({ a: 'flac', b: 'flac' }));
+    expect(plan.entries.map(e => e.conflicts)).toEqual([['Output path is 264 characters; Windows allows 259'], []]);
+    expect((await buildPlan([long], settings({ outputDirectory: '/music/converted' }), probe({ a: 'flac' }))).entries[0].conflicts).toEqual([]);
+  });
+
+  it('flags transcodes the browser cannot do', async () => {
+    const plan = await buildPlan([makeFile('a')], settings({ outputFormat: OutputFormat.FLAC }), probe({ a: 'mp3' }, [], false));
+    expect(plan.entries[0].conflicts).toEqual(['Needs the desktop app (FFmpeg)']);
+  });
+});
+
+describe('planToCsv', () => {
+  it('quotes fields that contain separators', async () => {
+    const plan = await buildPlan([makeFile('a, "live"')], settings(), probe({}));
+    expect(planToCsv(plan).split('\r\n')[1]).toBe(
+      '"/music/a, ""live"".ncm","/music/a, ""live"".flac",,convert,Header is unreadable',
+    );
+  });
+});
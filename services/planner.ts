@@ -0,0 +1,124 @@
+import { AudioFile, ConversionPlan, ConversionSettings, ConversionStatus, InnerFormat, OverwritePolicy, PlanEntry } from '../types';
+import { toCsv } from './csv';
+import { stripSourceExtension } from './decoders';
+import { NamingSource, renderTemplate } from './filenameTemplate';
+import { isPassthrough, targetExtension } from './settingsStore';
+
+/** Environment access the planner needs; the real one goes through the `ConversionBackend`. */
+export interface PlanProbe {
+  isTauri: boolean;
+  innerFormatOf(file: AudioFile): Promise<InnerFormat | null>;
+  pathsExist(paths: string[]): Promise<boolean[]>;
+}
+
+/**
+ * Extension a file's output will get. Execution and planning must agree on it:
+ * backends name outputs after the sniffed stream, so the NCM metadata is only
+ * a fallback for files whose `innerFormat` was never read.
+ */
+export const outputExtension = (file: NamingSource, settings: ConversionSettings) =>
+  targetExtension(settings.outputFormat, file.innerFormat ?? file.metadata?.format ?? 'mp3');
+
+/** The batch settings with the overrides chosen for `file` in the duplicates review. */
+export const settingsForFile = (file: AudioFile, settings: ConversionSettings): ConversionSettings =>
+  file.overwritePolicy ? { ...settings, overwritePolicy: file.overwritePolicy } : settings;
+
+const dirname = (path: string) => path.replace(/[\\/][^\\/]*$/, '');
+
+// MAX_PATH less the terminating null; templates can nest folders deep enough to
+// pass it even though every single name stays under its own limit.
+const MAX_WINDOWS_PATH = 259;
+const isWindowsPath = (path: string) => /^([a-z]:[\\/]|\\\\)/i.test(path);
+
+/** Joins with the separator the base path already uses, so Windows paths stay Windows paths. */
+export const joinPath = (base: string, relative: string) => {
+  const separator = base.includes('\\') && !base.includes('/') ? '\\' : '/';
+  return `${base.replace(/[\\/]+$/, '')}${separator}${relative.split('/').join(separator)}`;
+};
+
+/** Where the backend will write `file`, mirroring the path resolution in `convert.rs`. */
+export function resolveOutputPath(file: AudioFile, settings: ConversionSettings, isTauri: boolean): string {
+  const stem = file.outputStem ?? stripSourceExtension(file.name);
+  const name = `${stem}.${outputExtension(file, settings)}`;
+  if (!isTauri) return name;
+  return joinPath(settings.outputDirectory ?? dirname(file.path), name);
+}
+
+const NOT_QUEUED_REASONS: Partial<Record<ConversionStatus, string>> = {
+  [ConversionStatus.COMPLETED]: 'Already converted',
+  [ConversionStatus.SKIPPED]: 'Skipped',
+  [ConversionStatus.FAILED]: 'Failed earlier; retry to include it',
+  [ConversionStatus.CANCELLED]: 'Cancelled; retry to include it',
+  [ConversionStatus.CONVERTING]: 'Already converting',
+  [ConversionStatus.TAGGING]: 'Already converting',
+};
+
+/**
+ * Computes what a batch would do without touching any output.
+ *
+ * `files` are expected to carry their planned `outputStem` (see
+ * `planOutputStems`); a stem that differs from the plain template rendering
+ * is reported as a name clash.
+ */
+export async function buildPlan(files: AudioFile[], settings: ConversionSettings, probe: PlanProbe): Promise<ConversionPlan> {
+  const innerFormats: (InnerFormat | null)[] = [];
+  for (const file of files) innerFormats.push(file.innerFormat ?? await probe.innerFormatOf(file));
+  const outputPaths = files.map((file, i) => resolveOutputPath({ ...file, innerFormat: innerFormats[i] ?? undefined }, settings, probe.isTauri));
+  // Browser outputs are downloads, which never clash with anything on disk.
+  const exists = probe.isTauri ? await probe.pathsExist(outputPaths) : outputPaths.map(() => false);
+
+  const entries: PlanEntry[] = [];
+  for (const [i, file] of files.entries()) {
+    const innerFormat = innerFormats[i];
+    const conflicts: string[] = [];
+    let action: PlanEntry['action'];
+
+    if (file.status !== ConversionStatus.PENDING) {
+      action = 'skip';
+      conflicts.push(file.note ?? NOT_QUEUED_REASONS[file.status] ?? 'Not queued');
+    } else {
+      const passthrough = innerFormat !== null && isPassthrough(settings.outputFormat, innerFormat);
+      action = passthrough ? 'passthrough' : 'convert';
+      if (innerFormat === null) conflicts.push('Header is unreadable');
+      else if (!passthrough && !probe.isTauri) conflicts.push('Needs the desktop app (FFmpeg)');
+
+      if (file.outputStem && file.outputStem !== renderTemplate(settings.filenameTemplate, file)) {
+        conflicts.push('Name clashes with another file in this batch');
+      }
+      if (file.replaces) conflicts.push(`Replaces the lower-bitrate copy ${file.replaces}`);
+      if (isWindowsPath(outputPaths[i]) && outputPaths[i].length > MAX_WINDOWS_PATH) {
+        conflicts.push(`Output path is ${outputPaths[i].length} characters; Windows allows ${MAX_WINDOWS_PATH}`);
+      }
+      if (exists[i]) {
+        switch (settingsForFile(file, settings).overwritePolicy) {
+          case OverwritePolicy.SKIP:
+            action = 'skip';
+            conflicts.push('Output already exists');
+            break;
+          case OverwritePolicy.OVERWRITE:
+            action = 'overwrite';
+            conflicts.push('Output already exists and will be replaced');
+            break;
+          case OverwritePolicy.RENAME:
+            conflicts.push('Output already exists; a numbered copy will be written');
+            break;
+        }
+      }
+    }
+
+    entries.push({ fileId: file.id, sourcePath: file.path, outputPath: outputPaths[i], innerFormat, action, conflicts });
+  }
+  return { createdAt: Date.now(), settings, entries };
+}
+
+export function planToCsv(plan: ConversionPlan): string {
+  const rows = [['source', 'output', 'format', 'action', 'conflicts']];
+  plan.entries.forEach(entry => rows.push([
+    entry.sourcePath,
+    entry.outputPath,
+    entry.innerFormat ?? '',
+    entry.action,
+    entry.conflicts.join('; '),
+  ]));
+  return toCsv(rows);
+}
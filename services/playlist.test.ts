@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFile, ConversionSettings, ConversionStatus, PlaylistMode, TrackMetadata, VerificationStatus } from '../types';
+import { defaultSettings } from './settingsStore';
+import { planLayout, relativePath, sessionPlaylistName } from './playlist';
+
+const settings = (patch: Partial<ConversionSettings> = {}): ConversionSettings => ({ ...defaultSettings(true), ...patch });
+
+const metadata = (title: string, album: string, musicId: number, artists = ['Band']): TrackMetadata =>
+  ({ title, artists, album, musicId, durationMs: 200_400, bitrate: 320_000, format: 'flac' });
+
+const converted = (id: string, outputPath: string, meta?: TrackMetadata, patch: Partial<AudioFile> = {}): AudioFile => ({
+  id,
+  name: `${id}.ncm`,
+  path: `/music/${id}.ncm`,
+  size: 1024,
+  status: ConversionStatus.COMPLETED,
+  progress: 100,
+  outputPath,
+  outputName: outputPath.split('/').pop(),
+  metadata: meta,
+  ...patch,
+});
+
+describe('relativePath', () => {
+  it('walks up and down from the playlist folder', () => {
+    expect(relativePath('/out/Band/Album', '/out/Band/Album/1.flac')).toBe('1.flac');
+    expect(relativePath('/out', '/out/Band/Album/1.flac')).toBe('Band/Album/1.flac');
+    expect(relativePath('/out/Band/Album', '/out/Other/2.flac')).toBe('../../Other/2.flac');
+    expect(relativePath('C:\\Out', 'C:\\Out\\Band\\1.flac')).toBe('Band\\1.flac');
+  });
+
+  it('keeps absolute paths to another drive', () => {
+    expect(relativePath('C:\\Out', 'D:\\Music\\1.flac')).toBe('D:\\Music\\1.flac');
+  });
+});
+
+describe('planLayout', () => {
+  const files = [
+    converted('b', '/music/b.flac', metadata('Second', 'Album', 11)),
+    converted('a', '/music/a.flac', metadata('First', 'Album', 10)),
+    converted('c', '/music/c.mp3', metadata('Single, live', 'Other', 5, ['Band', 'Guest'])),
+    converted('q', '/music/q.flac'),
+    converted('f', '/music/f.flac', metadata('Failed', 'Album', 12), { status: ConversionStatus.FAILED }),
+  ];
+
+  it('moves outputs with album details into Artist/Album folders, in track order', () => {
+    const layout = planLayout(files, settings({ organiseByAlbum: true }), 'Session');
+    expect(layout.moves).toEqual([
+      { id: 'a', from: '/music/a.flac', to: '/music/Band/Album/a.flac' },
+      { id: 'b', from: '/music/b.flac', to: '/music/Band/Album/b.flac' },
+      { id: 'c', from: '/music/c.mp3', to: '/music/Band/Other/c.mp3' },
+    ]);
+    expect(layout.unsorted).toBe(1);
+    expect(layout.playlists).toEqual([]);
+  });
+
+  it('uses the output directory and keeps both of two outputs with one name', () => {
+    const twins = [
+      converted('x', '/out/Intro.flac', metadata('Intro', 'Album', 1)),
+      converted('y', '/out/sub/Intro.flac', metadata('Intro', 'Album', 2)),
+    ];
+    const layout = planLayout(twins, settings({ organiseByAlbum: true, outputDirectory: '/out' }), 'Session');
+    expect(layout.moves.map(move => move.to)).toEqual(['/out/Band/Album/Intro.flac', '/out/Band/Album/Intro (2).flac']);
+  });
+
+  it('leaves outputs that are already in place', () => {
+    const placed = [converted('a', '/music/Band/Album/a.flac', metadata('First', 'Album', 10))];
+    expect(planLayout(placed, settings({ organiseByAlbum: true }), 'Session').moves).toEqual([]);
+  });
+
+  it('writes one playlist per album next to its tracks', () => {
+    const layout = planLayout(files, settings({ organiseByAlbum: true, playlistMode: PlaylistMode.ALBUM }), 'Session');
+    expect(layout.playlists.map(playlist => playlist.path)).toEqual(['/music/Band/Album/Band - Album.m3u8', '/music/Band/Other/Band - Other.m3u8']);
+    expect(layout.playlists[0].text).toBe('#EXTM3U\n#EXTINF:200,Band - First\na.flac\n#EXTINF:200,Band - Second\nb.flac\n');
+    expect(layout.playlists[1].text).toContain('#EXTINF:200,Band, Guest - Single, live\nc.mp3\n');
+  });
+
+  it('writes one playlist for the session in the folder all outputs share', () => {
+    const layout = planLayout(files, settings({ playlistMode: PlaylistMode.SESSION }), 'SonicTransmute 2024-05-01 21.30');
+    expect(layout.moves).toEqual([]);
+    expect(layout.playlists).toEqual([{
+      path: '/music/SonicTransmute 2024-05-01 21.30.m3u8',
+      text: '#EXTM3U\n#EXTINF:200,Band - First\na.flac\n#EXTINF:200,Band - Second\nb.flac\n'
+        + '#EXTINF:200,Band, Guest - Single, live\nc.mp3\n#EXTINF:-1,q\nq.flac\n',
+    }]);
+  });
+
+  it('lays out browser downloads inside the zip', () => {
+    const downloads = [
+      converted('a', 'a.flac', metadata('First', 'Album', 10), { outputPath: undefined, outputName: 'a.flac' }),
+      converted('q', 'q.flac', undefined, { outputPath: undefined, outputName: 'q.flac', verification: { status: VerificationStatus.VERIFIED, durationMs: 61_600 } }),
+    ];
+    const layout = planLayout(downloads, settings({ organiseByAlbum: true, playlistMode: PlaylistMode.SESSION }), 'Session');
+    expect(layout.moves).toEqual([{ id: 'a', from: 'a.flac', to: 'Band/Album/a.flac' }]);
+    expect(layout.playlists).toEqual([{ path: 'Session.m3u8', text: '#EXTM3U\n#EXTINF:200,Band - First\nBand/Album/a.flac\n#EXTINF:62,q\nq.flac\n' }]);
+  });
+});
+
+describe('sessionPlaylistName', () => {
+  it('names the playlist after the local start time', () => {
+    expect(sessionPlaylistName(new Date(2024, 4, 1, 21, 30).getTime())).toBe('SonicTransmute 2024-05-01 21.30');
+  });
+});
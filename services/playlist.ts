@@ -0,0 +1,185 @@
+import { AudioFile, ConversionSettings, ConversionStatus, PlaylistMode, TrackMetadata } from '../types';
+import { sanitizeSegment } from './filenameTemplate';
+import { folderOf } from './lyrics';
+import { joinPath } from './planner';
+
+/**
+ * What happens after a batch: outputs moved into Artist/Album folders and
+ * M3U8 playlists written next to them. Only the layout is computed here; the
+ * backend carries it out (see `ConversionBackend.arrangeOutputs`).
+ *
+ * Paths are those of the outputs: absolute on the desktop, the download name
+ * (relative to the zip) in the browser.
+ */
+
+export const PLAYLIST_EXTENSION = 'm3u8';
+
+const UNKNOWN_ARTIST = 'Unknown Artist';
+const UNKNOWN_ALBUM = 'Unknown Album';
+
+export interface OutputMove {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export interface PlaylistFile {
+  path: string;
+  text: string;
+}
+
+export interface OutputLayout {
+  moves: OutputMove[];
+  playlists: PlaylistFile[];
+  unsorted: number; // converted files without NCM metadata, left where they are and out of album playlists
+}
+
+/** Moves that went through, and those that did not with the reason. */
+export interface ArrangeResult {
+  moved: OutputMove[];
+  failed: { move: OutputMove; message: string }[];
+}
+
+/** "SonicTransmute 2024-05-01 21.30": the session playlist, named after when the session started (local time). */
+export function sessionPlaylistName(startedAt: number): string {
+  const date = new Date(startedAt);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `SonicTransmute ${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}.${pad(date.getMinutes())}`;
+}
+
+const locationOf = (file: AudioFile) => file.outputPath ?? file.outputName;
+
+const nameOf = (path: string) => path.split(/[\\/]/).pop()!;
+
+const separatorOf = (path: string) => (path.includes('\\') && !path.includes('/') ? '\\' : '/');
+
+const isAbsolute = (path: string) => /^([\\/]|[a-z]:)/i.test(path);
+
+const hasAlbumInfo = (metadata: TrackMetadata | undefined): metadata is TrackMetadata =>
+  !!metadata && (metadata.artists.length > 0 || !!metadata.album);
+
+const artistOf = (metadata: TrackMetadata) => sanitizeSegment(metadata.artists[0] ?? '') || UNKNOWN_ARTIST;
+const albumOf = (metadata: TrackMetadata) => sanitizeSegment(metadata.album) || UNKNOWN_ALBUM;
+
+const albumKey = (metadata: TrackMetadata) => `${artistOf(metadata)}\u0000${albumOf(metadata)}`.toLowerCase();
+
+/** The album `file` belongs to, as the album folders and playlists group them; null without album details. */
+export const albumKeyOf = (file: AudioFile): string | null => (hasAlbumInfo(file.metadata) ? albumKey(file.metadata) : null);
+
+/**
+ * Album, then track order. The NCM metadata has no track number, but NetEase
+ * numbers the songs of an album in track order, so the song id stands in for it.
+ */
+const compareTracks = (a: AudioFile, b: AudioFile): number => {
+  if (hasAlbumInfo(a.metadata) !== hasAlbumInfo(b.metadata)) return hasAlbumInfo(a.metadata) ? -1 : 1;
+  if (hasAlbumInfo(a.metadata) && hasAlbumInfo(b.metadata)) {
+    const byAlbum = albumKey(a.metadata).localeCompare(albumKey(b.metadata));
+    if (byAlbum !== 0) return byAlbum;
+    const byId = (a.metadata.musicId ?? Infinity) - (b.metadata.musicId ?? Infinity);
+    if (byId) return byId;
+  }
+  return a.name.localeCompare(b.name, undefined, { numeric: true });
+};
+
+/** `to` as seen from `folder`; absolute when they share no root (another drive). */
+export function relativePath(folder: string, to: string): string {
+  const separator = separatorOf(to);
+  const base = folder.split(/[\\/]/).filter(Boolean);
+  const target = to.split(/[\\/]/).filter(Boolean);
+  if (folder === '') return target.join(separator);
+  let common = 0;
+  while (common < base.length && common < target.length - 1 && base[common] === target[common]) common++;
+  if (common === 0 && base.length > 0 && isAbsolute(to)) return to;
+  return [...base.slice(common).map(() => '..'), ...target.slice(common)].join(separator);
+}
+
+/** The deepest folder holding every path; for download names, '' is the top of the zip. */
+const commonFolder = (paths: string[]): string => {
+  const separator = separatorOf(paths[0]);
+  const split = paths.map(path => folderOf(path).split(/[\\/]/));
+  let depth = 0;
+  while (split.every(parts => depth < parts.length && parts[depth] === split[0][depth])) depth++;
+  const common = split[0].slice(0, depth).join(separator);
+  if (!isAbsolute(paths[0])) return common;
+  // Outputs on different drives: next to the first, with absolute paths to the others
+  if (depth === 0) return folderOf(paths[0]);
+  return common || separator;
+};
+
+/** `#EXTINF` title: "Artists - Title" from the metadata, otherwise the output name. */
+const displayTitle = (file: AudioFile, location: string) => file.metadata?.title
+  ? [file.metadata.artists.join(', '), file.metadata.title].filter(Boolean).join(' - ')
+  : nameOf(location).replace(/\.[^.]*$/, '');
+
+/** -1 is M3U for "unknown length". */
+const durationSeconds = (file: AudioFile) => {
+  const ms = file.metadata?.durationMs || file.verification?.durationMs;
+  return ms ? Math.round(ms / 1000) : -1;
+};
+
+/** An extended M3U playlist of `tracks`, UTF-8, with paths relative to where it is written. */
+export function renderM3u8(playlistPath: string, tracks: { file: AudioFile; location: string }[]): string {
+  const folder = folderOf(playlistPath);
+  const lines = ['#EXTM3U'];
+  tracks.forEach(({ file, location }) => {
+    // A comma ends the duration, so titles may contain commas but not line breaks
+    lines.push(`#EXTINF:${durationSeconds(file)},${displayTitle(file, location).replace(/[\r\n]+/g, ' ')}`);
+    lines.push(relativePath(folder, location));
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+/** "Artist/Album/Song.flac" under the output directory, or under the source folder when outputs sit next to their sources. */
+const organisedLocation = (file: AudioFile, location: string, settings: ConversionSettings, metadata: TrackMetadata) => {
+  const relative = `${artistOf(metadata)}/${albumOf(metadata)}/${nameOf(location)}`;
+  // Browser outputs are download names, already relative to the zip
+  if (!file.outputPath) return relative;
+  return joinPath(settings.outputDirectory ?? folderOf(file.path), relative);
+};
+
+const joinOrName = (folder: string, name: string) => (folder ? joinPath(folder, name) : name);
+
+/**
+ * Lays out the converted files of a session. Running it again after more
+ * files were converted is safe: files already in place stay, and playlists
+ * are written again with the new tracks added.
+ */
+export function planLayout(files: AudioFile[], settings: ConversionSettings, sessionName: string): OutputLayout {
+  const converted = files
+    .filter(file => file.status === ConversionStatus.COMPLETED && locationOf(file))
+    .sort(compareTracks);
+  const moves: OutputMove[] = [];
+  const taken = new Set<string>();
+  const tracks = converted.map(file => {
+    const from = locationOf(file)!;
+    if (!settings.organiseByAlbum || !hasAlbumInfo(file.metadata)) return { file, location: from };
+    const target = organisedLocation(file, from, settings, file.metadata);
+    // Two "Intro.flac" from different source folders can meet in one album folder
+    let to = target;
+    for (let n = 2; taken.has(to.toLowerCase()); n++) to = target.replace(/(\.\w+)$/, ` (${n})$1`);
+    taken.add(to.toLowerCase());
+    if (to !== from) moves.push({ id: file.id, from, to });
+    return { file, location: to };
+  });
+
+  const playlists: PlaylistFile[] = [];
+  if (settings.playlistMode === PlaylistMode.ALBUM) {
+    const albums = new Map<string, typeof tracks>();
+    tracks.filter(track => hasAlbumInfo(track.file.metadata)).forEach(track => {
+      const key = albumKey(track.file.metadata!);
+      albums.set(key, [...(albums.get(key) ?? []), track]);
+    });
+    albums.forEach(album => {
+      const [{ file, location }] = album;
+      const name = sanitizeSegment(`${artistOf(file.metadata!)} - ${albumOf(file.metadata!)}`);
+      const path = joinOrName(folderOf(location), `${name}.${PLAYLIST_EXTENSION}`);
+      playlists.push({ path, text: renderM3u8(path, album) });
+    });
+  } else if (settings.playlistMode === PlaylistMode.SESSION && tracks.length > 0) {
+    const path = joinOrName(commonFolder(tracks.map(track => track.location)), `${sanitizeSegment(sessionName)}.${PLAYLIST_EXTENSION}`);
+    playlists.push({ path, text: renderM3u8(path, tracks) });
+  }
+
+  const unsorted = converted.filter(file => !hasAlbumInfo(file.metadata)).length;
+  return { moves, playlists, unsorted };
+}
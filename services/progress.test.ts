@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFile, ConversionStatus } from '../types';
+import { BatchProgressTracker, fileFraction, formatEta } from './progress';
+
+const file = (id: string, status: ConversionStatus, patch: Partial<AudioFile> = {}): AudioFile => ({
+  id,
+  name: `${id}.ncm`,
+  path: `/music/${id}.ncm`,
+  size: 1000,
+  status,
+  progress: 0,
+  ...patch,
+});
+
+describe('fileFraction', () => {
+  it('weights progress by stage and counts stages a file skips as done', () => {
+    expect(fileFraction(file('a', ConversionStatus.PENDING))).toBe(0);
+    expect(fileFraction(file('a', ConversionStatus.CONVERTING, { stage: 'decrypting', progress: 50 }))).toBeCloseTo(0.35);
+    // Passthrough goes straight from decrypting to tagging
+    expect(fileFraction(file('a', ConversionStatus.TAGGING, { stage: 'tagging', progress: 0 }))).toBeCloseTo(0.95);
+    expect(fileFraction(file('a', ConversionStatus.FAILED))).toBe(1);
+  });
+});
+
+describe('BatchProgressTracker', () => {
+  it('measures throughput and ETA once a second has passed', () => {
+    const tracker = new BatchProgressTracker();
+    const first = tracker.update([file('a', ConversionStatus.CONVERTING), file('b', ConversionStatus.PENDING)], 0);
+    expect(first).toMatchObject({ processedBytes: 0, totalBytes: 2000, bytesPerSecond: null, etaSeconds: null });
+
+    const later = tracker.update([file('a', ConversionStatus.COMPLETED), file('b', ConversionStatus.PENDING)], 2000);
+    expect(later.processedBytes).toBe(1000);
+    expect(later.bytesPerSecond).toBe(500);
+    expect(later.etaSeconds).toBe(2);
+  });
+
+  it('drops skipped files and starts over once the batch is done', () => {
+    const tracker = new BatchProgressTracker();
+    tracker.update([file('a', ConversionStatus.PENDING), file('b', ConversionStatus.PENDING)], 0);
+    const skipped = tracker.update([file('a', ConversionStatus.PENDING), file('b', ConversionStatus.SKIPPED)], 10);
+    expect(skipped.totalBytes).toBe(1000);
+
+    tracker.update([file('a', ConversionStatus.COMPLETED), file('b', ConversionStatus.SKIPPED)], 20);
+    const next = tracker.update(
+      [file('a', ConversionStatus.COMPLETED), file('b', ConversionStatus.SKIPPED), file('c', ConversionStatus.PENDING)],
+      30,
+    );
+    expect(next).toMatchObject({ processedBytes: 0, totalBytes: 1000, bytesPerSecond: null });
+  });
+});
+
+describe('formatEta', () => {
+  it('adds hours only when needed', () => {
+    expect(formatEta(65)).toBe('1:05');
+    expect(formatEta(3723)).toBe('1:02:03');
+  });
+});
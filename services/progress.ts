@@ -0,0 +1,110 @@
+import { AudioFile, ConversionStage, ConversionStatus } from '../types';
+
+export const STAGE_LABELS: Record<ConversionStage, string> = {
+  reading: 'Reading',
+  key: 'Decrypting key',
+  decrypting: 'Decrypting',
+  transcoding: 'Transcoding',
+  tagging: 'Tagging',
+  analysing: 'Measuring loudness',
+};
+
+/**
+ * Rough share of a file's work per stage, in stage order. A stage the file
+ * never reaches (no transcoding for passthrough) counts as done once a later one starts.
+ */
+const STAGE_WEIGHTS: [ConversionStage, number][] = [
+  ['reading', 0.02],
+  ['key', 0.03],
+  ['decrypting', 0.6],
+  ['transcoding', 0.3],
+  ['tagging', 0.02],
+  ['analysing', 0.03],
+];
+
+/** How long throughput is averaged over. */
+const THROUGHPUT_WINDOW_MS = 10_000;
+
+/** An empty stage, like the key of a header-less QMC file, is complete as soon as it is reported. */
+export const stagePercent = (processedBytes: number, totalBytes: number) =>
+  totalBytes > 0 ? Math.min(100, (processedBytes / totalBytes) * 100) : 100;
+
+const isFinished = (status: ConversionStatus) =>
+  status === ConversionStatus.COMPLETED || status === ConversionStatus.FAILED;
+
+const isQueued = (status: ConversionStatus) =>
+  status === ConversionStatus.PENDING
+  || status === ConversionStatus.CONVERTING
+  || status === ConversionStatus.TAGGING;
+
+/** Share of `file` that is done, from 0 to 1. */
+export const fileFraction = (file: AudioFile): number => {
+  if (isFinished(file.status)) return 1;
+  if (!isQueued(file.status) || !file.stage) return 0;
+  let done = 0;
+  for (const [stage, weight] of STAGE_WEIGHTS) {
+    if (stage === file.stage) return done + weight * (file.progress / 100);
+    done += weight;
+  }
+  return done;
+};
+
+export interface BatchProgress {
+  processedBytes: number; // source bytes, weighted by stage
+  totalBytes: number;
+  bytesPerSecond: number | null; // null until enough time has passed to measure
+  etaSeconds: number | null;
+}
+
+/**
+ * Tracks a batch of conversions across queue snapshots: which files belong to
+ * it, how far along it is and how fast it moves. Skipped and cancelled files
+ * leave the batch, since they cost no work. A new batch starts when files are
+ * queued after the previous one has finished.
+ */
+export class BatchProgressTracker {
+  private ids = new Set<string>();
+  private samples: { time: number; bytes: number }[] = [];
+
+  public update(files: AudioFile[], now: number): BatchProgress {
+    const queued = files.filter(f => isQueued(f.status));
+    const batchDone = files.every(f => !this.ids.has(f.id) || !isQueued(f.status));
+    if (batchDone && queued.some(f => !this.ids.has(f.id))) {
+      this.ids.clear();
+      this.samples = [];
+    }
+    queued.forEach(f => this.ids.add(f.id));
+
+    let processedBytes = 0;
+    let totalBytes = 0;
+    for (const file of files) {
+      if (!this.ids.has(file.id) || !(isQueued(file.status) || isFinished(file.status))) continue;
+      totalBytes += file.size;
+      processedBytes += file.size * fileFraction(file);
+    }
+
+    this.samples.push({ time: now, bytes: processedBytes });
+    while (this.samples.length > 2 && now - this.samples[1].time >= THROUGHPUT_WINDOW_MS) this.samples.shift();
+    const oldest = this.samples[0];
+    const elapsed = (now - oldest.time) / 1000;
+    const bytesPerSecond = elapsed >= 1 ? Math.max(0, (processedBytes - oldest.bytes) / elapsed) : null;
+    const etaSeconds = bytesPerSecond ? (totalBytes - processedBytes) / bytesPerSecond : null;
+
+    return { processedBytes, totalBytes, bytesPerSecond, etaSeconds };
+  }
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+/** "1:05" or "1:02:03". */
+export const formatEta = (seconds: number) => {
+  const total = Math.ceil(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
@@ -0,0 +1,250 @@
+import { ConversionErrorCode } from '../types';
+import { ConversionFailure } from './conversionErrors';
+import type { Decoder } from './decoders';
+import type { ByteSource } from './trackInfo';
+
+/**
+ * QQ Music decoder (.qmc0, .qmc3, .qmcflac, .mflac, ...).
+ *
+ * QMC files have no header. Older downloads (QMCv1) are XORed with a fixed
+ * table over the whole file. Newer ones (QMCv2) append an encrypted key after
+ * the audio, in one of two trailer layouts:
+ *   raw key (n) | key length n (4, little endian)
+ *   "ekey,songId,..." (n) | length n (4, big endian) | "QTag"
+ * The key is base64, its tail TEA-encrypted (Tencent's CBC variant) with a
+ * key derived from its first 8 bytes. Keys up to 300 bytes drive a simple
+ * map cipher, longer ones a segmented RC4 variant.
+ *
+ * "STag" trailers and "QQMusic EncV2" keys need material from the QQ Music
+ * client and cannot be decrypted from the file alone. Mirrors `qmc.rs`.
+ */
+
+const STATIC_BOX = new Uint8Array([
+  0x77, 0x48, 0x32, 0x73, 0xde, 0xf2, 0xc0, 0xc8, 0x95, 0xec, 0x30, 0xb2, 0x51, 0xc3, 0xe1, 0xa0,
+  0x9e, 0xe6, 0x9d, 0xcf, 0xfa, 0x7f, 0x14, 0xd1, 0xce, 0xb8, 0xdc, 0xc3, 0x4a, 0x67, 0x93, 0xd6,
+  0x28, 0xc2, 0x91, 0x70, 0xca, 0x8d, 0xa2, 0xa4, 0xf0, 0x08, 0x61, 0x90, 0x7e, 0x6f, 0xa2, 0xe0,
+  0xeb, 0xae, 0x3e, 0xb6, 0x67, 0xc7, 0x92, 0xf4, 0x91, 0xb5, 0xf6, 0x6c, 0x5e, 0x84, 0x40, 0xf7,
+  0xf3, 0x1b, 0x02, 0x7f, 0xd5, 0xab, 0x41, 0x89, 0x28, 0xf4, 0x25, 0xcc, 0x52, 0x11, 0xad, 0x43,
+  0x68, 0xa6, 0x41, 0x8b, 0x84, 0xb5, 0xff, 0x2c, 0x92, 0x4a, 0x26, 0xd8, 0x47, 0x6a, 0x7c, 0x95,
+  0x61, 0xcc, 0xe6, 0xcb, 0xbb, 0x3f, 0x47, 0x58, 0x89, 0x75, 0xc3, 0x75, 0xa1, 0xd9, 0xaf, 0xcc,
+  0x08, 0x73, 0x17, 0xdc, 0xaa, 0x9a, 0xa2, 0x16, 0x41, 0xd8, 0xa2, 0x06, 0xc6, 0x8b, 0xfc, 0x66,
+  0x34, 0x9f, 0xcf, 0x18, 0x23, 0xa0, 0x0a, 0x74, 0xe7, 0x2b, 0x27, 0x70, 0x92, 0xe9, 0xaf, 0x37,
+  0xe6, 0x8c, 0xa7, 0xbc, 0x62, 0x65, 0x9c, 0xc2, 0x08, 0xc9, 0x88, 0xb3, 0xf3, 0x43, 0xac, 0x74,
+  0x2c, 0x0f, 0xd4, 0xaf, 0xa1, 0xc3, 0x01, 0x64, 0x95, 0x4e, 0x48, 0x9f, 0xf4, 0x35, 0x78, 0x95,
+  0x7a, 0x39, 0xd6, 0x6a, 0xa0, 0x6d, 0x40, 0xe8, 0x4f, 0xa8, 0xef, 0x11, 0x1d, 0xf3, 0x1b, 0x3f,
+  0x3f, 0x07, 0xdd, 0x6f, 0x5b, 0x19, 0x30, 0x19, 0xfb, 0xef, 0x0e, 0x37, 0xf0, 0x0e, 0xcd, 0x16,
+  0x49, 0xfe, 0x53, 0x47, 0x13, 0x1a, 0xbd, 0xa4, 0xf1, 0x40, 0x19, 0x60, 0x0e, 0xed, 0x68, 0x09,
+  0x06, 0x5f, 0x4d, 0xcf, 0x3d, 0x1a, 0xfe, 0x20, 0x77, 0xe4, 0xd9, 0xda, 0xf9, 0xa4, 0x2b, 0x76,
+  0x1c, 0x71, 0xdb, 0x00, 0xbc, 0xfd, 0x0c, 0x6c, 0xa5, 0x47, 0xf7, 0xf6, 0x00, 0x79, 0x4a, 0x11,
+]);
+
+// round(|tan(106 + i / 10)| * 100), the fixed half of the TEA key.
+const SIMPLE_KEY = [0x69, 0x56, 0x46, 0x38, 0x2b, 0x20, 0x15, 0x0b];
+const TEA_DELTA = 0x9e3779b9;
+const TEA_ROUNDS = 16;
+const TEA_SALT_LENGTH = 2;
+const TEA_ZERO_LENGTH = 7;
+const ENC_V2_PREFIX = 'QQMusic EncV2,Key:';
+const MAX_RAW_KEY_LENGTH = 0x400;
+const MAP_CIPHER_MAX_KEY = 300;
+const RC4_SEGMENT_SIZE = 5120;
+const RC4_FIRST_SEGMENT_SIZE = 128;
+
+// Extensions that may predate key trailers; everything else must carry a key.
+const V1_EXTENSIONS = ['qmc0', 'qmc2', 'qmc3', 'qmcflac'];
+
+type Keystream = (data: Uint8Array, position: number) => void;
+
+/** QMCv1 and the map cipher fold positions past 0x7fff back into the table. */
+const foldPosition = (position: number) => (position > 0x7fff ? position % 0x7fff : position);
+
+const staticCipher: Keystream = (data, position) => {
+  for (let i = 0; i < data.length; i++) {
+    const offset = foldPosition(position + i);
+    data[i] ^= STATIC_BOX[(offset * offset + 27) & 0xff];
+  }
+};
+
+const mapCipher = (key: Uint8Array): Keystream => (data, position) => {
+  for (let i = 0; i < data.length; i++) {
+    const offset = foldPosition(position + i);
+    const index = (offset * offset + 71214) % key.length;
+    const value = key[index];
+    const shift = ((index & 0x7) + 4) % 8;
+    data[i] ^= ((value << shift) | (value >> shift)) & 0xff;
+  }
+};
+
+const rc4Cipher = (key: Uint8Array): Keystream => {
+  const n = key.length;
+  // The reference implementation keeps the box in bytes, so entries past 255 wrap.
+  const box = new Uint8Array(n);
+  for (let i = 0; i < n; i++) box[i] = i;
+  for (let i = 0, j = 0; i < n; i++) {
+    j = (j + box[i] + key[i % n]) % n;
+    [box[i], box[j]] = [box[j], box[i]];
+  }
+
+  let hash = 1;
+  for (let i = 0; i < n; i++) {
+    if (key[i] === 0) continue;
+    const next = Math.imul(hash, key[i]) >>> 0;
+    if (next === 0 || next <= hash) break;
+    hash = next;
+  }
+  const segmentSkip = (id: number) => {
+    const seed = key[id % n];
+    return seed === 0 ? 0 : Math.floor((hash / ((id + 1) * seed)) * 100) % n;
+  };
+
+  const firstSegment = (data: Uint8Array, position: number) => {
+    for (let i = 0; i < data.length; i++) data[i] ^= key[segmentSkip(position + i)];
+  };
+  const segment = (data: Uint8Array, position: number) => {
+    const state = box.slice();
+    let j = 0;
+    let k = 0;
+    const skip = (position % RC4_SEGMENT_SIZE) + segmentSkip(Math.floor(position / RC4_SEGMENT_SIZE));
+    for (let i = -skip; i < data.length; i++) {
+      j = (j + 1) % n;
+      k = (state[j] + k) % n;
+      [state[j], state[k]] = [state[k], state[j]];
+      if (i >= 0) data[i] ^= state[(state[j] + state[k]) % n];
+    }
+  };
+
+  return (data, position) => {
+    let offset = 0;
+    if (position < RC4_FIRST_SEGMENT_SIZE) {
+      const length = Math.min(data.length, RC4_FIRST_SEGMENT_SIZE - position);
+      firstSegment(data.subarray(0, length), position);
+      offset = length;
+    }
+    // The rest is cut at segment boundaries, each starting from a fresh copy of the box.
+    while (offset < data.length) {
+      const at = position + offset;
+      const length = Math.min(data.length - offset, RC4_SEGMENT_SIZE - (at % RC4_SEGMENT_SIZE));
+      segment(data.subarray(offset, offset + length), at);
+      offset += length;
+    }
+  };
+};
+
+const teaDecryptBlock = (block: Uint8Array, key: Uint32Array) => {
+  const view = new DataView(block.buffer, block.byteOffset, 8);
+  let v0 = view.getUint32(0);
+  let v1 = view.getUint32(4);
+  let sum = Math.imul(TEA_DELTA, TEA_ROUNDS) >>> 0;
+  for (let round = 0; round < TEA_ROUNDS; round++) {
+    v1 = (v1 - ((((v0 << 4) + key[2]) ^ (v0 + sum) ^ ((v0 >>> 5) + key[3])) >>> 0)) >>> 0;
+    v0 = (v0 - ((((v1 << 4) + key[0]) ^ (v1 + sum) ^ ((v1 >>> 5) + key[1])) >>> 0)) >>> 0;
+    sum = (sum - TEA_DELTA) >>> 0;
+  }
+  view.setUint32(0, v0);
+  view.setUint32(4, v1);
+};
+
+/** Tencent's TEA-CBC: pad length, salt and a zero tail wrap the payload. */
+const tcTeaDecrypt = (data: Uint8Array, key: Uint8Array): Uint8Array => {
+  if (data.length % 8 !== 0 || data.length < 16) {
+    throw new ConversionFailure(ConversionErrorCode.KEY_DECRYPT_FAILED, 'QMC key has an invalid length');
+  }
+  const keyView = new DataView(key.buffer, key.byteOffset, 16);
+  const words = new Uint32Array([0, 4, 8, 12].map(offset => keyView.getUint32(offset)));
+  const plain = new Uint8Array(data.length);
+  const state = new Uint8Array(8);
+  for (let offset = 0; offset < data.length; offset += 8) {
+    for (let i = 0; i < 8; i++) state[i] ^= data[offset + i];
+    teaDecryptBlock(state, words);
+    for (let i = 0; i < 8; i++) plain[offset + i] = state[i] ^ (offset > 0 ? data[offset - 8 + i] : 0);
+  }
+  const start = 1 + (plain[0] & 0x7) + TEA_SALT_LENGTH;
+  const end = plain.length - TEA_ZERO_LENGTH;
+  if (end < start || plain.subarray(end).some(byte => byte !== 0)) {
+    throw new ConversionFailure(ConversionErrorCode.KEY_DECRYPT_FAILED, 'QMC key could not be decrypted');
+  }
+  return plain.slice(start, end);
+};
+
+const decodeBase64 = (text: string): Uint8Array => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/** Turns the base64 "ekey" from the trailer into the cipher key. */
+export function deriveQmcKey(ekey: string): Uint8Array {
+  const raw = decodeBase64(ekey.trim());
+  if (new TextDecoder().decode(raw.subarray(0, ENC_V2_PREFIX.length)) === ENC_V2_PREFIX) {
+    throw new ConversionFailure(ConversionErrorCode.UNSUPPORTED_FORMAT, 'This QMC file uses a key format that needs the QQ Music client');
+  }
+  if (raw.length < 16) {
+    throw new ConversionFailure(ConversionErrorCode.KEY_DECRYPT_FAILED, 'QMC key is too short');
+  }
+  const teaKey = new Uint8Array(16);
+  for (let i = 0; i < 8; i++) {
+    teaKey[i * 2] = SIMPLE_KEY[i];
+    teaKey[i * 2 + 1] = raw[i];
+  }
+  const tail = tcTeaDecrypt(raw.subarray(8), teaKey);
+  const key = new Uint8Array(8 + tail.length);
+  key.set(raw.subarray(0, 8));
+  key.set(tail, 8);
+  return key;
+}
+
+export const qmcKeystream = (key: Uint8Array | null): Keystream => {
+  if (!key || key.length === 0) return staticCipher;
+  return key.length > MAP_CIPHER_MAX_KEY ? rc4Cipher(key) : mapCipher(key);
+};
+
+const ascii = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+/** Finds the key trailer, returning the key and how many bytes it takes off the end of the file. */
+const readKeyTrailer = async (source: ByteSource): Promise<{ key: Uint8Array; length: number } | null> => {
+  if (source.size < 8) return null;
+  const tail = await source.read(source.size - 8, 8);
+  const view = new DataView(tail.buffer, tail.byteOffset, 8);
+  const tag = ascii(tail.subarray(4));
+
+  if (tag === 'STag') {
+    throw new ConversionFailure(ConversionErrorCode.UNSUPPORTED_FORMAT, 'This QMC file keeps its key in the QQ Music client');
+  }
+  if (tag === 'QTag') {
+    const metaLength = view.getUint32(0);
+    if (metaLength + 8 > source.size) throw new ConversionFailure(ConversionErrorCode.KEY_DECRYPT_FAILED, 'QMC key trailer is damaged');
+    const meta = new TextDecoder().decode(await source.read(source.size - 8 - metaLength, metaLength));
+    return { key: deriveQmcKey(meta.split(',')[0]), length: metaLength + 8 };
+  }
+
+  const keyLength = view.getUint32(4, true);
+  if (keyLength === 0 || keyLength > MAX_RAW_KEY_LENGTH || keyLength + 4 > source.size) return null;
+  const raw = await source.read(source.size - 4 - keyLength, keyLength);
+  try {
+    // Keys are NUL padded at times.
+    return { key: deriveQmcKey(ascii(raw).replace(/\0+$/, '')), length: keyLength + 4 };
+  } catch {
+    // The last bytes of a QMCv1 file can pass for a length by chance.
+    return null;
+  }
+};
+
+export const qmcDecoder: Decoder = {
+  format: 'qmc',
+  label: 'QMC',
+  extensions: [...V1_EXTENSIONS, 'mflac', 'mflac0'],
+  async open(source, name) {
+    const trailer = await readKeyTrailer(source);
+    if (!trailer && !V1_EXTENSIONS.some(extension => name.toLowerCase().endsWith(`.${extension}`))) {
+      throw new ConversionFailure(ConversionErrorCode.UNSUPPORTED_FORMAT, 'No decryption key found at the end of the QMC file');
+    }
+    const decrypt = qmcKeystream(trailer?.key ?? null);
+    return {
+      audioOffset: 0,
+      audioLength: source.size - (trailer?.length ?? 0),
+      decrypt,
+      trackInfo: null,
+    };
+  },
+};
@@ -0,0 +1,366 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AudioFile, ConversionErrorCode, ConversionResult, ConversionStatus } from '../types';
+import { canTransition, PROGRESS_INTERVAL_MS, QueueEvent, QueueManager } from './queueManager';
+
+/** Backend double: every conversion stays in flight until the test settles it. */
+class FakeBackend {
+  public calls: string[] = [];
+  public signals = new Map<string, AbortSignal>();
+  private settle = new Map<string, (result: ConversionResult) => void>();
+
+  public runner = (file: AudioFile, signal: AbortSignal) => {
+    this.calls.push(file.id);
+    this.signals.set(file.id, signal);
+    return new Promise<ConversionResult>(resolve => this.settle.set(file.id, resolve));
+  };
+
+  public inFlight(): string[] {
+    return Array.from(this.settle.keys());
+  }
+
+  public async finish(id: string, result: ConversionResult = { success: true }) {
+    const resolve = this.settle.get(id);
+    if (!resolve) throw new Error(`${id} is not in flight`);
+    this.settle.delete(id);
+    resolve(result);
+    // Let the queue observe the result and dispatch the next file.
+    await new Promise(r => setTimeout(r, 0));
+  }
+}
+
+const progressFlushed = () => new Promise(r => setTimeout(r, PROGRESS_INTERVAL_MS));
+
+const makeFile = (id: string, priority?: number): AudioFile => ({
+  id,
+  name: `${id}.ncm`,
+  path: `music/${id}.ncm`,
+  size: 1024,
+  status: ConversionStatus.IDLE,
+  progress: 0,
+  priority,
+});
+
+const statusOf = (queue: QueueManager, id: string) => queue.getFile(id)?.status;
+
+describe('QueueManager', () => {
+  let backend: FakeBackend;
+  let queue: QueueManager;
+  let events: QueueEvent[];
+
+  beforeEach(() => {
+    backend = new FakeBackend();
+    queue = new QueueManager(backend.runner, { concurrency: 2 });
+    events = [];
+    queue.subscribe(event => events.push(event));
+  });
+
+  it('queues added files as pending without starting them', () => {
+    queue.add([makeFile('a'), makeFile('b')]);
+
+    expect(queue.getSnapshot().files.map(f => f.status)).toEqual([ConversionStatus.PENDING, ConversionStatus.PENDING]);
+    expect(queue.getSnapshot().stats).toEqual({ totalFiles: 2, converted: 0, failed: 0, pending: 2 });
+    expect(backend.calls).toEqual([]);
+  });
+
+  it('ignores files that are already queued', () => {
+    queue.add([makeFile('a')]);
+    queue.add([makeFile('a'), makeFile('b')]);
+
+    expect(queue.getSnapshot().files.map(f => f.id)).toEqual(['a', 'b']);
+  });
+
+  it('never runs more than `concurrency` files at once', async () => {
+    queue.add(['a', 'b', 'c', 'd'].map(id => makeFile(id)));
+    queue.start();
+
+    expect(backend.inFlight()).toEqual(['a', 'b']);
+    expect(statusOf(queue, 'c')).toBe(ConversionStatus.PENDING);
+
+    await backend.finish('a');
+    expect(backend.inFlight()).toEqual(['b', 'c']);
+    expect(statusOf(queue, 'a')).toBe(ConversionStatus.COMPLETED);
+  });
+
+  it('picks higher priority first and keeps queue order for ties', async () => {
+    queue.setConcurrency(1);
+    queue.add([makeFile('low'), makeFile('high', 5), makeFile('mid', 1), makeFile('mid2', 1)]);
+    queue.start();
+
+    for (const id of ['high', 'mid', 'mid2', 'low']) {
+      expect(backend.inFlight()).toEqual([id]);
+      await backend.finish(id);
+    }
+    expect(backend.calls).toEqual(['high', 'mid', 'mid2', 'low']);
+  });
+
+  it('honours priority changes made while the queue is running', async () => {
+    queue.setConcurrency(1);
+    queue.add([makeFile('a'), makeFile('b'), makeFile('c')]);
+    queue.start();
+    queue.setPriority('c', 10);
+
+    await backend.finish('a');
+    expect(backend.inFlight()).toEqual(['c']);
+  });
+
+  it('records failures with their message, including runner exceptions', async () => {
+    const throwing = new QueueManager(async () => { throw new Error('boom'); });
+    throwing.add([makeFile('x')]);
+    throwing.start();
+    await new Promise(r => setTimeout(r, 0));
+    expect(throwing.getFile('x')).toMatchObject({
+      status: ConversionStatus.FAILED,
+      errorMessage: 'boom',
+      error: { code: ConversionErrorCode.UNKNOWN, message: 'boom' },
+    });
+
+    queue.add([makeFile('a')]);
+    queue.start();
+    const error = { code: ConversionErrorCode.BAD_MAGIC, message: 'Invalid NCM file format' };
+    await backend.finish('a', { success: false, message: error.message, error });
+    expect(queue.getFile('a')).toMatchObject({ status: ConversionStatus.FAILED, errorMessage: error.message, error });
+    const { startedAt, finishedAt } = queue.getFile('a')!;
+    expect(finishedAt).toBeGreaterThanOrEqual(startedAt!);
+    expect(queue.getSnapshot().stats.failed).toBe(1);
+  });
+
+  it('moves through TAGGING when the backend reports the tagging stage', async () => {
+    queue.add([makeFile('a')]);
+    queue.start();
+
+    queue.handleProgress({ id: 'a', stage: 'decrypting', processedBytes: 40, totalBytes: 100 });
+    await progressFlushed();
+    expect(queue.getFile('a')).toMatchObject({ status: ConversionStatus.CONVERTING, stage: 'decrypting', progress: 40 });
+
+    queue.handleProgress({ id: 'a', stage: 'tagging', processedBytes: 0, totalBytes: 100 });
+    expect(statusOf(queue, 'a')).toBe(ConversionStatus.TAGGING);
+
+    await backend.finish('a');
+    expect(queue.getFile('a')).toMatchObject({ status: ConversionStatus.COMPLETED, stage: undefined });
+  });
+
+  it('merges progress events into one change per interval', async () => {
+    queue.add([makeFile('a'), makeFile('b')]);
+    queue.start();
+    events = [];
+
+    queue.handleProgress({ id: 'a', stage: 'decrypting', processedBytes: 10, totalBytes: 100 });
+    queue.handleProgress({ id: 'b', stage: 'decrypting', processedBytes: 20, totalBytes: 100 });
+    queue.handleProgress({ id: 'a', stage: 'transcoding', processedBytes: 30, totalBytes: 100 });
+    expect(events).toEqual([]);
+
+    await progressFlushed();
+    expect(events.filter(e => e.type === 'change')).toHaveLength(1);
+    expect(queue.getFile('a')).toMatchObject({ stage: 'transcoding', progress: 30 });
+    expect(queue.getFile('b')).toMatchObject({ stage: 'decrypting', progress: 20 });
+  });
+
+  it('drops held progress once the file has finished', async () => {
+    queue.add([makeFile('a')]);
+    queue.start();
+
+    queue.handleProgress({ id: 'a', stage: 'transcoding', processedBytes: 30, totalBytes: 100 });
+    await backend.finish('a');
+    await progressFlushed();
+    expect(queue.getFile('a')).toMatchObject({ status: ConversionStatus.COMPLETED, stage: undefined, progress: 100 });
+  });
+
+  it('ignores progress for files that are not in flight', () => {
+    queue.add([makeFile('a')]);
+    queue.handleProgress({ id: 'a', stage: 'tagging', processedBytes: 50, totalBytes: 100 });
+
+    expect(queue.getFile('a')).toMatchObject({ status: ConversionStatus.PENDING, progress: 0 });
+  });
+
+  it('emits started/finished events and drains once idle', async () => {
+    queue.add([makeFile('a')]);
+    queue.start();
+    await backend.finish('a');
+
+    const lifecycle = events.filter(e => e.type !== 'change').map(e => e.type);
+    expect(lifecycle).toEqual(['started', 'finished', 'drained']);
+    expect(queue.isRunning()).toBe(false);
+  });
+
+  it('keeps running after draining in stay-running mode and picks up new files', async () => {
+    queue.start(true);
+    expect(queue.isRunning()).toBe(true);
+
+    queue.add([makeFile('late')]);
+    expect(backend.inFlight()).toEqual(['late']);
+    await backend.finish('late');
+    expect(queue.isRunning()).toBe(true);
+    expect(events.some(e => e.type === 'drained')).toBe(false);
+  });
+
+  it('stop() lets in-flight files finish but dispatches nothing new', async () => {
+    queue.setConcurrency(1);
+    queue.add([makeFile('a'), makeFile('b')]);
+    queue.start();
+    queue.stop();
+
+    await backend.finish('a');
+    expect(statusOf(queue, 'a')).toBe(ConversionStatus.COMPLETED);
+    expect(statusOf(queue, 'b')).toBe(ConversionStatus.PENDING);
+    expect(backend.inFlight()).toEqual([]);
+  });
+
+  it('clear() aborts in-flight conversions and drops their late results', async () => {
+    queue.add([makeFile('a')]);
+    queue.start();
+    const signal = backend.signals.get('a')!;
+
+    queue.clear();
+    expect(signal.aborted).toBe(true);
+    await backend.finish('a');
+    expect(queue.getSnapshot().files).toEqual([]);
+  });
+
+  it('marks files whose output already existed as skipped', async () => {
+    queue.add([makeFile('a')]);
+    queue.start();
+    await backend.finish('a', { success: true, skipped: true, message: 'Output already exists' });
+
+    expect(statusOf(queue, 'a')).toBe(ConversionStatus.SKIPPED);
+  });
+
+  it('marks files skipped after the tagging stage as skipped and still drains', async () => {
+    queue.add([makeFile('a')]);
+    queue.start();
+    queue.handleProgress({ id: 'a', stage: 'tagging', processedBytes: 0, totalBytes: 100 });
+    await backend.finish('a', { success: true, skipped: true, message: 'Output already exists' });
+
+    expect(statusOf(queue, 'a')).toBe(ConversionStatus.SKIPPED);
+    expect(events.at(-1)).toEqual({ type: 'drained' });
+  });
+
+  it('cancel() aborts the conversion, frees its slot and discards the late result', async () => {
+    queue.setConcurrency(1);
+    queue.add([makeFile('a'), makeFile('b')]);
+    queue.start();
+
+    queue.cancel('a');
+    expect(backend.signals.get('a')!.aborted).toBe(true);
+    expect(statusOf(queue, 'a')).toBe(ConversionStatus.CANCELLED);
+    expect(backend.inFlight()).toEqual(['a', 'b']);
+
+    await backend.finish('a');
+    expect(statusOf(queue, 'a')).toBe(ConversionStatus.CANCELLED);
+  });
+
+  it('retry() requeues failed, cancelled and skipped files', async () => {
+    queue.add([makeFile('a'), makeFile('b')]);
+    queue.skip('b');
+    queue.start();
+    await backend.finish('a', { success: false, message: 'boom' });
+    expect(queue.isRunning()).toBe(false);
+
+    queue.retry('a');
+    queue.retry('b');
+    expect(queue.getFile('a')).toMatchObject({ status: ConversionStatus.PENDING, errorMessage: undefined, error: undefined });
+    expect(statusOf(queue, 'b')).toBe(ConversionStatus.PENDING);
+  });
+
+  it('retryFailed() only requeues failures', async () => {
+    queue.add([makeFile('a'), makeFile('b'), makeFile('c')]);
+    queue.start();
+    await backend.finish('a', { success: false });
+    await backend.finish('b');
+    await backend.finish('c', { success: false });
+
+    queue.retryFailed();
+    expect(queue.getSnapshot().files.map(f => f.status)).toEqual([
+      ConversionStatus.PENDING,
+      ConversionStatus.COMPLETED,
+      ConversionStatus.PENDING,
+    ]);
+  });
+
+  it('skip() leaves pending files out of the run', async () => {
+    queue.setConcurrency(1);
+    queue.add([makeFile('a'), makeFile('b'), makeFile('c')]);
+    queue.skip('b');
+    queue.start();
+
+    await backend.finish('a');
+    await backend.finish('c');
+    expect(backend.calls).toEqual(['a', 'c']);
+    expect(statusOf(queue, 'b')).toBe(ConversionStatus.SKIPPED);
+  });
+
+  it('moveToTop() puts a file ahead of every other pending file', async () => {
+    queue.setConcurrency(1);
+    queue.add([makeFile('a'), makeFile('b', 3), makeFile('c')]);
+    queue.moveToTop('c');
+    queue.start();
+
+    expect(backend.inFlight()).toEqual(['c']);
+  });
+
+  it('clearCompleted() removes and returns only completed files', async () => {
+    queue.add([makeFile('a'), makeFile('b')]);
+    queue.start();
+    await backend.finish('a');
+
+    expect(queue.clearCompleted().map(f => f.id)).toEqual(['a']);
+    expect(queue.getSnapshot().files.map(f => f.id)).toEqual(['b']);
+  });
+
+  it('remove() drops files, aborts those in flight and starts the next', async () => {
+    queue.setConcurrency(1);
+    queue.add([makeFile('a'), makeFile('b'), makeFile('c')]);
+    queue.start();
+
+    expect(queue.remove(['a', 'b']).map(f => f.id)).toEqual(['a', 'b']);
+    expect(backend.signals.get('a')!.aborted).toBe(true);
+    expect(backend.inFlight()).toEqual(['a', 'c']);
+    expect(queue.getFile('a')).toBeUndefined();
+    expect(queue.getFile('c')).toMatchObject({ status: ConversionStatus.CONVERTING });
+    expect(queue.getSnapshot().stats).toEqual({ totalFiles: 1, converted: 0, failed: 0, pending: 0 });
+  });
+
+  it('batch() publishes a single change for all the changes inside it', () => {
+    queue.add([makeFile('a'), makeFile('b'), makeFile('c')]);
+    const before = queue.getSnapshot();
+    events = [];
+
+    queue.batch(() => {
+      queue.skip('a');
+      queue.skip('b');
+      queue.remove(['c']);
+    });
+    expect(events.filter(e => e.type === 'change')).toHaveLength(1);
+    expect(queue.getSnapshot().stats).toEqual({ totalFiles: 2, converted: 0, failed: 0, pending: 0 });
+    expect(before.files.map(f => f.status)).toEqual([ConversionStatus.PENDING, ConversionStatus.PENDING, ConversionStatus.PENDING]);
+  });
+
+  it('batch() dispatches nothing until it ends', () => {
+    queue.start(true);
+
+    queue.batch(() => {
+      queue.add([makeFile('a'), makeFile('b')]);
+      expect(backend.calls).toEqual([]);
+      queue.skip('a');
+    });
+    expect(backend.calls).toEqual(['b']);
+    expect(statusOf(queue, 'a')).toBe(ConversionStatus.SKIPPED);
+  });
+
+  it('publishes a new immutable snapshot on every change', () => {
+    const before = queue.getSnapshot();
+    queue.add([makeFile('a')]);
+    const after = queue.getSnapshot();
+
+    expect(after).not.toBe(before);
+    expect(before.files).toEqual([]);
+  });
+
+  it('only allows the documented status transitions', () => {
+    expect(canTransition(ConversionStatus.PENDING, ConversionStatus.CONVERTING)).toBe(true);
+    expect(canTransition(ConversionStatus.FAILED, ConversionStatus.PENDING)).toBe(true);
+    expect(canTransition(ConversionStatus.CANCELLED, ConversionStatus.PENDING)).toBe(true);
+    expect(canTransition(ConversionStatus.COMPLETED, ConversionStatus.CANCELLED)).toBe(false);
+    expect(canTransition(ConversionStatus.COMPLETED, ConversionStatus.CONVERTING)).toBe(false);
+    expect(canTransition(ConversionStatus.PENDING, ConversionStatus.COMPLETED)).toBe(false);
+  });
+});
@@ -0,0 +1,481 @@
+import { AppStats, AudioFile, ConversionResult, ConversionStatus, ProgressEventPayload } from '../types';
+import { failureResult } from './conversionErrors';
+import { stagePercent } from './progress';
+
+/**
+ * Runs one conversion. `signal` is aborted when the file leaves the queue
+ * while it is still in flight.
+ */
+export type ConversionRunner = (file: AudioFile, signal: AbortSignal) => Promise<ConversionResult>;
+
+export interface QueueOptions {
+  concurrency?: number;
+}
+
+export interface QueueSnapshot {
+  files: AudioFile[];
+  running: boolean;
+  stats: AppStats;
+}
+
+export type QueueEvent =
+  | { type: 'change'; snapshot: QueueSnapshot }
+  | { type: 'started'; file: AudioFile }
+  | { type: 'finished'; file: AudioFile; result: ConversionResult }
+  | { type: 'drained' };
+
+export type QueueListener = (event: QueueEvent) => void;
+
+/** How often progress of files in flight reaches the snapshot; events in between are merged. */
+export const PROGRESS_INTERVAL_MS = 100;
+
+/** Every status change goes through this table; anything else is a bug. */
+const TRANSITIONS: Record<ConversionStatus, ConversionStatus[]> = {
+  [ConversionStatus.IDLE]: [ConversionStatus.PENDING],
+  [ConversionStatus.PENDING]: [ConversionStatus.CONVERTING, ConversionStatus.IDLE, ConversionStatus.SKIPPED],
+  [ConversionStatus.CONVERTING]: [
+    ConversionStatus.TAGGING,
+    ConversionStatus.COMPLETED,
+    ConversionStatus.FAILED,
+    ConversionStatus.CANCELLED,
+    ConversionStatus.SKIPPED,
+  ],
+  [ConversionStatus.TAGGING]: [
+    ConversionStatus.COMPLETED,
+    ConversionStatus.FAILED,
+    ConversionStatus.CANCELLED,
+    ConversionStatus.SKIPPED,
+  ],
+  [ConversionStatus.COMPLETED]: [],
+  [ConversionStatus.FAILED]: [ConversionStatus.PENDING],
+  [ConversionStatus.CANCELLED]: [ConversionStatus.PENDING],
+  [ConversionStatus.SKIPPED]: [ConversionStatus.PENDING],
+};
+
+export const canTransition = (from: ConversionStatus, to: ConversionStatus) => TRANSITIONS[from].includes(to);
+
+export const isRetryable = (status: ConversionStatus) => canTransition(status, ConversionStatus.PENDING);
+
+export const isActive = (status: ConversionStatus) =>
+  status === ConversionStatus.CONVERTING || status === ConversionStatus.TAGGING;
+
+type StatusCounts = Record<ConversionStatus, number>;
+
+const noCounts = (): StatusCounts =>
+  Object.fromEntries(Object.values(ConversionStatus).map(status => [status, 0])) as StatusCounts;
+
+const statsFrom = (total: number, counts: StatusCounts): AppStats => ({
+  totalFiles: total,
+  converted: counts[ConversionStatus.COMPLETED],
+  failed: counts[ConversionStatus.FAILED],
+  pending: counts[ConversionStatus.PENDING] + counts[ConversionStatus.IDLE],
+});
+
+interface PendingEntry {
+  id: string;
+  priority: number;
+  order: number;
+}
+
+const dispatchesBefore = (a: PendingEntry, b: PendingEntry) =>
+  a.priority > b.priority || (a.priority === b.priority && a.order < b.order);
+
+/** Binary heap of pending files, the next one to dispatch on top. */
+class PendingHeap {
+  private entries: PendingEntry[] = [];
+
+  public get size() {
+    return this.entries.length;
+  }
+
+  public peek(): PendingEntry | undefined {
+    return this.entries[0];
+  }
+
+  public push(entry: PendingEntry) {
+    const entries = this.entries;
+    let i = entries.push(entry) - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!dispatchesBefore(entries[i], entries[parent])) break;
+      [entries[i], entries[parent]] = [entries[parent], entries[i]];
+      i = parent;
+    }
+  }
+
+  public pop() {
+    const entries = this.entries;
+    const last = entries.pop();
+    if (!last || entries.length === 0) return;
+    entries[0] = last;
+    for (let i = 0; ;) {
+      const [left, right] = [2 * i + 1, 2 * i + 2];
+      let first = i;
+      if (left < entries.length && dispatchesBefore(entries[left], entries[first])) first = left;
+      if (right < entries.length && dispatchesBefore(entries[right], entries[first])) first = right;
+      if (first === i) break;
+      [entries[i], entries[first]] = [entries[first], entries[i]];
+      i = first;
+    }
+  }
+
+  public clear() {
+    this.entries = [];
+  }
+}
+
+/**
+ * Framework-agnostic conversion queue.
+ *
+ * Dispatches up to `concurrency` files at a time, highest `priority` first
+ * (ties keep insertion order), and publishes an immutable snapshot after every
+ * change so UIs can bind to it with `useSyncExternalStore` or similar.
+ * Files are indexed by id and counted by status as they change, pending files
+ * are kept in a heap, and progress is merged into one change per
+ * `PROGRESS_INTERVAL_MS`, so the queue stays cheap with thousands of files.
+ */
+export class QueueManager {
+  private files: AudioFile[] = [];
+  private positions = new Map<string, number>(); // index in `files`, by id
+  private counts = noCounts();
+  private order = new Map<string, number>();
+  private sequence = 0;
+  private pending = new PendingHeap(); // entries go stale as files leave PENDING or change priority
+  private progress = new Map<string, Partial<AudioFile>>(); // held back until the next progress flush
+  private progressTimer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight = new Map<string, AbortController>();
+  private listeners = new Set<QueueListener>();
+  private running = false;
+  private stayRunning = false;
+  private concurrency: number;
+  private snapshot: QueueSnapshot;
+  private batching = 0;
+  private changed = false; // a change was held back by `batch`
+  private copied = false; // `files` is already a fresh copy within the current batch
+
+  constructor(private runner: ConversionRunner, options: QueueOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.snapshot = { files: this.files, running: false, stats: statsFrom(0, this.counts) };
+  }
+
+  public subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public getSnapshot(): QueueSnapshot {
+    return this.snapshot;
+  }
+
+  public getFile(id: string): AudioFile | undefined {
+    const position = this.positions.get(id);
+    return position === undefined ? undefined : this.files[position];
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  public setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  /** Appends files as PENDING. Files whose id is already queued are ignored. */
+  public add(files: AudioFile[]) {
+    const fresh = files.filter(f => !this.order.has(f.id));
+    if (fresh.length === 0) return;
+    fresh.forEach(f => {
+      this.order.set(f.id, this.sequence++);
+      this.positions.set(f.id, this.positions.size);
+    });
+    this.counts[ConversionStatus.PENDING] += fresh.length;
+    this.files = [...this.files, ...fresh.map(f => ({ ...f, status: ConversionStatus.PENDING, progress: 0 }))];
+    fresh.forEach(f => this.pending.push(this.pendingEntry(f)));
+    this.emitChange();
+    this.pump();
+  }
+
+  /** Empties the queue, aborting anything still in flight. */
+  public clear() {
+    this.inFlight.forEach(controller => controller.abort());
+    this.inFlight.clear();
+    this.files = [];
+    this.positions.clear();
+    this.counts = noCounts();
+    this.order.clear();
+    this.pending.clear();
+    this.progress.clear();
+    this.emitChange();
+  }
+
+  /** Patches non-status fields (metadata, cover, ...) of a queued file. */
+  public update(id: string, patch: Partial<Omit<AudioFile, 'id' | 'status'>>) {
+    if (!this.getFile(id)) return;
+    this.replace(id, patch);
+  }
+
+  public setPriority(id: string, priority: number) {
+    this.update(id, { priority });
+  }
+
+  /** Puts a failed, cancelled or skipped file back in the queue. */
+  public retry(id: string) {
+    const file = this.getFile(id);
+    if (!file || !isRetryable(file.status)) return;
+    this.transition(id, ConversionStatus.PENDING, {
+      progress: 0,
+      stage: undefined,
+      errorMessage: undefined,
+      error: undefined,
+      note: undefined,
+      verification: undefined,
+      loudness: undefined,
+      operations: undefined,
+      startedAt: undefined,
+      finishedAt: undefined,
+    });
+    this.pump();
+  }
+
+  public retryFailed() {
+    this.batch(() => this.files.filter(f => f.status === ConversionStatus.FAILED).forEach(f => this.retry(f.id)));
+  }
+
+  /**
+   * Applies several changes as one: listeners see a single change at the end,
+   * and nothing is dispatched before it. Bulk actions over thousands of files
+   * go through here.
+   */
+  public batch(changes: () => void) {
+    this.batching++;
+    try {
+      changes();
+    } finally {
+      this.batching--;
+      if (this.batching === 0) {
+        this.copied = false;
+        if (this.changed) this.emitChange();
+        this.pump();
+      }
+    }
+  }
+
+  /** Aborts an in-flight conversion. Its eventual result is discarded. */
+  public cancel(id: string) {
+    const controller = this.inFlight.get(id);
+    if (!controller) return;
+    this.inFlight.delete(id);
+    controller.abort();
+    this.transition(id, ConversionStatus.CANCELLED, { progress: 0, stage: undefined, finishedAt: Date.now() });
+    this.emit({ type: 'finished', file: this.getFile(id)!, result: { success: false, message: 'Cancelled' } });
+    this.pump();
+  }
+
+  /** Leaves a pending file out of the current run. */
+  public skip(id: string, note?: string) {
+    if (this.getFile(id)?.status !== ConversionStatus.PENDING) return;
+    this.transition(id, ConversionStatus.SKIPPED, { note });
+    this.pump();
+  }
+
+  /** Runs `id` before everything else that is still pending. */
+  public moveToTop(id: string) {
+    const others = this.files.filter(f => f.id !== id && f.status === ConversionStatus.PENDING);
+    this.setPriority(id, Math.max(0, ...others.map(f => f.priority ?? 0)) + 1);
+  }
+
+  /**
+   * Drops files from the list, aborting those still in flight; returns them so
+   * callers can release their resources.
+   */
+  public remove(ids: string[]): AudioFile[] {
+    const dropping = new Set(ids);
+    const removed = this.files.filter(f => dropping.has(f.id));
+    if (removed.length === 0) return removed;
+    removed.forEach(f => {
+      this.inFlight.get(f.id)?.abort();
+      this.inFlight.delete(f.id);
+      this.order.delete(f.id);
+      this.counts[f.status]--;
+    });
+    this.files = this.files.filter(f => !dropping.has(f.id));
+    this.positions = new Map(this.files.map((f, i) => [f.id, i]));
+    this.emitChange();
+    this.pump();
+    return removed;
+  }
+
+  /** Removes completed files from the list; returns them so callers can release their resources. */
+  public clearCompleted(): AudioFile[] {
+    return this.remove(this.files.filter(f => f.status === ConversionStatus.COMPLETED).map(f => f.id));
+  }
+
+  /**
+   * Applies a progress event from the backend. Only the tagging stage changes
+   * status, straight away; other progress waits for the next flush.
+   */
+  public handleProgress(payload: ProgressEventPayload) {
+    const file = this.getFile(payload.id);
+    if (!file || !isActive(file.status)) return;
+    const patch = { stage: payload.stage, progress: stagePercent(payload.processedBytes, payload.totalBytes) };
+    if (payload.stage === 'tagging' && file.status !== ConversionStatus.TAGGING) {
+      this.transition(file.id, ConversionStatus.TAGGING, patch);
+      return;
+    }
+    this.progress.set(file.id, patch);
+    this.progressTimer ??= setTimeout(() => this.flushProgress(), PROGRESS_INTERVAL_MS);
+  }
+
+  /**
+   * Starts dispatching. With `stayRunning` (watch mode) the queue keeps
+   * running when it drains, so files added later start immediately.
+   */
+  public start(stayRunning = false) {
+    this.running = true;
+    this.stayRunning = stayRunning;
+    this.emitChange();
+    this.pump();
+  }
+
+  /** Stops dispatching new files; conversions already in flight finish normally. */
+  public stop() {
+    this.running = false;
+    this.stayRunning = false;
+    this.emitChange();
+  }
+
+  private emit(event: QueueEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private emitChange() {
+    if (this.batching > 0) {
+      this.changed = true;
+      return;
+    }
+    this.changed = false;
+    this.snapshot = { files: this.files, running: this.running, stats: statsFrom(this.files.length, this.counts) };
+    this.emit({ type: 'change', snapshot: this.snapshot });
+  }
+
+  private replace(id: string, patch: Partial<AudioFile>) {
+    const position = this.positions.get(id)!;
+    if (!this.copied) {
+      this.files = this.files.slice();
+      this.copied = this.batching > 0;
+    }
+    // Progress still held back goes in now, under whatever this change sets
+    const held = this.progress.get(id);
+    this.progress.delete(id);
+    const file = this.files[position] = { ...this.files[position], ...held, ...patch };
+    if (file.status === ConversionStatus.PENDING && ('status' in patch || 'priority' in patch)) {
+      this.pending.push(this.pendingEntry(file));
+    }
+    this.emitChange();
+  }
+
+  private flushProgress() {
+    this.progressTimer = null;
+    const held = this.progress;
+    this.progress = new Map();
+    this.batch(() => held.forEach((patch, id) => {
+      const file = this.getFile(id);
+      if (file && isActive(file.status)) this.replace(id, patch);
+    }));
+  }
+
+  private pendingEntry(file: AudioFile): PendingEntry {
+    return { id: file.id, priority: file.priority ?? 0, order: this.order.get(file.id)! };
+  }
+
+  private transition(id: string, to: ConversionStatus, patch: Partial<AudioFile> = {}) {
+    const file = this.getFile(id);
+    if (!file) return;
+    if (!canTransition(file.status, to)) {
+      throw new Error(`Invalid status transition for ${file.name}: ${file.status} -> ${to}`);
+    }
+    this.counts[file.status]--;
+    this.counts[to]++;
+    this.replace(id, { ...patch, status: to });
+  }
+
+  private nextPending(): AudioFile | undefined {
+    for (let entry = this.pending.peek(); entry; entry = this.pending.peek()) {
+      const file = this.getFile(entry.id);
+      if (
+        file?.status === ConversionStatus.PENDING
+        && (file.priority ?? 0) === entry.priority
+        && this.order.get(file.id) === entry.order
+      ) {
+        return file;
+      }
+      this.pending.pop();
+    }
+    return undefined;
+  }
+
+  private pump() {
+    if (this.batching > 0) return;
+    while (this.running && this.inFlight.size < this.concurrency) {
+      const next = this.nextPending();
+      if (!next) break;
+      this.run(next);
+    }
+    if (this.running && !this.stayRunning && this.inFlight.size === 0 && !this.nextPending()) {
+      this.running = false;
+      this.emitChange();
+      this.emit({ type: 'drained' });
+    }
+  }
+
+  private async run(file: AudioFile) {
+    const controller = new AbortController();
+    this.inFlight.set(file.id, controller);
+    this.transition(file.id, ConversionStatus.CONVERTING, {
+      progress: 0,
+      stage: undefined,
+      errorMessage: undefined,
+      error: undefined,
+      note: undefined,
+      verification: undefined,
+      loudness: undefined,
+      operations: undefined,
+      startedAt: Date.now(),
+      finishedAt: undefined,
+    });
+    const started = this.getFile(file.id)!;
+    this.emit({ type: 'started', file: started });
+
+    let result: ConversionResult;
+    try {
+      result = await this.runner(started, controller.signal);
+    } catch (error) {
+      result = failureResult(error);
+    }
+
+    // The file may have been cleared from the queue while it was converting.
+    if (this.inFlight.get(file.id) !== controller) return;
+    this.inFlight.delete(file.id);
+
+    const status = result.skipped
+      ? ConversionStatus.SKIPPED
+      : result.success ? ConversionStatus.COMPLETED : ConversionStatus.FAILED;
+    this.transition(file.id, status, {
+      progress: 100,
+      stage: undefined,
+      errorMessage: result.success ? undefined : result.message,
+      error: result.success ? undefined : result.error ?? failureResult(result.message).error,
+      note: result.success ? result.message : undefined,
+      outputName: result.outputName,
+      outputPath: result.outputPath,
+      outputSize: result.outputSize,
+      verification: result.verification,
+      loudness: result.loudness,
+      operations: result.operations,
+      finishedAt: Date.now(),
+    });
+    this.emit({ type: 'finished', file: this.getFile(file.id)!, result });
+    this.pump();
+  }
+}
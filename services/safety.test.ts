@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { AudioFile, ConversionSettings, ConversionStatus, OutputFormat, SourceAction, TrackMetadata, VerificationStatus } from '../types';
+import { defaultSettings } from './settingsStore';
+import { archivePathFor, describeOperation, outputSizeFactor, settingsProblem, sourceHold, spaceNeeded, spaceShortfalls } from './safety';
+
+const MB = 1024 * 1024;
+const MARGIN = 64 * MB;
+
+const settings = (patch: Partial<ConversionSettings> = {}): ConversionSettings => ({ ...defaultSettings(true), ...patch });
+
+const pending = (path: string, size: number, format?: TrackMetadata['format']): AudioFile => ({
+  id: path,
+  name: path.split('/').pop()!,
+  path,
+  size,
+  status: ConversionStatus.PENDING,
+  progress: 0,
+  metadata: format ? { title: 'Song', artists: [], album: '', durationMs: 0, bitrate: 0, format } : undefined,
+});
+
+describe('outputSizeFactor', () => {
+  it('grows for lossless targets of lossy streams only', () => {
+    expect(outputSizeFactor(OutputFormat.FLAC, 'flac')).toBe(1);
+    expect(outputSizeFactor(OutputFormat.FLAC, 'mp3')).toBe(5);
+    expect(outputSizeFactor(OutputFormat.WAV, 'flac')).toBe(2);
+    expect(outputSizeFactor(OutputFormat.WAV, 'mp3')).toBe(5);
+    expect(outputSizeFactor(OutputFormat.OGG_VORBIS, 'flac')).toBe(1);
+  });
+});
+
+describe('spaceNeeded', () => {
+  it('adds up outputs by folder, with room for the temporary files in flight', () => {
+    const needs = spaceNeeded(
+      [pending('/a/1.ncm', 10 * MB, 'mp3'), pending('/a/2.ncm', 20 * MB), pending('/b/3.ncm', 5 * MB)],
+      settings({ outputFormat: OutputFormat.FLAC, concurrency: 2 }),
+    );
+    expect(needs).toEqual([
+      { folder: '/a', bytes: 50 * MB + 20 * MB + 2 * 20 * MB + MARGIN },
+      { folder: '/b', bytes: 5 * MB + 2 * 5 * MB + MARGIN },
+    ]);
+  });
+
+  it('sizes sources without NCM metadata by their sniffed stream', () => {
+    const kgm = { ...pending('/a/1.kgm', 10 * MB), innerFormat: 'mp3' as const };
+    const needs = spaceNeeded([kgm], settings({ outputFormat: OutputFormat.FLAC, concurrency: 1 }));
+    expect(needs).toEqual([{ folder: '/a', bytes: 50 * MB + 10 * MB + MARGIN }]);
+  });
+
+  it('puts everything in the output directory when one is set', () => {
+    const needs = spaceNeeded([pending('/a/1.ncm', MB), pending('/b/2.ncm', MB)], settings({ outputDirectory: '/out', concurrency: 1 }));
+    expect(needs).toEqual([{ folder: '/out', bytes: 3 * MB + MARGIN }]);
+  });
+});
+
+describe('spaceShortfalls', () => {
+  it('reports folders without room and ignores those the backend cannot measure', () => {
+    const needs = [{ folder: '/a', bytes: 200 * MB }, { folder: '/b', bytes: 200 * MB }, { folder: '/c', bytes: 200 * MB }];
+    expect(spaceShortfalls(needs, [100 * MB, 300 * MB, null])).toEqual([
+      'Not enough free space in /a: about 200.0 MB needed, 100.0 MB free',
+    ]);
+  });
+});
+
+describe('settingsProblem', () => {
+  it('asks for an archive folder when sources are archived', () => {
+    expect(settingsProblem(settings({ sourceAction: SourceAction.ARCHIVE }))).toMatch(/archive folder/);
+    expect(settingsProblem(settings({ sourceAction: SourceAction.ARCHIVE, archiveDirectory: '/archive' }))).toBeNull();
+    expect(settingsProblem(settings({ sourceAction: SourceAction.TRASH }))).toBeNull();
+  });
+});
+
+describe('sourceHold', () => {
+  it('keeps the source until the output is on disk, not empty and verified', () => {
+    expect(sourceHold({ outputSize: 10 })).toMatch(/not on disk/);
+    expect(sourceHold({ outputPath: '/a/1.flac', outputSize: 0 })).toMatch(/empty/);
+    expect(sourceHold({ outputPath: '/a/1.flac', outputSize: 10, verification: { status: VerificationStatus.SUSPECT, reason: 'Noise' } }))
+      .toBe('the output is suspect: Noise');
+    expect(sourceHold({ outputPath: '/a/1.flac', outputSize: 10, verification: { status: VerificationStatus.VERIFIED } })).toBeNull();
+    expect(sourceHold({ outputPath: '/a/1.ogg', outputSize: 10 })).toBe('the output could not be verified');
+  });
+});
+
+describe('archivePathFor', () => {
+  it('keeps the folders below the root', () => {
+    expect(archivePathFor({ name: '1.ncm', path: '/music/in/sub/1.ncm', root: '/music/in' }, '/archive')).toBe('/archive/sub/1.ncm');
+    expect(archivePathFor({ name: '1.ncm', path: 'C:\\In\\Sub\\1.ncm', root: 'C:\\In' }, 'D:\\Archive')).toBe('D:\\Archive\\Sub\\1.ncm');
+    expect(archivePathFor({ name: '1.ncm', path: '/elsewhere/1.ncm', root: '/music/in' }, '/archive/')).toBe('/archive/1.ncm');
+  });
+});
+
+describe('describeOperation', () => {
+  it('says how to undo what can be undone', () => {
+    expect(describeOperation({ kind: 'archived', path: '/in/1.ncm', undoPath: '/archive/1.ncm' }))
+      .toBe('Archived /in/1.ncm to /archive/1.ncm; move it back to undo');
+    expect(describeOperation({ kind: 'trashed', path: '/in/1.ncm' })).toMatch(/restore it from there/);
+    expect(describeOperation({ kind: 'replaced', path: '/out/1.flac', undoPath: '/trash/1.flac' }))
+      .toBe('Replaced the existing output /out/1.flac; the previous file is in the trash as /trash/1.flac, restore it from there to undo');
+  });
+});
@@ -0,0 +1,101 @@
+import { AudioFile, ConversionSettings, FileOperation, InnerFormat, OutputFormat, SourceAction, Verification, VerificationStatus } from '../types';
+import { folderOf } from './lyrics';
+import { joinPath } from './planner';
+import { formatBytes } from './progress';
+import { isPassthrough } from './settingsStore';
+
+/**
+ * Guards around the steps that can lose data: a batch only starts when its
+ * outputs fit, and a source only goes once its output is on disk and checks
+ * out. What does go (a source, a replaced output) is described for the log
+ * with how to get it back.
+ */
+
+/** Room kept on top of the estimate, for tags, covers and filesystem overhead. */
+const SPACE_MARGIN_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Output size over source size. Lossless from an MP3 stream comes out about
+ * five times larger, WAV from FLAC about twice; lossy targets are never
+ * larger. Mirrors `OutputFormat::size_factor` in convert.rs.
+ */
+export function outputSizeFactor(format: OutputFormat, inner: InnerFormat): number {
+  if (isPassthrough(format, inner)) return 1;
+  if (format === OutputFormat.WAV && inner === 'flac') return 2;
+  return format === OutputFormat.FLAC || format === OutputFormat.WAV ? 5 : 1;
+}
+
+export interface SpaceNeed {
+  folder: string; // where the outputs go; '' for the folder of a source given by name only
+  bytes: number;
+}
+
+/**
+ * Bytes `files` will take up, by output folder, from the sniffed stream (see
+ * `planOutputs`) or the NCM metadata. Sources whose format is not known yet
+ * count as FLAC; the backend checks each file again before writing it.
+ */
+export function spaceNeeded(files: AudioFile[], settings: ConversionSettings): SpaceNeed[] {
+  const folders = new Map<string, { bytes: number; largest: number }>();
+  files.forEach(file => {
+    const folder = settings.outputDirectory ?? folderOf(file.path);
+    const need = folders.get(folder) ?? { bytes: 0, largest: 0 };
+    need.bytes += file.size * outputSizeFactor(settings.outputFormat, file.innerFormat ?? file.metadata?.format ?? 'flac');
+    need.largest = Math.max(need.largest, file.size);
+    folders.set(folder, need);
+  });
+  // Every conversion in flight also holds its decrypted stream in a temporary file
+  return Array.from(folders, ([folder, { bytes, largest }]) =>
+    ({ folder, bytes: bytes + largest * settings.concurrency + SPACE_MARGIN_BYTES }));
+}
+
+/** Log lines for the folders without room; `available` follows `needs`, with null where the backend cannot tell. */
+export function spaceShortfalls(needs: SpaceNeed[], available: (number | null)[]): string[] {
+  return needs.flatMap((need, i) => {
+    const free = available[i];
+    if (free === null || free === undefined || free >= need.bytes) return [];
+    return [`Not enough free space in ${need.folder || 'the source folder'}: about ${formatBytes(need.bytes)} needed, ${formatBytes(free)} free`];
+  });
+}
+
+/** Why a batch cannot start with `settings`, or null. */
+export function settingsProblem(settings: ConversionSettings): string | null {
+  if (settings.sourceAction === SourceAction.ARCHIVE && !settings.archiveDirectory) {
+    return 'Sources are set to be archived, but no archive folder is set';
+  }
+  return null;
+}
+
+/**
+ * Why the source of a conversion that went through still has to stay, or
+ * null when it may go: the output has to be on disk, hold something and have
+ * passed verification. Only FLAC and MP3 outputs can be verified, so the
+ * sources of Ogg and WAV outputs always stay.
+ */
+export function sourceHold(result: { outputPath?: string; outputSize?: number; verification?: Verification }): string | null {
+  if (!result.outputPath) return 'the output is not on disk';
+  if (!result.outputSize) return 'the output is empty';
+  if (!result.verification) return 'the output could not be verified';
+  if (result.verification.status === VerificationStatus.SUSPECT) return `the output is suspect: ${result.verification.reason}`;
+  return null;
+}
+
+/** Where `file` goes in the archive: under its folders below the root it was picked or watched in. */
+export function archivePathFor(file: Pick<AudioFile, 'name' | 'path' | 'root'>, archiveDirectory: string): string {
+  const relative = file.root && file.path.startsWith(file.root)
+    ? file.path.slice(file.root.length).replace(/^[\\/]+/, '').replace(/\\/g, '/')
+    : '';
+  return joinPath(archiveDirectory, relative || file.name);
+}
+
+/** A log line for `operation`, with how to undo it where that can be done. */
+export function describeOperation(operation: FileOperation): string {
+  switch (operation.kind) {
+    case 'archived':
+      return `Archived ${operation.path} to ${operation.undoPath}; move it back to undo`;
+    case 'trashed':
+      return `Moved ${operation.path} to the trash; restore it from there to undo`;
+    case 'replaced':
+      return `Replaced the existing output ${operation.path}; the previous file is in the trash${operation.undoPath ? ` as ${operation.undoPath}` : ''}, restore it from there to undo`;
+  }
+}
@@ -0,0 +1,100 @@
+import { ConversionSettings, DuplicatePolicy, InnerFormat, LyricsAction, OutputFormat, OverwritePolicy, PlaylistMode, SourceAction } from '../types';
+import { DEFAULT_TEMPLATE, validateTemplate } from './filenameTemplate';
+
+const STORAGE_KEY = 'sonictransmute.settings';
+
+/**
+ * Defaults differ per environment: the browser cannot transcode, so it keeps
+ * the decrypted stream by default instead of promising FLAC.
+ */
+export const defaultSettings = (isTauri: boolean): ConversionSettings => ({
+  outputFormat: isTauri ? OutputFormat.FLAC : OutputFormat.ORIGINAL,
+  outputDirectory: null,
+  overwritePolicy: OverwritePolicy.OVERWRITE,
+  sourceAction: SourceAction.KEEP,
+  archiveDirectory: null,
+  concurrency: 2,
+  watchRecursive: false,
+  filenameTemplate: DEFAULT_TEMPLATE,
+  lyricsAction: LyricsAction.EMBED,
+  playlistMode: PlaylistMode.NONE,
+  organiseByAlbum: false,
+  analyseLoudness: false,
+  duplicatePolicy: DuplicatePolicy.SKIP,
+});
+
+export const MAX_CONCURRENCY = 8;
+
+/** Sources are no longer deleted outright; settings that asked for it send them to the trash instead. */
+const storedSourceAction = (action: string | undefined): SourceAction | null => {
+  if (action === 'delete') return SourceAction.TRASH;
+  return Object.values(SourceAction).includes(action as SourceAction) ? action as SourceAction : null;
+};
+
+/** Loads persisted settings, falling back to defaults for anything missing or invalid. */
+export function loadSettings(isTauri: boolean): ConversionSettings {
+  const defaults = defaultSettings(isTauri);
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaults;
+    const stored: Partial<ConversionSettings> = JSON.parse(raw);
+    return {
+      outputFormat: Object.values(OutputFormat).includes(stored.outputFormat!) ? stored.outputFormat! : defaults.outputFormat,
+      outputDirectory: typeof stored.outputDirectory === 'string' && stored.outputDirectory ? stored.outputDirectory : null,
+      overwritePolicy: Object.values(OverwritePolicy).includes(stored.overwritePolicy!) ? stored.overwritePolicy! : defaults.overwritePolicy,
+      sourceAction: storedSourceAction(stored.sourceAction) ?? defaults.sourceAction,
+      archiveDirectory: typeof stored.archiveDirectory === 'string' && stored.archiveDirectory ? stored.archiveDirectory : null,
+      concurrency: Number.isInteger(stored.concurrency) && stored.concurrency! >= 1 && stored.concurrency! <= MAX_CONCURRENCY
+        ? stored.concurrency!
+        : defaults.concurrency,
+      watchRecursive: typeof stored.watchRecursive === 'boolean' ? stored.watchRecursive : defaults.watchRecursive,
+      filenameTemplate: typeof stored.filenameTemplate === 'string' && validateTemplate(stored.filenameTemplate) === null
+        ? stored.filenameTemplate
+        : defaults.filenameTemplate,
+      lyricsAction: Object.values(LyricsAction).includes(stored.lyricsAction!) ? stored.lyricsAction! : defaults.lyricsAction,
+      playlistMode: Object.values(PlaylistMode).includes(stored.playlistMode!) ? stored.playlistMode! : defaults.playlistMode,
+      organiseByAlbum: typeof stored.organiseByAlbum === 'boolean' ? stored.organiseByAlbum : defaults.organiseByAlbum,
+      analyseLoudness: typeof stored.analyseLoudness === 'boolean' ? stored.analyseLoudness : defaults.analyseLoudness,
+      duplicatePolicy: Object.values(DuplicatePolicy).includes(stored.duplicatePolicy!) ? stored.duplicatePolicy! : defaults.duplicatePolicy,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveSettings(settings: ConversionSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('[Settings] Could not persist settings:', error);
+  }
+}
+
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  [OutputFormat.FLAC]: 'FLAC',
+  [OutputFormat.ORIGINAL]: 'Keep original',
+  [OutputFormat.MP3_320]: 'MP3 320 kbps',
+  [OutputFormat.OGG_VORBIS]: 'Ogg Vorbis',
+  [OutputFormat.WAV]: 'WAV',
+};
+
+/**
+ * True when the decrypted stream already satisfies the target format and can be written as-is.
+ * MP3 sources are never re-encoded to MP3 320: that would only lose quality.
+ */
+export const isPassthrough = (format: OutputFormat, inner: InnerFormat): boolean =>
+  format === OutputFormat.ORIGINAL
+  || (format === OutputFormat.FLAC && inner === 'flac')
+  || (format === OutputFormat.MP3_320 && inner === 'mp3');
+
+
+/** Extension of the file written for `format` when the decrypted stream is `inner`. */
+export const targetExtension = (format: OutputFormat, inner: InnerFormat): string => {
+  switch (format) {
+    case OutputFormat.ORIGINAL: return inner;
+    case OutputFormat.FLAC: return 'flac';
+    case OutputFormat.MP3_320: return 'mp3';
+    case OutputFormat.OGG_VORBIS: return 'ogg';
+    case OutputFormat.WAV: return 'wav';
+  }
+};
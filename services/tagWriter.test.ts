@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { id3UserTextField, id3v2Length, vorbisCommentField, writeTags } from './tagWriter';
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+const syncsafe = (value: number) => [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f];
+
+/** An ID3v2.3 tag with the given text frames, followed by one MPEG frame header. */
+const taggedMp3 = (frames: [string, string][]): Uint8Array => {
+  const body = frames.flatMap(([id, text]) => {
+    const value = [0, ...Array.from(text, c => c.charCodeAt(0))];
+    return [...Array.from(id, c => c.charCodeAt(0)), 0, 0, 0, value.length, 0, 0, ...value];
+  });
+  return new Uint8Array([0x49, 0x44, 0x33, 3, 0, 0, ...syncsafe(body.length), ...body, 0xff, 0xfb, 0x90, 0x00]);
+};
+
+const LRC = '[00:01.00]First\n[00:02.50]Second';
+
+const COVER = { data: Uint8Array.from({ length: 500 }, (_, i) => i & 0xff), mimeType: 'image/png' };
+const FRAMES = [0xff, 0xf8, 0x69, 0x08, 1, 2, 3, 4];
+
+/** fLaC, STREAMINFO, an optional VORBIS_COMMENT holding `comments`, then audio frames. */
+const flacStream = (comments: string[] = []): Uint8Array => {
+  const streamInfo = Array.from({ length: 34 }, (_, i) => i + 1);
+  const encoded = comments.map(comment => Array.from(new TextEncoder().encode(comment)));
+  const le32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24];
+  const body = [...le32(0), ...le32(encoded.length), ...encoded.flatMap(comment => [...le32(comment.length), ...comment])];
+  const blocks = comments.length
+    ? [0x00, 0, 0, 34, ...streamInfo, 0x84, 0, body.length >> 8, body.length & 0xff, ...body]
+    : [0x80, 0, 0, 34, ...streamInfo];
+  return new Uint8Array([0x66, 0x4c, 0x61, 0x43, ...blocks, ...FRAMES]);
+};
+
+const readFlacBlocks = (flac: Uint8Array) => {
+  const blocks: { type: number; last: boolean; body: Uint8Array }[] = [];
+  let offset = 4;
+  for (let last = false; !last;) {
+    last = (flac[offset] & 0x80) !== 0;
+    const length = (flac[offset + 1] << 16) | (flac[offset + 2] << 8) | flac[offset + 3];
+    blocks.push({ type: flac[offset] & 0x7f, last, body: flac.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+  return { blocks, frames: flac.subarray(offset) };
+};
+
+const readSyncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+/** Frames of an ID3v2.4 tag, in order, stopping at the padding. */
+const readId3v24Frames = (tag: Uint8Array) => {
+  const frames: { id: string; body: Uint8Array }[] = [];
+  const end = 10 + readSyncsafe(tag, 6);
+  for (let offset = 10; offset + 10 <= end && tag[offset] !== 0;) {
+    const size = readSyncsafe(tag, offset + 4);
+    frames.push({ id: latin1(tag.subarray(offset, offset + 4)), body: tag.subarray(offset + 10, offset + 10 + size) });
+    offset += 10 + size;
+  }
+  return frames;
+};
+
+describe('writeTags', () => {
+  it('writes Vorbis comments and a PICTURE block into FLAC, keeping the comments it does not set', () => {
+    const tagged = writeTags(flacStream(['GENRE=Pop', 'TITLE=Old']), {
+      title: 'Song',
+      artists: ['A', 'B'],
+      album: 'Album',
+      cover: COVER,
+      extra: { NETEASE_MUSIC_ID: '42' },
+    });
+    const { blocks, frames } = readFlacBlocks(tagged);
+
+    expect(blocks.map(b => [b.type, b.last])).toEqual([[0, false], [4, false], [6, false], [1, true]]);
+    expect(blocks[0].body).toEqual(flacStream().subarray(8, 42));
+    expect(Array.from(frames)).toEqual(FRAMES);
+    const comments = latin1(blocks[1].body);
+    expect(comments.match(/[A-Z_]+=[^\0-\x1f]*/g)).toEqual(['GENRE=Pop', 'TITLE=Song', 'ARTIST=A', 'ARTIST=B', 'ALBUM=Album', 'NETEASE_MUSIC_ID=42']);
+    expect(vorbisCommentField(blocks[1].body, 'netease_music_id')).toBe('42');
+
+    const picture = new DataView(blocks[2].body.buffer, blocks[2].body.byteOffset, blocks[2].body.byteLength);
+    expect(picture.getUint32(0)).toBe(3); // front cover
+    expect(latin1(blocks[2].body.subarray(8, 8 + picture.getUint32(4)))).toBe('image/png');
+    expect(picture.getUint32(8 + 9 + 20)).toBe(COVER.data.length);
+    expect(blocks[2].body.subarray(-COVER.data.length)).toEqual(COVER.data);
+    expect(blocks[3].body).toEqual(new Uint8Array(1024));
+
+    // Tagging again replaces the picture and the padding instead of adding more
+    const retagged = readFlacBlocks(writeTags(tagged, { cover: COVER }));
+    expect(retagged.blocks.map(b => b.type)).toEqual([0, 4, 6, 1]);
+    expect(latin1(retagged.blocks[1].body)).toContain('TITLE=Song');
+  });
+
+  it('rewrites an ID3v2.3 tag as v2.4 with text, TXXX and APIC frames, sized and padded', () => {
+    const tagged = writeTags(taggedMp3([['TIT2', 'Old'], ['TCON', 'Pop']]), {
+      title: 'Song',
+      artists: ['A', 'B'],
+      album: 'Album',
+      durationMs: 215000,
+      cover: COVER,
+      extra: { NETEASE_MUSIC_ID: '42' },
+    });
+    const length = id3v2Length(tagged);
+
+    expect(Array.from(tagged.subarray(0, 6))).toEqual([0x49, 0x44, 0x33, 4, 0, 0]);
+    expect(Array.from(tagged.subarray(length))).toEqual([0xff, 0xfb, 0x90, 0x00]);
+    expect(tagged.subarray(length - 1024, length)).toEqual(new Uint8Array(1024));
+    const frames = readId3v24Frames(tagged);
+    expect(frames.reduce((sum, frame) => sum + 10 + frame.body.length, 0)).toBe(length - 10 - 1024);
+    expect(frames.map(frame => frame.id)).toEqual(['TCON', 'TIT2', 'TPE1', 'TALB', 'TLEN', 'TXXX', 'APIC']);
+
+    const text = (id: string) => new TextDecoder().decode(frames.find(frame => frame.id === id)!.body.subarray(1));
+    expect(text('TCON')).toBe('Pop');
+    expect(text('TIT2')).toBe('Song');
+    expect(text('TPE1')).toBe('A\0B');
+    expect(text('TLEN')).toBe('215000');
+    expect(id3UserTextField(tagged, 'NETEASE_MUSIC_ID')).toBe('42');
+    const apic = frames.find(frame => frame.id === 'APIC')!.body;
+    expect(latin1(apic.subarray(1, 10))).toBe('image/png');
+    expect(Array.from(apic.subarray(10, 13))).toEqual([0, 3, 0]);
+    expect(apic.subarray(13)).toEqual(COVER.data);
+  });
+
+  it('adds a tag to MP3s without one', () => {
+    const tagged = writeTags(new Uint8Array([0xff, 0xfb, 0x90, 0x00]), { title: 'Song' });
+    expect(readId3v24Frames(tagged).map(frame => frame.id)).toEqual(['TIT2']);
+    expect(Array.from(tagged.subarray(id3v2Length(tagged)))).toEqual([0xff, 0xfb, 0x90, 0x00]);
+  });
+
+  it('embeds lyrics in FLAC as a LYRICS comment', () => {
+    const flac = new Uint8Array([0x66, 0x4c, 0x61, 0x43, 0x80, 0, 0, 34, ...new Array(34).fill(0)]);
+    const tagged = latin1(writeTags(flac, { title: 'Song', lyrics: LRC }));
+    expect(tagged).toContain('TITLE=Song');
+    expect(tagged).toContain(`LYRICS=${LRC}`);
+  });
+
+  it('embeds lyrics in MP3 as USLT and SYLT frames and keeps the frames it does not rewrite', () => {
+    const tagged = writeTags(taggedMp3([['TIT2', 'Old'], ['TCON', 'Pop'], ['TYER', '2001']]), { title: 'New', lyrics: LRC });
+    const text = latin1(tagged);
+    expect(tagged[3]).toBe(4);
+    expect(text).toContain('TCON');
+    expect(text).toContain('Pop');
+    expect(text).toContain('TDRC');
+    expect(text).not.toContain('TYER');
+    expect(text).not.toContain('Old');
+    expect(text).toContain('USLT');
+    expect(text).toContain('First\nSecond');
+    expect(text).toContain('SYLT');
+    expect(Array.from(tagged.subarray(-4))).toEqual([0xff, 0xfb, 0x90, 0x00]);
+  });
+});
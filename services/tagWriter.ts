@@ -0,0 +1,346 @@
+import { TrackMetadata } from '../types';
+import { parseLrc } from './lyrics';
+import { sniffInnerFormat } from './ncm';
+
+/**
+ * Tag writer for decrypted outputs.
+ *
+ * FLAC: rewrites the metadata blocks with a VORBIS_COMMENT and a PICTURE block.
+ * MP3:  rewrites any leading ID3v2 tag as ID3v2.4 (text frames, APIC, USLT and
+ *       SYLT), keeping the frames of an existing v2.3 or v2.4 tag it does not set.
+ *
+ * Works on whole in-memory buffers and is DOM-free, so it runs in the worker
+ * and in the Tauri path alike.
+ */
+
+export interface CoverImage {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface TagSet {
+  title?: string;
+  artists?: string[];
+  album?: string;
+  durationMs?: number;
+  cover?: CoverImage;
+  /** LRC text; timestamps are kept in FLAC and split out into SYLT in MP3. */
+  lyrics?: string;
+  /** Free-form fields, written as Vorbis comments or ID3 TXXX frames. */
+  extra?: Record<string, string>;
+}
+
+/** Free-form field outputs carry the NetEase song id in, so copies in the library can be recognised; see duplicates.ts. */
+export const MUSIC_ID_FIELD = 'NETEASE_MUSIC_ID';
+
+export function tagsFromMetadata(metadata: TrackMetadata | null, cover: CoverImage | null): TagSet {
+  return {
+    title: metadata?.title || undefined,
+    artists: metadata?.artists.length ? metadata.artists : undefined,
+    album: metadata?.album || undefined,
+    durationMs: metadata?.durationMs || undefined,
+    cover: cover ?? undefined,
+    extra: metadata?.musicId ? { [MUSIC_ID_FIELD]: String(metadata.musicId) } : undefined,
+  };
+}
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// --- FLAC ---
+
+const FLAC_STREAMINFO = 0;
+const FLAC_PADDING = 1;
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PICTURE = 6;
+const FLAC_MAX_BLOCK = 0xffffff;
+const PADDING_SIZE = 1024;
+const VENDOR = 'SonicTransmute';
+
+interface FlacBlock {
+  type: number;
+  body: Uint8Array;
+}
+
+const readFlacBlocks = (audio: Uint8Array): { blocks: FlacBlock[]; audioStart: number } => {
+  const blocks: FlacBlock[] = [];
+  let offset = 4;
+  for (;;) {
+    if (offset + 4 > audio.length) throw new Error('Truncated FLAC metadata');
+    const header = audio[offset];
+    const length = (audio[offset + 1] << 16) | (audio[offset + 2] << 8) | audio[offset + 3];
+    offset += 4;
+    if (offset + length > audio.length) throw new Error('Truncated FLAC metadata');
+    blocks.push({ type: header & 0x7f, body: audio.subarray(offset, offset + length) });
+    offset += length;
+    if (header & 0x80) break;
+  }
+  return { blocks, audioStart: offset };
+};
+
+/**
+ * Existing comments as [KEY, value] pairs, so fields we do not set survive a re-tag.
+ * A malformed block is treated as empty rather than failing the whole write.
+ */
+const readVorbisComments = (body: Uint8Array): [string, string][] => {
+  try {
+    return parseVorbisComments(body);
+  } catch {
+    return [];
+  }
+};
+
+const parseVorbisComments = (body: Uint8Array): [string, string][] => {
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  const decoder = new TextDecoder();
+  let offset = 4 + view.getUint32(0, true);
+  const count = view.getUint32(offset, true);
+  offset += 4;
+  const comments: [string, string][] = [];
+  for (let i = 0; i < count; i++) {
+    const length = view.getUint32(offset, true);
+    const comment = decoder.decode(body.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+    const split = comment.indexOf('=');
+    if (split > 0) comments.push([comment.slice(0, split).toUpperCase(), comment.slice(split + 1)]);
+  }
+  return comments;
+};
+
+/** Value of the comment `key` in the body of a VORBIS_COMMENT block, or null. */
+export function vorbisCommentField(body: Uint8Array, key: string): string | null {
+  return readVorbisComments(body).find(([name]) => name === key.toUpperCase())?.[1] ?? null;
+}
+
+const buildVorbisComment = (comments: [string, string][]): Uint8Array => {
+  const entries = comments.map(([key, value]) => utf8(`${key}=${value}`));
+  const vendor = utf8(VENDOR);
+  const body = new Uint8Array(8 + vendor.length + entries.reduce((sum, e) => sum + 4 + e.length, 0));
+  const view = new DataView(body.buffer);
+  view.setUint32(0, vendor.length, true);
+  body.set(vendor, 4);
+  let offset = 4 + vendor.length;
+  view.setUint32(offset, entries.length, true);
+  offset += 4;
+  for (const entry of entries) {
+    view.setUint32(offset, entry.length, true);
+    body.set(entry, offset + 4);
+    offset += 4 + entry.length;
+  }
+  return body;
+};
+
+const buildFlacPicture = (cover: CoverImage): Uint8Array => {
+  const mime = utf8(cover.mimeType);
+  const body = new Uint8Array(32 + mime.length + cover.data.length);
+  const view = new DataView(body.buffer);
+  view.setUint32(0, 3); // front cover
+  view.setUint32(4, mime.length);
+  body.set(mime, 8);
+  let offset = 8 + mime.length;
+  view.setUint32(offset, 0); // empty description
+  // width, height, depth and colour count are optional (left as 0)
+  offset += 20;
+  view.setUint32(offset, cover.data.length);
+  body.set(cover.data, offset + 4);
+  return body;
+};
+
+const vorbisFields = (tags: TagSet): [string, string][] => {
+  const fields: [string, string][] = [];
+  if (tags.title) fields.push(['TITLE', tags.title]);
+  tags.artists?.forEach(artist => fields.push(['ARTIST', artist]));
+  if (tags.album) fields.push(['ALBUM', tags.album]);
+  if (tags.lyrics) fields.push(['LYRICS', tags.lyrics]);
+  Object.entries(tags.extra ?? {}).forEach(([key, value]) => fields.push([key.toUpperCase(), value]));
+  return fields;
+};
+
+const writeFlacTags = (audio: Uint8Array, tags: TagSet): Uint8Array => {
+  const { blocks, audioStart } = readFlacBlocks(audio);
+  if (blocks[0]?.type !== FLAC_STREAMINFO) throw new Error('FLAC stream has no STREAMINFO block');
+
+  const fields = vorbisFields(tags);
+  const replaced = new Set(fields.map(([key]) => key));
+  const existing = blocks.find(b => b.type === FLAC_VORBIS_COMMENT);
+  const kept = existing ? readVorbisComments(existing.body).filter(([key]) => !replaced.has(key)) : [];
+
+  const canEmbedCover = !!tags.cover && tags.cover.data.length + 64 < FLAC_MAX_BLOCK;
+  const out: FlacBlock[] = blocks.filter(b =>
+    b.type !== FLAC_VORBIS_COMMENT && b.type !== FLAC_PADDING && !(b.type === FLAC_PICTURE && canEmbedCover));
+  out.push({ type: FLAC_VORBIS_COMMENT, body: buildVorbisComment([...kept, ...fields]) });
+  if (canEmbedCover) out.push({ type: FLAC_PICTURE, body: buildFlacPicture(tags.cover!) });
+  out.push({ type: FLAC_PADDING, body: new Uint8Array(PADDING_SIZE) });
+
+  const parts: Uint8Array[] = [utf8('fLaC')];
+  out.forEach((block, i) => {
+    const header = new Uint8Array(4);
+    header[0] = (i === out.length - 1 ? 0x80 : 0) | block.type;
+    header[1] = (block.body.length >> 16) & 0xff;
+    header[2] = (block.body.length >> 8) & 0xff;
+    header[3] = block.body.length & 0xff;
+    parts.push(header, block.body);
+  });
+  parts.push(audio.subarray(audioStart));
+  return concat(parts);
+};
+
+// --- MP3 / ID3v2.4 ---
+
+const syncsafe = (value: number): Uint8Array =>
+  new Uint8Array([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+
+const readSyncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const ENCODING_UTF8 = 0x03;
+
+const id3Frame = (id: string, body: Uint8Array): Uint8Array =>
+  concat([utf8(id), syncsafe(body.length), new Uint8Array(2), body]);
+
+// ID3v2.4 separates multiple values of a text frame with NUL.
+const textFrame = (id: string, values: string[]) =>
+  id3Frame(id, concat([new Uint8Array([ENCODING_UTF8]), utf8(values.join('\0'))]));
+
+const userTextFrame = (description: string, value: string) =>
+  id3Frame('TXXX', concat([new Uint8Array([ENCODING_UTF8]), utf8(description), new Uint8Array(1), utf8(value)]));
+
+const pictureFrame = (cover: CoverImage) =>
+  id3Frame('APIC', concat([
+    new Uint8Array([ENCODING_UTF8]),
+    utf8(cover.mimeType),
+    new Uint8Array([0, 0x03, 0]), // MIME terminator, front cover, empty description
+    cover.data,
+  ]));
+
+// Language of the lyrics frames; "XXX" is ID3 for unknown
+const UNKNOWN_LANGUAGE = utf8('XXX');
+
+const unsyncedLyricsFrame = (text: string) =>
+  id3Frame('USLT', concat([new Uint8Array([ENCODING_UTF8]), UNKNOWN_LANGUAGE, new Uint8Array(1), utf8(text)]));
+
+const syncedLyricsFrame = (lines: { timeMs: number; text: string }[]) =>
+  id3Frame('SYLT', concat([
+    new Uint8Array([ENCODING_UTF8]),
+    UNKNOWN_LANGUAGE,
+    new Uint8Array([2, 1, 0]), // timestamps in milliseconds, lyrics, empty description
+    ...lines.map(line => {
+      const time = new Uint8Array(4);
+      new DataView(time.buffer).setUint32(0, line.timeMs);
+      return concat([utf8(line.text), new Uint8Array(1), time]);
+    }),
+  ]));
+
+/** Length of a leading ID3v2 tag (header, frames, padding and footer), or 0. */
+export function id3v2Length(audio: Uint8Array): number {
+  if (audio.length < 10 || audio[0] !== 0x49 || audio[1] !== 0x44 || audio[2] !== 0x33) return 0;
+  const hasFooter = (audio[5] & 0x10) !== 0;
+  return 10 + readSyncsafe(audio, 6) + (hasFooter ? 10 : 0);
+}
+
+interface Id3Frame {
+  id: string;
+  body: Uint8Array;
+}
+
+// v2.3 frames that v2.4 dropped; their content has no direct v2.4 home
+const OBSOLETE_FRAMES = new Set(['TDAT', 'TIME', 'TRDA', 'TSIZ', 'IPLS', 'EQUA', 'RVAD', 'TORY']);
+
+/**
+ * Frames of a leading v2.3 or v2.4 tag, with v2.3 years renamed to v2.4.
+ * Frames stored compressed, encrypted or unsynchronised are dropped, as is any
+ * tag this cannot read: keeping them is a courtesy, not a requirement.
+ */
+const readId3Frames = (audio: Uint8Array): Id3Frame[] => {
+  const length = id3v2Length(audio);
+  const version = audio[3];
+  const flags = audio[5];
+  if (length === 0 || (version !== 3 && version !== 4) || flags & 0x80) return [];
+  const end = Math.min(audio.length, 10 + readSyncsafe(audio, 6));
+  let offset = 10;
+  if (flags & 0x40) {
+    const view = new DataView(audio.buffer, audio.byteOffset + offset, 4);
+    offset += version === 4 ? readSyncsafe(audio, offset) : 4 + view.getUint32(0);
+  }
+  const frames: Id3Frame[] = [];
+  const skippedFormats = version === 4 ? 0x0f : 0xe0;
+  while (offset + 10 <= end) {
+    const id = String.fromCharCode(...audio.subarray(offset, offset + 4));
+    if (!/^[A-Z0-9]{4}$/.test(id)) break; // padding
+    const size = version === 4
+      ? readSyncsafe(audio, offset + 4)
+      : new DataView(audio.buffer, audio.byteOffset + offset + 4, 4).getUint32(0);
+    const body = audio.subarray(offset + 10, offset + 10 + size);
+    if (body.length < size) break;
+    if (!(audio[offset + 9] & skippedFormats) && !OBSOLETE_FRAMES.has(id)) {
+      frames.push({ id: id === 'TYER' ? 'TDRC' : id, body });
+    }
+    offset += 10 + size;
+  }
+  return frames;
+};
+
+// Description of a TXXX frame, for the encodings whose terminator is one zero byte
+const userTextDescription = (body: Uint8Array): string | null => {
+  if (body[0] !== 0 && body[0] !== ENCODING_UTF8) return null;
+  const end = body.indexOf(0, 1);
+  return new TextDecoder(body[0] === 0 ? 'latin1' : 'utf-8').decode(body.subarray(1, end < 0 ? body.length : end));
+};
+
+/**
+ * Value of the TXXX frame described as `key` in a leading ID3v2 tag, or null.
+ * `audio` may stop anywhere in the tag; frames past the end are not found.
+ */
+export function id3UserTextField(audio: Uint8Array, key: string): string | null {
+  for (const frame of readId3Frames(audio)) {
+    if (frame.id !== 'TXXX' || userTextDescription(frame.body) !== key) continue;
+    const end = frame.body.indexOf(0, 1);
+    if (end < 0) return '';
+    return new TextDecoder(frame.body[0] === 0 ? 'latin1' : 'utf-8').decode(frame.body.subarray(end + 1)).replace(/\0+$/, '');
+  }
+  return null;
+}
+
+const writeId3Tags = (audio: Uint8Array, tags: TagSet): Uint8Array => {
+  const frames: Uint8Array[] = [];
+  const written = new Set<string>();
+  const add = (id: string, frame: Uint8Array) => {
+    written.add(id);
+    frames.push(frame);
+  };
+  if (tags.title) add('TIT2', textFrame('TIT2', [tags.title]));
+  if (tags.artists?.length) add('TPE1', textFrame('TPE1', tags.artists));
+  if (tags.album) add('TALB', textFrame('TALB', [tags.album]));
+  if (tags.durationMs) add('TLEN', textFrame('TLEN', [String(Math.round(tags.durationMs))]));
+  if (tags.lyrics) {
+    const { lines, text } = parseLrc(tags.lyrics);
+    add('USLT', unsyncedLyricsFrame(text));
+    if (lines.length > 0) add('SYLT', syncedLyricsFrame(lines));
+  }
+  Object.entries(tags.extra ?? {}).forEach(([key, value]) => frames.push(userTextFrame(key, value)));
+  if (tags.cover) add('APIC', pictureFrame(tags.cover));
+
+  const extraKeys = new Set(Object.keys(tags.extra ?? {}));
+  const kept = readId3Frames(audio)
+    .filter(frame => !written.has(frame.id))
+    .filter(frame => frame.id !== 'TXXX' || !extraKeys.has(userTextDescription(frame.body) ?? ''))
+    .map(frame => id3Frame(frame.id, frame.body));
+
+  const body = concat([...kept, ...frames, new Uint8Array(PADDING_SIZE)]);
+  const header = concat([utf8('ID3'), new Uint8Array([4, 0, 0]), syncsafe(body.length)]);
+  return concat([header, body, audio.subarray(id3v2Length(audio))]);
+};
+
+/** Returns a copy of `audio` with `tags` applied; the container is sniffed from the data. */
+export function writeTags(audio: Uint8Array, tags: TagSet): Uint8Array {
+  return sniffInnerFormat(audio) === 'flac' ? writeFlacTags(audio, tags) : writeId3Tags(audio, tags);
+}
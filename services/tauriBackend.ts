@@ -0,0 +1,412 @@
+import {
+  AudioFile,
+  ConversionErrorCode,
+  ConversionResult,
+  ConversionSettings,
+  ConversionStatus,
+  DetectedFile,
+  DropEvent,
+  FileOperation,
+  InnerFormat,
+  LibraryTrack,
+  LyricsAction,
+  Loudness,
+  LyricsSidecar,
+  ProgressEventPayload,
+  SourceAction,
+  Verification,
+} from '../types';
+import { assetUrl, ConversionBackend, invoke, listen, ListenerSet, PreviewSource } from './backendContract';
+import { ConversionFailure, failureResult } from './conversionErrors';
+import { identifyAudio } from './duplicates';
+import { replayGainTags } from './loudness';
+import { LoudnessAnalyzer } from './loudnessAnalyzer';
+import { decodeLyrics, lyricsTargets, sidecarPathFor } from './lyrics';
+import { ArrangeResult, OutputLayout } from './playlist';
+import { archivePathFor, sourceHold } from './safety';
+import { tagsFromMetadata, writeTags } from './tagWriter';
+import { blobSource, ByteSource, readTrackInfo, TrackInfo } from './trackInfo';
+import { verifyAudio } from './verify';
+
+/**
+ * Conversions through the Rust backend of the desktop app.
+ *
+ * ARCHITECTURE NOTE:
+ * These files are encrypted. FFmpeg cannot open them directly.
+ * The Rust backend must:
+ * 1. Decrypt the file (see `decoder.rs`).
+ * 2. Pipe the decrypted stream to an encoder (like FFmpeg or Flac lib).
+ * 3. Save as .flac.
+ *
+ * Tagging and loudness analysis run in TypeScript (see `tagWriter.ts` and
+ * `loudnessAnalyzer.ts`), so their stages are fanned out to local listeners
+ * alongside the Tauri events.
+ */
+export class TauriBackend implements ConversionBackend {
+  public readonly kind = 'tauri';
+  public readonly desktop = true;
+  private progressListeners = new ListenerSet<ProgressEventPayload>();
+  // Library files identified so far, by path, with the size and modification time they had then
+  private library = new Map<string, { size: number; modifiedAt: number; track: LibraryTrack }>();
+
+  /**
+   * Listen to backend progress events.
+   * Rust backend emits: app:conversion-progress, from reading through transcoding,
+   * throttled within each stage. Tagging and analysing are reported locally.
+   */
+  public async listenToProgress(callback: (payload: ProgressEventPayload) => void): Promise<() => void> {
+    const removeLocal = this.progressListeners.add(callback);
+    const unlisten = await listen('app:conversion-progress', callback);
+    return () => { removeLocal(); unlisten(); };
+  }
+
+  /**
+   * Listen to files found by the folder watcher.
+   * Rust backend emits: app:file-detected, once per file after its size has settled
+   */
+  public listenToFileDetected(callback: (file: DetectedFile) => void): Promise<() => void> {
+    return listen('app:file-detected', callback);
+  }
+
+  /**
+   * Listen to files and folders dropped onto the window.
+   * Tauri emits: tauri://drag-enter, tauri://drag-leave and tauri://drag-drop with
+   * absolute paths, which Rust command `scan_paths` expands into supported files.
+   */
+  public async listenToDrop(callback: (event: DropEvent) => void): Promise<() => void> {
+    const unlisteners = await Promise.all([
+      listen('tauri://drag-enter', () => callback({ type: 'enter' })),
+      listen('tauri://drag-leave', () => callback({ type: 'leave' })),
+      listen('tauri://drag-drop', ({ paths }) => {
+        invoke('scan_paths', { paths })
+          .then(files => callback({ type: 'drop', files }))
+          .catch(error => {
+            console.error('[Tauri] Scanning the drop failed:', error);
+            callback({ type: 'leave' });
+          });
+      }),
+    ]);
+    return () => unlisteners.forEach(unlisten => unlisten());
+  }
+
+  public setConcurrency() {
+    // Every conversion runs on its own blocking task; nothing to size.
+  }
+
+  /**
+   * Converts a single encrypted file according to `settings`.
+   * Calls Rust command: `convert_file`. Aborting `signal` cancels the conversion (see `cancelConversion`).
+   */
+  public async convertFile(file: AudioFile, settings: ConversionSettings, signal?: AbortSignal): Promise<ConversionResult> {
+    const onAbort = () => { this.cancelConversion(file.id).catch(error => console.error('Cancel failed:', error)); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      return await this.runConversion(file, settings, signal);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async runConversion(file: AudioFile, settings: ConversionSettings, signal?: AbortSignal): Promise<ConversionResult> {
+    try {
+      // undefined: the header could not be read; null: the format has no container tags to copy.
+      const trackInfo = await readTrackInfo(this.sourceOf(file), file.name).catch(() => undefined);
+      const lyrics = settings.lyricsAction === LyricsAction.IGNORE ? undefined : await this.readLyrics(file);
+      console.log(`[Tauri] Invoking conversion for: ${file.path}`);
+      const outcome = await invoke('convert_file', {
+        id: file.id,
+        filePath: file.path,
+        outputStem: file.outputStem ?? null,
+        settings
+      });
+      const { outputPath } = outcome;
+      let { outputSize } = outcome;
+      const outputName = outputPath.split(/[\\/]/).pop();
+      if (outcome.skipped) {
+        return { success: true, skipped: true, outputName, outputPath, outputSize, message: 'Output already exists' };
+      }
+      if (signal?.aborted) {
+        return { success: false, message: 'Cancelled' };
+      }
+      // Only FLAC and MP3 outputs can be tagged and verified; FFmpeg carries nothing over for the rest.
+      const format = outputPath.match(/\.(flac|mp3)$/i)?.[1].toLowerCase() as InnerFormat | undefined;
+      const { embed, sidecar } = lyricsTargets(settings.lyricsAction, !!format);
+      let verification: Verification | undefined;
+      let audio: Uint8Array | undefined;
+      if (format) {
+        const embedded = embed ? lyrics : undefined;
+        audio = trackInfo === null && !embedded
+          ? await this.readFile(outputPath)
+          : await this.tagOutput(file.id, outputPath, trackInfo, embedded);
+        outputSize = audio.length;
+        verification = verifyAudio(audio, format, trackInfo?.metadata?.durationMs);
+      }
+      if (sidecar && lyrics) await this.writeFile(sidecarPathFor(outputPath), new TextEncoder().encode(lyrics));
+      // Only outputs that can carry the ReplayGain tags are measured; a gain nothing holds would mislead
+      let loudness: Loudness | undefined;
+      if (settings.analyseLoudness && audio && !signal?.aborted) {
+        const measured = await this.analyseOutput(file.id, outputPath, audio);
+        loudness = measured.loudness;
+        outputSize = measured.outputSize ?? outputSize;
+      }
+      const operations: FileOperation[] = outcome.replaced ? [{ kind: 'replaced', path: outputPath }] : [];
+      const messages: string[] = [];
+      if (settings.sourceAction !== SourceAction.KEEP && !signal?.aborted) {
+        const disposal = await this.disposeSource(file, settings, { outputPath, outputSize, verification });
+        if (disposal.operation) operations.push(disposal.operation);
+        if (disposal.message) messages.push(disposal.message);
+      }
+      if (file.replaces && file.replaces !== outputPath && !signal?.aborted) {
+        const replacement = await this.trashReplaced(file.replaces, { outputPath, outputSize, verification });
+        if (replacement.operation) operations.push(replacement.operation);
+        if (replacement.message) messages.push(replacement.message);
+      }
+      const message = messages.join('; ') || undefined;
+      return { success: true, outputName, outputPath, outputSize, verification, loudness, operations, message };
+    } catch (error) {
+      // The Rust backend rejects with a structured error (see `error.rs`)
+      console.error('[Tauri] Conversion failed:', error);
+      return failureResult(error);
+    }
+  }
+
+  /**
+   * Cancels a running conversion.
+   * Calls Rust command: `cancel_conversion`.
+   */
+  public async cancelConversion(id: string): Promise<void> {
+    await invoke('cancel_conversion', { id });
+  }
+
+  /**
+   * Streams the output, or a decrypted copy of the source, through the asset protocol,
+   * whose scope has to cover the output folders and the system temp folder.
+   * Calls Rust commands: `decrypt_preview` and `remove_preview`.
+   */
+  public async openPreview(file: AudioFile): Promise<PreviewSource> {
+    if (file.status === ConversionStatus.COMPLETED && file.outputPath) {
+      return { url: assetUrl(file.outputPath), kind: 'output', release: () => {} };
+    }
+    const path = await invoke('decrypt_preview', { filePath: file.path });
+    return {
+      url: assetUrl(path),
+      kind: 'source',
+      release: () => { invoke('remove_preview', { path }).catch(error => console.warn('[Tauri] Preview not removed:', error)); },
+    };
+  }
+
+  /** Reads from the browser `File` when we still have it, otherwise through the backend. */
+  public sourceOf(file: AudioFile): ByteSource {
+    return file.source ? blobSource(file.source) : this.fileSource(file.path, file.size);
+  }
+
+  /** Writes NCM metadata, cover art and lyrics into a converted output on disk. Returns the tagged output. */
+  private async tagOutput(id: string, outputPath: string, trackInfo: TrackInfo | null | undefined, lyrics?: string): Promise<Uint8Array> {
+    try {
+      if (trackInfo === undefined) throw new Error('Source header could not be read');
+      const audio = await this.readFile(outputPath);
+      this.progressListeners.emit({ id, stage: 'tagging', processedBytes: 0, totalBytes: audio.length });
+      const tagged = writeTags(audio, { ...tagsFromMetadata(trackInfo?.metadata ?? null, trackInfo?.cover ?? null), lyrics });
+      await this.writeFile(outputPath, tagged);
+      this.progressListeners.emit({ id, stage: 'tagging', processedBytes: audio.length, totalBytes: audio.length });
+      return tagged;
+    } catch (error) {
+      throw new ConversionFailure(ConversionErrorCode.TAGGING_FAILED, `Tagging failed: ${error instanceof Error ? error.message : error}`, { outputPath });
+    }
+  }
+
+  /**
+   * Measures the loudness of a finished FLAC or MP3 output, `audio`, and
+   * writes the track gain into it. A failure only costs the measurement: the
+   * output is kept either way.
+   */
+  private async analyseOutput(id: string, outputPath: string, audio: Uint8Array): Promise<{ loudness?: Loudness; outputSize?: number }> {
+    try {
+      const emit = (processedBytes: number, totalBytes: number) =>
+        this.progressListeners.emit({ id, stage: 'analysing', processedBytes, totalBytes });
+      emit(0, 1);
+      const loudness = await LoudnessAnalyzer.getInstance().analyse(audio, emit);
+      if (!loudness) return {};
+      const tagged = writeTags(audio, { extra: replayGainTags(loudness) });
+      await this.writeFile(outputPath, tagged);
+      return { loudness, outputSize: tagged.length };
+    } catch (error) {
+      console.warn(`[Tauri] Loudness of ${outputPath} not measured:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Archives or trashes the source of a finished conversion once its output
+   * checks out (see `sourceHold`); Rust checks the output on disk again. A
+   * source that stays says why in the message, and the output is kept either way.
+   * Calls Rust command: `dispose_source`.
+   */
+  private async disposeSource(
+    file: AudioFile,
+    settings: ConversionSettings,
+    result: { outputPath: string; outputSize: number; verification?: Verification },
+  ): Promise<{ operation?: FileOperation; message?: string }> {
+    const hold = sourceHold(result);
+    if (hold) return { message: `Source kept: ${hold}` };
+    try {
+      const archivePath = settings.sourceAction === SourceAction.ARCHIVE && settings.archiveDirectory
+        ? archivePathFor(file, settings.archiveDirectory)
+        : null;
+      const archived = await invoke('dispose_source', { path: file.path, outputPath: result.outputPath, action: settings.sourceAction, archivePath });
+      return { operation: archived ? { kind: 'archived', path: file.path, undoPath: archived } : { kind: 'trashed', path: file.path } };
+    } catch (error) {
+      console.warn(`[Tauri] Source of ${file.name} kept:`, error);
+      return { message: `Source kept: ${error}` };
+    }
+  }
+
+  /**
+   * Trashes the lower-bitrate library copy an output replaces (see
+   * `resolveDuplicates`), on the same terms as a source.
+   * Calls Rust command: `dispose_source`.
+   */
+  private async trashReplaced(
+    path: string,
+    result: { outputPath: string; outputSize: number; verification?: Verification },
+  ): Promise<{ operation?: FileOperation; message?: string }> {
+    const hold = sourceHold(result);
+    if (hold) return { message: `Library copy kept: ${hold}` };
+    try {
+      await invoke('dispose_source', { path, outputPath: result.outputPath, action: SourceAction.TRASH, archivePath: null });
+      return { operation: { kind: 'trashed', path } };
+    } catch (error) {
+      console.warn(`[Tauri] Library copy ${path} kept:`, error);
+      return { message: `Library copy kept: ${error}` };
+    }
+  }
+
+  /**
+   * Adds fields to the tags of the output of `file`, keeping the rest.
+   * FLAC and MP3 outputs only; others have no tags to add to.
+   */
+  public async addTags(file: AudioFile, fields: Record<string, string>): Promise<void> {
+    if (!file.outputPath || !/\.(flac|mp3)$/i.test(file.outputPath)) return;
+    const audio = await this.readFile(file.outputPath);
+    await this.writeFile(file.outputPath, writeTags(audio, { extra: fields }));
+  }
+
+  /** Text of the lyrics matched to `file`; a sidecar that cannot be read is left out. */
+  private async readLyrics(file: AudioFile): Promise<string | undefined> {
+    if (!file.lyrics) return undefined;
+    try {
+      const bytes = file.lyrics.source ? new Uint8Array(await file.lyrics.source.arrayBuffer()) : await this.readFile(file.lyrics.path);
+      return decodeLyrics(bytes);
+    } catch (error) {
+      console.warn(`[Tauri] Lyrics of ${file.name} could not be read:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Lists the lyrics sidecars in `folders`.
+   * Calls Rust command: `list_lyrics`.
+   */
+  public findLyrics(folders: string[]): Promise<LyricsSidecar[]> {
+    return invoke('list_lyrics', { folders });
+  }
+
+  /**
+   * Lists and identifies the outputs in `folders`. Files whose size and
+   * modification time have not changed since they were last identified are
+   * not read again.
+   * Calls Rust command: `list_outputs`.
+   */
+  public async indexLibrary(folders: string[], recursive: boolean, onProgress?: (indexed: number, total: number) => void): Promise<LibraryTrack[]> {
+    const found = await invoke('list_outputs', { folders, recursive });
+    const tracks: LibraryTrack[] = [];
+    for (const [i, file] of found.entries()) {
+      const known = this.library.get(file.path);
+      if (known && known.size === file.size && known.modifiedAt === file.modifiedAt) {
+        tracks.push(known.track);
+      } else {
+        try {
+          const track: LibraryTrack = { path: file.path, size: file.size, ...await identifyAudio(this.fileSource(file.path, file.size)) };
+          this.library.set(file.path, { size: file.size, modifiedAt: file.modifiedAt, track });
+          tracks.push(track);
+        } catch (error) {
+          console.warn(`[Tauri] ${file.path} not indexed:`, error);
+        }
+      }
+      onProgress?.(i + 1, found.length);
+    }
+    return tracks;
+  }
+
+  /**
+   * Moves outputs, with their lyrics sidecars, and writes the playlists.
+   * Calls Rust command: `move_file`.
+   */
+  public async arrangeOutputs(layout: OutputLayout): Promise<ArrangeResult> {
+    const result: ArrangeResult = { moved: [], failed: [] };
+    for (const move of layout.moves) {
+      try {
+        await invoke('move_file', { from: move.from, to: move.to });
+        result.moved.push(move);
+      } catch (error) {
+        result.failed.push({ move, message: String(error) });
+        continue;
+      }
+      const lyrics = sidecarPathFor(move.from);
+      const [hasLyrics] = await this.pathsExist([lyrics]);
+      if (hasLyrics) {
+        await invoke('move_file', { from: lyrics, to: sidecarPathFor(move.to) })
+          .catch(error => console.warn(`[Tauri] Lyrics of ${move.from} not moved:`, error));
+      }
+    }
+    for (const playlist of layout.playlists) await this.writeFile(playlist.path, new TextEncoder().encode(playlist.text));
+    return result;
+  }
+
+  /**
+   * Reads a file (or a byte range of it) through the backend.
+   * Calls Rust command: `read_file`, which answers with a raw binary response.
+   */
+  public async readFile(path: string, offset?: number, length?: number): Promise<Uint8Array> {
+    return new Uint8Array(await invoke('read_file', { path, offset, length }));
+  }
+
+  /**
+   * Writes raw bytes through the backend. The bytes go as the raw request body;
+   * the target path travels percent-encoded in a header.
+   */
+  public async writeFile(path: string, data: Uint8Array): Promise<void> {
+    await invoke('write_file', data, { headers: { 'x-path': encodeURIComponent(path) } });
+  }
+
+  /**
+   * Checks which of `paths` still exist on disk.
+   * Calls Rust command: `paths_exist`.
+   */
+  public pathsExist(paths: string[]): Promise<boolean[]> {
+    return invoke('paths_exist', { paths });
+  }
+
+  /**
+   * Free bytes where each of `paths` is or would be created.
+   * Calls Rust command: `free_space`.
+   */
+  public freeSpace(paths: string[]): Promise<(number | null)[]> {
+    return invoke('free_space', { paths });
+  }
+
+  public fileSource(path: string, size: number): ByteSource {
+    return { size, read: (offset, length) => this.readFile(path, offset, length) };
+  }
+
+  /**
+   * Start watching a folder for new encrypted files, including subfolders when `recursive`
+   */
+  public async startWatcher(path: string, recursive: boolean): Promise<void> {
+    await invoke('start_folder_watcher', { path, recursive });
+  }
+
+  public async stopWatcher(): Promise<void> {
+    await invoke('stop_folder_watcher', {});
+  }
+}
@@ -0,0 +1,36 @@
+import { InnerFormat, TrackMetadata } from '../types';
+import { openSource } from './decoders';
+import { sniffInnerFormat } from './ncm';
+import { CoverImage } from './tagWriter';
+
+/** Random access to a source file: a browser `File` or a path behind the Tauri backend. */
+export interface ByteSource {
+  size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+export const blobSource = (blob: Blob): ByteSource => ({
+  size: blob.size,
+  read: async (offset, length) => new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer()),
+});
+
+export interface TrackInfo {
+  metadata: TrackMetadata | null;
+  cover: CoverImage | null;
+}
+
+/**
+ * Reads the container tags of `source` (not the audio). Resolves to null for
+ * formats whose tags live inside the encrypted stream instead (QMC, KGM, KWM).
+ */
+export async function readTrackInfo(source: ByteSource, name: string): Promise<TrackInfo | null> {
+  return (await openSource(source, name)).trackInfo;
+}
+
+/** Decrypts only the first audio bytes to tell FLAC from MP3 without converting the file. */
+export async function readInnerFormat(source: ByteSource, name: string): Promise<InnerFormat> {
+  const session = await openSource(source, name);
+  const head = await source.read(session.audioOffset, Math.min(4, session.audioLength));
+  session.decrypt(head, 0);
+  return sniffInnerFormat(head);
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { VerificationStatus } from '../types';
+import { writeTags } from './tagWriter';
+import { verifyAudio, verifyFlac, verifyMp3 } from './verify';
+
+const BLOCK_SIZE = 4096;
+const SAMPLE_RATE = 44100;
+
+/** Bitwise CRC, MSB first, as FLAC uses for frame headers (8 bits) and frames (16 bits). */
+const crc = (bytes: number[], polynomial: number, width: number) => {
+  let value = 0;
+  for (const byte of bytes) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & (1 << (width - 1)) ? (value << 1) ^ polynomial : value << 1;
+      value &= (1 << width) - 1;
+    }
+  }
+  return value;
+};
+
+/** A mono 16-bit frame of 4096 samples with a constant subframe. */
+const flacFrame = (number: number): number[] => {
+  // Block size code 12 (256 << 4), 44.1 kHz, mono, 16 bits; frame number below 128
+  const header = [0xff, 0xf8, 0xc9, 0x08, number];
+  const body = [...header, crc(header, 0x07, 8), 0x00, 0x12, 0x34];
+  const frameCrc = crc(body, 0x8005, 16);
+  return [...body, frameCrc >> 8, frameCrc & 0xff];
+};
+
+const flac = (frames: number, totalSamples = frames * BLOCK_SIZE): Uint8Array => {
+  const info = new Array(34).fill(0);
+  info[0] = BLOCK_SIZE >> 8;
+  info[2] = BLOCK_SIZE >> 8;
+  // 20 bits of sample rate, 3 of channels - 1, 5 of bits per sample - 1, 36 of total samples
+  info[10] = SAMPLE_RATE >> 12;
+  info[11] = (SAMPLE_RATE >> 4) & 0xff;
+  info[12] = ((SAMPLE_RATE & 0x0f) << 4) | (15 >> 4);
+  info[13] = (15 & 0x0f) << 4;
+  info[14] = (totalSamples >>> 24) & 0xff;
+  info[15] = (totalSamples >> 16) & 0xff;
+  info[16] = (totalSamples >> 8) & 0xff;
+  info[17] = totalSamples & 0xff;
+  const bytes = [0x66, 0x4c, 0x61, 0x43, 0x80, 0, 0, 34, ...info];
+  for (let i = 0; i < frames; i++) bytes.push(...flacFrame(i));
+  return new Uint8Array(bytes);
+};
+
+/** MPEG-1 layer III, 128 kbit/s, 44.1 kHz, no padding: 417 bytes, 1152 samples. */
+const mp3 = (frames: number): Uint8Array => {
+  const bytes = new Uint8Array(frames * 417);
+  for (let i = 0; i < frames; i++) bytes.set([0xff, 0xfb, 0x90, 0x00], i * 417);
+  return bytes;
+};
+
+describe('verifyFlac', () => {
+  it('accepts an intact stream and measures it', () => {
+    const result = verifyFlac(flac(20));
+    expect(result.status).toBe(VerificationStatus.VERIFIED);
+    expect(result.durationMs).toBeCloseTo((20 * BLOCK_SIZE * 1000) / SAMPLE_RATE);
+  });
+
+  it('accepts a tagged stream', () => {
+    const tagged = writeTags(flac(20), { title: 'Song', artists: ['Artist'] });
+    expect(verifyFlac(tagged).status).toBe(VerificationStatus.VERIFIED);
+  });
+
+  it('flags frames whose CRC does not match', () => {
+    const audio = flac(20);
+    audio[audio.length - 10 * 11 + 8] ^= 0x01;
+    expect(verifyFlac(audio)).toMatchObject({ status: VerificationStatus.SUSPECT, reason: '1 of 20 FLAC frames fail their CRC check' });
+  });
+
+  it('flags a stream that is cut off', () => {
+    expect(verifyFlac(flac(20).subarray(0, -3)).reason).toBe('The last FLAC frame is cut off');
+    expect(verifyFlac(flac(20, 40 * BLOCK_SIZE)).reason).toMatch(/^Audio ends at 0:02 of the 0:04/);
+  });
+
+  it('flags noise', () => {
+    const noise = Uint8Array.from({ length: 4096 }, (_, i) => (i * 151 + 7) & 0xff);
+    expect(verifyFlac(noise).reason).toBe('Not a FLAC stream');
+  });
+});
+
+describe('verifyMp3', () => {
+  it('follows the frames of a tagged stream', () => {
+    const result = verifyMp3(writeTags(mp3(50), { title: 'Song' }));
+    expect(result.status).toBe(VerificationStatus.VERIFIED);
+    expect(result.durationMs).toBeCloseTo((50 * 1152 * 1000) / SAMPLE_RATE);
+  });
+
+  it('flags broken headers and cut-off streams', () => {
+    const broken = mp3(50);
+    broken[20 * 417 + 1] = 0x00;
+    expect(verifyMp3(broken).reason).toBe('MP3 frame headers are broken in 1 of 50 places');
+    expect(verifyMp3(mp3(50).subarray(0, -100)).reason).toBe('The last MP3 frame is cut off');
+    expect(verifyMp3(new Uint8Array(8192)).reason).toBe('No MPEG audio frames found');
+  });
+});
+
+describe('verifyAudio', () => {
+  it('compares the length with the duration the source promised', () => {
+    const audio = mp3(2000); // 52.2 s
+    expect(verifyAudio(audio, 'mp3', 52000).status).toBe(VerificationStatus.VERIFIED);
+    expect(verifyAudio(audio, 'mp3', 240000)).toMatchObject({
+      status: VerificationStatus.SUSPECT,
+      reason: 'Plays 0:52 but the track is 4:00 long',
+    });
+  });
+});
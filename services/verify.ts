@@ -0,0 +1,276 @@
+import { InnerFormat, Verification, VerificationStatus } from '../types';
+import { id3v2Length } from './tagWriter';
+
+/**
+ * Checks that a finished output is the audio it claims to be: a wrong key
+ * turns the stream into noise, an interrupted download cuts it short, and
+ * neither stops the output from being written.
+ *
+ * Nothing is decoded. FLAC frames are found by their sync code and checked
+ * against their CRCs; MP3 frames are followed header to header. The length
+ * that adds up is compared with the duration the source promised, if any.
+ */
+export function verifyAudio(audio: Uint8Array, format: InnerFormat, expectedDurationMs?: number): Verification {
+  const result = format === 'flac' ? verifyFlac(audio) : verifyMp3(audio);
+  if (result.status === VerificationStatus.SUSPECT || !expectedDurationMs || result.durationMs === undefined) {
+    return result;
+  }
+  const tolerance = Math.max(DURATION_TOLERANCE_MS, expectedDurationMs * DURATION_TOLERANCE_RATIO);
+  if (Math.abs(result.durationMs - expectedDurationMs) > tolerance) {
+    return suspect(`Plays ${clock(result.durationMs)} but the track is ${clock(expectedDurationMs)} long`, result.durationMs);
+  }
+  return result;
+}
+
+// A decoded length this close to the expected one is the same track; NetEase rounds its durations.
+const DURATION_TOLERANCE_MS = 1000;
+const DURATION_TOLERANCE_RATIO = 0.02;
+const ID3V1_LENGTH = 128;
+const MP3_SYNC_WINDOW = 64 * 1024;
+
+const verified = (durationMs: number): Verification => ({ status: VerificationStatus.VERIFIED, durationMs });
+
+const suspect = (reason: string, durationMs?: number): Verification =>
+  ({ status: VerificationStatus.SUSPECT, reason, durationMs });
+
+const clock = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/** End of the audio frames: an ID3v1 tag may follow them. */
+const audioEnd = (audio: Uint8Array) => {
+  const tag = audio.length - ID3V1_LENGTH;
+  return tag >= 0 && audio[tag] === 0x54 && audio[tag + 1] === 0x41 && audio[tag + 2] === 0x47 ? tag : audio.length;
+};
+
+// --- FLAC ---
+
+const crcTable = (polynomial: number, width: number) => {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  return Uint16Array.from({ length: 256 }, (_, i) => {
+    let crc = i << (width - 8);
+    for (let bit = 0; bit < 8; bit++) crc = crc & top ? ((crc << 1) ^ polynomial) & mask : (crc << 1) & mask;
+    return crc;
+  });
+};
+
+const CRC8 = crcTable(0x07, 8); // frame headers
+const CRC16 = crcTable(0x8005, 16); // whole frames
+
+interface FlacFrameHeader {
+  length: number; // bytes, including the CRC-8
+  blockSize: number; // samples per channel
+  number: number; // frame number, or first sample number with variable block sizes
+  variable: boolean;
+}
+
+/** Parses the frame header at `offset`, or null when there is none with a valid CRC. */
+const readFlacFrameHeader = (audio: Uint8Array, offset: number): FlacFrameHeader | null => {
+  if (offset + 6 > audio.length || audio[offset] !== 0xff || (audio[offset + 1] & 0xfe) !== 0xf8) return null;
+  const variable = (audio[offset + 1] & 0x01) === 1;
+  const blockCode = audio[offset + 2] >> 4;
+  const rateCode = audio[offset + 2] & 0x0f;
+  const channels = audio[offset + 3] >> 4;
+  const sizeCode = (audio[offset + 3] >> 1) & 0x07;
+  if (blockCode === 0 || rateCode === 15 || channels > 10 || sizeCode === 3 || audio[offset + 3] & 0x01) return null;
+
+  // The frame or sample number is coded like UTF-8, up to 36 bits
+  let position = offset + 4;
+  const lead = audio[position++];
+  const extra = lead < 0x80 ? 0 : lead < 0xc0 ? -1 : lead < 0xe0 ? 1 : lead < 0xf0 ? 2 : lead < 0xf8 ? 3 : lead < 0xfc ? 4 : lead < 0xfe ? 5 : lead === 0xfe ? 6 : -1;
+  if (extra < 0 || position + extra + 5 > audio.length) return null;
+  let number = extra === 0 ? lead : lead & (0x3f >> extra);
+  for (let i = 0; i < extra; i++) {
+    const byte = audio[position++];
+    if ((byte & 0xc0) !== 0x80) return null;
+    number = number * 64 + (byte & 0x3f);
+  }
+
+  let blockSize: number;
+  if (blockCode === 1) blockSize = 192;
+  else if (blockCode <= 5) blockSize = 576 << (blockCode - 2);
+  else if (blockCode === 6) blockSize = audio[position++] + 1;
+  else if (blockCode === 7) {
+    blockSize = ((audio[position] << 8) | audio[position + 1]) + 1;
+    position += 2;
+  } else blockSize = 256 << (blockCode - 8);
+  if (rateCode === 12) position += 1;
+  else if (rateCode === 13 || rateCode === 14) position += 2;
+
+  let crc = 0;
+  for (let i = offset; i < position; i++) crc = CRC8[crc ^ audio[i]];
+  if (crc !== audio[position]) return null;
+  return { length: position + 1 - offset, blockSize, number, variable };
+};
+
+/** Sample rate and length (0 when unknown) from the body of a STREAMINFO block. */
+export function readStreamInfo(info: Uint8Array): { sampleRate: number; totalSamples: number } {
+  return {
+    sampleRate: (info[10] << 12) | (info[11] << 4) | (info[12] >> 4),
+    totalSamples: (info[13] & 0x0f) * 2 ** 32 + (((info[14] << 24) | (info[15] << 16) | (info[16] << 8) | info[17]) >>> 0),
+  };
+}
+
+export function verifyFlac(audio: Uint8Array): Verification {
+  if (audio.length < 4 || audio[0] !== 0x66 || audio[1] !== 0x4c || audio[2] !== 0x61 || audio[3] !== 0x43) {
+    return suspect('Not a FLAC stream');
+  }
+
+  // Metadata blocks; STREAMINFO comes first
+  let offset = 4;
+  let sampleRate = 0;
+  let totalSamples = 0;
+  for (let first = true; ; first = false) {
+    if (offset + 4 > audio.length) return suspect('FLAC metadata is cut off');
+    const header = audio[offset];
+    const length = (audio[offset + 1] << 16) | (audio[offset + 2] << 8) | audio[offset + 3];
+    if (first) {
+      if ((header & 0x7f) !== 0 || length !== 34 || offset + 4 + length > audio.length) {
+        return suspect('FLAC stream has no STREAMINFO');
+      }
+      ({ sampleRate, totalSamples } = readStreamInfo(audio.subarray(offset + 4, offset + 4 + length)));
+      if (sampleRate === 0) return suspect('STREAMINFO has no sample rate');
+    }
+    offset += 4 + length;
+    if (header & 0x80) break;
+  }
+
+  const end = audioEnd(audio);
+  let header = readFlacFrameHeader(audio, offset);
+  if (!header) return suspect('No audio frame follows the FLAC metadata');
+
+  // A frame runs up to the next header that continues the numbering; its
+  // CRC-16 over everything including the stored CRC comes out as zero.
+  let frames = 0;
+  let badFrames = 0;
+  let samples = 0;
+  let lastIntact = true;
+  let start = offset;
+  for (;;) {
+    const expected = header.variable ? header.number + header.blockSize : header.number + 1;
+    let crc = 0;
+    let next: FlacFrameHeader | null = null;
+    let position = start;
+    for (; position < end; position++) {
+      if (position > start + header.length && audio[position] === 0xff) {
+        next = readFlacFrameHeader(audio, position);
+        if (next && next.variable === header.variable && next.number === expected) break;
+        next = null;
+      }
+      crc = ((crc << 8) & 0xffff) ^ CRC16[(crc >> 8) ^ audio[position]];
+    }
+    frames++;
+    samples += header.blockSize;
+    if (!next) {
+      lastIntact = crc === 0;
+      break;
+    }
+    if (crc !== 0) badFrames++;
+    start = position;
+    header = next;
+  }
+
+  const durationMs = (samples / sampleRate) * 1000;
+  if (badFrames > 0) return suspect(`${badFrames} of ${frames} FLAC frames fail their CRC check`, durationMs);
+  if (!lastIntact) return suspect('The last FLAC frame is cut off', durationMs);
+  if (totalSamples > 0 && samples !== totalSamples) {
+    const promised = (totalSamples / sampleRate) * 1000;
+    return suspect(`Audio ends at ${clock(durationMs)} of the ${clock(promised)} in STREAMINFO`, durationMs);
+  }
+  return verified(durationMs);
+}
+
+// --- MP3 ---
+
+// kbit/s by bitrate index, for MPEG-1 layers I-III and MPEG-2/2.5 layer I and II/III
+const BITRATES = [
+  [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+];
+// Hz by sample rate index, for MPEG-2.5, (reserved), MPEG-2 and MPEG-1
+const SAMPLE_RATES = [[11025, 12000, 8000], [], [22050, 24000, 16000], [44100, 48000, 32000]];
+
+interface Mp3FrameHeader {
+  length: number; // bytes, header included
+  bitrate: number; // bits per second
+  samples: number;
+  sampleRate: number;
+  stream: number; // version, layer and sample rate: the same for every frame of a file
+}
+
+const readMp3FrameHeader = (audio: Uint8Array, offset: number): Mp3FrameHeader | null => {
+  if (offset + 4 > audio.length || audio[offset] !== 0xff || (audio[offset + 1] & 0xe0) !== 0xe0) return null;
+  const version = (audio[offset + 1] >> 3) & 0x03;
+  const layer = 4 - ((audio[offset + 1] >> 1) & 0x03); // 1, 2 or 3; 4 is reserved
+  const bitrateIndex = audio[offset + 2] >> 4;
+  const rateIndex = (audio[offset + 2] >> 2) & 0x03;
+  const padding = (audio[offset + 2] >> 1) & 0x01;
+  if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const mpeg1 = version === 3;
+  const bitrate = BITRATES[mpeg1 ? layer - 1 : layer === 1 ? 3 : 4][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][rateIndex];
+  const stream = (version << 4) | (layer << 2) | rateIndex;
+  if (layer === 1) {
+    return { length: (Math.floor((12 * bitrate) / sampleRate) + padding) * 4, bitrate, samples: 384, sampleRate, stream };
+  }
+  const samples = layer === 3 && !mpeg1 ? 576 : 1152;
+  return { length: Math.floor((samples / 8) * bitrate / sampleRate) + padding, bitrate, samples, sampleRate, stream };
+};
+
+/** First offset from `offset` where two frames of the same stream follow each other. */
+const findMp3Sync = (audio: Uint8Array, offset: number, end: number, stream?: number): number => {
+  for (let position = offset; position < end; position++) {
+    const header = readMp3FrameHeader(audio, position);
+    if (!header || (stream !== undefined && header.stream !== stream)) continue;
+    const following = position + header.length;
+    if (following === end) return position;
+    if (readMp3FrameHeader(audio, following)?.stream === header.stream) return position;
+  }
+  return -1;
+};
+
+/** Bitrate of the first MP3 frame from `offset`, in bits per second; 0 when there is none. */
+export function mp3Bitrate(audio: Uint8Array, offset: number): number {
+  const start = findMp3Sync(audio, offset, Math.min(audio.length, offset + MP3_SYNC_WINDOW));
+  return start < 0 ? 0 : readMp3FrameHeader(audio, start)!.bitrate;
+}
+
+export function verifyMp3(audio: Uint8Array): Verification {
+  const end = audioEnd(audio);
+  const start = id3v2Length(audio);
+  let offset = findMp3Sync(audio, start, Math.min(end, start + MP3_SYNC_WINDOW));
+  if (offset < 0) return suspect('No MPEG audio frames found');
+  const stream = readMp3FrameHeader(audio, offset)!.stream;
+
+  let frames = 0;
+  let seconds = 0;
+  let breaks = 0;
+  let cutOff = false;
+  while (offset < end) {
+    const header = readMp3FrameHeader(audio, offset);
+    if (!header || header.stream !== stream) {
+      breaks++;
+      offset = findMp3Sync(audio, offset + 1, end, stream);
+      if (offset < 0) break;
+      continue;
+    }
+    if (offset + header.length > end) {
+      cutOff = true;
+      break;
+    }
+    frames++;
+    seconds += header.samples / header.sampleRate;
+    offset += header.length;
+  }
+
+  const durationMs = seconds * 1000;
+  if (breaks > 0) return suspect(`MP3 frame headers are broken in ${breaks} of ${frames + breaks} places`, durationMs);
+  if (cutOff) return suspect('The last MP3 frame is cut off', durationMs);
+  return verified(durationMs);
+}
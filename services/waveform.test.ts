@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { peaks } from './waveform';
+
+describe('peaks', () => {
+  it('takes the loudest sample of each slice over all channels', () => {
+    const left = Float32Array.from([0.1, -0.5, 0.2, 0, 0.05, 0.1]);
+    const right = Float32Array.from([0, 0.2, 0.3, -0.9, 0, 0]);
+    expect(peaks([left, right], 3)).toEqual([0.5, 0.9, 0.1].map(Math.fround));
+  });
+
+  it('spreads uneven lengths and copes with silence', () => {
+    expect(peaks([Float32Array.from([1, 0, 0, 0, 0])], 2)).toEqual([1, 0]);
+    expect(peaks([], 4)).toEqual([0, 0, 0, 0]);
+  });
+});
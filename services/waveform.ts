@@ -0,0 +1,30 @@
+/**
+ * Waveform overviews for the preview player: the audio is decoded with the
+ * Web Audio API at a low sample rate, which is plenty for a row of bars and
+ * keeps a long FLAC from taking hundreds of megabytes as PCM.
+ */
+
+const SAMPLE_RATE = 8000;
+
+/** Peak amplitude (0 to 1) of each of `buckets` equal slices of the audio, over all channels. */
+export function peaks(channels: Float32Array[], buckets: number): number[] {
+  const length = channels[0]?.length ?? 0;
+  return Array.from({ length: buckets }, (_, bucket) => {
+    const start = Math.floor((bucket * length) / buckets);
+    const end = Math.floor(((bucket + 1) * length) / buckets);
+    let peak = 0;
+    for (const samples of channels) {
+      for (let i = start; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    return Math.min(1, peak);
+  });
+}
+
+/** Loads and decodes the audio at `url`, reduced to `buckets` peaks. */
+export async function loadWaveform(url: string, buckets: number, signal?: AbortSignal): Promise<number[]> {
+  const response = await fetch(url, { signal });
+  const encoded = await response.arrayBuffer();
+  const audio = await new OfflineAudioContext(1, 1, SAMPLE_RATE).decodeAudioData(encoded);
+  signal?.throwIfAborted();
+  return peaks(Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i)), buckets);
+}
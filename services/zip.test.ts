@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, ZipEntry } from './zip';
+
+interface ReadEntry {
+  name: string;
+  data: Uint8Array;
+  crc: number;
+  modified: { time: number; date: number };
+}
+
+/** Reads a stored zip through its central directory, checking each local header against it. */
+const readZip = (zip: Uint8Array): ReadEntry[] => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  let at = view.getUint32(end + 16, true);
+  expect(at + centralSize).toBe(end);
+
+  return Array.from({ length: count }, () => {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    expect(view.getUint16(at + 10, true)).toBe(0); // stored
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 24, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const name = new TextDecoder().decode(zip.subarray(at + 46, at + 46 + nameLength));
+    const local = view.getUint32(at + 42, true);
+    const modified = { time: view.getUint16(at + 12, true), date: view.getUint16(at + 14, true) };
+    at += 46 + nameLength;
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint32(local + 14, true)).toBe(crc);
+    expect(view.getUint32(local + 22, true)).toBe(size);
+    const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    return { name, data: zip.subarray(dataStart, dataStart + size), crc, modified };
+  });
+};
+
+const zipBytes = async (entries: ZipEntry[]) => new Uint8Array(await createZip(entries).arrayBuffer());
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  it('stores every entry, with its name, checksum and date, where the central directory says', async () => {
+    const audio = Uint8Array.from({ length: 5000 }, (_, i) => (i * 31) & 0xff);
+    const entries = [
+      { name: 'Artist/Song.flac', data: audio, modified: new Date(2024, 4, 17, 13, 45, 30) },
+      { name: 'Artist/Song.lrc', data: new TextEncoder().encode('[00:01.00]歌词') },
+      { name: 'Playlist – 夜.m3u8', data: new Uint8Array(0) },
+    ];
+
+    const read = readZip(await zipBytes(entries));
+    expect(read.map(e => e.name)).toEqual(entries.map(e => e.name));
+    read.forEach((entry, i) => {
+      expect(entry.data).toEqual(entries[i].data);
+      expect(entry.crc).toBe(crc32(entries[i].data));
+    });
+    expect(read[0].modified).toEqual({ time: (13 << 11) | (45 << 5) | 15, date: (44 << 9) | (5 << 5) | 17 });
+  });
+
+  it('writes an empty archive', async () => {
+    expect(readZip(await zipBytes([]))).toEqual([]);
+  });
+
+  it('refuses archives a zip without ZIP64 cannot hold instead of wrapping the sizes', () => {
+    // Only the length is looked at before the archive is refused
+    const huge = { length: 0xffffffff } as Uint8Array;
+    expect(() => createZip([{ name: 'a.flac', data: new Uint8Array(10) }, { name: 'b.flac', data: huge }]))
+      .toThrow('Too large for one zip: the files up to b.flac come to more than 4 GiB');
+    const many = Array.from({ length: 0x10000 }, (_, i) => ({ name: `${i}.lrc`, data: new Uint8Array(0) }));
+    expect(() => createZip(many)).toThrow('Too many files for one zip: 65536, at most 65535');
+  });
+});
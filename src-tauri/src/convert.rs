@@ -0,0 +1,544 @@
+use anyhow::{anyhow, Context, Result};
+use serde::{Deserialize, Serialize};
+use std::cell::Cell;
+use std::fs::{self, File};
+use std::io::{BufWriter, Read, Seek, SeekFrom, Take, Write};
+use std::path::{Component, Path, PathBuf};
+use std::process::{Child, Command, Stdio};
+use std::sync::atomic::{AtomicBool, AtomicU64, Ordering};
+use std::sync::Arc;
+use std::thread;
+use std::time::{Duration, Instant};
+
+use crate::decoder::{self, Decoder};
+use crate::error::{fail, ConversionError, ErrorCode};
+
+/// Bytes decrypted between two checks of the cancellation flag.
+const CHUNK_SIZE: usize = 1 << 20;
+/// Minimum time between two progress events of the same stage.
+const PROGRESS_INTERVAL: Duration = Duration::from_millis(150);
+/// Lines of FFmpeg output kept in the details of a failed transcode.
+const FFMPEG_LOG_LINES: usize = 12;
+const MB: u64 = 1024 * 1024;
+
+#[derive(Debug, Clone, Copy, PartialEq, Deserialize)]
+pub enum OutputFormat {
+    #[serde(rename = "flac")]
+    Flac,
+    #[serde(rename = "original")]
+    Original,
+    #[serde(rename = "mp3_320")]
+    Mp3_320,
+    #[serde(rename = "ogg_vorbis")]
+    OggVorbis,
+    #[serde(rename = "wav")]
+    Wav,
+}
+
+impl OutputFormat {
+    fn extension(self, inner_ext: &'static str) -> &'static str {
+        match self {
+            OutputFormat::Original => inner_ext,
+            OutputFormat::Flac => "flac",
+            OutputFormat::Mp3_320 => "mp3",
+            OutputFormat::OggVorbis => "ogg",
+            OutputFormat::Wav => "wav",
+        }
+    }
+
+    /// Output size over source size, rounded up. Mirrors `outputSizeFactor` in `safety.ts`.
+    fn size_factor(self, inner_ext: &str) -> u64 {
+        match (self, inner_ext) {
+            (OutputFormat::Flac, "flac") => 1,
+            (OutputFormat::Wav, "flac") => 2,
+            (OutputFormat::Flac | OutputFormat::Wav, _) => 5,
+            _ => 1,
+        }
+    }
+
+    fn ffmpeg_args(self) -> &'static [&'static str] {
+        match self {
+            OutputFormat::Flac => &["-c:a", "flac"],
+            OutputFormat::Mp3_320 => &["-c:a", "libmp3lame", "-b:a", "320k"],
+            OutputFormat::OggVorbis => &["-c:a", "libvorbis", "-q:a", "6"],
+            OutputFormat::Wav => &["-c:a", "pcm_s16le"],
+            OutputFormat::Original => &[],
+        }
+    }
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Deserialize)]
+#[serde(rename_all = "lowercase")]
+pub enum OverwritePolicy {
+    Overwrite,
+    Skip,
+    Rename,
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Deserialize)]
+#[serde(rename_all = "lowercase")]
+pub enum SourceAction {
+    Keep,
+    Archive,
+    Trash,
+}
+
+/// Mirrors `ConversionSettings` in `types.ts`.
+#[derive(Debug, Clone, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ConversionSettings {
+    pub output_format: OutputFormat,
+    pub output_directory: Option<String>,
+    pub overwrite_policy: OverwritePolicy,
+}
+
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ConversionOutcome {
+    pub output_path: PathBuf,
+    /// Size in bytes of the output on disk, before the frontend tags it.
+    pub output_size: u64,
+    /// The output already existed and the overwrite policy said to leave it alone.
+    pub skipped: bool,
+    /// The output already existed; the old one went to the trash before the new one took its name.
+    pub replaced: bool,
+}
+
+/// Mirrors `ConversionStage` in `types.ts`; tagging runs in the frontend.
+#[derive(Debug, Clone, Copy, PartialEq, Serialize)]
+#[serde(rename_all = "lowercase")]
+pub enum Stage {
+    Reading,
+    Key,
+    Decrypting,
+    Transcoding,
+}
+
+/// Passes progress on to `emit` as (stage, processed bytes, total bytes).
+/// Stage changes and stage ends always go through; updates in between are
+/// throttled to one per `PROGRESS_INTERVAL`.
+pub struct Progress<'a> {
+    emit: &'a dyn Fn(Stage, u64, u64),
+    last: Cell<Option<(Stage, Instant)>>,
+}
+
+impl<'a> Progress<'a> {
+    pub fn new(emit: &'a dyn Fn(Stage, u64, u64)) -> Self {
+        Progress { emit, last: Cell::new(None) }
+    }
+
+    fn report(&self, stage: Stage, processed: u64, total: u64) {
+        let now = Instant::now();
+        let due = match self.last.get() {
+            Some((last_stage, at)) => last_stage != stage || processed >= total || now - at >= PROGRESS_INTERVAL,
+            None => true,
+        };
+        if due {
+            self.last.set(Some((stage, now)));
+            (self.emit)(stage, processed, total);
+        }
+    }
+}
+
+/// Decrypts `file_path` and writes the output chosen by `settings`.
+/// `output_stem` is the output path relative to the output directory, without
+/// extension, as planned by the frontend's filename template; `None` keeps the source name.
+/// Setting `cancel` stops the conversion at the next checkpoint and removes partial output.
+/// The output only appears under its final name once it is complete, and the
+/// source is never touched: `dispose_source` does that once the frontend has
+/// checked the output.
+pub fn process_file(
+    file_path: &str,
+    output_stem: Option<&str>,
+    settings: &ConversionSettings,
+    cancel: &AtomicBool,
+    progress: &Progress,
+) -> Result<ConversionOutcome> {
+    let path = Path::new(file_path);
+    if !path.exists() {
+        return Err(fail(ErrorCode::NotFound, "File not found"));
+    }
+    if let Some(stem) = output_stem {
+        // Never let a template escape the output directory
+        if stem.is_empty() || !Path::new(stem).components().all(|c| matches!(c, Component::Normal(_))) {
+            return Err(anyhow!("Invalid output name: {}", stem));
+        }
+    }
+
+    // 1. Open the source with the decoder for its format: reads the header and derives the key
+    progress.report(Stage::Reading, 0, fs::metadata(path)?.len());
+    let (mut file, decoder) = decoder::open(path)?;
+    let (audio_offset, audio_length) = decoder.audio_range();
+    progress.report(Stage::Key, audio_offset, audio_offset);
+    if audio_length == 0 {
+        return Err(fail(ErrorCode::TruncatedAudio, "File contains no audio data"));
+    }
+    file.seek(SeekFrom::Start(audio_offset))?;
+    let mut audio = file.take(audio_length);
+
+    // 2. Decrypt the first chunk: it tells FLAC from MP3 before any path is chosen
+    let mut chunk = vec![0u8; CHUNK_SIZE];
+    let first_len = read_chunk(&mut audio, &mut chunk)?;
+    decoder.decrypt(&mut chunk[..first_len], 0);
+    progress.report(Stage::Decrypting, first_len as u64, audio_length);
+    let inner_ext = decoder::sniff_inner_format(&chunk[..first_len]);
+    let target_ext = settings.output_format.extension(inner_ext);
+
+    // 3. Resolve the output path according to the settings
+    let output_dir = match &settings.output_directory {
+        Some(dir) => PathBuf::from(dir),
+        None => path.parent().map(Path::to_path_buf).unwrap_or_default(),
+    };
+    let stem = match output_stem {
+        Some(stem) => stem.to_string(),
+        None => path.file_stem().map(|s| s.to_string_lossy().into_owned()).unwrap_or_default(),
+    };
+    let mut final_path = output_dir.join(format!("{}.{}", stem, target_ext));
+    // The template may place the output in sub-folders
+    let final_dir = final_path.parent().map(Path::to_path_buf).unwrap_or_else(|| output_dir.clone());
+    fs::create_dir_all(&final_dir)
+        .with_context(|| format!("Cannot create output directory {}", final_dir.display()))?;
+
+    let mut replaced = false;
+    if final_path.exists() {
+        match settings.overwrite_policy {
+            OverwritePolicy::Overwrite => replaced = true,
+            OverwritePolicy::Skip => {
+                let output_size = fs::metadata(&final_path)?.len();
+                return Ok(ConversionOutcome { output_path: final_path, output_size, skipped: true, replaced: false });
+            }
+            OverwritePolicy::Rename => final_path = unique_path(&output_dir, &stem, target_ext),
+        }
+    }
+
+    // Refuse before writing anything when the decrypted stream and the output cannot both fit
+    let mut needed = audio_length;
+    if target_ext != inner_ext {
+        needed += audio_length * settings.output_format.size_factor(inner_ext);
+    }
+    if let Ok(available) = fs2::available_space(&final_dir) {
+        if available < needed {
+            return Err(fail(ErrorCode::DiskFull, format!(
+                "Not enough free space in {}: about {} MB needed, {} MB free",
+                final_dir.display(), needed.div_ceil(MB), available / MB,
+            )));
+        }
+    }
+
+    // 4. Stream the decrypted audio into a temporary file next to the output,
+    // so the final rename stays on one filesystem
+    let temp_path = final_path.with_extension(format!("temp.{}", inner_ext));
+    let written = write_decrypted(&temp_path, decoder.as_ref(), &mut audio, &mut chunk, first_len, cancel, progress);
+    if let Err(e) = written {
+        let _ = fs::remove_file(&temp_path);
+        return Err(e);
+    }
+
+    // 5. Passthrough when the decrypted stream already is the target format, FFmpeg otherwise.
+    // Either way the output is complete before it takes its final name, and an
+    // existing output only goes to the trash then, so it can be restored.
+    if target_ext == inner_ext {
+        let moved = trash_replaced(&final_path, replaced).and_then(|_| Ok(fs::rename(&temp_path, &final_path)?));
+        if let Err(e) = moved {
+            let _ = fs::remove_file(&temp_path);
+            return Err(e);
+        }
+    } else {
+        let partial_path = partial_path(&final_path);
+        let child = Command::new("ffmpeg")
+            .args(&["-y", "-i", temp_path.to_str().unwrap(), "-vn"])
+            .args(settings.output_format.ffmpeg_args())
+            .arg(partial_path.to_str().unwrap())
+            .stdout(Stdio::null())
+            .stderr(Stdio::piped())
+            .spawn();
+
+        let result = match child {
+            Ok(mut child) => wait_for_ffmpeg(&mut child, cancel, progress, audio_length),
+            Err(_) => Err(fail(ErrorCode::FfmpegMissing, "FFmpeg not found. Please install FFmpeg and add to PATH.")),
+        };
+
+        // Clean up temp file, and whatever FFmpeg left behind if it did not finish
+        let _ = fs::remove_file(&temp_path);
+        let result = result
+            .and_then(|_| trash_replaced(&final_path, replaced))
+            .and_then(|_| Ok(fs::rename(&partial_path, &final_path)?));
+        if result.is_err() {
+            let _ = fs::remove_file(&partial_path);
+        }
+        result?;
+    }
+
+    // A cancel that arrives now still wins: the caller has already given up on this file
+    if cancel.load(Ordering::Relaxed) {
+        let _ = fs::remove_file(&final_path);
+        return Err(fail(ErrorCode::Cancelled, "Cancelled"));
+    }
+
+    let output_size = fs::metadata(&final_path)?.len();
+    Ok(ConversionOutcome { output_path: final_path, output_size, skipped: false, replaced })
+}
+
+/// Archives or trashes the source of a finished conversion. The frontend only
+/// asks once the output is tagged and verified; this checks again that
+/// `output_path` is on disk and not empty, so a source never goes without it.
+/// An archived source keeps its name unless `archive_path` is taken; the
+/// path it went to is returned so the move can be undone.
+pub fn dispose_source(path: &Path, output_path: &Path, action: SourceAction, archive_path: Option<&Path>) -> Result<Option<PathBuf>> {
+    let output_size = fs::metadata(output_path).map(|m| m.len()).unwrap_or(0);
+    if output_size == 0 {
+        return Err(anyhow!("{} is missing or empty, so {} was kept", output_path.display(), path.display()));
+    }
+    match action {
+        SourceAction::Keep => Ok(None),
+        SourceAction::Archive => {
+            let target = archive_path.ok_or_else(|| anyhow!("No archive folder is set"))?;
+            let target = if target.exists() {
+                let stem = target.file_stem().map(|s| s.to_string_lossy().into_owned()).unwrap_or_default();
+                let ext = target.extension().map(|s| s.to_string_lossy().into_owned()).unwrap_or_default();
+                unique_path(target.parent().unwrap_or(Path::new("")), &stem, &ext)
+            } else {
+                target.to_path_buf()
+            };
+            move_file(path, &target)?;
+            Ok(Some(target))
+        }
+        SourceAction::Trash => {
+            trash::delete(path).with_context(|| format!("Could not move {} to the trash", path.display()))?;
+            Ok(None)
+        }
+    }
+}
+
+/// Writes `data` to `path` through a partial file next to it, so a reader
+/// never sees half of it and a failed write leaves any previous file intact.
+pub fn write_atomically(path: &Path, data: &[u8]) -> Result<()> {
+    let partial_path = partial_path(path);
+    let written = File::create(&partial_path)
+        .and_then(|mut file| file.write_all(data).and_then(|_| file.sync_all()))
+        .and_then(|_| fs::rename(&partial_path, path));
+    if let Err(e) = written {
+        let _ = fs::remove_file(&partial_path);
+        return Err(e).with_context(|| format!("Could not write {}", path.display()));
+    }
+    Ok(())
+}
+
+/// Free bytes on the volume of each of `paths`, measured at the nearest
+/// folder that exists since outputs may go to folders not made yet. `None`
+/// where it cannot be told.
+pub fn free_space(paths: &[String]) -> Vec<Option<u64>> {
+    paths
+        .iter()
+        .map(|path| {
+            let existing = Path::new(path).ancestors().find(|dir| dir.exists())?;
+            fs2::available_space(existing).ok()
+        })
+        .collect()
+}
+
+/// Decrypts `file_path` into `preview_dir` so it can be listened to before it
+/// is converted, and returns the path of the decrypted stream. Nothing is
+/// tagged or transcoded; the caller removes the file when done.
+pub fn decrypt_preview(file_path: &str, preview_dir: &Path) -> Result<PathBuf> {
+    let path = Path::new(file_path);
+    if !path.exists() {
+        return Err(fail(ErrorCode::NotFound, "File not found"));
+    }
+    let (mut file, decoder) = decoder::open(path)?;
+    let (audio_offset, audio_length) = decoder.audio_range();
+    if audio_length == 0 {
+        return Err(fail(ErrorCode::TruncatedAudio, "File contains no audio data"));
+    }
+    file.seek(SeekFrom::Start(audio_offset))?;
+    let mut audio = file.take(audio_length);
+
+    let mut chunk = vec![0u8; CHUNK_SIZE];
+    let first_len = read_chunk(&mut audio, &mut chunk)?;
+    decoder.decrypt(&mut chunk[..first_len], 0);
+    let inner_ext = decoder::sniff_inner_format(&chunk[..first_len]);
+
+    fs::create_dir_all(preview_dir)?;
+    let stem = path.file_stem().map(|s| s.to_string_lossy().into_owned()).unwrap_or_default();
+    let preview_path = unique_path(preview_dir, &stem, inner_ext);
+    let never = AtomicBool::new(false);
+    let written = write_decrypted(&preview_path, decoder.as_ref(), &mut audio, &mut chunk, first_len, &never, &Progress::new(&|_, _, _| {}));
+    if let Err(e) = written {
+        let _ = fs::remove_file(&preview_path);
+        return Err(e);
+    }
+    Ok(preview_path)
+}
+
+/// Moves an output into another folder, creating it first. An existing file
+/// at `to` is never replaced. Between drives, where a rename cannot work,
+/// the file is copied and the original removed once the copy is complete.
+pub fn move_file(from: &Path, to: &Path) -> Result<()> {
+    if to.exists() {
+        return Err(anyhow!("{} already exists", to.display()));
+    }
+    if let Some(parent) = to.parent() {
+        fs::create_dir_all(parent).with_context(|| format!("Could not create {}", parent.display()))?;
+    }
+    if fs::rename(from, to).is_ok() {
+        return Ok(());
+    }
+    if let Err(e) = fs::copy(from, to) {
+        let _ = fs::remove_file(to);
+        return Err(e).with_context(|| format!("Could not move {} to {}", from.display(), to.display()));
+    }
+    fs::remove_file(from).with_context(|| format!("Copied to {}, but could not remove {}", to.display(), from.display()))
+}
+
+/// Fills `buffer` as far as the reader allows, returning the number of bytes read.
+fn read_chunk(reader: &mut impl Read, buffer: &mut [u8]) -> Result<usize> {
+    let mut filled = 0;
+    while filled < buffer.len() {
+        let n = reader.read(&mut buffer[filled..])?;
+        if n == 0 {
+            break;
+        }
+        filled += n;
+    }
+    Ok(filled)
+}
+
+/// Writes the already decrypted first chunk, then decrypts and writes the rest of `audio`.
+fn write_decrypted(
+    temp_path: &Path,
+    decoder: &dyn Decoder,
+    audio: &mut Take<File>,
+    chunk: &mut [u8],
+    first_len: usize,
+    cancel: &AtomicBool,
+    progress: &Progress,
+) -> Result<()> {
+    let mut out = BufWriter::new(File::create(temp_path)?);
+    out.write_all(&chunk[..first_len])?;
+    let mut position = first_len as u64;
+    let total = position + audio.limit();
+    loop {
+        check_cancelled(cancel)?;
+        let n = read_chunk(audio, chunk)?;
+        if n == 0 {
+            break;
+        }
+        decoder.decrypt(&mut chunk[..n], position);
+        out.write_all(&chunk[..n])?;
+        position += n as u64;
+        progress.report(Stage::Decrypting, position, total);
+    }
+    out.flush()?;
+    Ok(())
+}
+
+fn check_cancelled(cancel: &AtomicBool) -> Result<()> {
+    if cancel.load(Ordering::Relaxed) {
+        return Err(fail(ErrorCode::Cancelled, "Cancelled"));
+    }
+    Ok(())
+}
+
+/// Waits for FFmpeg to exit, killing it if the conversion gets cancelled.
+/// Transcoding progress is FFmpeg's position in the stream against the input
+/// duration, both read from its stats output, scaled to the `total` input bytes.
+fn wait_for_ffmpeg(child: &mut Child, cancel: &AtomicBool, progress: &Progress, total: u64) -> Result<()> {
+    let duration_ms = Arc::new(AtomicU64::new(0));
+    let position_ms = Arc::new(AtomicU64::new(0));
+
+    // Drain stderr on its own thread so a chatty FFmpeg never blocks on a full pipe
+    let stderr = child.stderr.take();
+    let (duration, position) = (duration_ms.clone(), position_ms.clone());
+    let log = thread::spawn(move || {
+        let mut log = Vec::new();
+        let Some(mut stderr) = stderr else { return String::new() };
+        let mut buffer = [0u8; 4096];
+        let mut line_start = 0;
+        while let Ok(n) = stderr.read(&mut buffer) {
+            if n == 0 {
+                break;
+            }
+            log.extend_from_slice(&buffer[..n]);
+            // Stats lines end in '\r', everything else in '\n'
+            while let Some(end) = log[line_start..].iter().position(|&b| b == b'\r' || b == b'\n') {
+                let line = String::from_utf8_lossy(&log[line_start..line_start + end]);
+                if let Some(ms) = ffmpeg_timestamp(&line, "Duration: ") {
+                    duration.store(ms, Ordering::Relaxed);
+                } else if let Some(ms) = ffmpeg_timestamp(&line, "time=") {
+                    position.store(ms, Ordering::Relaxed);
+                }
+                line_start += end + 1;
+            }
+        }
+        String::from_utf8_lossy(&log).into_owned()
+    });
+
+    progress.report(Stage::Transcoding, 0, total);
+    loop {
+        if let Some(status) = child.try_wait()? {
+            let log = log.join().unwrap_or_default();
+            if !status.success() {
+                let error = ConversionError::new(ErrorCode::FfmpegFailed, format!("FFmpeg conversion failed ({})", status))
+                    .detail("exitStatus", status.code().map_or_else(|| "killed".to_string(), |code| code.to_string()))
+                    .detail("log", log_tail(&log, FFMPEG_LOG_LINES));
+                return Err(error.into());
+            }
+            progress.report(Stage::Transcoding, total, total);
+            return Ok(());
+        }
+        if cancel.load(Ordering::Relaxed) {
+            let _ = child.kill();
+            let _ = child.wait();
+            return Err(fail(ErrorCode::Cancelled, "Cancelled"));
+        }
+        let duration = duration_ms.load(Ordering::Relaxed);
+        if duration > 0 {
+            let fraction = (position_ms.load(Ordering::Relaxed) as f64 / duration as f64).min(1.0);
+            // Only the end of the stage is always reported; stay short of it until FFmpeg exits
+            progress.report(Stage::Transcoding, ((total as f64 * fraction) as u64).min(total.saturating_sub(1)), total);
+        }
+        thread::sleep(Duration::from_millis(100));
+    }
+}
+
+/// Reads the "HH:MM:SS.ss" that follows `key` in an FFmpeg log line, in milliseconds.
+fn ffmpeg_timestamp(line: &str, key: &str) -> Option<u64> {
+    let start = line.find(key)? + key.len();
+    let mut parts = line[start..].split(|c: char| c == ',' || c == ' ').next()?.split(':');
+    let hours: u64 = parts.next()?.parse().ok()?;
+    let minutes: u64 = parts.next()?.parse().ok()?;
+    let seconds: f64 = parts.next()?.parse().ok()?;
+    Some((hours * 3600 + minutes * 60) * 1000 + (seconds * 1000.0) as u64)
+}
+
+/// The last `count` non-empty lines of FFmpeg's output, stats lines included.
+fn log_tail(log: &str, count: usize) -> String {
+    let lines: Vec<&str> = log.split(|c| c == '\r' || c == '\n').map(str::trim_end).filter(|line| !line.is_empty()).collect();
+    lines[lines.len().saturating_sub(count)..].join("\n")
+}
+
+/// Moves the output a conversion replaces to the trash, so overwriting can be undone.
+fn trash_replaced(path: &Path, replaced: bool) -> Result<()> {
+    if replaced && path.exists() {
+        trash::delete(path).map_err(|e| fail(ErrorCode::WriteDenied, format!(
+            "Could not move the existing {} to the trash: {}", path.display(), e,
+        )))?;
+    }
+    Ok(())
+}
+
+/// "Song.partial.flac" for "Song.flac": the extension stays last, so FFmpeg still picks the format from it.
+fn partial_path(path: &Path) -> PathBuf {
+    match path.extension() {
+        Some(ext) => path.with_extension(format!("partial.{}", ext.to_string_lossy())),
+        None => path.with_extension("partial"),
+    }
+}
+
+/// "Song (1).flac", "Song (2).flac", ... for the first name not taken yet.
+fn unique_path(dir: &Path, stem: &str, ext: &str) -> PathBuf {
+    (1..)
+        .map(|n| dir.join(format!("{} ({}).{}", stem, n, ext)))
+        .find(|candidate| !candidate.exists())
+        .unwrap()
+}
@@ -0,0 +1,82 @@
+use anyhow::Result;
+use std::fs::File;
+use std::io::{Read, Seek, SeekFrom};
+use std::path::Path;
+
+use crate::error::{fail, ErrorCode};
+use crate::{kgm, kwm, ncm, qmc};
+
+/// An opened encrypted file: where its audio lies and how to decrypt it.
+/// Mirrors `DecryptSession` in `decoders.ts`.
+pub trait Decoder {
+    /// Offset of the encrypted audio in the file, and its length.
+    fn audio_range(&self) -> (u64, u64);
+
+    /// Decrypts `data` in place. `position` is the offset of `data[0]` from the
+    /// start of the audio, so the audio can be processed in chunks.
+    fn decrypt(&self, data: &mut [u8], position: u64);
+}
+
+/// One supported download format.
+pub struct Format {
+    pub name: &'static str,
+    /// Lower case, without the dot.
+    pub extensions: &'static [&'static str],
+    /// Recognises the format from the first `MAGIC_LENGTH` bytes; `None` for formats without a magic (QMC).
+    pub matches_magic: Option<fn(&[u8]) -> bool>,
+    /// Reads whatever the cipher needs from `file` (`size` bytes long, named with `extension`).
+    pub open: fn(file: &mut File, size: u64, extension: &str) -> Result<Box<dyn Decoder>>,
+}
+
+static FORMATS: [Format; 4] = [ncm::FORMAT, qmc::FORMAT, kgm::FORMAT, kwm::FORMAT];
+
+pub const MAGIC_LENGTH: usize = 16;
+
+fn extension_of(path: &Path) -> String {
+    path.extension().map(|ext| ext.to_string_lossy().to_lowercase()).unwrap_or_default()
+}
+
+/// Whether `path` has the extension of a format we can decrypt.
+pub fn is_supported(path: &Path) -> bool {
+    let extension = extension_of(path);
+    FORMATS.iter().any(|format| format.extensions.contains(&extension.as_str()))
+}
+
+/// Opens `path` with the decoder its magic bytes point to, falling back to its
+/// extension for formats without a magic.
+pub fn open(path: &Path) -> Result<(File, Box<dyn Decoder>)> {
+    let mut file = File::open(path)?;
+    let size = file.metadata()?.len();
+    let mut head = vec![0u8; MAGIC_LENGTH.min(size as usize)];
+    file.read_exact(&mut head)?;
+
+    let extension = extension_of(path);
+    let format = match FORMATS.iter().find(|format| format.matches_magic.map_or(false, |matches| matches(&head))) {
+        Some(format) => format,
+        None => {
+            let format = FORMATS
+                .iter()
+                .find(|format| format.extensions.contains(&extension.as_str()))
+                .ok_or_else(|| fail(ErrorCode::UnsupportedFormat, format!("Unsupported file type: {}", path.display())))?;
+            if format.matches_magic.is_some() {
+                return Err(fail(ErrorCode::BadMagic, format!("Invalid {} file format", format.name)));
+            }
+            format
+        }
+    };
+    let decoder = (format.open)(&mut file, size, &extension)?;
+    Ok((file, decoder))
+}
+
+/// Reads `length` bytes at `offset`, failing on a short file.
+pub fn read_at(file: &mut File, offset: u64, length: usize) -> Result<Vec<u8>> {
+    let mut buffer = vec![0u8; length];
+    file.seek(SeekFrom::Start(offset))?;
+    file.read_exact(&mut buffer).map_err(|_| fail(ErrorCode::TruncatedAudio, "Unexpected end of file"))?;
+    Ok(buffer)
+}
+
+/// Tells FLAC from MP3 by the first decrypted bytes.
+pub fn sniff_inner_format(audio: &[u8]) -> &'static str {
+    if audio.starts_with(b"fLaC") { "flac" } else { "mp3" }
+}
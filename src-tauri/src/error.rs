@@ -0,0 +1,85 @@
+use serde::Serialize;
+use std::collections::BTreeMap;
+use std::fmt;
+use std::io;
+
+/// Why a conversion failed. Mirrors `ConversionErrorCode` in `types.ts`;
+/// the codes only the frontend produces are left out.
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize)]
+#[serde(rename_all = "SCREAMING_SNAKE_CASE")]
+pub enum ErrorCode {
+    NotFound,
+    UnsupportedFormat,
+    BadMagic,
+    KeyDecryptFailed,
+    TruncatedAudio,
+    FfmpegMissing,
+    FfmpegFailed,
+    WriteDenied,
+    DiskFull,
+    Cancelled,
+    Unknown,
+}
+
+/// What `convert_file` rejects with. Mirrors `ConversionError` in `types.ts`.
+#[derive(Debug, Clone, Serialize)]
+pub struct ConversionError {
+    pub code: ErrorCode,
+    pub message: String,
+    pub details: BTreeMap<String, String>,
+}
+
+impl ConversionError {
+    pub fn new(code: ErrorCode, message: impl Into<String>) -> Self {
+        Self { code, message: message.into(), details: BTreeMap::new() }
+    }
+
+    pub fn detail(mut self, key: &str, value: impl Into<String>) -> Self {
+        self.details.insert(key.to_string(), value.into());
+        self
+    }
+}
+
+impl fmt::Display for ConversionError {
+    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {
+        f.write_str(&self.message)
+    }
+}
+
+impl std::error::Error for ConversionError {}
+
+/// An `anyhow::Error` carrying `code`, for the failures whose cause is known where they happen.
+pub fn fail(code: ErrorCode, message: impl Into<String>) -> anyhow::Error {
+    ConversionError::new(code, message).into()
+}
+
+#[cfg(windows)]
+const DISK_FULL: i32 = 112; // ERROR_DISK_FULL
+#[cfg(not(windows))]
+const DISK_FULL: i32 = 28; // ENOSPC
+
+/// Finds the cause of `error`: a code attached with `fail`, otherwise the
+/// I/O error somewhere in its chain. The message keeps every added context.
+pub fn classify(error: &anyhow::Error) -> ConversionError {
+    let message = format!("{:#}", error);
+    if let Some(tagged) = error.chain().find_map(|cause| cause.downcast_ref::<ConversionError>()) {
+        return ConversionError { message, ..tagged.clone() };
+    }
+    let code = error
+        .chain()
+        .find_map(|cause| cause.downcast_ref::<io::Error>())
+        .map_or(ErrorCode::Unknown, io_code);
+    ConversionError::new(code, message)
+}
+
+fn io_code(error: &io::Error) -> ErrorCode {
+    if error.raw_os_error() == Some(DISK_FULL) {
+        return ErrorCode::DiskFull;
+    }
+    match error.kind() {
+        io::ErrorKind::NotFound => ErrorCode::NotFound,
+        io::ErrorKind::PermissionDenied => ErrorCode::WriteDenied,
+        io::ErrorKind::UnexpectedEof => ErrorCode::TruncatedAudio,
+        _ => ErrorCode::Unknown,
+    }
+}
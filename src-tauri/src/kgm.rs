@@ -0,0 +1,100 @@
+use anyhow::Result;
+use md5::{Digest, Md5};
+use std::fs::File;
+
+use crate::decoder::{read_at, Decoder, Format};
+use crate::error::{fail, ErrorCode};
+
+/// Kugou (.kgm, .kgma, .vpr). See `kgm.ts` for the header layout and cipher.
+pub const FORMAT: Format = Format {
+    name: "KGM",
+    extensions: &["kgm", "kgma", "vpr"],
+    matches_magic: Some(is_kgm),
+    open,
+};
+
+const KGM_MAGIC: [u8; 16] = [0x7c, 0xd5, 0x32, 0xeb, 0x86, 0x02, 0x7f, 0x4b, 0xa8, 0xaf, 0xa6, 0x8e, 0x0f, 0xff, 0x99, 0x14];
+const VPR_MAGIC: [u8; 16] = [0x05, 0x28, 0xbc, 0x96, 0xe9, 0xe4, 0x5a, 0x43, 0x91, 0xaa, 0xbd, 0xd0, 0x7a, 0xf5, 0x36, 0x31];
+const VPR_MASK: [u8; 17] = [0x25, 0xdf, 0xe8, 0xa6, 0x75, 0x1e, 0x75, 0x0e, 0x2f, 0x80, 0xf3, 0x2d, 0xb8, 0xb6, 0xe3, 0x11, 0x00];
+const HEADER_LENGTH: usize = 0x3c;
+const FILE_KEY_OFFSET: usize = 0x2c;
+const SUPPORTED_VERSION: u32 = 3;
+
+fn slot_key(slot: u32) -> Option<&'static [u8]> {
+    match slot {
+        1 => Some(&[0x6c, 0x2c, 0x2f, 0x27]),
+        _ => None,
+    }
+}
+
+struct KgmDecoder {
+    slot_box: [u8; 16],
+    file_box: [u8; 17],
+    is_vpr: bool,
+    audio_offset: u64,
+    audio_length: u64,
+}
+
+fn is_kgm(head: &[u8]) -> bool {
+    head.starts_with(&KGM_MAGIC) || head.starts_with(&VPR_MAGIC)
+}
+
+/// MD5 with its 16-bit words in reverse order, as Kugou uses it.
+fn kugou_md5(data: &[u8]) -> [u8; 16] {
+    let digest = Md5::digest(data);
+    let mut out = [0u8; 16];
+    for i in (0..16).step_by(2) {
+        out[i] = digest[14 - i];
+        out[i + 1] = digest[15 - i];
+    }
+    out
+}
+
+fn read_u32(header: &[u8], offset: usize) -> u32 {
+    u32::from_le_bytes([header[offset], header[offset + 1], header[offset + 2], header[offset + 3]])
+}
+
+fn open(file: &mut File, size: u64, _extension: &str) -> Result<Box<dyn Decoder>> {
+    let header = read_at(file, 0, HEADER_LENGTH)?;
+    let audio_offset = read_u32(&header, 0x10) as u64;
+    let version = read_u32(&header, 0x14);
+    if version != SUPPORTED_VERSION {
+        return Err(fail(ErrorCode::UnsupportedFormat, format!("KGM encryption version {} is not supported", version)));
+    }
+    let slot = read_u32(&header, 0x18);
+    let slot_key = slot_key(slot).ok_or_else(|| fail(ErrorCode::UnsupportedFormat, format!("Unknown KGM key slot {}", slot)))?;
+    if audio_offset > size {
+        return Err(fail(ErrorCode::TruncatedAudio, "Unexpected end of KGM file"));
+    }
+
+    let mut file_box = [0u8; 17];
+    file_box[..16].copy_from_slice(&kugou_md5(&header[FILE_KEY_OFFSET..FILE_KEY_OFFSET + 16]));
+    file_box[16] = 0x6b;
+    Ok(Box::new(KgmDecoder {
+        slot_box: kugou_md5(slot_key),
+        file_box,
+        is_vpr: header.starts_with(&VPR_MAGIC),
+        audio_offset,
+        audio_length: size - audio_offset,
+    }))
+}
+
+impl Decoder for KgmDecoder {
+    fn audio_range(&self) -> (u64, u64) {
+        (self.audio_offset, self.audio_length)
+    }
+
+    fn decrypt(&self, data: &mut [u8], position: u64) {
+        for (i, byte) in data.iter_mut().enumerate() {
+            let offset = position + i as u64;
+            let mut value = *byte ^ self.file_box[(offset % 17) as usize];
+            value ^= value << 4;
+            value ^= self.slot_box[(offset % 16) as usize];
+            value ^= (offset as u32).to_le_bytes().iter().fold(0, |acc, b| acc ^ b);
+            if self.is_vpr {
+                value ^= VPR_MASK[(offset % 17) as usize];
+            }
+            *byte = value;
+        }
+    }
+}
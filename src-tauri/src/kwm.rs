@@ -0,0 +1,63 @@
+use anyhow::Result;
+use std::fs::File;
+
+use crate::decoder::{read_at, Decoder, Format};
+use crate::error::{fail, ErrorCode};
+
+/// Kuwo (.kwm). See `kwm.ts` for the header layout and cipher.
+pub const FORMAT: Format = Format {
+    name: "KWM",
+    extensions: &["kwm"],
+    matches_magic: Some(is_kwm),
+    open,
+};
+
+const MAGICS: [&[u8]; 2] = [b"yeelion-kuwo-tme", b"yeelion-kuwo\0\0\0\0"];
+const PRESET_KEY: &[u8; 32] = b"MoOtOiTvINGwd2E6n0E1i7L5t2IoOoNk";
+const HEADER_LENGTH: usize = 0x400;
+const CLIENT_KEY_VERSION: u32 = 2;
+
+struct KwmDecoder {
+    mask: [u8; 32],
+    audio_length: u64,
+}
+
+fn is_kwm(head: &[u8]) -> bool {
+    MAGICS.iter().any(|magic| head.starts_with(magic))
+}
+
+/// The 32-byte version 1 mask: the preset key XORed with the decimal resource id, repeated.
+fn mask_for(resource_id: u64) -> [u8; 32] {
+    let digits = resource_id.to_string().into_bytes();
+    let mut mask = [0u8; 32];
+    for (i, byte) in mask.iter_mut().enumerate() {
+        *byte = PRESET_KEY[i] ^ digits[i % digits.len()];
+    }
+    mask
+}
+
+fn open(file: &mut File, size: u64, _extension: &str) -> Result<Box<dyn Decoder>> {
+    let header = read_at(file, 0, HEADER_LENGTH)?;
+    let version = u32::from_le_bytes([header[0x10], header[0x11], header[0x12], header[0x13]]);
+    if version == CLIENT_KEY_VERSION {
+        return Err(fail(ErrorCode::UnsupportedFormat, "This KWM file needs a key from the Kuwo client"));
+    }
+    let mut id = [0u8; 8];
+    id.copy_from_slice(&header[0x18..0x20]);
+    Ok(Box::new(KwmDecoder {
+        mask: mask_for(u64::from_le_bytes(id)),
+        audio_length: size - HEADER_LENGTH as u64,
+    }))
+}
+
+impl Decoder for KwmDecoder {
+    fn audio_range(&self) -> (u64, u64) {
+        (HEADER_LENGTH as u64, self.audio_length)
+    }
+
+    fn decrypt(&self, data: &mut [u8], position: u64) {
+        for (i, byte) in data.iter_mut().enumerate() {
+            *byte ^= self.mask[((position + i as u64) & 0x1f) as usize];
+        }
+    }
+}
@@ -1,54 +1,221 @@
 // Prevents additional console window on Windows in release, DO NOT REMOVE!!
 #![cfg_attr(not(debug_assertions), windows_subsystem = "windows")]
 
+mod convert;
+mod decoder;
+mod error;
+mod kgm;
+mod kwm;
 mod ncm;
+mod qmc;
 mod watcher;
 
 use tauri::{Emitter, Manager, State};
-use std::sync::Mutex;
-use std::path::Path;
+use tauri::ipc::{InvokeBody, Request, Response};
+use percent_encoding::percent_decode_str;
+use std::fs::{self, File};
+use std::io::{Read, Seek, SeekFrom};
+use std::collections::HashMap;
+use std::sync::atomic::{AtomicBool, Ordering};
+use std::sync::{Arc, Mutex};
+use std::path::{Path, PathBuf};
+use error::{ConversionError, ErrorCode};
 use watcher::FolderWatcher;
 
 struct AppState {
     watcher: Mutex<Option<FolderWatcher>>,
+    /// Cancellation flags of the conversions in flight, by file id.
+    conversions: Mutex<HashMap<String, Arc<AtomicBool>>>,
 }
 
 #[tauri::command]
-async fn convert_ncm_file(app: tauri::AppHandle, id: String, file_path: String) -> Result<(), String> {
-    // Notify Frontend: Processing started
-    let _ = app.emit("app:conversion-progress", serde_json::json!({
-        "id": id,
-        "progress": 0,
-        "status": "processing"
-    }));
+async fn convert_file(
+    app: tauri::AppHandle,
+    state: State<'_, AppState>,
+    id: String,
+    file_path: String,
+    output_stem: Option<String>,
+    settings: convert::ConversionSettings,
+) -> Result<convert::ConversionOutcome, ConversionError> {
+    // Perform the heavy lifting. Completion is reported through the command result:
+    // the frontend still has to tag the output before the file is done.
+    // Decryption and FFmpeg block; keep them off the async runtime so the
+    // frontend queue can run several conversions in parallel.
+    let cancel = Arc::new(AtomicBool::new(false));
+    state.conversions.lock()
+        .map_err(|e| ConversionError::new(ErrorCode::Unknown, e.to_string()))?
+        .insert(id.clone(), cancel.clone());
 
-    // Perform the heavy lifting
-    let result = ncm::process_ncm(&file_path);
-
-    match result {
-        Ok(_) => {
-            let _ = app.emit("app:conversion-progress", serde_json::json!({
-                "id": id,
-                "progress": 100,
-                "status": "completed"
+    let path = file_path.clone();
+    let flag = cancel.clone();
+    let progress_app = app.clone();
+    let progress_id = id.clone();
+    let result = tauri::async_runtime::spawn_blocking(move || {
+        // Mirrors `ProgressEventPayload` in `types.ts`
+        let emit = |stage: convert::Stage, processed: u64, total: u64| {
+            let _ = progress_app.emit("app:conversion-progress", serde_json::json!({
+                "id": progress_id,
+                "stage": stage,
+                "processedBytes": processed,
+                "totalBytes": total
             }));
-            Ok(())
+        };
+        convert::process_file(&path, output_stem.as_deref(), &settings, &flag, &convert::Progress::new(&emit))
+    })
+        .await
+        .map_err(|e| ConversionError::new(ErrorCode::Unknown, e.to_string()));
+
+    if let Ok(mut conversions) = state.conversions.lock() {
+        // A retry may already have registered a new flag under the same id
+        if conversions.get(&id).map_or(false, |current| Arc::ptr_eq(current, &cancel)) {
+            conversions.remove(&id);
         }
+    }
+    let result = result?;
+
+    match result {
+        Ok(outcome) => Ok(outcome),
         Err(e) => {
-            eprintln!("Error converting {}: {}", file_path, e);
-            let _ = app.emit("app:conversion-progress", serde_json::json!({
-                "id": id,
-                "progress": 0,
-                "status": "error",
-                "message": e.to_string()
-            }));
-            Err(e.to_string())
+            eprintln!("Error converting {}: {:#}", file_path, e);
+            // Rejects with `ConversionError` in `types.ts`
+            Err(error::classify(&e))
         }
     }
 }
 
+/// Asks a running `convert_file` to stop. Unknown ids (already finished) are ignored.
+#[tauri::command]
+async fn cancel_conversion(state: State<'_, AppState>, id: String) -> Result<(), String> {
+    let conversions = state.conversions.lock().map_err(|e| e.to_string())?;
+    if let Some(cancel) = conversions.get(&id) {
+        cancel.store(true, Ordering::Relaxed);
+    }
+    Ok(())
+}
+
+/// Where decrypted sources wait while they are being listened to.
+fn preview_dir() -> PathBuf {
+    std::env::temp_dir().join("sonictransmute-preview")
+}
+
+/// Decrypts a source for the preview player, which streams it through the
+/// asset protocol. Returns the path of the decrypted file.
 #[tauri::command]
-async fn start_folder_watcher(app: tauri::AppHandle, state: State<'_, AppState>, path: String) -> Result<(), String> {
+async fn decrypt_preview(file_path: String) -> Result<String, ConversionError> {
+    let result = tauri::async_runtime::spawn_blocking(move || convert::decrypt_preview(&file_path, &preview_dir()))
+        .await
+        .map_err(|e| ConversionError::new(ErrorCode::Unknown, e.to_string()))?;
+    match result {
+        Ok(path) => Ok(path.to_string_lossy().into_owned()),
+        Err(e) => Err(error::classify(&e)),
+    }
+}
+
+/// Deletes a file made by `decrypt_preview`. Paths outside the preview folder are refused.
+#[tauri::command]
+async fn remove_preview(path: String) -> Result<(), String> {
+    let path = Path::new(&path);
+    if path.parent() != Some(preview_dir().as_path()) {
+        return Err(format!("Not a preview: {}", path.display()));
+    }
+    fs::remove_file(path).map_err(|e| e.to_string())
+}
+
+/// Reads a whole file, or `length` bytes from `offset`, as a raw binary response.
+#[tauri::command]
+async fn read_file(path: String, offset: Option<u64>, length: Option<u64>) -> Result<Response, String> {
+    let mut file = File::open(&path).map_err(|e| e.to_string())?;
+    let mut buffer = Vec::new();
+    if let Some(offset) = offset {
+        file.seek(SeekFrom::Start(offset)).map_err(|e| e.to_string())?;
+    }
+    match length {
+        Some(length) => file.take(length).read_to_end(&mut buffer),
+        None => file.read_to_end(&mut buffer),
+    }
+    .map_err(|e| e.to_string())?;
+    Ok(Response::new(buffer))
+}
+
+/// Writes the raw request body to the percent-encoded path in the `x-path` header.
+#[tauri::command]
+async fn write_file(request: Request<'_>) -> Result<(), String> {
+    let InvokeBody::Raw(data) = request.body() else {
+        return Err("Expected a raw binary body".into());
+    };
+    let encoded = request
+        .headers()
+        .get("x-path")
+        .and_then(|value| value.to_str().ok())
+        .ok_or("Missing x-path header")?;
+    let path = percent_decode_str(encoded).decode_utf8().map_err(|e| e.to_string())?;
+    convert::write_atomically(Path::new(path.as_ref()), data).map_err(|e| format!("{:#}", e))
+}
+
+/// Whether each of `paths` exists, so recorded outputs can be checked in one round trip.
+#[tauri::command]
+async fn paths_exist(paths: Vec<String>) -> Vec<bool> {
+    paths.iter().map(|path| Path::new(path).exists()).collect()
+}
+
+/// Moves an output, for organising a finished batch into Artist/Album folders.
+#[tauri::command]
+async fn move_file(from: String, to: String) -> Result<(), String> {
+    tauri::async_runtime::spawn_blocking(move || convert::move_file(Path::new(&from), Path::new(&to)))
+        .await
+        .map_err(|e| e.to_string())?
+        .map_err(|e| format!("{:#}", e))
+}
+
+/// Archives or trashes the source of a finished conversion, or a library copy it replaces;
+/// returns where an archived source went.
+#[tauri::command]
+async fn dispose_source(
+    path: String,
+    output_path: String,
+    action: convert::SourceAction,
+    archive_path: Option<String>,
+) -> Result<Option<String>, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        convert::dispose_source(Path::new(&path), Path::new(&output_path), action, archive_path.as_deref().map(Path::new))
+    })
+        .await
+        .map_err(|e| e.to_string())?
+        .map(|archived| archived.map(|path| path.to_string_lossy().into_owned()))
+        .map_err(|e| format!("{:#}", e))
+}
+
+/// Free bytes where each of `paths` is or would go, for the check before a batch starts.
+#[tauri::command]
+async fn free_space(paths: Vec<String>) -> Vec<Option<u64>> {
+    convert::free_space(&paths)
+}
+
+/// Expands dropped files and folders into the supported files inside them.
+#[tauri::command]
+async fn scan_paths(paths: Vec<String>) -> Vec<watcher::DetectedFile> {
+    watcher::scan(&paths)
+}
+
+/// Lists the `.lrc` sidecars in the folders of queued sources.
+#[tauri::command]
+async fn list_lyrics(folders: Vec<String>) -> Vec<watcher::LyricsFile> {
+    watcher::list_lyrics(&folders)
+}
+
+/// Lists the FLAC and MP3 files already in the output folders, for duplicate detection.
+#[tauri::command]
+async fn list_outputs(folders: Vec<String>, recursive: bool) -> Vec<watcher::LibraryFile> {
+    watcher::list_outputs(&folders, recursive)
+}
+
+#[tauri::command]
+async fn start_folder_watcher(
+    app: tauri::AppHandle,
+    state: State<'_, AppState>,
+    path: String,
+    recursive: bool,
+) -> Result<(), String> {
     let mut watcher_guard = state.watcher.lock().map_err(|e| e.to_string())?;
     
     // Stop existing watcher if any
@@ -57,14 +224,9 @@ async fn start_folder_watcher(app: tauri::AppHandle, state: State<'_, AppState>,
     }
 
     let app_handle = app.clone();
-    let new_watcher = FolderWatcher::new(path, move |file_path| {
-        // When a new .ncm file is detected, notify frontend to add it to queue
-        // The frontend 'isWatching' logic will then trigger conversion automatically
-        // Alternatively, we can just emit an event saying "File Added"
-        println!("New file detected: {:?}", file_path);
-        // We emit a custom event that Frontend listens to
-        // Note: For simplicity in this demo, the frontend polls/scans or user re-adds. 
-        // But to fully automate, the frontend needs to listen to "app:file-detected"
+    let new_watcher = FolderWatcher::new(path, recursive, move |file| {
+        // The frontend queues the file; its queue stays running in watch mode
+        let _ = app_handle.emit("app:file-detected", file);
     }).map_err(|e| e.to_string())?;
 
     *watcher_guard = Some(new_watcher);
@@ -79,11 +241,29 @@ async fn stop_folder_watcher(state: State<'_, AppState>) -> Result<(), String> {
 }
 
 fn main() {
+    // Previews left behind when the app was last closed mid-listen
+    let _ = fs::remove_dir_all(preview_dir());
+
     tauri::Builder::default()
         .plugin(tauri_plugin_shell::init())
-        .manage(AppState { watcher: Mutex::new(None) })
+        .manage(AppState {
+            watcher: Mutex::new(None),
+            conversions: Mutex::new(HashMap::new()),
+        })
         .invoke_handler(tauri::generate_handler![
-            convert_ncm_file, 
+            convert_file, 
+            cancel_conversion,
+            read_file,
+            write_file,
+            paths_exist,
+            move_file,
+            dispose_source,
+            free_space,
+            scan_paths,
+            list_lyrics,
+            list_outputs,
+            decrypt_preview,
+            remove_preview,
             start_folder_watcher, 
             stop_folder_watcher
         ])
@@ -1,122 +1,86 @@
-use anyhow::{anyhow, Context, Result};
+use anyhow::{Context, Result};
 use aes::cipher::{block_padding::Pkcs7, BlockDecryptMut, KeyInit};
 use byteorder::{LittleEndian, ReadBytesExt};
-use std::fs::{self, File};
-use std::io::{Read, Write, Cursor};
-use std::path::Path;
-use std::process::Command;
+use std::fs::File;
+use std::io::{Read, Seek, SeekFrom};
+
+use crate::decoder::{Decoder, Format};
+use crate::error::{fail, ErrorCode};
 
 type Aes128EcbDec = ecb::Decryptor<aes::Aes128>;
 
 // Core Keys for NCM Decryption
 const CORE_KEY: &[u8] = b"\x68\x7A\x48\x52\x41\x6D\x73\x6F\x35\x6B\x49\x6E\x62\x61\x78\x57";
-const MODIFY_KEY: &[u8] = b"\x23\x31\x34\x6C\x6A\x6B\x5F\x21\x5C\x5D\x26\x30\x55\x3C\x27\x28";
-
-pub fn process_ncm(file_path: &str) -> Result<()> {
-    let path = Path::new(file_path);
-    if !path.exists() {
-        return Err(anyhow!("File not found"));
-    }
-
-    let mut file = File::open(path)?;
-    let mut buffer = Vec::new();
-    file.read_to_end(&mut buffer)?;
-    let mut reader = Cursor::new(&buffer);
+const MAGIC: &[u8] = b"CTENFDAM";
+/// "neteasecloudmusic"
+const KEY_PREFIX_LENGTH: usize = 17;
+
+/// NetEase Cloud Music (.ncm). Same layout as `ncm.ts`, which also reads the
+/// metadata and cover; only the audio is needed here.
+pub const FORMAT: Format = Format {
+    name: "NCM",
+    extensions: &["ncm"],
+    matches_magic: Some(is_ncm),
+    open,
+};
+
+struct NcmDecoder {
+    key_box: [u8; 256],
+    audio_offset: u64,
+    audio_length: u64,
+}
 
-    // 1. Validate Header
-    let mut magic = [0u8; 8];
-    reader.read_exact(&mut magic)?;
-    let magic_u64 = u64::from_le_bytes(magic);
-    if magic_u64 != 0x4d4144464e455443 { // "CTENFDAM"
-        return Err(anyhow!("Invalid NCM file format"));
-    }
+fn is_ncm(head: &[u8]) -> bool {
+    head.starts_with(MAGIC)
+}
 
-    // Skip 2 bytes gap
-    reader.set_position(reader.position() + 2);
+fn open(file: &mut File, size: u64, _extension: &str) -> Result<Box<dyn Decoder>> {
+    // Magic (8) + gap (2)
+    file.seek(SeekFrom::Start(MAGIC.len() as u64 + 2))?;
 
-    // 2. Read Key
-    let key_len = reader.read_u32::<LittleEndian>()?;
+    // Key, XOR 0x64 then AES-128-ECB with CORE_KEY
+    let key_len = file.read_u32::<LittleEndian>()?;
     let mut key_data = vec![0u8; key_len as usize];
-    reader.read_exact(&mut key_data)?;
-    
-    // Decrypt Key with CORE_KEY
-    for i in 0..key_len as usize {
-        key_data[i] ^= 0x64;
+    file.read_exact(&mut key_data)?;
+    for byte in key_data.iter_mut() {
+        *byte ^= 0x64;
     }
-    
     let decrypted_key = decrypt_aes(&key_data, CORE_KEY)?;
-    // Remove "neteasecloudmusic" prefix (17 chars)
-    let rc4_key_data = &decrypted_key[17..]; 
-    let s_box = build_sbox(rc4_key_data);
-
-    // 3. Read Metadata (Skip for now, we just want audio)
-    let meta_len = reader.read_u32::<LittleEndian>()?;
-    if meta_len > 0 {
-        reader.set_position(reader.position() + meta_len as u64);
+    if decrypted_key.len() <= KEY_PREFIX_LENGTH {
+        return Err(fail(ErrorCode::KeyDecryptFailed, "NCM key is too short"));
     }
-
-    // 4. Skip CRC (4 bytes) & Gap (5 bytes)
-    reader.set_position(reader.position() + 9);
-
-    // 5. Skip Image
-    let img_len = reader.read_u32::<LittleEndian>()?;
-    if img_len > 0 {
-        reader.set_position(reader.position() + img_len as u64);
+    let key_box = build_key_box(&decrypted_key[KEY_PREFIX_LENGTH..]);
+
+    // Metadata, read by the frontend
+    let meta_len = file.read_u32::<LittleEndian>()?;
+    file.seek(SeekFrom::Current(meta_len as i64))?;
+
+    // CRC32 (4) + gap (1), then the cover frame: its length, the image length,
+    // the image and padding up to the frame length
+    file.seek(SeekFrom::Current(5))?;
+    let cover_frame_len = file.read_u32::<LittleEndian>()?;
+    let image_len = file.read_u32::<LittleEndian>()?;
+    let audio_offset = file.stream_position()? + cover_frame_len.max(image_len) as u64;
+    if audio_offset > size {
+        return Err(fail(ErrorCode::TruncatedAudio, "Unexpected end of NCM file"));
     }
 
-    // 6. Decrypt Audio Data
-    let audio_start = reader.position() as usize;
-    let mut audio_data = buffer[audio_start..].to_vec();
+    Ok(Box::new(NcmDecoder { key_box, audio_offset, audio_length: size - audio_offset }))
+}
 
-    // Apply RC4 (Custom NCM variant)
-    let mut s_box_clone = s_box.clone();
-    // Re-implementation of RC4 pseudo-random generation stage for NCM
-    // Note: Standard RC4 PRGA is slightly different, NCM uses a specific S-box mapping
-    // But actually, the key generation above prepares the S-Box. 
-    // The application logic:
-    for (i, byte) in audio_data.iter_mut().enumerate() {
-        let j = (i + 1) & 0xff;
-        *byte ^= s_box_clone[s_box_clone[j] as usize]; // Simplified NCM XOR logic
+impl Decoder for NcmDecoder {
+    fn audio_range(&self) -> (u64, u64) {
+        (self.audio_offset, self.audio_length)
     }
 
-    // 7. Determine Format (MP3 or FLAC)
-    // Check magic bytes of decrypted data
-    let is_flac = audio_data.len() > 4 && &audio_data[0..4] == b"fLaC";
-    
-    // Temporary file path
-    let temp_ext = if is_flac { "flac" } else { "mp3" };
-    let temp_path = path.with_extension(format!("temp.{}", temp_ext));
-    
-    fs::write(&temp_path, &audio_data)?;
-
-    // 8. Convert to FLAC if requested and not already FLAC
-    // The user requested "Convert to FLAC". 
-    // If it's already FLAC, just rename. If MP3, use ffmpeg.
-    
-    let final_path = path.with_extension("flac");
-
-    if is_flac {
-        fs::rename(&temp_path, &final_path)?;
-    } else {
-        // Call FFmpeg to convert MP3 (or other) to FLAC
-        let status = Command::new("ffmpeg")
-            .args(&["-y", "-i", temp_path.to_str().unwrap(), final_path.to_str().unwrap()])
-            .output();
-
-        // Clean up temp file
-        let _ = fs::remove_file(&temp_path);
-
-        match status {
-            Ok(output) => {
-                if !output.status.success() {
-                    return Err(anyhow!("FFmpeg conversion failed: {:?}", String::from_utf8_lossy(&output.stderr)));
-                }
-            },
-            Err(_) => return Err(anyhow!("FFmpeg not found. Please install FFmpeg and add to PATH.")),
+    fn decrypt(&self, data: &mut [u8], position: u64) {
+        let key_box = &self.key_box;
+        for (i, byte) in data.iter_mut().enumerate() {
+            let j = ((position + i as u64 + 1) & 0xff) as usize;
+            let k = key_box[j] as usize;
+            *byte ^= key_box[(k + key_box[(k + j) & 0xff] as usize) & 0xff];
         }
     }
-
-    Ok(())
 }
 
 fn decrypt_aes(data: &[u8], key: &[u8]) -> Result<Vec<u8>> {
@@ -124,30 +88,20 @@ fn decrypt_aes(data: &[u8], key: &[u8]) -> Result<Vec<u8>> {
     let dec: Aes128EcbDec = Aes128EcbDec::new_from_slice(key).context("Invalid key length")?;
     let mut buffer = data.to_vec();
     let decrypted = dec.decrypt_padded_mut::<Pkcs7>(&mut buffer)
-        .map_err(|e| anyhow!("AES decryption failed: {:?}", e))?;
+        .map_err(|e| fail(ErrorCode::KeyDecryptFailed, format!("NCM key could not be decrypted: {:?}", e)))?;
     Ok(decrypted.to_vec())
 }
 
-fn build_sbox(key: &[u8]) -> [u8; 256] {
-    let mut sbox = [0u8; 256];
+/// Standard RC4 key scheduling; NCM only changes how the stream is drawn from it.
+fn build_key_box(key: &[u8]) -> [u8; 256] {
+    let mut key_box = [0u8; 256];
     for i in 0..256 {
-        sbox[i] = i as u8;
+        key_box[i] = i as u8;
     }
-
-    // NCM Specific S-Box scrambling
     let mut j: u8 = 0;
     for i in 0..256 {
-        j = j.wrapping_add(sbox[i]).wrapping_add(key[i % key.len()]);
-        sbox.swap(i, j as usize);
-    }
-    
-    // NCM specific post-processing for the generation box
-    let mut final_sbox = [0u8; 256];
-    for i in 0..256 {
-        let original = sbox[i];
-        let j = sbox[(i + original as usize) & 0xff].wrapping_add(original);
-        final_sbox[i] = sbox[j as usize];
+        j = j.wrapping_add(key_box[i]).wrapping_add(key[i % key.len()]);
+        key_box.swap(i, j as usize);
     }
-    
-    final_sbox
+    key_box
 }
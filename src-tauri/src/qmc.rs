@@ -0,0 +1,279 @@
+use anyhow::Result;
+use base64::{engine::general_purpose::STANDARD, Engine as _};
+use std::fs::File;
+
+use crate::decoder::{read_at, Decoder, Format};
+use crate::error::{fail, ErrorCode};
+
+/// QQ Music (.qmc0, .qmcflac, .mflac, ...). No header: the key, if any, is
+/// appended after the audio. See `qmc.ts` for the layouts and ciphers.
+pub const FORMAT: Format = Format {
+    name: "QMC",
+    extensions: &["qmc0", "qmc2", "qmc3", "qmcflac", "mflac", "mflac0"],
+    matches_magic: None,
+    open,
+};
+
+const STATIC_BOX: [u8; 256] = [
+    0x77, 0x48, 0x32, 0x73, 0xde, 0xf2, 0xc0, 0xc8, 0x95, 0xec, 0x30, 0xb2, 0x51, 0xc3, 0xe1, 0xa0,
+    0x9e, 0xe6, 0x9d, 0xcf, 0xfa, 0x7f, 0x14, 0xd1, 0xce, 0xb8, 0xdc, 0xc3, 0x4a, 0x67, 0x93, 0xd6,
+    0x28, 0xc2, 0x91, 0x70, 0xca, 0x8d, 0xa2, 0xa4, 0xf0, 0x08, 0x61, 0x90, 0x7e, 0x6f, 0xa2, 0xe0,
+    0xeb, 0xae, 0x3e, 0xb6, 0x67, 0xc7, 0x92, 0xf4, 0x91, 0xb5, 0xf6, 0x6c, 0x5e, 0x84, 0x40, 0xf7,
+    0xf3, 0x1b, 0x02, 0x7f, 0xd5, 0xab, 0x41, 0x89, 0x28, 0xf4, 0x25, 0xcc, 0x52, 0x11, 0xad, 0x43,
+    0x68, 0xa6, 0x41, 0x8b, 0x84, 0xb5, 0xff, 0x2c, 0x92, 0x4a, 0x26, 0xd8, 0x47, 0x6a, 0x7c, 0x95,
+    0x61, 0xcc, 0xe6, 0xcb, 0xbb, 0x3f, 0x47, 0x58, 0x89, 0x75, 0xc3, 0x75, 0xa1, 0xd9, 0xaf, 0xcc,
+    0x08, 0x73, 0x17, 0xdc, 0xaa, 0x9a, 0xa2, 0x16, 0x41, 0xd8, 0xa2, 0x06, 0xc6, 0x8b, 0xfc, 0x66,
+    0x34, 0x9f, 0xcf, 0x18, 0x23, 0xa0, 0x0a, 0x74, 0xe7, 0x2b, 0x27, 0x70, 0x92, 0xe9, 0xaf, 0x37,
+    0xe6, 0x8c, 0xa7, 0xbc, 0x62, 0x65, 0x9c, 0xc2, 0x08, 0xc9, 0x88, 0xb3, 0xf3, 0x43, 0xac, 0x74,
+    0x2c, 0x0f, 0xd4, 0xaf, 0xa1, 0xc3, 0x01, 0x64, 0x95, 0x4e, 0x48, 0x9f, 0xf4, 0x35, 0x78, 0x95,
+    0x7a, 0x39, 0xd6, 0x6a, 0xa0, 0x6d, 0x40, 0xe8, 0x4f, 0xa8, 0xef, 0x11, 0x1d, 0xf3, 0x1b, 0x3f,
+    0x3f, 0x07, 0xdd, 0x6f, 0x5b, 0x19, 0x30, 0x19, 0xfb, 0xef, 0x0e, 0x37, 0xf0, 0x0e, 0xcd, 0x16,
+    0x49, 0xfe, 0x53, 0x47, 0x13, 0x1a, 0xbd, 0xa4, 0xf1, 0x40, 0x19, 0x60, 0x0e, 0xed, 0x68, 0x09,
+    0x06, 0x5f, 0x4d, 0xcf, 0x3d, 0x1a, 0xfe, 0x20, 0x77, 0xe4, 0xd9, 0xda, 0xf9, 0xa4, 0x2b, 0x76,
+    0x1c, 0x71, 0xdb, 0x00, 0xbc, 0xfd, 0x0c, 0x6c, 0xa5, 0x47, 0xf7, 0xf6, 0x00, 0x79, 0x4a, 0x11,
+];
+
+/// round(|tan(106 + i / 10)| * 100), the fixed half of the TEA key.
+const SIMPLE_KEY: [u8; 8] = [0x69, 0x56, 0x46, 0x38, 0x2b, 0x20, 0x15, 0x0b];
+const TEA_DELTA: u32 = 0x9e37_79b9;
+const TEA_ROUNDS: u32 = 16;
+const TEA_SALT_LENGTH: usize = 2;
+const TEA_ZERO_LENGTH: usize = 7;
+const ENC_V2_PREFIX: &[u8] = b"QQMusic EncV2,Key:";
+const MAX_RAW_KEY_LENGTH: u64 = 0x400;
+const MAP_CIPHER_MAX_KEY: usize = 300;
+const RC4_SEGMENT_SIZE: u64 = 5120;
+const RC4_FIRST_SEGMENT_SIZE: u64 = 128;
+
+/// Extensions that may predate key trailers; everything else must carry a key.
+const V1_EXTENSIONS: &[&str] = &["qmc0", "qmc2", "qmc3", "qmcflac"];
+
+enum Cipher {
+    Static,
+    Map(Vec<u8>),
+    Rc4(Rc4Cipher),
+}
+
+struct QmcDecoder {
+    cipher: Cipher,
+    audio_length: u64,
+}
+
+fn open(file: &mut File, size: u64, extension: &str) -> Result<Box<dyn Decoder>> {
+    let trailer = read_key_trailer(file, size)?;
+    if trailer.is_none() && !V1_EXTENSIONS.contains(&extension) {
+        return Err(fail(ErrorCode::UnsupportedFormat, "No decryption key found at the end of the QMC file"));
+    }
+    let (cipher, trailer_length) = match trailer {
+        Some((key, length)) if key.len() > MAP_CIPHER_MAX_KEY => (Cipher::Rc4(Rc4Cipher::new(key)), length),
+        Some((key, length)) => (Cipher::Map(key), length),
+        None => (Cipher::Static, 0),
+    };
+    Ok(Box::new(QmcDecoder { cipher, audio_length: size - trailer_length }))
+}
+
+/// Finds the key trailer, returning the key and how many bytes it takes off the end of the file.
+fn read_key_trailer(file: &mut File, size: u64) -> Result<Option<(Vec<u8>, u64)>> {
+    if size < 8 {
+        return Ok(None);
+    }
+    let tail = read_at(file, size - 8, 8)?;
+    match &tail[4..] {
+        b"STag" => Err(fail(ErrorCode::UnsupportedFormat, "This QMC file keeps its key in the QQ Music client")),
+        b"QTag" => {
+            let meta_len = u32::from_be_bytes([tail[0], tail[1], tail[2], tail[3]]) as u64;
+            if meta_len + 8 > size {
+                return Err(fail(ErrorCode::KeyDecryptFailed, "QMC key trailer is damaged"));
+            }
+            let meta = read_at(file, size - 8 - meta_len, meta_len as usize)?;
+            let ekey = meta.split(|&b| b == b',').next().unwrap_or_default();
+            Ok(Some((derive_key(ekey)?, meta_len + 8)))
+        }
+        _ => {
+            let key_len = u32::from_le_bytes([tail[4], tail[5], tail[6], tail[7]]) as u64;
+            if key_len == 0 || key_len > MAX_RAW_KEY_LENGTH || key_len + 4 > size {
+                return Ok(None);
+            }
+            let raw = read_at(file, size - 4 - key_len, key_len as usize)?;
+            // Keys are NUL padded at times. The last bytes of a QMCv1 file can
+            // pass for a length by chance, so an undecodable key means no key.
+            let end = raw.iter().rposition(|&b| b != 0).map_or(0, |i| i + 1);
+            Ok(derive_key(&raw[..end]).ok().map(|key| (key, key_len + 4)))
+        }
+    }
+}
+
+/// Turns the base64 "ekey" from the trailer into the cipher key.
+fn derive_key(ekey: &[u8]) -> Result<Vec<u8>> {
+    let ekey: Vec<u8> = ekey.iter().copied().filter(|b| !b.is_ascii_whitespace()).collect();
+    let raw = STANDARD.decode(ekey).map_err(|_| fail(ErrorCode::KeyDecryptFailed, "QMC key is not valid base64"))?;
+    if raw.starts_with(ENC_V2_PREFIX) {
+        return Err(fail(ErrorCode::UnsupportedFormat, "This QMC file uses a key format that needs the QQ Music client"));
+    }
+    if raw.len() < 16 {
+        return Err(fail(ErrorCode::KeyDecryptFailed, "QMC key is too short"));
+    }
+    let mut tea_key = [0u8; 16];
+    for i in 0..8 {
+        tea_key[i * 2] = SIMPLE_KEY[i];
+        tea_key[i * 2 + 1] = raw[i];
+    }
+    let mut key = raw[..8].to_vec();
+    key.extend(tc_tea_decrypt(&raw[8..], &tea_key)?);
+    Ok(key)
+}
+
+fn tea_decrypt_block(block: &mut [u8; 8], key: &[u32; 4]) {
+    let mut v0 = u32::from_be_bytes([block[0], block[1], block[2], block[3]]);
+    let mut v1 = u32::from_be_bytes([block[4], block[5], block[6], block[7]]);
+    let mut sum = TEA_DELTA.wrapping_mul(TEA_ROUNDS);
+    for _ in 0..TEA_ROUNDS {
+        v1 = v1.wrapping_sub(
+            (v0 << 4).wrapping_add(key[2]) ^ v0.wrapping_add(sum) ^ (v0 >> 5).wrapping_add(key[3]),
+        );
+        v0 = v0.wrapping_sub(
+            (v1 << 4).wrapping_add(key[0]) ^ v1.wrapping_add(sum) ^ (v1 >> 5).wrapping_add(key[1]),
+        );
+        sum = sum.wrapping_sub(TEA_DELTA);
+    }
+    block[..4].copy_from_slice(&v0.to_be_bytes());
+    block[4..].copy_from_slice(&v1.to_be_bytes());
+}
+
+/// Tencent's TEA-CBC: pad length, salt and a zero tail wrap the payload.
+fn tc_tea_decrypt(data: &[u8], key: &[u8; 16]) -> Result<Vec<u8>> {
+    if data.len() % 8 != 0 || data.len() < 16 {
+        return Err(fail(ErrorCode::KeyDecryptFailed, "QMC key has an invalid length"));
+    }
+    let mut words = [0u32; 4];
+    for (i, word) in words.iter_mut().enumerate() {
+        *word = u32::from_be_bytes([key[i * 4], key[i * 4 + 1], key[i * 4 + 2], key[i * 4 + 3]]);
+    }
+    let mut plain = vec![0u8; data.len()];
+    let mut state = [0u8; 8];
+    for offset in (0..data.len()).step_by(8) {
+        for i in 0..8 {
+            state[i] ^= data[offset + i];
+        }
+        tea_decrypt_block(&mut state, &words);
+        for i in 0..8 {
+            plain[offset + i] = state[i] ^ if offset > 0 { data[offset - 8 + i] } else { 0 };
+        }
+    }
+    let start = 1 + (plain[0] & 0x7) as usize + TEA_SALT_LENGTH;
+    let end = plain.len() - TEA_ZERO_LENGTH;
+    if end < start || plain[end..].iter().any(|&b| b != 0) {
+        return Err(fail(ErrorCode::KeyDecryptFailed, "QMC key could not be decrypted"));
+    }
+    Ok(plain[start..end].to_vec())
+}
+
+/// QMCv1 and the map cipher fold positions past 0x7fff back into the table.
+fn fold_position(position: u64) -> u64 {
+    if position > 0x7fff { position % 0x7fff } else { position }
+}
+
+/// QQ Music's RC4 variant: the stream restarts from the initial box every
+/// segment, skipping ahead by an amount derived from the key.
+struct Rc4Cipher {
+    key: Vec<u8>,
+    key_box: Vec<u8>,
+    hash: u32,
+}
+
+impl Rc4Cipher {
+    fn new(key: Vec<u8>) -> Self {
+        let n = key.len();
+        // The reference implementation keeps the box in bytes, so entries past 255 wrap.
+        let mut key_box: Vec<u8> = (0..n).map(|i| i as u8).collect();
+        let mut j = 0;
+        for i in 0..n {
+            j = (j + key_box[i] as usize + key[i] as usize) % n;
+            key_box.swap(i, j);
+        }
+        let mut hash: u32 = 1;
+        for &value in &key {
+            if value == 0 {
+                continue;
+            }
+            let next = hash.wrapping_mul(value as u32);
+            if next == 0 || next <= hash {
+                break;
+            }
+            hash = next;
+        }
+        Rc4Cipher { key, key_box, hash }
+    }
+
+    fn segment_skip(&self, id: u64) -> usize {
+        let n = self.key.len();
+        let seed = self.key[(id % n as u64) as usize];
+        if seed == 0 {
+            return 0;
+        }
+        ((self.hash as f64 / ((id + 1) as f64 * seed as f64)) * 100.0) as usize % n
+    }
+
+    fn first_segment(&self, data: &mut [u8], position: u64) {
+        for (i, byte) in data.iter_mut().enumerate() {
+            *byte ^= self.key[self.segment_skip(position + i as u64)];
+        }
+    }
+
+    fn segment(&self, data: &mut [u8], position: u64) {
+        let n = self.key.len();
+        let mut state = self.key_box.clone();
+        let (mut j, mut k) = (0usize, 0usize);
+        let skip = (position % RC4_SEGMENT_SIZE) as usize + self.segment_skip(position / RC4_SEGMENT_SIZE);
+        for i in 0..skip + data.len() {
+            j = (j + 1) % n;
+            k = (state[j] as usize + k) % n;
+            state.swap(j, k);
+            if i >= skip {
+                data[i - skip] ^= state[(state[j] as usize + state[k] as usize) % n];
+            }
+        }
+    }
+
+    fn decrypt(&self, data: &mut [u8], position: u64) {
+        let mut offset = 0usize;
+        if position < RC4_FIRST_SEGMENT_SIZE {
+            let length = data.len().min((RC4_FIRST_SEGMENT_SIZE - position) as usize);
+            self.first_segment(&mut data[..length], position);
+            offset = length;
+        }
+        // The rest is cut at segment boundaries, each starting from a fresh copy of the box
+        while offset < data.len() {
+            let at = position + offset as u64;
+            let length = (data.len() - offset).min((RC4_SEGMENT_SIZE - at % RC4_SEGMENT_SIZE) as usize);
+            self.segment(&mut data[offset..offset + length], at);
+            offset += length;
+        }
+    }
+}
+
+impl Decoder for QmcDecoder {
+    fn audio_range(&self) -> (u64, u64) {
+        (0, self.audio_length)
+    }
+
+    fn decrypt(&self, data: &mut [u8], position: u64) {
+        match &self.cipher {
+            Cipher::Static => {
+                for (i, byte) in data.iter_mut().enumerate() {
+                    let offset = fold_position(position + i as u64);
+                    *byte ^= STATIC_BOX[((offset * offset + 27) & 0xff) as usize];
+                }
+            }
+            Cipher::Map(key) => {
+                for (i, byte) in data.iter_mut().enumerate() {
+                    let offset = fold_position(position + i as u64);
+                    let index = ((offset * offset + 71214) % key.len() as u64) as usize;
+                    let shift = ((index & 0x7) + 4) % 8;
+                    *byte ^= (key[index] << shift) | (key[index] >> shift);
+                }
+            }
+            Cipher::Rc4(cipher) => cipher.decrypt(data, position),
+        }
+    }
+}
@@ -1,42 +1,173 @@
-use notify::{Config, Event, RecommendedWatcher, RecursiveMode, Watcher};
-use std::path::Path;
-use std::sync::mpsc;
+use notify::event::ModifyKind;
+use notify::{Config, Event, EventKind, RecommendedWatcher, RecursiveMode, Watcher};
+use serde::Serialize;
+use std::collections::{HashMap, HashSet};
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::sync::mpsc::{self, RecvTimeoutError};
 use std::thread;
+use std::time::{Duration, Instant};
+use walkdir::WalkDir;
+
+use crate::decoder;
+
+/// How often files that are still being written get re-checked.
+const POLL_INTERVAL: Duration = Duration::from_millis(500);
+/// A file counts as complete once its size has not changed for this long.
+const SETTLE_TIME: Duration = Duration::from_secs(2);
+
+/// Payload of the `app:file-detected` event. Mirrors `DetectedFile` in `types.ts`.
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct DetectedFile {
+    pub path: String,
+    pub name: String,
+    pub size: u64,
+    /// The watched, dropped or picked folder the file was found in.
+    pub root: String,
+}
+
+impl DetectedFile {
+    fn new(path: &Path, size: u64, root: &Path) -> Self {
+        DetectedFile {
+            path: path.to_string_lossy().into_owned(),
+            name: path.file_name().map(|n| n.to_string_lossy().into_owned()).unwrap_or_default(),
+            size,
+            root: root.to_string_lossy().into_owned(),
+        }
+    }
+}
+
+/// Expands dropped files and folders into the supported files they contain,
+/// searching folders recursively. A dropped file counts as found in its parent
+/// folder. Unreadable entries are left out; each file is listed once.
+pub fn scan(paths: &[String]) -> Vec<DetectedFile> {
+    let mut seen = HashSet::new();
+    let mut found = Vec::new();
+    for path in paths.iter().map(Path::new) {
+        let root = if path.is_dir() { path } else { path.parent().unwrap_or(path) };
+        let entries = WalkDir::new(path).follow_links(true).sort_by_file_name();
+        for entry in entries.into_iter().filter_map(Result::ok) {
+            let Ok(meta) = entry.metadata() else { continue };
+            if meta.is_file() && decoder::is_supported(entry.path()) && seen.insert(entry.path().to_path_buf()) {
+                found.push(DetectedFile::new(entry.path(), meta.len(), root));
+            }
+        }
+    }
+    found
+}
+
+/// A `.lrc` lyrics sidecar. Mirrors `LyricsSidecar` in `types.ts`.
+#[derive(Debug, Clone, Serialize)]
+pub struct LyricsFile {
+    pub path: String,
+    pub name: String,
+}
+
+/// Lists the lyrics sidecars directly inside each of `folders`, sorted by
+/// name. Unreadable folders are left out.
+pub fn list_lyrics(folders: &[String]) -> Vec<LyricsFile> {
+    let mut found = Vec::new();
+    for folder in folders {
+        let Ok(entries) = fs::read_dir(folder) else { continue };
+        let mut lyrics: Vec<LyricsFile> = entries
+            .filter_map(Result::ok)
+            .map(|entry| entry.path())
+            .filter(|path| path.is_file() && path.extension().is_some_and(|ext| ext.eq_ignore_ascii_case("lrc")))
+            .map(|path| LyricsFile {
+                name: path.file_name().map(|n| n.to_string_lossy().into_owned()).unwrap_or_default(),
+                path: path.to_string_lossy().into_owned(),
+            })
+            .collect();
+        lyrics.sort_by(|a, b| a.name.cmp(&b.name));
+        found.extend(lyrics);
+    }
+    found
+}
+
+/// A FLAC or MP3 file already in the output library. Mirrors `LibraryFile` in `duplicates.ts`.
+#[derive(Debug, Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct LibraryFile {
+    pub path: String,
+    pub size: u64,
+    /// Milliseconds since the epoch; 0 where the filesystem does not tell.
+    pub modified_at: u64,
+}
+
+/// Lists the FLAC and MP3 files in each of `folders`, searching subfolders
+/// when `recursive`. Unreadable entries are left out; each file is listed once.
+pub fn list_outputs(folders: &[String], recursive: bool) -> Vec<LibraryFile> {
+    let mut seen = HashSet::new();
+    let mut found = Vec::new();
+    for folder in folders {
+        let entries = WalkDir::new(folder).follow_links(true).max_depth(if recursive { usize::MAX } else { 1 }).sort_by_file_name();
+        for entry in entries.into_iter().filter_map(Result::ok) {
+            let path = entry.path();
+            let is_output = path.extension().is_some_and(|ext| ext.eq_ignore_ascii_case("flac") || ext.eq_ignore_ascii_case("mp3"));
+            let Ok(meta) = entry.metadata() else { continue };
+            if !meta.is_file() || !is_output || !seen.insert(path.to_path_buf()) {
+                continue;
+            }
+            let modified_at = meta
+                .modified()
+                .ok()
+                .and_then(|time| time.duration_since(std::time::UNIX_EPOCH).ok())
+                .map_or(0, |age| age.as_millis() as u64);
+            found.push(LibraryFile { path: path.to_string_lossy().into_owned(), size: meta.len(), modified_at });
+        }
+    }
+    found
+}
+
+/// A new encrypted file whose size has not settled yet.
+struct PendingFile {
+    size: Option<u64>,
+    changed_at: Instant,
+}
 
 pub struct FolderWatcher {
     watcher: RecommendedWatcher,
 }
 
 impl FolderWatcher {
-    pub fn new<F>(path_str: String, callback: F) -> anyhow::Result<Self> 
-    where F: Fn(std::path::PathBuf) + Send + 'static
+    /// Watches `path_str` and calls `callback` once per new encrypted file, after the
+    /// download client has finished writing it.
+    pub fn new<F>(path_str: String, recursive: bool, callback: F) -> anyhow::Result<Self>
+    where F: Fn(DetectedFile) + Send + 'static
     {
         let (tx, rx) = mpsc::channel();
-        
+
         // Initialize watcher
         let mut watcher = RecommendedWatcher::new(tx, Config::default())?;
-        
+
         // Start watching
-        let path = Path::new(&path_str);
-        watcher.watch(path, RecursiveMode::NonRecursive)?;
+        let root = PathBuf::from(path_str);
+        let mode = if recursive { RecursiveMode::Recursive } else { RecursiveMode::NonRecursive };
+        watcher.watch(&root, mode)?;
 
         // Spawn a thread to handle events
         thread::spawn(move || {
-            for res in rx {
-                match res {
-                    Ok(event) => {
-                        // We only care about Create events for .ncm files
-                        if let notify::EventKind::Create(_) = event.kind {
-                             for path in event.paths {
-                                 if let Some(ext) = path.extension() {
-                                     if ext == "ncm" {
-                                         callback(path);
-                                     }
-                                 }
-                             }
-                        }
-                    },
-                    Err(e) => println!("Watch error: {:?}", e),
+            let mut pending: HashMap<PathBuf, PendingFile> = HashMap::new();
+            // Create and rename events often arrive in pairs; report each file once
+            let mut reported: HashSet<PathBuf> = HashSet::new();
+            let mut last_check = Instant::now();
+
+            loop {
+                match rx.recv_timeout(POLL_INTERVAL) {
+                    Ok(Ok(event)) => track_event(event, &mut pending, &mut reported),
+                    Ok(Err(e)) => println!("Watch error: {:?}", e),
+                    Err(RecvTimeoutError::Timeout) => {}
+                    // The watcher was dropped (stopped, or replaced by another folder)
+                    Err(RecvTimeoutError::Disconnected) => break,
+                }
+
+                if last_check.elapsed() >= POLL_INTERVAL {
+                    last_check = Instant::now();
+                    for file in settle(&mut pending, &root) {
+                        reported.insert(PathBuf::from(&file.path));
+                        callback(file);
+                    }
                 }
             }
         });
@@ -44,3 +175,59 @@ impl FolderWatcher {
         Ok(FolderWatcher { watcher })
     }
 }
+
+fn track_event(event: Event, pending: &mut HashMap<PathBuf, PendingFile>, reported: &mut HashSet<PathBuf>) {
+    match event.kind {
+        // Download clients often write "song.ncm.part" and rename it when done,
+        // so a rename onto a supported name counts as a new file too.
+        EventKind::Create(_) | EventKind::Modify(ModifyKind::Name(_)) => {
+            for path in event.paths {
+                if !path.exists() {
+                    // The old side of a rename
+                    pending.remove(&path);
+                    reported.remove(&path);
+                } else if decoder::is_supported(&path) && !reported.contains(&path) {
+                    pending.insert(path, PendingFile { size: None, changed_at: Instant::now() });
+                }
+            }
+        }
+        EventKind::Modify(_) => {
+            for path in event.paths {
+                if let Some(file) = pending.get_mut(&path) {
+                    file.changed_at = Instant::now();
+                }
+            }
+        }
+        // A file deleted and downloaded again should be picked up again
+        EventKind::Remove(_) => {
+            for path in event.paths {
+                pending.remove(&path);
+                reported.remove(&path);
+            }
+        }
+        _ => {}
+    }
+}
+
+/// Removes and returns the pending files whose size has been stable for `SETTLE_TIME`.
+fn settle(pending: &mut HashMap<PathBuf, PendingFile>, root: &Path) -> Vec<DetectedFile> {
+    let now = Instant::now();
+    let mut ready = Vec::new();
+    pending.retain(|path, file| {
+        let size = match fs::metadata(path) {
+            Ok(meta) if meta.is_file() => meta.len(),
+            _ => return false,
+        };
+        if file.size != Some(size) {
+            file.size = Some(size);
+            file.changed_at = now;
+            return true;
+        }
+        if size == 0 || now.duration_since(file.changed_at) < SETTLE_TIME {
+            return true;
+        }
+        ready.push(DetectedFile::new(path, size, root));
+        false
+    });
+    ready
+}
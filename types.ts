@@ -2,18 +2,126 @@ export enum ConversionStatus {
   IDLE = 'IDLE',
   PENDING = 'PENDING',
   CONVERTING = 'CONVERTING',
+  TAGGING = 'TAGGING',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED', // stopped by the user while converting
+  SKIPPED = 'SKIPPED', // left out by the user, or the output already existed
+}
+
+/** Why a conversion failed. Both backends report these; see conversionErrors.ts for the hints shown to users. */
+export enum ConversionErrorCode {
+  NOT_FOUND = 'NOT_FOUND', // the source is gone or unreachable
+  UNSUPPORTED_FORMAT = 'UNSUPPORTED_FORMAT', // unknown extension, or a variant of a format we cannot decrypt
+  BAD_MAGIC = 'BAD_MAGIC', // the header does not match the extension
+  KEY_DECRYPT_FAILED = 'KEY_DECRYPT_FAILED',
+  TRUNCATED_AUDIO = 'TRUNCATED_AUDIO', // the file ends early, usually an interrupted download
+  FFMPEG_MISSING = 'FFMPEG_MISSING',
+  FFMPEG_FAILED = 'FFMPEG_FAILED',
+  NEEDS_DESKTOP = 'NEEDS_DESKTOP', // transcoding asked for in the browser
+  TAGGING_FAILED = 'TAGGING_FAILED',
+  WRITE_DENIED = 'WRITE_DENIED',
+  DISK_FULL = 'DISK_FULL',
+  CANCELLED = 'CANCELLED',
+  UNKNOWN = 'UNKNOWN',
+}
+
+export interface ConversionError {
+  code: ConversionErrorCode;
+  message: string; // technical message, for the details view and the logs
+  details?: Record<string, string>; // e.g. the path that could not be written, FFmpeg's exit code
+}
+
+export enum VerificationStatus {
+  VERIFIED = 'VERIFIED', // every frame checked out and the length matches
+  SUSPECT = 'SUSPECT', // noise, a cut-off stream or the wrong length; see `reason`
+}
+
+/** Outcome of checking a finished output; see verify.ts. */
+export interface Verification {
+  status: VerificationStatus;
+  reason?: string; // why the output is suspect
+  durationMs?: number; // length of the audio that was found
+}
+
+export type InnerFormat = 'flac' | 'mp3';
+
+/** Encrypted download format of a source file; see decoders.ts. */
+export type SourceFormat = 'ncm' | 'qmc' | 'kgm' | 'kwm';
+
+/** Track details decrypted from the NCM "163 key" metadata block. */
+export interface TrackMetadata {
+  musicId?: number;
+  title: string;
+  artists: string[];
+  album: string;
+  durationMs: number;
+  bitrate: number; // bits per second, as reported by NetEase
+  format: InnerFormat;
+}
+
+/** A `.lrc` file found next to a source; see lyrics.ts. */
+export interface LyricsSidecar {
+  name: string;
+  path: string; // same form as `AudioFile.path`: absolute on the desktop, relative in the browser
+  source?: File; // Browser file handle
+}
+
+/** EBU R128 loudness of an output and the ReplayGain 2.0 gains derived from it; see loudness.ts. */
+export interface Loudness {
+  integratedLufs: number;
+  truePeak: number; // linear, 1 is full scale
+  trackGainDb: number; // brings the track to -18 LUFS
+  albumGainDb?: number; // set once the batch has finished, for tracks with album details
+  albumPeak?: number;
+  blocks: Float64Array; // energies of the gating blocks above the absolute gate, pooled for the album
 }
 
 export interface AudioFile {
   id: string;
   name: string;
   path: string;
+  root?: string; // folder it was picked, dropped or watched in; a session can mix several
   size: number;
+  format?: SourceFormat; // from the extension
   status: ConversionStatus;
-  progress: number; // 0 to 100
+  progress: number; // 0 to 100, within `stage` while converting
+  stage?: ConversionStage; // latest stage reported for an active conversion
   errorMessage?: string;
+  error?: ConversionError; // set together with errorMessage when the conversion failed
+  source?: File; // Browser file handle, used by the in-browser decoder
+  outputName?: string;
+  outputStem?: string; // planned output path relative to the output directory, without extension
+  outputPath?: string; // absolute path of the written output (Tauri only)
+  outputSize?: number; // bytes of the finished output
+  verification?: Verification; // FLAC and MP3 outputs only
+  loudness?: Loudness; // when loudness analysis is on and the output is not silent
+  operations?: FileOperation[]; // destructive steps of the latest conversion
+  note?: string; // shown next to the status, e.g. why the file was skipped
+  fingerprint?: string; // see `fingerprint()` in historyStore.ts
+  metadata?: TrackMetadata;
+  innerFormat?: InnerFormat; // sniffed from the decrypted stream when outputs are planned; decides the output extension
+  coverUrl?: string; // Object URL of the embedded album image
+  lyrics?: LyricsSidecar; // matched by file name or, once read, by metadata
+  priority?: number; // higher runs first; ties keep queue order
+  identity?: AudioIdentity; // read when looking for duplicates
+  overwritePolicy?: OverwritePolicy; // overrides the batch setting, as chosen for a duplicate
+  replaces?: string; // lower-bitrate copy in the library, trashed once this output checks out
+  startedAt?: number; // when the latest conversion attempt started
+  finishedAt?: number; // when it ended, whatever the outcome
+}
+
+export interface ConversionResult {
+  success: boolean;
+  message?: string;
+  error?: ConversionError; // set when `success` is false
+  outputName?: string;
+  outputPath?: string;
+  outputSize?: number; // bytes of the finished output
+  verification?: Verification;
+  loudness?: Loudness;
+  operations?: FileOperation[];
+  skipped?: boolean; // output already existed and the overwrite policy is "skip"
 }
 
 export interface AppStats {
@@ -28,9 +136,196 @@ export interface FolderConfig {
   isWatching: boolean;
 }
 
+export enum OutputFormat {
+  FLAC = 'flac',
+  ORIGINAL = 'original', // keep the decrypted stream as-is (FLAC or MP3)
+  MP3_320 = 'mp3_320',
+  OGG_VORBIS = 'ogg_vorbis',
+  WAV = 'wav',
+}
+
+export enum OverwritePolicy {
+  OVERWRITE = 'overwrite',
+  SKIP = 'skip',
+  RENAME = 'rename', // "Song (1).flac"
+}
+
+/** What happens to a source once its output has been written and checked; see safety.ts. */
+export enum SourceAction {
+  KEEP = 'keep',
+  ARCHIVE = 'archive', // moved into `archiveDirectory`, keeping its folders below the picked or watched root
+  TRASH = 'trash', // sent to the system trash, where it can be restored from
+}
+
+/**
+ * Something a conversion did that converting again cannot take back. Each is
+ * logged, with where the file can be restored from when it still exists.
+ */
+export interface FileOperation {
+  kind: 'replaced' | 'archived' | 'trashed'; // an existing output trashed and overwritten, or the source moved away
+  path: string; // the file affected
+  undoPath?: string; // where the archived source or the trashed output now is, where that is known
+}
+
+/** What to do with copies of the same track; see duplicates.ts. */
+export enum DuplicatePolicy {
+  SKIP = 'skip', // convert one queued copy, none when the library has the track already
+  KEEP_BOTH = 'keep-both', // convert every copy, under a new name where the library has one
+  REPLACE_LOWER_BITRATE = 'replace-lower-bitrate', // convert the best copy only, replacing a worse one in the library
+}
+
+/** What tells copies of a track apart from other tracks: its NetEase id and its audio. */
+export interface AudioIdentity {
+  musicId?: number; // from the NCM metadata of a source, or the tags of an output
+  fingerprint: string | null; // SHA-256 of audio frames; null when they could not be found
+  bitrate: number; // bits per second; 0 when unknown
+}
+
+/** A FLAC or MP3 file already in the output library. */
+export interface LibraryTrack extends AudioIdentity {
+  path: string;
+  size: number;
+}
+
+/** Copies of one track: queued files, and the copy in the library if there is one. */
+export interface DuplicateGroup {
+  id: string;
+  match: 'music-id' | 'audio'; // the same NetEase id, or the same audio under different ids or none
+  fileIds: string[]; // in queue order
+  library: LibraryTrack | null;
+}
+
+/** What happens to matched lyrics. Outputs without tags (Ogg Vorbis, WAV) get a sidecar when asked to embed. */
+export enum LyricsAction {
+  EMBED = 'embed', // LYRICS Vorbis comment, or ID3 USLT and SYLT frames
+  SIDECAR = 'sidecar', // copied next to the output under its name, as .lrc
+  BOTH = 'both',
+  IGNORE = 'ignore',
+}
+
+/** Playlists written once a batch has finished; see playlist.ts. */
+export enum PlaylistMode {
+  NONE = 'none',
+  ALBUM = 'album', // one per album, next to its tracks
+  SESSION = 'session', // one for everything converted since the queue was last cleared
+}
+
+export interface ConversionSettings {
+  outputFormat: OutputFormat;
+  outputDirectory: string | null; // null = next to the source file
+  overwritePolicy: OverwritePolicy;
+  sourceAction: SourceAction;
+  archiveDirectory: string | null; // where `SourceAction.ARCHIVE` moves sources
+  concurrency: number; // files converted in parallel
+  watchRecursive: boolean; // watch mode also picks up files in subfolders
+  filenameTemplate: string; // see filenameTemplate.ts, e.g. "{artists} - {title}"
+  lyricsAction: LyricsAction;
+  playlistMode: PlaylistMode;
+  organiseByAlbum: boolean; // move outputs into Artist/Album folders once a batch has finished
+  analyseLoudness: boolean; // measure outputs and write ReplayGain tags; see loudness.ts
+  duplicatePolicy: DuplicatePolicy; // preselected in the duplicates review
+}
+
+/** What a batch would do with one file; see planner.ts. */
+export type PlanAction = 'convert' | 'passthrough' | 'skip' | 'overwrite';
+
+export interface PlanEntry {
+  fileId: string;
+  sourcePath: string;
+  outputPath: string; // absolute in Tauri, the download name in the browser
+  innerFormat: InnerFormat | null; // null when the source header is unreadable
+  action: PlanAction;
+  conflicts: string[];
+}
+
+/** Dry run of a batch: computed without writing anything. */
+export interface ConversionPlan {
+  createdAt: number;
+  settings: ConversionSettings;
+  entries: PlanEntry[];
+}
+
+/** What happened to one file of a batch; see batchReport.ts. */
+export interface ReportEntry {
+  sourcePath: string;
+  sourceName: string;
+  sourceFormat: SourceFormat | null;
+  innerFormat: InnerFormat | null; // null when the source header was never read
+  sizeIn: number; // bytes
+  sizeOut: number | null; // bytes, null without an output
+  durationMs: number | null;
+  outputPath: string | null; // absolute in Tauri, the download name in the browser
+  status: ConversionStatus;
+  errorCode: ConversionErrorCode | null;
+  errorMessage: string | null;
+  verification: VerificationStatus | null;
+  verificationReason: string | null;
+  startedAt: number | null;
+  finishedAt: number | null;
+  elapsedMs: number | null;
+}
+
+/** Audit trail of a batch, exported as JSON or CSV. */
+export interface BatchReport {
+  createdAt: number;
+  folder: string | null;
+  settings: ConversionSettings;
+  stats: AppStats;
+  entries: ReportEntry[];
+}
+
+/** One run of the queue: a "Start Conversion" click or a watch mode session. */
+export interface HistoryBatch {
+  id: string;
+  folder: string | null;
+  startedAt: number;
+}
+
+/** Outcome of one file in a batch, persisted across app restarts. */
+export interface HistoryRecord {
+  id?: number; // assigned by the store
+  batchId: string;
+  sourcePath: string;
+  sourceName: string;
+  fingerprint: string;
+  status: ConversionStatus; // COMPLETED, FAILED, SKIPPED or CANCELLED
+  outputName?: string;
+  outputPath?: string;
+  settings: ConversionSettings;
+  startedAt: number;
+  finishedAt: number;
+  errorMessage?: string;
+  errorCode?: ConversionErrorCode;
+  operations?: FileOperation[]; // what happened to the source and any previous output
+}
+
+/**
+ * An encrypted file found on disk: reported by the folder watcher once it is
+ * fully written, or found in files and folders dropped onto the window.
+ */
+export interface DetectedFile {
+  path: string;
+  name: string;
+  size: number;
+  root: string; // the watched or dropped folder; the parent folder of a dropped file
+}
+
+/** A drag of files over the window, as reported by the desktop shell. */
+export type DropEvent =
+  | { type: 'enter' }
+  | { type: 'leave' }
+  | { type: 'drop'; files: DetectedFile[] };
+
+/**
+ * Steps of one conversion, in order. Transcoding only runs when the output
+ * format differs from the decrypted stream, tagging only for formats with tags to copy.
+ */
+export type ConversionStage = 'reading' | 'key' | 'decrypting' | 'transcoding' | 'tagging' | 'analysing';
+
+/** Progress within one stage, in bytes; `processedBytes` reaches `totalBytes` as the stage ends. */
 export interface ProgressEventPayload {
   id: string;
-  progress: number;
-  status?: 'processing' | 'completed' | 'error';
-  message?: string;
+  stage: ConversionStage;
+  processedBytes: number;
+  totalBytes: number;
 }
\ No newline at end of file
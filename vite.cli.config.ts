@@ -0,0 +1,14 @@
+import { defineConfig } from 'vite';
+
+// Bundles the command-line tool into a single Node script: `npm run build:cli`.
+export default defineConfig({
+  build: {
+    ssr: 'cli/sonictransmute.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: { entryFileNames: 'sonictransmute.js' },
+    },
+  },
+});